@@ -0,0 +1,47 @@
+-- Migration: Add Search Indexes
+-- Created: 2026-10-19
+-- Description: GIN expression indexes for the full-text and trigram candidate filters of
+-- src/services/search.ts. Index expressions must match the filters there exactly.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- unaccent() is only STABLE (its dictionary could change); pinning the dictionary makes
+-- it safe to use in index expressions
+CREATE OR REPLACE FUNCTION search_unaccent(text) RETURNS text
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+  AS $$ SELECT public.unaccent('public.unaccent'::regdictionary, $1) $$;
+
+-- Every string of a JSON value (all languages, nested block data included), lowercased and
+-- accent-folded; '' for NULL so concatenations never become NULL
+CREATE OR REPLACE FUNCTION search_text(jsonb) RETURNS text
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE
+  AS $$
+    SELECT coalesce(lower(search_unaccent(string_agg(value #>> '{}', ' '))), '')
+    FROM jsonb_path_query(coalesce($1, 'null'::jsonb), 'strict $.**') AS value
+    WHERE jsonb_typeof(value) = 'string'
+  $$;
+
+-- News articles
+CREATE INDEX IF NOT EXISTS "news_articles_search_idx" ON "news_articles" USING GIN (
+  to_tsvector('simple', search_text(title) || ' ' || search_text(keywords) || ' ' || search_text(excerpt) || ' ' || search_text(blocks))
+);
+CREATE INDEX IF NOT EXISTS "news_articles_search_trgm_idx" ON "news_articles" USING GIN (
+  (search_text(title) || ' ' || search_text(keywords)) gin_trgm_ops
+);
+
+-- Content
+CREATE INDEX IF NOT EXISTS "content_search_idx" ON "content" USING GIN (
+  to_tsvector('simple', search_text(title) || ' ' || search_text(excerpt) || ' ' || search_text(content))
+);
+CREATE INDEX IF NOT EXISTS "content_search_trgm_idx" ON "content" USING GIN (
+  search_text(title) gin_trgm_ops
+);
+
+-- Merch products
+CREATE INDEX IF NOT EXISTS "merch_products_search_idx" ON "merch_products" USING GIN (
+  to_tsvector('simple', search_text(name) || ' ' || search_text("searchKeywords") || ' ' || search_text("shortDescription") || ' ' || search_text(description))
+);
+CREATE INDEX IF NOT EXISTS "merch_products_search_trgm_idx" ON "merch_products" USING GIN (
+  (search_text(name) || ' ' || search_text("searchKeywords")) gin_trgm_ops
+);
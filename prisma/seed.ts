@@ -64,6 +64,39 @@ async function seed() {
       { resource: 'content', action: 'delete', name: 'Delete Content' },
       { resource: 'content', action: 'publish', name: 'Publish Content' },
 
+      // News management
+      { resource: 'news', action: 'create', name: 'Create News' },
+      { resource: 'news', action: 'read', name: 'Read News' },
+      { resource: 'news', action: 'update', name: 'Update News' },
+      { resource: 'news', action: 'delete', name: 'Delete News' },
+      { resource: 'news', action: 'publish', name: 'Publish News' },
+
+      // Merch management
+      { resource: 'merch', action: 'create', name: 'Create Merch' },
+      { resource: 'merch', action: 'read', name: 'Read Merch' },
+      { resource: 'merch', action: 'update', name: 'Update Merch' },
+      { resource: 'merch', action: 'delete', name: 'Delete Merch' },
+
+      // Category management (news and merch)
+      { resource: 'category', action: 'create', name: 'Create Categories' },
+      { resource: 'category', action: 'update', name: 'Update Categories' },
+      { resource: 'category', action: 'delete', name: 'Delete Categories' },
+
+      // Tags (shared by news and content)
+      { resource: 'tag', action: 'create', name: 'Create Tags' },
+      { resource: 'tag', action: 'update', name: 'Update Tags' },
+      { resource: 'tag', action: 'delete', name: 'Delete Tags' },
+
+      // Author profiles (public bylines)
+      { resource: 'author', action: 'create', name: 'Create Author Profiles' },
+      { resource: 'author', action: 'update', name: 'Update Author Profiles' },
+      { resource: 'author', action: 'delete', name: 'Delete Author Profiles' },
+
+      // Tenant management
+      { resource: 'tenant', action: 'create', name: 'Create Tenants' },
+      { resource: 'tenant', action: 'update', name: 'Update Tenants' },
+      { resource: 'tenant', action: 'delete', name: 'Delete Tenants' },
+
       // Media management
       { resource: 'media', action: 'create', name: 'Upload Media' },
       { resource: 'media', action: 'read', name: 'Read Media' },
@@ -82,6 +115,9 @@ async function seed() {
 
       // Webhook management
       { resource: 'webhook', action: 'manage', name: 'Manage Webhooks' },
+
+      // Audit trail
+      { resource: 'audit', action: 'read', name: 'Read Audit Logs' },
     ];
 
     const createdPermissions = [];
@@ -195,7 +231,10 @@ async function seed() {
 
     // Admin gets most permissions (excluding super admin features)
     const adminPermissions = createdPermissions.filter(
-      p => !['api:manage', 'webhook:manage'].includes(`${p.resource}:${p.action}`)
+      p =>
+        !['api:manage', 'webhook:manage', 'tenant:create', 'tenant:delete'].includes(
+          `${p.resource}:${p.action}`
+        )
     );
     for (const permission of adminPermissions) {
       await prisma.rolePermission.upsert({
@@ -213,9 +252,9 @@ async function seed() {
       });
     }
 
-    // Editor gets content and media permissions
+    // Editor gets content, news, merch, category, tag, author and media permissions
     const editorPermissions = createdPermissions.filter(p =>
-      ['content', 'media'].includes(p.resource)
+      ['content', 'news', 'merch', 'category', 'tag', 'author', 'media'].includes(p.resource)
     );
     for (const permission of editorPermissions) {
       await prisma.rolePermission.upsert({
@@ -233,9 +272,10 @@ async function seed() {
       });
     }
 
-    // Author gets limited content permissions
+    // Author gets limited content and news permissions (no publishing or deleting)
     const authorPermissions = createdPermissions.filter(
-      p => p.resource === 'content' && ['create', 'read', 'update'].includes(p.action)
+      p =>
+        ['content', 'news'].includes(p.resource) && ['create', 'read', 'update'].includes(p.action)
     );
     for (const permission of authorPermissions) {
       await prisma.rolePermission.upsert({
@@ -0,0 +1,76 @@
+import { redisClient } from '@/database/redis';
+import { AppError, ErrorType } from '@/types';
+import { generateSecureToken, hashToken } from '@/utils';
+
+/**
+ * Purposes of single-use account tokens sent by email
+ */
+export type AccountTokenPurpose = 'password-reset' | 'email-verification';
+
+/**
+ * Lifetime of each token purpose in seconds
+ */
+export const ACCOUNT_TOKEN_TTL: Record<AccountTokenPurpose, number> = {
+  'password-reset': 60 * 60, // 1 hour
+  'email-verification': 24 * 60 * 60, // 24 hours
+};
+
+interface AccountTokenRecord {
+  userId: string;
+  tenantId: string;
+  email: string;
+}
+
+const tokenKey = (purpose: AccountTokenPurpose, tokenHash: string) =>
+  `account-token:${purpose}:${tokenHash}`;
+const latestTokenKey = (purpose: AccountTokenPurpose, userId: string) =>
+  `account-token:${purpose}:user:${userId}`;
+
+/**
+ * Issue a single-use token, invalidating any earlier token of the same purpose
+ * Only the hash is stored; the plaintext goes into the email link
+ */
+export async function issueAccountToken(
+  purpose: AccountTokenPurpose,
+  record: AccountTokenRecord
+): Promise<string> {
+  if (!redisClient.isHealthy()) {
+    throw new AppError('Token store unavailable', ErrorType.INTERNAL_ERROR, 503);
+  }
+
+  const ttl = ACCOUNT_TOKEN_TTL[purpose];
+  const token = generateSecureToken();
+  const tokenHash = hashToken(token);
+
+  const previousHash = await redisClient.get(latestTokenKey(purpose, record.userId));
+  if (previousHash) {
+    await redisClient.del(tokenKey(purpose, previousHash));
+  }
+
+  await redisClient.set(tokenKey(purpose, tokenHash), JSON.stringify(record), ttl);
+  await redisClient.set(latestTokenKey(purpose, record.userId), tokenHash, ttl);
+
+  return token;
+}
+
+/**
+ * Consume a token, returning its record
+ * Throws when the token is unknown, expired or already used
+ */
+export async function consumeAccountToken(
+  purpose: AccountTokenPurpose,
+  token: string
+): Promise<AccountTokenRecord> {
+  const key = tokenKey(purpose, hashToken(token));
+  const raw = await redisClient.get(key);
+
+  // Only the caller that actually deletes the key may use it
+  if (!raw || !(await redisClient.del(key))) {
+    throw new AppError('Invalid or expired token', ErrorType.VALIDATION_ERROR, 400);
+  }
+
+  const record = JSON.parse(raw) as AccountTokenRecord;
+  await redisClient.del(latestTokenKey(purpose, record.userId));
+
+  return record;
+}
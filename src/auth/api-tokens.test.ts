@@ -0,0 +1,48 @@
+import { tokenGrants } from './api-tokens';
+import { hasPermission } from './permissions';
+import { AuthenticatedUser, PermissionGrant } from '@/types';
+
+const ownArticles = { createdById: '$user.id' };
+
+const creatorGrants: PermissionGrant[] = [
+  { resource: 'news', action: 'read', conditions: {} },
+  { resource: 'news', action: 'update', conditions: ownArticles },
+];
+
+function tokenUser(grants: PermissionGrant[]): AuthenticatedUser {
+  return {
+    id: 'writer',
+    email: 'writer@a.test',
+    tenantId: 'A',
+    roles: [],
+    permissions: grants.map(grant => `${grant.resource}:${grant.action}`),
+    grants,
+  };
+}
+
+describe('tokenGrants', () => {
+  it("keeps the conditions of the creator's grants", () => {
+    expect(tokenGrants(['news:update'], creatorGrants)).toEqual([
+      { resource: 'news', action: 'update', conditions: ownArticles },
+    ]);
+  });
+
+  it('limits wildcard permissions to what the creator holds', () => {
+    expect(tokenGrants(['news:*'], creatorGrants)).toEqual(creatorGrants);
+    expect(tokenGrants(['content:*'], creatorGrants)).toEqual([]);
+  });
+
+  it('narrows wildcard grants of the creator to the token permission', () => {
+    const admin = [{ resource: '*', action: '*', conditions: {} }];
+    expect(tokenGrants(['news:read'], admin)).toEqual([
+      { resource: 'news', action: 'read', conditions: {} },
+    ]);
+  });
+
+  it("lets a token only update its creator's own articles", () => {
+    const user = tokenUser(tokenGrants(['news:update'], creatorGrants));
+
+    expect(hasPermission(user, 'news:update', { tenantId: 'A', createdById: 'writer' })).toBe(true);
+    expect(hasPermission(user, 'news:update', { tenantId: 'A', createdById: 'other' })).toBe(false);
+  });
+});
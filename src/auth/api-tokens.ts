@@ -0,0 +1,130 @@
+import type { ExtendedPrismaClient } from '@/database/prisma';
+import { AuthenticatedUser, PermissionGrant } from '@/types';
+import { generateSecureToken, hashToken } from '@/utils';
+import { createLogger } from '@/utils/logger';
+import { WILDCARD, hasPermission, loadUserAccess } from '@/auth/permissions';
+
+const logger = createLogger('API_TOKENS');
+
+/**
+ * Prefix that identifies API tokens (helps secret scanners and log redaction)
+ */
+export const API_TOKEN_PREFIX = 'mgl_';
+
+/**
+ * Minimum interval between lastUsedAt writes for the same token
+ */
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Generate a new plaintext API token and the hash stored in the database
+ */
+export function generateApiToken(): { token: string; tokenHash: string } {
+  const token = `${API_TOKEN_PREFIX}${generateSecureToken(32)}`;
+  return { token, tokenHash: hashToken(token) };
+}
+
+/**
+ * The narrower of two grant parts: a wildcard gives the other part, otherwise both must match
+ */
+function narrowPart(a: string, b: string): string | null {
+  if (a === WILDCARD) return b;
+  if (b === WILDCARD || a === b) return a;
+  return null;
+}
+
+/**
+ * Grants of a token: its `resource:action` permissions limited to the creator's grants
+ * The creator's conditions are kept, so a token made by someone who may only update their
+ * own articles can only update the creator's articles too
+ */
+export function tokenGrants(
+  permissions: string[],
+  creatorGrants: PermissionGrant[]
+): PermissionGrant[] {
+  const grants = new Map<string, PermissionGrant>();
+
+  for (const permission of permissions) {
+    const [resource, action] = permission.split(':');
+    for (const grant of creatorGrants) {
+      const narrowedResource = narrowPart(resource, grant.resource);
+      const narrowedAction = narrowPart(action, grant.action);
+      if (!narrowedResource || !narrowedAction) continue;
+
+      const key = `${narrowedResource}:${narrowedAction}`;
+      const conditions = grant.conditions || {};
+      // An unconditional grant wins over a conditional one, as for roles
+      if (!grants.has(key) || Object.keys(conditions).length === 0) {
+        grants.set(key, { resource: narrowedResource, action: narrowedAction, conditions });
+      }
+    }
+  }
+
+  return Array.from(grants.values());
+}
+
+/**
+ * Authenticate a Bearer API token
+ * The token acts as its creator, limited to the token's permissions that the creator still
+ * holds and to the conditions of the creator's grants
+ */
+export async function authenticateApiToken(
+  prisma: ExtendedPrismaClient,
+  token: string
+): Promise<{ user: AuthenticatedUser; tenant: any; apiTokenId: string } | null> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) return null;
+
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { token: hashToken(token) },
+    include: {
+      tenant: true,
+      createdBy: true,
+    },
+  });
+
+  if (!apiToken || !apiToken.isActive) return null;
+  if (apiToken.expiresAt && apiToken.expiresAt <= new Date()) return null;
+  if (apiToken.tenant.deletedAt || apiToken.tenant.status !== 'ACTIVE') return null;
+
+  const creator = apiToken.createdBy;
+  if (!creator.isActive || creator.deletedAt) return null;
+
+  // Intersect token scopes with the creator's current permissions
+  const creatorAccess = await loadUserAccess(prisma, creator.id);
+  const creatorUser: AuthenticatedUser = {
+    id: creator.id,
+    email: creator.email,
+    tenantId: apiToken.tenantId,
+    ...creatorAccess,
+  };
+  const held = ((apiToken.permissions as string[]) || []).filter(permission =>
+    hasPermission(creatorUser, permission)
+  );
+  const grants = tokenGrants(held, creatorAccess.grants);
+
+  if (
+    !apiToken.lastUsedAt ||
+    Date.now() - apiToken.lastUsedAt.getTime() > LAST_USED_WRITE_INTERVAL_MS
+  ) {
+    prisma.apiToken
+      .update({
+        where: { id: apiToken.id },
+        data: { lastUsedAt: new Date() },
+      })
+      .catch(error => logger.error('Failed to update API token lastUsedAt', error as Error));
+  }
+
+  return {
+    user: {
+      id: creator.id,
+      email: creator.email,
+      tenantId: apiToken.tenantId,
+      // Roles are not inherited so role-based bypasses (e.g. platform admin) never apply to tokens
+      roles: [],
+      permissions: grants.map(grant => `${grant.resource}:${grant.action}`),
+      grants,
+    },
+    tenant: apiToken.tenant,
+    apiTokenId: apiToken.id,
+  };
+}
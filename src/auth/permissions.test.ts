@@ -0,0 +1,119 @@
+import {
+  PLATFORM_ADMIN_ROLE,
+  authorize,
+  hasPermission,
+  loadUserAccess,
+  withPermission,
+} from './permissions';
+import { AuthenticatedUser, PermissionGrant } from '@/types';
+
+function user(grants: Partial<PermissionGrant>[], roles: string[] = []): AuthenticatedUser {
+  const full = grants.map(grant => ({ resource: '', action: '', conditions: {}, ...grant }));
+  return {
+    id: 'user-1',
+    email: 'user@a.test',
+    tenantId: 'A',
+    roles,
+    permissions: full.map(grant => `${grant.resource}:${grant.action}`),
+    grants: full,
+  };
+}
+
+describe('hasPermission', () => {
+  it('matches wildcard resources and actions', () => {
+    expect(hasPermission(user([{ resource: '*', action: '*' }]), 'news:delete')).toBe(true);
+    expect(hasPermission(user([{ resource: 'news', action: '*' }]), 'news:publish')).toBe(true);
+    expect(hasPermission(user([{ resource: 'news', action: '*' }]), 'merch:update')).toBe(false);
+  });
+
+  it('limits conditional grants to matching records', () => {
+    const writer = user([
+      { resource: 'news', action: 'update', conditions: { createdById: '$user.id' } },
+    ]);
+
+    expect(hasPermission(writer, 'news:update')).toBe(true);
+    expect(hasPermission(writer, 'news:update', { tenantId: 'A', createdById: 'user-1' })).toBe(
+      true
+    );
+    expect(hasPermission(writer, 'news:update', { tenantId: 'A', createdById: 'user-2' })).toBe(
+      false
+    );
+  });
+
+  it('passes when any matching grant has its conditions met', () => {
+    const editor = user([
+      { resource: 'news', action: 'update', conditions: { createdById: '$user.id' } },
+      { resource: '*', action: 'update', conditions: { status: 'DRAFT' } },
+    ]);
+
+    expect(hasPermission(editor, 'news:update', { createdById: 'user-2', status: 'DRAFT' })).toBe(
+      true
+    );
+  });
+
+  it('rejects records of another tenant unless the user is a platform admin', () => {
+    const grants = [{ resource: 'news', action: 'read' }];
+    const record = { tenantId: 'B' };
+
+    expect(hasPermission(user(grants), 'news:read', record)).toBe(false);
+    expect(hasPermission(user(grants, [PLATFORM_ADMIN_ROLE]), 'news:read', record)).toBe(true);
+  });
+});
+
+describe('authorize', () => {
+  it('requires authentication', () => {
+    expect(() => authorize({} as any, 'news:read')).toThrow(
+      expect.objectContaining({ statusCode: 401 })
+    );
+  });
+
+  it('names the missing permission', () => {
+    expect(() => authorize({ user: user([]) } as any, 'news:publish')).toThrow(
+      expect.objectContaining({ statusCode: 403, details: { permission: 'news:publish' } })
+    );
+  });
+});
+
+describe('withPermission', () => {
+  it('lets conditional grants through for the resolver to check against the record', async () => {
+    const resolver = jest.fn().mockResolvedValue('ok');
+    const wrapped = withPermission('news:update', resolver);
+    const writer = user([
+      { resource: 'news', action: 'update', conditions: { createdById: '$user.id' } },
+    ]);
+
+    await expect(wrapped(null, {}, { user: writer } as any)).resolves.toBe('ok');
+    expect(() => wrapped(null, {}, { user: user([]) } as any)).toThrow('Missing permission');
+    expect(resolver).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects malformed permissions when the resolver map is built', () => {
+    expect(() => withPermission('news', jest.fn())).toThrow('Invalid permission');
+  });
+});
+
+describe('loadUserAccess', () => {
+  it('prefers an unconditional grant over a conditional one from another role', async () => {
+    const permission = (conditions: Record<string, any> | null) => ({
+      permission: { resource: 'news', action: 'update', conditions },
+    });
+    const client = {
+      userRole: {
+        findMany: jest
+          .fn()
+          .mockResolvedValue([
+            { role: { name: 'writer', permissions: [permission({ createdById: '$user.id' })] } },
+            { role: { name: 'editor', permissions: [permission(null)] } },
+          ]),
+      },
+    };
+
+    const access = await loadUserAccess(client as any, 'user-1');
+
+    expect(access).toEqual({
+      roles: ['writer', 'editor'],
+      permissions: ['news:update'],
+      grants: [{ resource: 'news', action: 'update', conditions: {} }],
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { AppError, AuthenticatedUser, ErrorType, GraphQLContext, PermissionGrant } from '@/types';
+import { prisma, type ExtendedPrismaClient } from '@/database/prisma';
+
+/**
+ * Wildcard accepted in both the resource and action of a permission
+ * e.g. `*:*` for super admins or `news:*` for a news desk lead
+ */
+export const WILDCARD = '*';
+
+/**
+ * Placeholder in permission conditions that resolves to the acting user's ID
+ * e.g. `{ "createdById": "$user.id" }` limits a grant to the user's own records
+ */
+const USER_ID_PLACEHOLDER = '$user.id';
+
+/**
+ * System role allowed to act on records of any tenant
+ */
+export const PLATFORM_ADMIN_ROLE = 'super_admin';
+
+type Resolver<TArgs = any, TResult = any> = (
+  parent: any,
+  args: TArgs,
+  context: GraphQLContext,
+  info?: any
+) => Promise<TResult> | TResult;
+
+/**
+ * Split a `resource:action` permission string
+ */
+function parsePermission(permission: string): { resource: string; action: string } {
+  const [resource, action] = permission.split(':');
+  if (!resource || !action) {
+    throw new Error(`Invalid permission "${permission}". Expected "resource:action"`);
+  }
+  return { resource, action };
+}
+
+/**
+ * Check whether a grant covers the requested resource and action
+ */
+function grantMatches(grant: PermissionGrant, resource: string, action: string): boolean {
+  return (
+    (grant.resource === WILDCARD || grant.resource === resource) &&
+    (grant.action === WILDCARD || grant.action === action)
+  );
+}
+
+/**
+ * Evaluate grant conditions against a record
+ * Every condition key must equal the record field, with `$user.id` resolved to the acting user
+ */
+function conditionsMatch(
+  conditions: Record<string, any>,
+  user: AuthenticatedUser,
+  record: Record<string, any>
+): boolean {
+  return Object.entries(conditions).every(([field, expected]) => {
+    const value = expected === USER_ID_PLACEHOLDER ? user.id : expected;
+    return record[field] === value;
+  });
+}
+
+/**
+ * Load a user's roles and effective permissions from the RBAC tables
+ */
+export async function loadUserAccess(
+  prisma: ExtendedPrismaClient,
+  userId: string
+): Promise<Pick<AuthenticatedUser, 'roles' | 'permissions' | 'grants'>> {
+  const userRoles = await prisma.userRole.findMany({
+    where: {
+      userId,
+      role: { deletedAt: null },
+    },
+    include: {
+      role: {
+        include: {
+          permissions: {
+            where: { permission: { deletedAt: null } },
+            include: { permission: true },
+          },
+        },
+      },
+    },
+  });
+
+  const roles = userRoles.map(userRole => userRole.role.name);
+  const grants = new Map<string, PermissionGrant>();
+
+  for (const userRole of userRoles) {
+    for (const { permission } of userRole.role.permissions) {
+      const key = `${permission.resource}:${permission.action}`;
+      const conditions = (permission.conditions as Record<string, any>) || {};
+      const existing = grants.get(key);
+
+      // An unconditional grant from any role wins over a conditional one
+      if (!existing || Object.keys(conditions).length === 0) {
+        grants.set(key, {
+          resource: permission.resource,
+          action: permission.action,
+          conditions,
+        });
+      }
+    }
+  }
+
+  return {
+    roles,
+    permissions: Array.from(grants.keys()),
+    grants: Array.from(grants.values()),
+  };
+}
+
+/**
+ * Check whether a user may act across tenants
+ */
+export function isPlatformAdmin(user: AuthenticatedUser | undefined): boolean {
+  return !!user?.roles?.includes(PLATFORM_ADMIN_ROLE);
+}
+
+/**
+ * Escape hatch for platform-admin operations that span tenants
+ * Returns the client without tenant scoping; everyone else gets a 403
+ */
+export function platformPrisma(context: GraphQLContext): ExtendedPrismaClient {
+  if (!isPlatformAdmin(context.user)) {
+    throw new AppError('Platform admin access required', ErrorType.AUTHORIZATION_ERROR, 403);
+  }
+  return prisma;
+}
+
+/**
+ * Check whether a user holds a permission
+ * When a record is given, grant conditions and tenant ownership are evaluated against it
+ */
+export function hasPermission(
+  user: AuthenticatedUser | undefined,
+  permission: string,
+  record?: Record<string, any> | null
+): boolean {
+  if (!user) return false;
+
+  const { resource, action } = parsePermission(permission);
+  const grants = (user.grants || []).filter(grant => grantMatches(grant, resource, action));
+
+  if (grants.length === 0) return false;
+  if (!record) return true;
+
+  if (record.tenantId && record.tenantId !== user.tenantId && !isPlatformAdmin(user)) {
+    return false;
+  }
+
+  return grants.some(grant => conditionsMatch(grant.conditions || {}, user, record));
+}
+
+/**
+ * Assert the current user holds a permission, throwing an AppError otherwise
+ */
+export function authorize(
+  context: GraphQLContext,
+  permission: string,
+  record?: Record<string, any> | null
+): AuthenticatedUser {
+  if (!context.user) {
+    throw new AppError('Authentication required', ErrorType.AUTHENTICATION_ERROR, 401);
+  }
+
+  if (!hasPermission(context.user, permission, record)) {
+    throw new AppError(
+      `Missing permission: ${permission}`,
+      ErrorType.AUTHORIZATION_ERROR,
+      403,
+      true,
+      {
+        permission,
+      }
+    );
+  }
+
+  return context.user;
+}
+
+/**
+ * Resolver wrapper that requires a permission before the resolver runs
+ * Conditional grants pass here; resolvers re-check with the loaded record via `authorize`
+ */
+export function withPermission<TArgs = any, TResult = any>(
+  permission: string,
+  resolver: Resolver<TArgs, TResult>
+): Resolver<TArgs, TResult> {
+  // Fail fast on typos when the resolver map is built
+  parsePermission(permission);
+
+  return (parent, args, context, info) => {
+    authorize(context, permission);
+    return resolver(parent, args, context, info);
+  };
+}
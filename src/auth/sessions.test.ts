@@ -0,0 +1,57 @@
+import { REFRESH_TOKEN_COOKIE, Session, revokeRequestSession } from './sessions';
+import { redisClient } from '@/database/redis';
+import { hashToken } from '@/utils';
+
+jest.mock('@/database/redis', () => {
+  const values = new Map<string, string>();
+  return {
+    redisClient: {
+      values,
+      get: async (key: string) => values.get(key) ?? null,
+      del: async (key: string) => values.delete(key),
+      srem: async () => 1,
+    },
+  };
+});
+
+const values: Map<string, string> = (redisClient as any).values;
+
+function storeSession(id: string, secret: string) {
+  const session: Partial<Session> = { id, userId: 'user-1', refreshTokenHash: hashToken(secret) };
+  values.set(`session:${id}`, JSON.stringify(session));
+}
+
+function context(refreshToken?: string, sessionId?: string) {
+  return {
+    req: { cookies: refreshToken ? { [REFRESH_TOKEN_COOKIE]: refreshToken } : {} },
+    sessionId,
+  } as any;
+}
+
+describe('revokeRequestSession', () => {
+  beforeEach(() => {
+    values.clear();
+    storeSession('s1', 'secret');
+    storeSession('s2', 'other');
+  });
+
+  it('revokes the refresh cookie session when the access token has expired', async () => {
+    await revokeRequestSession(context('s1.secret'));
+
+    expect(values.has('session:s1')).toBe(false);
+    expect(values.has('session:s2')).toBe(true);
+  });
+
+  it('leaves the session alone when the cookie secret does not match', async () => {
+    await revokeRequestSession(context('s1.guessed'));
+
+    expect(values.has('session:s1')).toBe(true);
+  });
+
+  it('revokes the access token session', async () => {
+    await revokeRequestSession(context(undefined, 's2'));
+
+    expect(values.has('session:s2')).toBe(false);
+    expect(values.has('session:s1')).toBe(true);
+  });
+});
@@ -0,0 +1,345 @@
+import { randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Response } from 'express';
+import { config } from '@/config';
+import { prisma } from '@/database/prisma';
+import { redisClient } from '@/database/redis';
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { generateSecureToken, hashToken, parseDuration } from '@/utils';
+import { createLogger, logAuth } from '@/utils/logger';
+
+const logger = createLogger('SESSIONS');
+
+export const ACCESS_TOKEN_COOKIE = 'auth-token';
+export const REFRESH_TOKEN_COOKIE = 'refresh-token';
+
+/**
+ * Window in which the previous refresh token is still accepted
+ * Covers parallel refreshes from several tabs sharing one cookie jar
+ */
+const ROTATION_GRACE_MS = 10 * 1000;
+
+/**
+ * Claims carried by the short-lived access token
+ */
+export interface AccessTokenPayload {
+  id: string;
+  email: string;
+  tenantId: string;
+  sid: string;
+}
+
+/**
+ * Server-side session (one refresh token family) stored in Redis
+ */
+export interface Session {
+  id: string;
+  userId: string;
+  tenantId: string;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string;
+  rotatedAt?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+}
+
+interface SessionUser {
+  id: string;
+  email: string;
+  tenantId: string;
+}
+
+const sessionKey = (sessionId: string) => `session:${sessionId}`;
+const userSessionsKey = (userId: string) => `sessions:user:${userId}`;
+
+/**
+ * Shared cookie attributes for auth cookies
+ */
+function cookieOptions(maxAge?: number) {
+  return {
+    httpOnly: true,
+    secure: config.isProduction,
+    sameSite: (config.isProduction ? 'strict' : 'lax') as 'strict' | 'lax',
+    path: '/',
+    ...(maxAge !== undefined && { maxAge }),
+  };
+}
+
+/**
+ * Refresh tokens are `<sessionId>.<secret>` so the family can be found on reuse
+ */
+function parseRefreshToken(token: string): { sessionId: string; secret: string } | null {
+  const separator = token.indexOf('.');
+  if (separator <= 0) return null;
+  return { sessionId: token.slice(0, separator), secret: token.slice(separator + 1) };
+}
+
+function assertSessionStore(): void {
+  if (!redisClient.isHealthy()) {
+    throw new AppError('Session store unavailable', ErrorType.INTERNAL_ERROR, 503);
+  }
+}
+
+async function saveSession(session: Session): Promise<void> {
+  const ttlSeconds = Math.ceil((new Date(session.expiresAt).getTime() - Date.now()) / 1000);
+  const saved =
+    ttlSeconds > 0 &&
+    (await redisClient.set(sessionKey(session.id), JSON.stringify(session), ttlSeconds));
+
+  if (!saved) {
+    throw new AppError('Failed to persist session', ErrorType.INTERNAL_ERROR, 503);
+  }
+}
+
+/**
+ * Sign a new access token and set both auth cookies
+ */
+function issueTokens(
+  res: Response,
+  user: SessionUser,
+  session: Session,
+  refreshSecret: string
+): void {
+  const accessToken = jwt.sign(
+    {
+      id: user.id,
+      email: user.email,
+      tenantId: user.tenantId,
+      sid: session.id,
+    } as AccessTokenPayload,
+    config.jwt.secret,
+    { expiresIn: config.jwt.expiresIn } as jwt.SignOptions
+  );
+
+  res.cookie(ACCESS_TOKEN_COOKIE, accessToken, cookieOptions(parseDuration(config.jwt.expiresIn)));
+  res.cookie(
+    REFRESH_TOKEN_COOKIE,
+    `${session.id}.${refreshSecret}`,
+    cookieOptions(new Date(session.expiresAt).getTime() - Date.now())
+  );
+}
+
+/**
+ * Sessions only stay valid while their tenant is active and not deleted
+ */
+export function isTenantActive(tenant: { status: string; deletedAt: Date | null }): boolean {
+  return tenant.status === 'ACTIVE' && !tenant.deletedAt;
+}
+
+/**
+ * Get a session by ID
+ */
+export async function getSession(sessionId: string): Promise<Session | null> {
+  const raw = await redisClient.get(sessionKey(sessionId));
+  return raw ? (JSON.parse(raw) as Session) : null;
+}
+
+/**
+ * Start a new session (token family) for a user and set auth cookies
+ */
+export async function createSession(context: GraphQLContext, user: SessionUser): Promise<Session> {
+  assertSessionStore();
+
+  const now = new Date();
+  const refreshSecret = generateSecureToken();
+  const session: Session = {
+    id: randomUUID(),
+    userId: user.id,
+    tenantId: user.tenantId,
+    refreshTokenHash: hashToken(refreshSecret),
+    ipAddress: context.req.ip,
+    userAgent: context.req.get('User-Agent'),
+    createdAt: now.toISOString(),
+    lastUsedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + parseDuration(config.jwt.refreshExpiresIn)).toISOString(),
+  };
+
+  await saveSession(session);
+  await redisClient.sadd(userSessionsKey(user.id), session.id);
+
+  issueTokens(context.res, user, session, refreshSecret);
+  context.sessionId = session.id;
+
+  return session;
+}
+
+/**
+ * Rotate the refresh token from the request cookie
+ * Presenting an already rotated token revokes the whole family
+ */
+export async function rotateSession(context: GraphQLContext): Promise<string> {
+  assertSessionStore();
+
+  const token = context.req.cookies?.[REFRESH_TOKEN_COOKIE];
+  const parsed = token ? parseRefreshToken(token) : null;
+  if (!parsed) {
+    throw new AppError('Refresh token required', ErrorType.AUTHENTICATION_ERROR, 401);
+  }
+
+  const session = await getSession(parsed.sessionId);
+  if (!session) {
+    clearAuthCookies(context.res);
+    throw new AppError('Session expired', ErrorType.AUTHENTICATION_ERROR, 401);
+  }
+
+  const presentedHash = hashToken(parsed.secret);
+  const withinGrace =
+    presentedHash === session.previousRefreshTokenHash &&
+    !!session.rotatedAt &&
+    Date.now() - new Date(session.rotatedAt).getTime() < ROTATION_GRACE_MS;
+
+  if (presentedHash !== session.refreshTokenHash && !withinGrace) {
+    await revokeSession(session.id);
+    clearAuthCookies(context.res);
+    logger.warn('Refresh token reuse detected - session family revoked', {
+      sessionId: session.id,
+      userId: session.userId,
+      ip: context.req.ip,
+    });
+    throw new AppError('Session revoked', ErrorType.AUTHENTICATION_ERROR, 401);
+  }
+
+  // Refresh requests are anonymous, so the user is looked up outside the request tenant
+  const user = await prisma.user.findUnique({
+    where: { id: session.userId },
+    include: { tenant: true },
+  });
+  if (!user || !user.isActive || user.deletedAt) {
+    await revokeSession(session.id);
+    clearAuthCookies(context.res);
+    throw new AppError('Account is disabled', ErrorType.AUTHENTICATION_ERROR, 401);
+  }
+
+  if (!isTenantActive(user.tenant)) {
+    await revokeSession(session.id);
+    clearAuthCookies(context.res);
+    throw new AppError('Organization is not active', ErrorType.AUTHENTICATION_ERROR, 401);
+  }
+
+  const refreshSecret = generateSecureToken();
+  const now = new Date().toISOString();
+  const rotated: Session = {
+    ...session,
+    refreshTokenHash: hashToken(refreshSecret),
+    previousRefreshTokenHash: session.refreshTokenHash,
+    rotatedAt: now,
+    lastUsedAt: now,
+    ipAddress: context.req.ip,
+    userAgent: context.req.get('User-Agent'),
+  };
+
+  await saveSession(rotated);
+  issueTokens(context.res, user, rotated, refreshSecret);
+  context.sessionId = rotated.id;
+
+  logAuth('token_refresh', user.id, { sessionId: rotated.id });
+  return user.id;
+}
+
+/**
+ * Revoke a single session
+ */
+export async function revokeSession(sessionId: string): Promise<boolean> {
+  const session = await getSession(sessionId);
+  const deleted = await redisClient.del(sessionKey(sessionId));
+
+  if (session) {
+    await redisClient.srem(userSessionsKey(session.userId), sessionId);
+  }
+
+  return deleted;
+}
+
+/**
+ * Revoke the session a request belongs to: the one of its access token and the one its
+ * refresh token cookie belongs to, so an expired access token cannot leave the refresh
+ * token usable. The cookie's session is only revoked when its secret matches
+ */
+export async function revokeRequestSession(context: GraphQLContext): Promise<void> {
+  const token = context.req.cookies?.[REFRESH_TOKEN_COOKIE];
+  const parsed = token ? parseRefreshToken(token) : null;
+
+  if (parsed && parsed.sessionId !== context.sessionId) {
+    const session = await getSession(parsed.sessionId);
+    const presentedHash = hashToken(parsed.secret);
+    if (
+      session &&
+      (presentedHash === session.refreshTokenHash ||
+        presentedHash === session.previousRefreshTokenHash)
+    ) {
+      await revokeSession(session.id);
+    }
+  }
+
+  if (context.sessionId) {
+    await revokeSession(context.sessionId);
+  }
+}
+
+/**
+ * Revoke every session of a user, returning the number revoked
+ */
+export async function revokeUserSessions(userId: string): Promise<number> {
+  assertSessionStore();
+
+  const sessionIds = await redisClient.smembers(userSessionsKey(userId));
+  let revoked = 0;
+
+  for (const sessionId of sessionIds) {
+    if (await redisClient.del(sessionKey(sessionId))) {
+      revoked++;
+    }
+  }
+
+  await redisClient.del(userSessionsKey(userId));
+  logger.info('Revoked all user sessions', { userId, revoked });
+
+  return revoked;
+}
+
+/**
+ * List a user's active sessions, pruning expired entries from the index
+ */
+export async function listUserSessions(userId: string): Promise<Session[]> {
+  const sessionIds = await redisClient.smembers(userSessionsKey(userId));
+  const sessions: Session[] = [];
+
+  for (const sessionId of sessionIds) {
+    const session = await getSession(sessionId);
+    if (session) {
+      sessions.push(session);
+    } else {
+      await redisClient.srem(userSessionsKey(userId), sessionId);
+    }
+  }
+
+  return sessions.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+}
+
+/**
+ * Verify an access token and make sure its session has not been revoked
+ */
+export async function verifyAccessToken(token: string): Promise<AccessTokenPayload | null> {
+  try {
+    const payload = jwt.verify(token, config.jwt.secret) as AccessTokenPayload;
+
+    if (!payload.sid || !(await redisClient.exists(sessionKey(payload.sid)))) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Clear both auth cookies
+ */
+export function clearAuthCookies(res: Response): void {
+  res.clearCookie(ACCESS_TOKEN_COOKIE, cookieOptions());
+  res.clearCookie(REFRESH_TOKEN_COOKIE, cookieOptions());
+}
@@ -25,7 +25,7 @@ const configSchema = Joi.object({
   
   // JWT configuration
   JWT_SECRET: Joi.string().min(32).required(),
-  JWT_EXPIRES_IN: Joi.string().default('7d'),
+  JWT_EXPIRES_IN: Joi.string().default('15m'), // Access token lifetime; sessions last JWT_REFRESH_EXPIRES_IN
   JWT_REFRESH_EXPIRES_IN: Joi.string().default('30d'),
   
   // Encryption
@@ -47,6 +47,17 @@ const configSchema = Joi.object({
   // Multi-tenant
   DEFAULT_TENANT_SLUG: Joi.string().default('default'),
   TENANT_ISOLATION_LEVEL: Joi.string().valid('strict', 'moderate', 'relaxed').default('strict'),
+  TENANT_BASE_DOMAIN: Joi.string().hostname().allow('').default(''),
+  
+  // Email delivery
+  MAIL_TRANSPORT: Joi.string().valid('smtp', 'file', 'memory').default('file'),
+  MAIL_FILE_PATH: Joi.string().default('./mail'),
+  SMTP_HOST: Joi.string().allow('').default(''),
+  SMTP_PORT: Joi.number().port().default(587),
+  SMTP_USER: Joi.string().allow('').default(''),
+  SMTP_PASSWORD: Joi.string().allow('').default(''),
+  SMTP_FROM: Joi.string().allow('').default('Mongolec CMS <no-reply@mongolec.com>'),
+  APP_URL: Joi.string().uri().default('http://localhost:3000'),
   
   // File upload
   MAX_FILE_SIZE: Joi.number().min(1024).default(10485760), // 10MB
@@ -55,6 +66,10 @@ const configSchema = Joi.object({
   // Monitoring
   HEALTH_CHECK_ENABLED: Joi.boolean().default(true),
   METRICS_ENABLED: Joi.boolean().default(false),
+  
+  // Scheduled publishing
+  SCHEDULER_ENABLED: Joi.boolean().default(true),
+  SCHEDULER_INTERVAL_SECONDS: Joi.number().min(5).default(30),
 }).unknown(true);
 
 /**
@@ -116,6 +131,20 @@ export const config = {
   tenant: {
     defaultSlug: envVars.DEFAULT_TENANT_SLUG as string,
     isolationLevel: envVars.TENANT_ISOLATION_LEVEL as 'strict' | 'moderate' | 'relaxed',
+    baseDomain: (envVars.TENANT_BASE_DOMAIN as string).toLowerCase(),
+  },
+  
+  mail: {
+    transport: envVars.MAIL_TRANSPORT as 'smtp' | 'file' | 'memory',
+    filePath: envVars.MAIL_FILE_PATH as string,
+    from: envVars.SMTP_FROM as string,
+    appUrl: envVars.APP_URL as string,
+    smtp: {
+      host: envVars.SMTP_HOST as string,
+      port: envVars.SMTP_PORT as number,
+      user: envVars.SMTP_USER as string,
+      password: envVars.SMTP_PASSWORD as string,
+    },
   },
   
   upload: {
@@ -128,6 +157,11 @@ export const config = {
     metricsEnabled: envVars.METRICS_ENABLED as boolean,
   },
   
+  scheduler: {
+    enabled: envVars.SCHEDULER_ENABLED as boolean,
+    intervalSeconds: envVars.SCHEDULER_INTERVAL_SECONDS as number,
+  },
+  
   // Computed properties
   get isProduction() {
     return this.env === 'production';
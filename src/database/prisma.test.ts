@@ -0,0 +1,270 @@
+import { WITH_DELETED, scopeArgs } from '@/database/prisma';
+import { AppError } from '@/types';
+import { MemoryStore, createMemoryPrismaClient } from '../../tests/helpers/memory-prisma';
+
+describe('scopeArgs', () => {
+  describe('where', () => {
+    it('adds the tenant to reads, updates and deletes', () => {
+      for (const operation of ['findFirst', 'findMany', 'count', 'update', 'deleteMany']) {
+        expect(scopeArgs({ where: { id: '1' } }, 'A', 'NewsArticle', operation).where).toEqual({
+          id: '1',
+          tenantId: 'A',
+        });
+      }
+    });
+
+    it('scopes queries without a where clause', () => {
+      expect(scopeArgs({}, 'A', 'NewsArticle', 'findMany').where).toEqual({ tenantId: 'A' });
+    });
+
+    it('accepts a filter on the same tenant', () => {
+      expect(
+        scopeArgs({ where: { tenantId: 'A' } }, 'A', 'NewsArticle', 'findFirst').where
+      ).toEqual({ tenantId: 'A' });
+    });
+
+    it('rejects a filter on another tenant', () => {
+      expect(() =>
+        scopeArgs({ where: { id: '1', tenantId: 'B' } }, 'A', 'NewsArticle', 'findFirst')
+      ).toThrow('Cross-tenant access denied');
+    });
+  });
+
+  describe('create', () => {
+    it('sets the tenant on new rows', () => {
+      expect(scopeArgs({ data: { slug: 'a' } }, 'A', 'Tag', 'create').data).toEqual({
+        slug: 'a',
+        tenantId: 'A',
+      });
+    });
+
+    it('sets the tenant on every row of createMany', () => {
+      const { data } = scopeArgs(
+        { data: [{ slug: 'a' }, { slug: 'b' }] },
+        'A',
+        'Tag',
+        'createMany'
+      );
+      expect(data).toEqual([
+        { slug: 'a', tenantId: 'A' },
+        { slug: 'b', tenantId: 'A' },
+      ]);
+    });
+
+    it('keeps a connect to the same tenant', () => {
+      const data = { slug: 'a', tenant: { connect: { id: 'A' } } };
+      expect(scopeArgs({ data }, 'A', 'Tag', 'create').data).toEqual(data);
+    });
+
+    it('rejects rows for another tenant', () => {
+      expect(() => scopeArgs({ data: { tenantId: 'B' } }, 'A', 'Tag', 'create')).toThrow(AppError);
+      expect(() =>
+        scopeArgs({ data: { tenant: { connect: { id: 'B' } } } }, 'A', 'Tag', 'create')
+      ).toThrow(AppError);
+      expect(() =>
+        scopeArgs({ data: [{ slug: 'a' }, { tenantId: 'B' }] }, 'A', 'Tag', 'createMany')
+      ).toThrow(AppError);
+    });
+  });
+
+  describe('update', () => {
+    it('allows data that keeps the tenant', () => {
+      const args = { where: { id: '1' }, data: { slug: 'b', tenantId: 'A' } };
+      expect(scopeArgs(args, 'A', 'Tag', 'update').data).toEqual(args.data);
+    });
+
+    it('rejects moving rows to another tenant', () => {
+      expect(() =>
+        scopeArgs({ where: { id: '1' }, data: { tenantId: 'B' } }, 'A', 'Tag', 'update')
+      ).toThrow(AppError);
+      expect(() =>
+        scopeArgs({ data: { tenant: { connect: { id: 'B' } } } }, 'A', 'Tag', 'updateMany')
+      ).toThrow(AppError);
+    });
+
+    it('scopes both sides of an upsert', () => {
+      const scoped = scopeArgs(
+        { where: { id: '1' }, create: { slug: 'a' }, update: { slug: 'b' } },
+        'A',
+        'Tag',
+        'upsert'
+      );
+      expect(scoped.where).toEqual({ id: '1', tenantId: 'A' });
+      expect(scoped.create).toEqual({ slug: 'a', tenantId: 'A' });
+      expect(() =>
+        scopeArgs({ where: {}, create: {}, update: { tenantId: 'B' } }, 'A', 'Tag', 'upsert')
+      ).toThrow(AppError);
+    });
+  });
+});
+
+describe('references and nested writes', () => {
+  it('connects foreign keys to tenant rows within the tenant', () => {
+    const { data } = scopeArgs(
+      { data: { slug: 'a', categoryId: 'c1', createdById: 'u1' } },
+      'A',
+      'NewsArticle',
+      'create'
+    );
+    expect(data).toEqual({
+      slug: 'a',
+      tenant: { connect: { id: 'A' } },
+      category: { connect: { id: 'c1', tenantId: 'A' } },
+      createdBy: { connect: { id: 'u1', tenantId: 'A' } },
+    });
+  });
+
+  it('disconnects foreign keys set to null on update', () => {
+    const { data } = scopeArgs(
+      { where: { id: '1' }, data: { categoryId: null, updatedById: 'u1' } },
+      'A',
+      'NewsArticle',
+      'update'
+    );
+    expect(data).toEqual({
+      category: { disconnect: true },
+      updatedBy: { connect: { id: 'u1', tenantId: 'A' } },
+    });
+  });
+
+  it('limits nested connects and filters to the tenant', () => {
+    const { data } = scopeArgs(
+      {
+        where: { id: '1' },
+        data: { parent: { connect: { id: 'p1' } }, children: { set: [{ id: 'c1' }] } },
+      },
+      'A',
+      'Content',
+      'update'
+    );
+    expect(data.parent).toEqual({ connect: { id: 'p1', tenantId: 'A' } });
+    expect(data.children).toEqual({ set: [{ id: 'c1', tenantId: 'A' }] });
+
+    expect(() =>
+      scopeArgs(
+        { data: { slug: 'a', parent: { connect: { id: 'p1', tenantId: 'B' } } } },
+        'A',
+        'Content',
+        'create'
+      )
+    ).toThrow('Cross-tenant access denied');
+  });
+
+  it('scopes the references of nested link rows', () => {
+    const { data } = scopeArgs(
+      { where: { id: '1' }, data: { tags: { deleteMany: {}, create: [{ tagId: 't1' }] } } },
+      'A',
+      'Content',
+      'update'
+    );
+    expect(data.tags).toEqual({
+      deleteMany: {},
+      create: [{ tag: { connect: { id: 't1', tenantId: 'A' } } }],
+    });
+  });
+
+  it('rejects references from nested bulk writes', () => {
+    expect(() =>
+      scopeArgs(
+        { where: { id: '1' }, data: { tags: { createMany: { data: [{ tagId: 't1' }] } } } },
+        'A',
+        'Content',
+        'update'
+      )
+    ).toThrow('Nested bulk writes cannot reference tenant rows');
+  });
+
+  describe('on the client', () => {
+    let store: MemoryStore;
+
+    beforeEach(() => {
+      store = {
+        NewsCategory: [
+          { id: 'a-news', tenantId: 'A', deletedAt: null },
+          { id: 'b-news', tenantId: 'B', deletedAt: null },
+        ],
+        Tag: [
+          { id: 'a-tag', tenantId: 'A', deletedAt: null },
+          { id: 'b-tag', tenantId: 'B', deletedAt: null },
+        ],
+        NewsArticle: [{ id: 'article', tenantId: 'A', categoryId: null, deletedAt: null }],
+        NewsArticleTag: [],
+      };
+    });
+
+    it("rejects a reference to another tenant's row", async () => {
+      const db = createMemoryPrismaClient(store, 'A');
+
+      await expect(
+        db.newsArticle.update({ where: { id: 'article' }, data: { categoryId: 'b-news' } })
+      ).rejects.toThrow('No NewsCategory found');
+      await db.newsArticle.update({ where: { id: 'article' }, data: { categoryId: 'a-news' } });
+
+      expect(store.NewsArticle[0].categoryId).toBe('a-news');
+    });
+
+    it('looks up the references of bulk writes', async () => {
+      const db = createMemoryPrismaClient(store, 'A');
+
+      await expect(
+        db.newsArticleTag.createMany({ data: [{ articleId: 'article', tagId: 'b-tag' }] })
+      ).rejects.toThrow(AppError);
+      await db.newsArticleTag.createMany({ data: [{ articleId: 'article', tagId: 'a-tag' }] });
+
+      expect(store.NewsArticleTag).toEqual([
+        expect.objectContaining({ articleId: 'article', tagId: 'a-tag' }),
+      ]);
+    });
+  });
+});
+
+describe('soft delete', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = {
+      Tag: [
+        { id: 'a1', slug: 'a', tenantId: 'A', deletedAt: null },
+        { id: 'b1', slug: 'a', tenantId: 'B', deletedAt: null },
+      ],
+    };
+  });
+
+  it('turns delete into an update of deletedAt on the calling client', async () => {
+    const db = createMemoryPrismaClient(store, 'A');
+    await db.tag.delete({ where: { id: 'a1' } });
+
+    expect(store.Tag).toHaveLength(2);
+    expect(store.Tag[0].deletedAt).toBeInstanceOf(Date);
+    expect(store.Tag[1].deletedAt).toBeNull();
+  });
+
+  it('soft deletes inside transactions', async () => {
+    const db = createMemoryPrismaClient(store, 'A');
+    await db.$transaction(async (tx: any) => tx.tag.deleteMany({ where: { slug: 'a' } }));
+
+    expect(store.Tag[0].deletedAt).toBeInstanceOf(Date);
+  });
+
+  it('leaves deleted rows out of reads unless asked for', async () => {
+    const db = createMemoryPrismaClient(store, 'A');
+    await db.tag.delete({ where: { id: 'a1' } });
+
+    expect(await db.tag.findMany()).toEqual([]);
+    expect(await db.tag.findUnique({ where: { id: 'a1' } })).toBeNull();
+    expect(await db.tag.count()).toBe(0);
+    expect(await db.tag.findFirst({ where: { slug: 'a', ...WITH_DELETED } })).toMatchObject({
+      id: 'a1',
+    });
+    expect(await db.tag.findMany({ where: { deletedAt: { not: null } } })).toHaveLength(1);
+  });
+
+  it('only soft deletes rows of the client tenant', async () => {
+    const db = createMemoryPrismaClient(store, 'A');
+    const result = await db.tag.deleteMany({ where: { slug: 'a' } });
+
+    expect(result).toEqual({ count: 1 });
+    expect(store.Tag[1].deletedAt).toBeNull();
+    await expect(db.tag.delete({ where: { id: 'b1' } })).rejects.toThrow('Record not found');
+  });
+});
@@ -1,14 +1,436 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { config } from '@/config';
+import { AppError, ErrorType } from '@/types';
 import { createLogger, logDatabaseQuery } from '@/utils/logger';
 
 const logger = createLogger('DATABASE');
 
 /**
- * Create extended Prisma Client with soft delete, tenant isolation, and performance monitoring
+ * Models with a tenantId column, derived from the Prisma schema
+ */
+const TENANT_MODELS = new Set(
+  Prisma.dmmf.datamodel.models
+    .filter(model => model.fields.some(field => field.name === 'tenantId'))
+    .map(model => model.name)
+);
+
+/**
+ * Models with a deletedAt column; deleting their rows only sets deletedAt
+ */
+const SOFT_DELETE_MODELS = Prisma.dmmf.datamodel.models
+  .filter(model => model.fields.some(field => field.name === 'deletedAt'))
+  .map(model => model.name as Prisma.ModelName);
+
+type SoftDeleteModel = {
+  [M in Prisma.ModelName]: 'deletedAt' extends keyof Prisma.TypeMap['model'][M]['fields']
+    ? M
+    : never;
+}[Prisma.ModelName];
+
+/**
+ * Reads that leave out soft-deleted rows unless they filter on deletedAt themselves
+ */
+const READ_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+]);
+
+/**
+ * Operations whose `where` clause is scoped to the tenant
+ */
+const WHERE_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+]);
+
+/**
+ * Bulk writes; their data holds plain columns only, so references cannot be connected
+ */
+const BULK_WRITE_OPERATIONS = new Set(['createMany', 'createManyAndReturn', 'updateMany']);
+
+/**
+ * Relation fields of each model, derived from the Prisma schema
+ */
+const MODEL_RELATIONS = new Map(
+  Prisma.dmmf.datamodel.models.map(model => [
+    model.name,
+    model.fields.filter(field => field.kind === 'object'),
+  ])
+);
+
+type RelationField = (typeof Prisma.dmmf.datamodel.models)[number]['fields'][number];
+
+/**
+ * Relations whose foreign key columns belong to the model, e.g. `category` for `categoryId`
+ */
+function ownedRelations(model: string): RelationField[] {
+  return (MODEL_RELATIONS.get(model) || []).filter(field => field.relationFromFields?.length);
+}
+
+/**
+ * Whether a relation points at rows of a tenant; the tenant relation itself does not
+ */
+function isTenantRelation(relation: RelationField): boolean {
+  return TENANT_MODELS.has(relation.type);
+}
+
+function crossTenantError(model: string, operation: string): AppError {
+  return new AppError('Cross-tenant access denied', ErrorType.AUTHORIZATION_ERROR, 403, true, {
+    model,
+    operation,
+  });
+}
+
+/**
+ * Inject tenantId into a where clause, rejecting filters on another tenant
+ */
+function scopeWhere(where: any, tenantId: string, model: string, operation: string): any {
+  if (where?.tenantId !== undefined && where.tenantId !== tenantId) {
+    throw crossTenantError(model, operation);
+  }
+  return { ...where, tenantId };
+}
+
+/**
+ * Inject tenantId into create data, rejecting rows for another tenant
+ */
+function scopeCreateData(data: any, tenantId: string, model: string, operation: string): any {
+  if (data.tenantId !== undefined && data.tenantId !== tenantId) {
+    throw crossTenantError(model, operation);
+  }
+  // Checked input connects the relation instead of setting the column
+  if (data.tenant !== undefined) {
+    if (data.tenant?.connect?.id !== tenantId) {
+      throw crossTenantError(model, operation);
+    }
+    return data;
+  }
+  return { ...data, tenantId };
+}
+
+/**
+ * Reject updates that move a row to another tenant
+ */
+function assertUpdateData(data: any, tenantId: string, model: string, operation: string): void {
+  if (data?.tenant !== undefined || (data?.tenantId !== undefined && data.tenantId !== tenantId)) {
+    throw crossTenantError(model, operation);
+  }
+}
+
+/**
+ * Turn foreign keys to tenant rows into connects limited to the tenant, so the database
+ * rejects a reference to another tenant's row in the same statement
+ * Prisma does not mix foreign keys and relation writes in one input, so once a key is
+ * converted every key of the data is
+ */
+function connectReferences(data: any, tenantId: string, model: string, update: boolean): any {
+  const relations = ownedRelations(model);
+  const references = relations.some(
+    relation =>
+      isTenantRelation(relation) && relation.relationFromFields!.some(key => data[key] != null)
+  );
+  if (!references) return data;
+
+  const scoped = { ...data };
+  for (const relation of relations) {
+    const keys = relation.relationFromFields!;
+    const values = keys.map(key => scoped[key]);
+    if (values.every(value => value === undefined)) continue;
+    keys.forEach(key => delete scoped[key]);
+
+    if (values.some(value => value === null)) {
+      if (update) scoped[relation.name] = { disconnect: true };
+      continue;
+    }
+
+    const where = Object.fromEntries(
+      relation.relationToFields!.map((field, index) => [field, values[index]])
+    );
+    scoped[relation.name] = {
+      connect: isTenantRelation(relation) ? { ...where, tenantId } : where,
+    };
+  }
+  return scoped;
+}
+
+/**
+ * Reject bulk data that references tenant rows from a nested write; only top-level bulk
+ * writes have their references checked
+ */
+function assertNoBulkReferences(rows: any[], model: string, operation: string): void {
+  const relations = ownedRelations(model).filter(isTenantRelation);
+  const referencing = rows.some(row =>
+    relations.some(relation => relation.relationFromFields!.some(key => row?.[key] != null))
+  );
+  if (referencing) {
+    throw new AppError(
+      'Nested bulk writes cannot reference tenant rows',
+      ErrorType.VALIDATION_ERROR,
+      400,
+      true,
+      { model, operation }
+    );
+  }
+}
+
+const asList = (value: any): any[] => (Array.isArray(value) ? value : [value]);
+
+/**
+ * Apply `scope` to one nested write argument or a list of them
+ */
+const mapList = (value: any, scope: (item: any) => any): any =>
+  Array.isArray(value) ? value.map(scope) : scope(value);
+
+/**
+ * Scope the nested writes of one relation field to the tenant: unique and filter
+ * arguments of tenant rows get the tenant, and nested data is scoped like top-level data
  */
-function createExtendedPrismaClient() {
-  const basePrisma = new PrismaClient({
+function scopeRelationWrites(
+  writes: any,
+  relation: RelationField,
+  tenantId: string,
+  operation: string
+): any {
+  const target = relation.type;
+  const tenantTarget = isTenantRelation(relation);
+  const where = (value: any) =>
+    tenantTarget && value && typeof value === 'object'
+      ? scopeWhere(value, tenantId, target, operation)
+      : value;
+  const create = (data: any) => scopeWriteData(data, tenantId, target, operation, false);
+  const update = (data: any) => scopeWriteData(data, tenantId, target, operation, true);
+
+  const scoped: Record<string, any> = {};
+  for (const [action, value] of Object.entries(writes)) {
+    switch (action) {
+      case 'connect':
+      case 'set':
+      case 'disconnect':
+      case 'delete':
+      case 'deleteMany':
+        scoped[action] = mapList(value, where);
+        break;
+      case 'create':
+        scoped[action] = mapList(value, create);
+        break;
+      case 'connectOrCreate':
+        scoped[action] = mapList(value, (item: any) => ({
+          where: where(item.where),
+          create: create(item.create),
+        }));
+        break;
+      case 'createMany': {
+        const data = asList((value as any).data);
+        assertNoBulkReferences(data, target, operation);
+        scoped[action] = {
+          ...(value as any),
+          data: tenantTarget
+            ? data.map(row => scopeCreateData(row, tenantId, target, operation))
+            : data,
+        };
+        break;
+      }
+      case 'updateMany':
+        scoped[action] = mapList(value, (item: any) => {
+          assertNoBulkReferences([item.data], target, operation);
+          if (tenantTarget) assertUpdateData(item.data, tenantId, target, operation);
+          return { where: where(item.where), data: item.data };
+        });
+        break;
+      case 'update':
+        // Lists update `{ where, data }` entries; a to-one relation takes the data itself
+        // or `{ where, data }`
+        scoped[action] =
+          relation.isList || ('data' in (value as any) && 'where' in (value as any))
+            ? mapList(value, (item: any) => ({ where: where(item.where), data: update(item.data) }))
+            : update(value);
+        break;
+      case 'upsert':
+        scoped[action] = mapList(value, (item: any) => ({
+          ...(item.where !== undefined && { where: where(item.where) }),
+          create: create(item.create),
+          update: update(item.update),
+        }));
+        break;
+      default:
+        scoped[action] = value;
+    }
+  }
+  return scoped;
+}
+
+/**
+ * Scope the data of a single-row write, with its references and nested writes
+ */
+function scopeWriteData(
+  data: any,
+  tenantId: string,
+  model: string,
+  operation: string,
+  update: boolean
+): any {
+  if (!data) return data;
+
+  let scoped = data;
+  if (TENANT_MODELS.has(model)) {
+    if (update) {
+      assertUpdateData(data, tenantId, model, operation);
+    } else {
+      scoped = scopeCreateData(data, tenantId, model, operation);
+    }
+  }
+  scoped = connectReferences(scoped, tenantId, model, update);
+
+  for (const relation of MODEL_RELATIONS.get(model) || []) {
+    const writes = scoped[relation.name];
+    if (writes && typeof writes === 'object' && relation.type !== 'Tenant') {
+      scoped = {
+        ...scoped,
+        [relation.name]: scopeRelationWrites(writes, relation, tenantId, operation),
+      };
+    }
+  }
+  return scoped;
+}
+
+/**
+ * Scope query arguments to a single tenant
+ * Queries on tenant models are filtered by the tenant; writes on any model may only
+ * reference and nest rows of the tenant
+ */
+export function scopeArgs(args: any, tenantId: string, model: string, operation: string): any {
+  const scoped = { ...args };
+  const tenantModel = TENANT_MODELS.has(model);
+
+  if (tenantModel && WHERE_OPERATIONS.has(operation)) {
+    scoped.where = scopeWhere(args.where, tenantId, model, operation);
+  }
+
+  switch (operation) {
+    case 'create':
+      scoped.data = scopeWriteData(args.data, tenantId, model, operation, false);
+      break;
+    case 'createMany':
+    case 'createManyAndReturn':
+      if (tenantModel) {
+        scoped.data = mapList(args.data, (data: any) =>
+          scopeCreateData(data, tenantId, model, operation)
+        );
+      }
+      break;
+    case 'upsert':
+      scoped.create = scopeWriteData(args.create, tenantId, model, operation, false);
+      scoped.update = scopeWriteData(args.update, tenantId, model, operation, true);
+      break;
+    case 'update':
+      scoped.data = scopeWriteData(args.data, tenantId, model, operation, true);
+      break;
+    case 'updateMany':
+      if (tenantModel) assertUpdateData(args.data, tenantId, model, operation);
+      break;
+  }
+
+  return scoped;
+}
+
+/**
+ * Check that the foreign keys of a bulk write point at rows of the tenant
+ * Bulk data cannot connect relations, so the referenced rows are looked up first
+ */
+export async function assertBulkReferences(
+  client: PrismaClient,
+  args: any,
+  tenantId: string,
+  model: string,
+  operation: string
+): Promise<void> {
+  const rows = asList(args.data);
+
+  for (const relation of ownedRelations(model).filter(isTenantRelation)) {
+    const [key] = relation.relationFromFields!;
+    const [field] = relation.relationToFields!;
+    const ids = new Set(rows.map(row => row?.[key]).filter(value => value != null));
+    if (ids.size === 0) continue;
+
+    const delegate = relation.type.charAt(0).toLowerCase() + relation.type.slice(1);
+    const found = await (client as any)[delegate].count({
+      where: { [field]: { in: Array.from(ids) }, tenantId },
+    });
+    if (found !== ids.size) {
+      throw crossTenantError(model, operation);
+    }
+  }
+}
+
+/**
+ * Where clause fields that keep soft-deleted rows in a read, e.g. for uniqueness checks
+ * (deleted rows keep their unique values)
+ */
+export const WITH_DELETED = { deletedAt: undefined };
+
+/**
+ * Leave soft-deleted rows out of a read, unless it filters on deletedAt itself
+ */
+export function excludeDeleted(args: any, model: string, operation: string): any {
+  if (
+    !READ_OPERATIONS.has(operation) ||
+    !(SOFT_DELETE_MODELS as string[]).includes(model) ||
+    (args?.where && 'deletedAt' in args.where)
+  ) {
+    return args;
+  }
+  return { ...args, where: { ...args?.where, deletedAt: null } };
+}
+
+/**
+ * Delete methods of soft-delete models
+ * They run as `update` and `updateMany` on the client they were called on, so the write is
+ * tenant scoped, stays inside its transaction and passes through every extension
+ */
+const softDeleteMethods = {
+  async delete<T, A extends Prisma.Args<T, 'delete'>>(
+    this: T,
+    args: A
+  ): Promise<Prisma.Result<T, A, 'update'>> {
+    const model: any = Prisma.getExtensionContext(this);
+    return model.update({ ...args, data: { deletedAt: new Date() } });
+  },
+
+  async deleteMany<T, A extends Prisma.Args<T, 'deleteMany'>>(
+    this: T,
+    args?: A
+  ): Promise<Prisma.BatchPayload> {
+    const model: any = Prisma.getExtensionContext(this);
+    return model.updateMany({ ...args, data: { deletedAt: new Date() } });
+  },
+};
+
+const softDeleteModels = Object.fromEntries(
+  SOFT_DELETE_MODELS.map(name => [name.charAt(0).toLowerCase() + name.slice(1), softDeleteMethods])
+) as { [M in SoftDeleteModel as Uncapitalize<M>]: typeof softDeleteMethods };
+
+/**
+ * Create the underlying Prisma Client (one connection pool per process)
+ */
+function createBasePrismaClient(): PrismaClient {
+  return new PrismaClient({
     log: config.isDevelopment ? ['query', 'error', 'warn'] : ['error'],
     datasources: {
       db: {
@@ -16,42 +438,51 @@ function createExtendedPrismaClient() {
       },
     },
   });
+}
 
+/**
+ * Create extended Prisma Client with soft delete, tenant isolation, and performance monitoring
+ * With a tenantId every query on a tenant model is scoped to that tenant; the rows bulk
+ * writes reference are looked up with `referenceClient`, outside any transaction
+ */
+export function createExtendedPrismaClient(
+  basePrisma: PrismaClient,
+  tenantId?: string,
+  referenceClient: PrismaClient = basePrisma
+) {
   return basePrisma.$extends({
+    model: softDeleteModels,
     query: {
       // Apply to all models and operations
-      $allOperations: async ({ operation, model, args, query }) => {
+      $allOperations: async params => {
+        const { operation, model, query } = params;
+        let { args } = params;
+
         // Performance monitoring
         const start = Date.now();
 
-        // Soft delete: Intercept delete operations
-        if (operation === 'delete') {
-          // @ts-ignore - Transform delete to update
-          return (basePrisma[model] as any).update({
-            ...args,
-            data: { deletedAt: new Date() },
-          });
-        }
-
-        if (operation === 'deleteMany') {
-          // @ts-ignore - Transform deleteMany to updateMany
-          return (basePrisma[model] as any).updateMany({
-            ...args,
-            data: { deletedAt: new Date() },
+        // Tenant isolation
+        if (model && tenantId) {
+          args = scopeArgs(args, tenantId, model, operation);
+          if (BULK_WRITE_OPERATIONS.has(operation)) {
+            await assertBulkReferences(referenceClient, args, tenantId, model, operation);
+          }
+        } else if (
+          model &&
+          TENANT_MODELS.has(model) &&
+          (operation === 'findMany' || operation === 'findFirst') &&
+          args.where &&
+          !args.where.tenantId
+        ) {
+          logger.warn('Query without tenant isolation detected', {
+            model,
+            operation,
           });
         }
 
-        // Tenant isolation warning for models with tenantId
-        const modelsWithTenant = ['user', 'role', 'permission', 'content', 'media', 'auditLog'];
-        if (modelsWithTenant.includes(model?.toLowerCase() || '')) {
-          if (operation === 'findMany' || operation === 'findFirst') {
-            if (args.where && !args.where.tenantId) {
-              logger.warn('Query without tenant isolation detected', {
-                model,
-                operation,
-              });
-            }
-          }
+        // Soft delete: deleted rows are only read when asked for
+        if (model) {
+          args = excludeDeleted(args, model, operation);
         }
 
         // Execute query
@@ -81,19 +512,35 @@ export type ExtendedPrismaClient = ReturnType<typeof createExtendedPrismaClient>
  * Provides connection management and query logging for better observability
  */
 class DatabaseClient {
+  private static base: PrismaClient | null = null;
   private static instance: ExtendedPrismaClient | null = null;
   private isConnected = false;
 
+  private static getBase(): PrismaClient {
+    if (!DatabaseClient.base) {
+      DatabaseClient.base = createBasePrismaClient();
+    }
+    return DatabaseClient.base;
+  }
+
   /**
-   * Get singleton Prisma client instance
+   * Get singleton Prisma client instance (not tenant scoped)
    */
   static getInstance(): ExtendedPrismaClient {
     if (!DatabaseClient.instance) {
-      DatabaseClient.instance = createExtendedPrismaClient();
+      DatabaseClient.instance = createExtendedPrismaClient(DatabaseClient.getBase());
     }
     return DatabaseClient.instance;
   }
 
+  /**
+   * Get a client whose queries on tenant models are confined to one tenant
+   * Shares the singleton's connection pool, so it is cheap to create per request
+   */
+  static getTenantInstance(tenantId: string): ExtendedPrismaClient {
+    return createExtendedPrismaClient(DatabaseClient.getBase(), tenantId);
+  }
+
   /**
    * Connect to database with retry logic
    */
@@ -119,6 +566,7 @@ class DatabaseClient {
       if (DatabaseClient.instance) {
         await DatabaseClient.instance.$disconnect();
         DatabaseClient.instance = null;
+        DatabaseClient.base = null;
         this.isConnected = false;
         logger.info('Database disconnected');
       }
@@ -210,6 +658,14 @@ const databaseClient = new DatabaseClient();
 // Export the Prisma client instance
 export const prisma = DatabaseClient.getInstance();
 
+/**
+ * Create a request-scoped Prisma client for a tenant
+ * Reads and writes on tenant models get tenantId injected; cross-tenant access throws
+ */
+export function createTenantPrismaClient(tenantId: string): ExtendedPrismaClient {
+  return DatabaseClient.getTenantInstance(tenantId);
+}
+
 // Export database utilities
 export { databaseClient };
 
@@ -235,6 +235,79 @@ class RedisClient {
     }
   }
 
+  /**
+   * Add members to a set
+   */
+  async sadd(key: string, ...members: string[]): Promise<number> {
+    try {
+      if (!this.client || !this.isConnected) return 0;
+      return await this.client.sadd(key, ...members);
+    } catch (error) {
+      logger.error('Redis SADD operation failed', error as Error, { key });
+      return 0;
+    }
+  }
+
+  /**
+   * Remove members from a set
+   */
+  async srem(key: string, ...members: string[]): Promise<number> {
+    try {
+      if (!this.client || !this.isConnected) return 0;
+      return await this.client.srem(key, ...members);
+    } catch (error) {
+      logger.error('Redis SREM operation failed', error as Error, { key });
+      return 0;
+    }
+  }
+
+  /**
+   * Get all members of a set
+   */
+  async smembers(key: string): Promise<string[]> {
+    try {
+      if (!this.client || !this.isConnected) return [];
+      return await this.client.smembers(key);
+    } catch (error) {
+      logger.error('Redis SMEMBERS operation failed', error as Error, { key });
+      return [];
+    }
+  }
+
+  /**
+   * Acquire a lock held until `ttlMs` elapses or it is released
+   * Returns false when the lock is held elsewhere or Redis is unavailable
+   */
+  async acquireLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    try {
+      if (!this.client || !this.isConnected) return false;
+      const result = await this.client.set(key, token, 'PX', ttlMs, 'NX');
+      return result === 'OK';
+    } catch (error) {
+      logger.error('Redis lock acquisition failed', error as Error, { key });
+      return false;
+    }
+  }
+
+  /**
+   * Release a lock only if it is still held by `token`
+   */
+  async releaseLock(key: string, token: string): Promise<boolean> {
+    try {
+      if (!this.client || !this.isConnected) return false;
+      const result = await this.client.eval(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+        1,
+        key,
+        token
+      );
+      return result === 1;
+    } catch (error) {
+      logger.error('Redis lock release failed', error as Error, { key });
+      return false;
+    }
+  }
+
   /**
    * Gracefully disconnect from Redis
    */
@@ -1,18 +1,65 @@
 import { GraphQLScalarType, Kind } from 'graphql';
+import { GraphQLContext } from '@/types';
+import { hasPermission } from '@/auth/permissions';
+import { blockTypename, localizeBlocks, toTypedBlocks } from '@/libs/blocks';
+import {
+  estimateReadingTime,
+  loadBlockMedia,
+  renderBlocksToHtml,
+  renderBlocksToText,
+} from '@/libs/renderer';
+import { localizeTag } from '@/services/tags';
+import {
+  CategoryModel,
+  categoryAncestors,
+  loadCategories,
+  localizeCategory,
+} from '@/services/categories';
+import { localizeAuthorProfile } from '@/services/authors';
+import { SiteEntityType } from '@/libs/site';
+import { TranslatableType, recordTranslationStatus } from '@/services/translations';
+import {
+  LocalizedText,
+  getLocalizedContent,
+  isLocalizedText,
+  localizedText,
+  tenantLocaleSettings,
+  translatedLanguages,
+} from '@/libs/localization';
+import { requestLocaleSettings, resolveLanguages } from '@/services/locales';
 
 // Import queries
 import { authQueries } from './queries/auth';
 import { tenantQueries } from './queries/tenant';
 import { newsQueries } from './queries/news';
+import { newsReviewQueries } from './queries/news-review';
 import { merchQueries } from './queries/merch';
 import { contentQueries } from './queries/content';
+import { apiTokenQueries } from './queries/api-token';
+import { auditQueries } from './queries/audit';
+import { webhookQueries } from './queries/webhook';
+import { seoQueries } from './queries/seo';
+import { tagQueries } from './queries/tag';
+import { searchQueries } from './queries/search';
+import { authorQueries } from './queries/author';
+import { redirectQueries } from './queries/redirect';
+import { previewQueries } from './queries/preview';
+import { translationQueries } from './queries/translation';
 
 // Import mutations
 import { authMutations } from './mutations/auth';
 import { newsMutations } from './mutations/news';
+import { newsReviewMutations } from './mutations/news-review';
 import { merchMutations } from './mutations/merch';
 import { contentMutations } from './mutations/content';
 import { tenantMutations } from './mutations/tenant';
+import { apiTokenMutations } from './mutations/api-token';
+import { webhookMutations } from './mutations/webhook';
+import { seoMutations } from './mutations/seo';
+import { tagMutations } from './mutations/tag';
+import { authorMutations } from './mutations/author';
+import { redirectMutations } from './mutations/redirect';
+import { previewMutations } from './mutations/preview';
 import { uploadResolvers } from './mutations/upload';
 
 /**
@@ -55,12 +102,277 @@ const JSONScalar = new GraphQLScalarType({
   },
 });
 
+/**
+ * Multilingual text, wrapped by the query that loaded it or still raw JSON
+ */
+const asLocalizedText = (parent: any): LocalizedText =>
+  isLocalizedText(parent) ? parent : (localizedText(parent) as LocalizedText);
+
+/**
+ * Resolvers of a localized type; `translation` builds the entry of one language
+ */
+const localizedResolvers = (translation: (lang: string, value: any) => Record<string, any>) => ({
+  value: (parent: any, args: { lang?: string | null }, context: GraphQLContext) => {
+    const text = asLocalizedText(parent);
+    // Lists saved before they were multilingual have no languages to pick from
+    if (Array.isArray(text.translations)) return text.translations;
+    const languages = args.lang
+      ? resolveLanguages(context, args.lang)
+      : (text.languages ?? resolveLanguages(context));
+    return getLocalizedContent(text.translations, languages, text.strict) ?? null;
+  },
+  translations: (parent: any, args: { langs?: string[] | null }) => {
+    const { translations } = asLocalizedText(parent);
+    const available = translatedLanguages(translations);
+    const languages = args.langs
+      ? args.langs.filter(language => available.includes(language))
+      : available;
+    return languages.map(language => translation(language, translations[language]));
+  },
+  availableLanguages: (parent: any) => translatedLanguages(asLocalizedText(parent).translations),
+});
+
+const LocalizedString = localizedResolvers((lang, text) => ({ lang, text }));
+const LocalizedBlocks = localizedResolvers((lang, blocks) => ({ lang, blocks }));
+const LocalizedStringList = localizedResolvers((lang, values) => ({ lang, values }));
+
 /**
  * Type resolvers
  */
 const Tenant = {
   // Map database status field to GraphQL isActive field
   isActive: (parent: any) => parent.status === 'ACTIVE',
+  locales: (parent: any) => {
+    const settings = tenantLocaleSettings(parent.config);
+    return {
+      ...settings,
+      fallbacks: Object.entries(settings.fallbacks).map(([language, fallbacks]) => ({
+        language,
+        fallbacks,
+      })),
+    };
+  },
+};
+
+/**
+ * Former slugs of an entity, newest first
+ */
+const previousSlugs =
+  (type: SiteEntityType) => async (parent: any, _args: any, context: GraphQLContext) => {
+    const history = await context.prisma.slugHistory.findMany({
+      where: { entityType: type, entityId: parent.id, slug: { not: parent.slug } },
+      orderBy: { updatedAt: 'desc' },
+    });
+    return history.map(entry => entry.slug);
+  };
+
+/**
+ * Per-language completeness of an entity's multilingual fields
+ */
+const translationStatus =
+  (type: TranslatableType) =>
+  (parent: any, args: { languages?: string[] | null }, context: GraphQLContext) =>
+    recordTranslationStatus(
+      context.prisma,
+      parent,
+      type,
+      args.languages ?? undefined,
+      requestLocaleSettings(context).supportedLanguages
+    );
+
+/**
+ * Staff accounts (with their email) are only shown to readers of unpublished news;
+ * public readers get the bylines from contributors instead
+ */
+const canSeeStaffAccounts = (parent: any, context: GraphQLContext) =>
+  hasPermission(context.user, 'news:read', { tenantId: parent.tenantId });
+
+/**
+ * Blocks of one language for the block fields
+ * Without a `language` argument the blocks follow the language (and strictness) the article
+ * was queried in; with one, they are picked from every stored translation
+ */
+function articleBlocks(
+  parent: any,
+  language: string | undefined,
+  context: GraphQLContext
+): { blocks: any[]; languages: string[] } {
+  const text = asLocalizedText(parent.blocks);
+  const queried = typeof text.languages === 'string' ? [text.languages] : text.languages;
+  const languages = language || !queried ? resolveLanguages(context, language) : queried;
+  const blocks =
+    !language && text.strict
+      ? getLocalizedContent(text.translations, languages, true)
+      : localizeBlocks(text.translations, languages);
+  return { blocks: Array.isArray(blocks) ? blocks : [], languages };
+}
+
+const NewsArticle = {
+  typedBlocks: (parent: any, args: { language?: string }, context: GraphQLContext) =>
+    toTypedBlocks(articleBlocks(parent, args.language, context).blocks),
+  renderedHtml: async (
+    parent: any,
+    args: { language?: string; amp?: boolean },
+    context: GraphQLContext
+  ) => {
+    const { blocks, languages } = articleBlocks(parent, args.language, context);
+    const media = await loadBlockMedia(context.prisma, blocks);
+    return renderBlocksToHtml(blocks, { languages, amp: args.amp ?? false, media });
+  },
+  plainText: (parent: any, args: { language?: string }, context: GraphQLContext) =>
+    renderBlocksToText(articleBlocks(parent, args.language, context).blocks),
+  readingTimeMinutes: (parent: any, args: { language?: string }, context: GraphQLContext) =>
+    estimateReadingTime(renderBlocksToText(articleBlocks(parent, args.language, context).blocks)),
+  // Load the reviewer unless the resolver already included it
+  reviewer: (parent: any, _args: any, context: GraphQLContext) => {
+    if (!canSeeStaffAccounts(parent, context)) return null;
+    if (parent.reviewer !== undefined) return parent.reviewer;
+    if (!parent.reviewerId) return null;
+    return context.prisma.user.findUnique({ where: { id: parent.reviewerId } });
+  },
+  tags: async (parent: any, args: { language?: string }, context: GraphQLContext) => {
+    const tags = await context.prisma.tag.findMany({
+      where: { deletedAt: null, newsArticles: { some: { articleId: parent.id } } },
+      orderBy: { slug: 'asc' },
+    });
+    const languages = resolveLanguages(context, args.language);
+    return tags.map(tag => localizeTag(tag, languages));
+  },
+  author: (parent: any, _args: any, context: GraphQLContext) => {
+    if (!canSeeStaffAccounts(parent, context)) return null;
+    return (
+      parent.createdBy ?? context.prisma.user.findUnique({ where: { id: parent.createdById } })
+    );
+  },
+  lastEditedBy: (parent: any, _args: any, context: GraphQLContext) => {
+    if (!canSeeStaffAccounts(parent, context)) return null;
+    if (parent.updatedBy !== undefined) return parent.updatedBy;
+    if (!parent.updatedById) return null;
+    return context.prisma.user.findUnique({ where: { id: parent.updatedById } });
+  },
+  previousSlugs: previousSlugs('NEWS_ARTICLE'),
+  translationStatus: translationStatus('NEWS_ARTICLE'),
+  contributors: async (parent: any, args: { language?: string }, context: GraphQLContext) => {
+    const links = await context.prisma.newsArticleContributor.findMany({
+      where: { articleId: parent.id, author: { deletedAt: null } },
+      include: { author: true },
+      orderBy: { position: 'asc' },
+    });
+    const languages = resolveLanguages(context, args.language);
+    return links.map(link => localizeAuthorProfile(link.author, languages));
+  },
+};
+
+const Content = {
+  previousSlugs: previousSlugs('CONTENT'),
+  translationStatus: translationStatus('CONTENT'),
+  tags: async (parent: any, args: { language?: string }, context: GraphQLContext) => {
+    const tags = await context.prisma.tag.findMany({
+      where: { deletedAt: null, content: { some: { contentId: parent.id } } },
+      orderBy: { slug: 'asc' },
+    });
+    const languages = resolveLanguages(context, args.language);
+    return tags.map(tag => localizeTag(tag, languages));
+  },
+};
+
+const MerchProduct = {
+  previousSlugs: previousSlugs('MERCH_PRODUCT'),
+  translationStatus: translationStatus('MERCH_PRODUCT'),
+};
+
+// Usage counts come from `_count` when the query loaded them
+const Tag = {
+  newsCount: (parent: any, _args: any, context: GraphQLContext) =>
+    parent._count?.newsArticles ??
+    context.prisma.newsArticleTag.count({
+      where: { tagId: parent.id, article: { deletedAt: null } },
+    }),
+  contentCount: (parent: any, _args: any, context: GraphQLContext) =>
+    parent._count?.content ??
+    context.prisma.contentTag.count({
+      where: { tagId: parent.id, content: { deletedAt: null } },
+    }),
+  usageCount: async (parent: any, _args: any, context: GraphQLContext) =>
+    (await Tag.newsCount(parent, _args, context)) +
+    (await Tag.contentCount(parent, _args, context)),
+};
+
+/**
+ * Hierarchy fields shared by news and merch categories
+ * Parent and children come from the query when it already loaded them (e.g. the tree)
+ */
+const categoryHierarchy = (model: CategoryModel) => ({
+  parent: async (parent: any, args: { language?: string }, context: GraphQLContext) => {
+    if (parent.parent !== undefined) return parent.parent;
+    if (!parent.parentId) return null;
+    const categories = await loadCategories(context.prisma, model, parent.tenantId);
+    const found = categories.find(category => category.id === parent.parentId);
+    return found ? localizeCategory(found, resolveLanguages(context, args.language)) : null;
+  },
+  children: async (parent: any, args: { language?: string }, context: GraphQLContext) => {
+    if (parent.children !== undefined) return parent.children;
+    const categories = await loadCategories(context.prisma, model, parent.tenantId);
+    const languages = resolveLanguages(context, args.language);
+    return categories
+      .filter(category => category.parentId === parent.id)
+      .map(category => localizeCategory(category, languages));
+  },
+  ancestors: async (parent: any, args: { language?: string }, context: GraphQLContext) => {
+    const categories = await loadCategories(context.prisma, model, parent.tenantId);
+    const languages = resolveLanguages(context, args.language);
+    return categoryAncestors(categories, parent.id).map(category =>
+      localizeCategory(category, languages)
+    );
+  },
+  depth: async (parent: any, _args: any, context: GraphQLContext) => {
+    if (parent.depth !== undefined) return parent.depth;
+    if (!parent.parentId) return 0;
+    const categories = await loadCategories(context.prisma, model, parent.tenantId);
+    return categoryAncestors(categories, parent.id).length;
+  },
+});
+
+const NewsCategory = {
+  ...categoryHierarchy('newsCategory'),
+  translationStatus: translationStatus('NEWS_CATEGORY'),
+};
+
+const MerchCategory = {
+  ...categoryHierarchy('merchCategory'),
+  translationStatus: translationStatus('MERCH_CATEGORY'),
+};
+
+const AuthorProfile = {
+  avatar: (parent: any, _args: any, context: GraphQLContext) => {
+    if (!parent.avatarId) return null;
+    return context.prisma.media.findFirst({ where: { id: parent.avatarId, deletedAt: null } });
+  },
+  // Only published, live articles count towards an author page
+  articleCount: (parent: any, _args: any, context: GraphQLContext) =>
+    context.prisma.newsArticleContributor.count({
+      where: {
+        authorId: parent.id,
+        article: { status: 'PUBLISHED', publishedAt: { lte: new Date() }, deletedAt: null },
+      },
+    }),
+};
+
+const User = {
+  authorProfile: (parent: any, _args: any, context: GraphQLContext) =>
+    context.prisma.authorProfile.findFirst({ where: { userId: parent.id, deletedAt: null } }),
+};
+
+const NewsBlock = {
+  __resolveType: blockTypename,
+};
+
+/**
+ * Pagination sort directions map to Prisma's lowercase values
+ */
+const SortDirection = {
+  ASC: 'asc',
+  DESC: 'desc',
 };
 
 /**
@@ -73,7 +385,20 @@ export const resolvers = {
   JSON: JSONScalar,
 
   // Type Resolvers
+  LocalizedString,
+  LocalizedBlocks,
+  LocalizedStringList,
   Tenant,
+  NewsArticle,
+  NewsBlock,
+  Content,
+  MerchProduct,
+  Tag,
+  NewsCategory,
+  MerchCategory,
+  AuthorProfile,
+  User,
+  SortDirection,
 
   // Root Query
   Query: {
@@ -89,8 +414,19 @@ export const resolvers = {
     ...authQueries,
     ...tenantQueries,
     ...newsQueries,
+    ...newsReviewQueries,
     ...merchQueries,
     ...contentQueries,
+    ...apiTokenQueries,
+    ...auditQueries,
+    ...webhookQueries,
+    ...seoQueries,
+    ...searchQueries,
+    ...tagQueries,
+    ...authorQueries,
+    ...redirectQueries,
+    ...previewQueries,
+    ...translationQueries,
   },
 
   // Root Mutation
@@ -99,8 +435,16 @@ export const resolvers = {
     ...authMutations,
     ...tenantMutations,
     ...newsMutations,
+    ...newsReviewMutations,
     ...merchMutations, // Includes variant mutations
     ...contentMutations,
+    ...apiTokenMutations,
+    ...webhookMutations,
+    ...seoMutations,
+    ...tagMutations,
+    ...authorMutations,
+    ...redirectMutations,
+    ...previewMutations,
     ...uploadResolvers.Mutation,
   },
 };
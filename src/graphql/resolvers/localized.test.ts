@@ -0,0 +1,152 @@
+import { resolvers } from './index';
+import { newsQueries } from './queries/news';
+import { contentQueries } from './queries/content';
+import { MemoryStore, createMemoryPrismaClient } from '../../../tests/helpers/memory-prisma';
+
+const { LocalizedBlocks, LocalizedString, LocalizedStringList, NewsArticle, NewsCategory } =
+  resolvers as any;
+
+const blocks = {
+  en: [{ id: 'p1', type: 'paragraph', data: { text: 'Hello' } }],
+  mn: [{ id: 'p1', type: 'paragraph', data: { text: 'Сайн уу' } }],
+};
+const keywords = { en: ['news'], mn: ['мэдээ'] };
+
+function context(store: MemoryStore = {}, acceptLanguage?: string) {
+  return {
+    prisma: createMemoryPrismaClient(store, 'A'),
+    tenant: { id: 'A', config: {} },
+    req: { get: () => acceptLanguage },
+  } as any;
+}
+
+describe('multilingual article blocks and keywords', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = {
+      NewsArticle: [
+        {
+          id: 'article',
+          tenantId: 'A',
+          slug: 'article',
+          title: { en: 'Hello', mn: 'Сайн уу' },
+          blocks,
+          keywords,
+          status: 'PUBLISHED',
+          publishedAt: new Date('2024-01-01T00:00:00Z'),
+          deletedAt: null,
+        },
+      ],
+    };
+  });
+
+  it('resolve queried and raw (mutation) articles to the same shape', async () => {
+    const queried = await newsQueries.newsArticleById(
+      null,
+      { id: 'article', language: 'mn' },
+      context(store)
+    );
+    const raw = store.NewsArticle[0];
+
+    for (const article of [queried, raw]) {
+      expect(LocalizedBlocks.translations(article.blocks, {})).toEqual([
+        { lang: 'en', blocks: blocks.en },
+        { lang: 'mn', blocks: blocks.mn },
+      ]);
+      expect(LocalizedStringList.translations(article.keywords, { langs: ['mn'] })).toEqual([
+        { lang: 'mn', values: ['мэдээ'] },
+      ]);
+      expect(LocalizedBlocks.value(article.blocks, { lang: 'en' }, context())).toEqual(blocks.en);
+    }
+
+    // Without `lang` the queried language is kept; raw JSON uses the request language
+    expect(LocalizedBlocks.value(queried.blocks, {}, context())).toEqual(blocks.mn);
+    expect(LocalizedStringList.value(raw.keywords, {}, context())).toEqual(['news']);
+  });
+
+  it('picks the block fields language from every translation', async () => {
+    const queried = await newsQueries.newsArticleById(
+      null,
+      { id: 'article', language: 'mn' },
+      context(store)
+    );
+
+    expect(NewsArticle.plainText(queried, {}, context())).toBe('Сайн уу');
+    expect(NewsArticle.plainText(queried, { language: 'en' }, context())).toBe('Hello');
+  });
+
+  it('keeps lists saved before they were multilingual', () => {
+    expect(LocalizedStringList.value(['legacy'], {}, context())).toEqual(['legacy']);
+  });
+});
+
+describe('multilingual content', () => {
+  it('returns title, body and excerpt as LocalizedString', async () => {
+    const store: MemoryStore = {
+      Content: [
+        {
+          id: 'page',
+          tenantId: 'A',
+          slug: 'about',
+          title: { en: 'About', mn: 'Бидний тухай' },
+          content: { en: 'Body' },
+          excerpt: null,
+          status: 'PUBLISHED',
+          publishedAt: new Date('2024-01-01T00:00:00Z'),
+          deletedAt: null,
+        },
+      ],
+    };
+
+    const page = await contentQueries.contentBySlug(
+      null,
+      { slug: 'about', language: 'mn' },
+      context(store)
+    );
+
+    expect(LocalizedString.value(page.title, {}, context())).toBe('Бидний тухай');
+    // Untranslated fields fall back to the default language
+    expect(LocalizedString.value(page.content, {}, context())).toBe('Body');
+    expect(LocalizedString.translations(page.title, {})).toEqual([
+      { lang: 'en', text: 'About' },
+      { lang: 'mn', text: 'Бидний тухай' },
+    ]);
+    expect(page.excerpt).toBeNull();
+  });
+});
+
+describe('nested localized fields', () => {
+  const locales = {
+    defaultLanguage: 'en',
+    supportedLanguages: ['en', 'mn', 'kk'],
+    fallbacks: { kk: ['mn'] },
+  };
+
+  function tenantContext(store: MemoryStore) {
+    return { ...context(store), tenant: { id: 'A', config: { locales } } } as any;
+  }
+
+  it("follow the tenant's fallback chain for the language passed to them", async () => {
+    const store: MemoryStore = {
+      NewsCategory: [
+        {
+          id: 'world',
+          tenantId: 'A',
+          parentId: null,
+          name: { en: 'World', mn: 'Дэлхий' },
+          description: null,
+          deletedAt: null,
+        },
+      ],
+    };
+    const child = { id: 'asia', tenantId: 'A', parentId: 'world' };
+
+    const parent = await NewsCategory.parent(child, { language: 'kk' }, tenantContext(store));
+
+    expect(LocalizedString.value(parent.name, {}, tenantContext(store))).toBe('Дэлхий');
+    await expect(
+      NewsCategory.parent(child, { language: 'fr' }, tenantContext(store))
+    ).rejects.toThrow('Unsupported language: fr');
+  });
+});
@@ -0,0 +1,124 @@
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { authorize, hasPermission, withPermission } from '@/auth/permissions';
+import { generateApiToken } from '@/auth/api-tokens';
+
+const logger = createLogger('API_TOKEN_MUTATIONS');
+
+/**
+ * Validates `resource:action` permission format
+ */
+function validatePermissionFormat(permission: string): boolean {
+  return /^([a-z_]+|\*):([a-z_]+|\*)$/.test(permission);
+}
+
+/**
+ * API Token Mutation Resolvers
+ * Handles creation and revocation of API tokens
+ */
+export const apiTokenMutations = {
+  /**
+   * Create an API token
+   * Returns the plaintext token once; only its hash is stored
+   */
+  createApiToken: withPermission(
+    'api:manage',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      const { input } = args;
+
+      // Tokens cannot mint further tokens
+      if (context.apiTokenId) {
+        throw new AppError(
+          'API tokens cannot create API tokens',
+          ErrorType.AUTHORIZATION_ERROR,
+          403
+        );
+      }
+
+      if (!input.name || input.name.trim().length === 0) {
+        throw new AppError('Token name is required', ErrorType.VALIDATION_ERROR, 400);
+      }
+
+      const permissions: string[] = Array.from(new Set(input.permissions));
+      const invalid = permissions.filter(permission => !validatePermissionFormat(permission));
+      if (invalid.length > 0) {
+        throw new AppError(
+          `Invalid permissions: ${invalid.join(', ')}`,
+          ErrorType.VALIDATION_ERROR,
+          400
+        );
+      }
+
+      // A token can never hold more than its creator. Conditional grants (e.g. own articles
+      // only) stay conditional: token grants are derived from the creator's on every request
+      const notHeld = permissions.filter(permission => !hasPermission(context.user, permission));
+      if (notHeld.length > 0) {
+        throw new AppError(
+          `Cannot grant permissions you do not hold: ${notHeld.join(', ')}`,
+          ErrorType.AUTHORIZATION_ERROR,
+          403
+        );
+      }
+
+      if (input.expiresAt && new Date(input.expiresAt) <= new Date()) {
+        throw new AppError('Expiry must be in the future', ErrorType.VALIDATION_ERROR, 400);
+      }
+
+      try {
+        const { token, tokenHash } = generateApiToken();
+
+        const apiToken = await context.prisma.apiToken.create({
+          data: {
+            name: input.name.trim(),
+            token: tokenHash,
+            permissions,
+            expiresAt: input.expiresAt || null,
+            tenantId: context.user.tenantId,
+            createdById: context.user.id,
+          },
+          include: { createdBy: true },
+        });
+
+        logger.info(`Created API token: ${apiToken.id}`, { userId: context.user.id });
+
+        return { token, apiToken };
+      } catch (error) {
+        logger.error('Error creating API token', error as Error);
+        throw new Error('Failed to create API token');
+      }
+    }
+  ),
+
+  /**
+   * Revoke an API token
+   */
+  revokeApiToken: withPermission(
+    'api:manage',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      const { id } = args;
+
+      const apiToken = await context.prisma.apiToken.findUnique({
+        where: { id },
+      });
+
+      if (!apiToken) {
+        throw new AppError('API token not found', ErrorType.NOT_FOUND_ERROR, 404);
+      }
+
+      authorize(context, 'api:manage', apiToken);
+
+      try {
+        await context.prisma.apiToken.update({
+          where: { id },
+          data: { isActive: false },
+        });
+
+        logger.info(`Revoked API token: ${id}`, { userId: context.user.id });
+        return true;
+      } catch (error) {
+        logger.error('Error revoking API token', error as Error);
+        throw new Error('Failed to revoke API token');
+      }
+    }
+  ),
+};
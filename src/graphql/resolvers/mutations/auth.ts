@@ -1,19 +1,68 @@
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { GraphQLContext } from '@/types';
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { WITH_DELETED, prisma } from '@/database/prisma';
 import { createLogger } from '@/utils/logger';
+import { isStrongPassword } from '@/utils';
+import { authorize, isPlatformAdmin, platformPrisma } from '@/auth/permissions';
+import { ACCOUNT_TOKEN_TTL, consumeAccountToken, issueAccountToken } from '@/auth/account-tokens';
+import { emailVerificationMail, mailService, passwordResetMail } from '@/services/mail';
+import { recordAudit } from '@/services/audit';
+import {
+  clearAuthCookies,
+  createSession,
+  getSession,
+  revokeRequestSession,
+  revokeSession,
+  revokeUserSessions,
+  rotateSession,
+} from '@/auth/sessions';
 
 const logger = createLogger('AUTH_MUTATIONS');
 
-interface JWTPayload {
+/**
+ * Tenant setting that blocks login until the user's email is verified
+ */
+const EMAIL_VERIFICATION_SETTING = 'email_verification_required';
+
+/**
+ * Check whether a tenant requires verified email addresses to log in
+ */
+async function isEmailVerificationRequired(tenantId: string): Promise<boolean> {
+  const setting = await prisma.setting.findUnique({
+    where: {
+      key_tenantId: {
+        key: EMAIL_VERIFICATION_SETTING,
+        tenantId,
+      },
+    },
+  });
+
+  return setting?.value === true;
+}
+
+/**
+ * Issue a verification token and email it to the user
+ */
+async function sendVerificationMail(user: {
   id: string;
   email: string;
   tenantId: string;
+}): Promise<void> {
+  const token = await issueAccountToken('email-verification', {
+    userId: user.id,
+    tenantId: user.tenantId,
+    email: user.email,
+  });
+
+  await mailService.send(
+    emailVerificationMail(user.email, token, ACCOUNT_TOKEN_TTL['email-verification'] / 3600)
+  );
 }
 
 /**
  * Auth Mutation Resolvers
  * Handles user login, registration, and logout
+ * Account flows run before the user's tenant is known, so they use the unscoped client
  */
 export const authMutations = {
   /**
@@ -24,7 +73,7 @@ export const authMutations = {
       const { email, password } = args;
 
       // Find user by email
-      const user = await context.prisma.user.findFirst({
+      const user = await prisma.user.findFirst({
         where: {
           email: email.toLowerCase(),
           isActive: true,
@@ -49,30 +98,26 @@ export const authMutations = {
         throw new Error('Account is suspended');
       }
 
-      // Generate JWT token
-      const token = jwt.sign(
-        {
-          id: user.id,
-          email: user.email,
-          tenantId: user.tenantId,
-        } as JWTPayload,
-        process.env.JWT_SECRET!,
-        { expiresIn: process.env.JWT_EXPIRES_IN || '7d' } as jwt.SignOptions
-      );
+      // Block unverified users when the tenant requires verification
+      if (!user.emailVerified && (await isEmailVerificationRequired(user.tenantId))) {
+        throw new Error('Email address not verified');
+      }
+
+      // Start a session: short-lived access token + rotating refresh token (httpOnly cookies)
+      await createSession(context, user);
 
       // Update last login
-      await context.prisma.user.update({
+      await prisma.user.update({
         where: { id: user.id },
         data: { lastLoginAt: new Date() },
       });
 
-      // Set httpOnly cookie instead of returning token
-      context.res.cookie('auth-token', token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
-        maxAge: 24 * 60 * 60 * 1000, // 24 hours
-        path: '/',
+      await recordAudit(context, {
+        entity: 'User',
+        entityId: user.id,
+        action: 'LOGIN',
+        tenantId: user.tenantId,
+        userId: user.id,
       });
 
       logger.info(`User logged in: ${user.email}`);
@@ -99,7 +144,7 @@ export const authMutations = {
       const { email, password, firstName, lastName, tenantSlug } = args;
 
       // Find tenant by slug
-      const tenant = await context.prisma.tenant.findFirst({
+      const tenant = await prisma.tenant.findFirst({
         where: {
           slug: tenantSlug,
           status: 'ACTIVE',
@@ -111,10 +156,11 @@ export const authMutations = {
       }
 
       // Check if user already exists
-      const existingUser = await context.prisma.user.findFirst({
+      const existingUser = await prisma.user.findFirst({
         where: {
           email: email.toLowerCase(),
           tenantId: tenant.id,
+          ...WITH_DELETED,
         },
       });
 
@@ -126,7 +172,7 @@ export const authMutations = {
       const hashedPassword = await bcrypt.hash(password, 12);
 
       // Create user
-      const user = await context.prisma.user.create({
+      const user = await prisma.user.create({
         data: {
           email: email.toLowerCase(),
           firstName,
@@ -140,31 +186,29 @@ export const authMutations = {
         },
       });
 
-      // Generate JWT token
-      const token = jwt.sign(
-        {
-          id: user.id,
-          email: user.email,
-          tenantId: user.tenantId,
-        } as JWTPayload,
-        process.env.JWT_SECRET!,
-        { expiresIn: process.env.JWT_EXPIRES_IN || '7d' } as jwt.SignOptions
-      );
-
-      // Set httpOnly cookie
-      context.res.cookie('auth-token', token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
-        maxAge: 24 * 60 * 60 * 1000, // 24 hours
-        path: '/',
-      });
+      // The account exists either way; the user can ask for a new link with sendVerificationEmail
+      try {
+        await sendVerificationMail(user);
+      } catch (error) {
+        logger.error('Failed to send verification email after registration', error as Error, {
+          userId: user.id,
+        });
+      }
+
+      // Tenants requiring verification get no session until the email is confirmed
+      const verificationRequired = await isEmailVerificationRequired(tenant.id);
+      if (!verificationRequired) {
+        // Start a session with httpOnly auth cookies
+        await createSession(context, user);
+      }
 
       logger.info(`User registered: ${user.email}`);
 
       return {
         success: true,
-        message: 'Registration successful',
+        message: verificationRequired
+          ? 'Registration successful. Please verify your email address before logging in'
+          : 'Registration successful',
         user: {
           ...user,
           password: undefined,
@@ -177,16 +221,21 @@ export const authMutations = {
   },
 
   /**
-   * User logout - clears the httpOnly cookie
+   * User logout - revokes the current session and clears the httpOnly cookies
    */
   logout: async (_parent: any, _args: any, context: GraphQLContext) => {
     try {
-      context.res.clearCookie('auth-token', {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        path: '/',
-      });
+      await revokeRequestSession(context);
+
+      if (context.user) {
+        await recordAudit(context, {
+          entity: 'User',
+          entityId: context.user.id,
+          action: 'LOGOUT',
+        });
+      }
+
+      clearAuthCookies(context.res);
 
       logger.info('User logged out successfully');
 
@@ -196,4 +245,222 @@ export const authMutations = {
       throw new Error('Logout failed');
     }
   },
+
+  /**
+   * Email a password reset link
+   * Always succeeds so the response does not reveal whether the account exists
+   */
+  requestPasswordReset: async (_parent: any, args: any, _context: GraphQLContext) => {
+    try {
+      const { email, tenantSlug } = args;
+
+      const user = await prisma.user.findFirst({
+        where: {
+          email: email.toLowerCase(),
+          isActive: true,
+          deletedAt: null,
+          tenant: { slug: tenantSlug },
+        },
+      });
+
+      if (user) {
+        // A failed delivery must look the same as an unknown address
+        try {
+          const token = await issueAccountToken('password-reset', {
+            userId: user.id,
+            tenantId: user.tenantId,
+            email: user.email,
+          });
+
+          await mailService.send(
+            passwordResetMail(user.email, token, ACCOUNT_TOKEN_TTL['password-reset'] / 60)
+          );
+
+          logger.info(`Password reset requested: ${user.email}`);
+        } catch (error) {
+          logger.error('Failed to send password reset email', error as Error, { userId: user.id });
+        }
+      }
+
+      return true;
+    } catch (error) {
+      logger.error('Password reset request failed', error as Error);
+      throw new Error('Failed to request password reset');
+    }
+  },
+
+  /**
+   * Set a new password using a reset token
+   * Revokes all existing sessions of the user
+   */
+  resetPassword: async (_parent: any, args: any, _context: GraphQLContext) => {
+    const { token, newPassword } = args;
+
+    const passwordCheck = isStrongPassword(newPassword);
+    if (!passwordCheck.isValid) {
+      throw new AppError(passwordCheck.errors.join('. '), ErrorType.VALIDATION_ERROR, 400, true, {
+        errors: passwordCheck.errors,
+      });
+    }
+
+    const record = await consumeAccountToken('password-reset', token);
+
+    const user = await prisma.user.findUnique({
+      where: { id: record.userId },
+    });
+
+    if (!user || !user.isActive || user.deletedAt || user.email !== record.email) {
+      throw new AppError('Invalid or expired token', ErrorType.VALIDATION_ERROR, 400);
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: await bcrypt.hash(newPassword, 12),
+        // The reset link proves ownership of the address
+        emailVerified: true,
+      },
+    });
+
+    await revokeUserSessions(user.id);
+
+    logger.info(`Password reset completed: ${user.email}`);
+    return true;
+  },
+
+  /**
+   * Resend the verification email to the current user
+   */
+  sendVerificationEmail: async (_parent: any, _args: any, context: GraphQLContext) => {
+    if (!context.user) {
+      throw new AppError('Authentication required', ErrorType.AUTHENTICATION_ERROR, 401);
+    }
+
+    const user = await context.prisma.user.findUnique({
+      where: { id: context.user.id },
+    });
+
+    if (!user) {
+      throw new AppError('User not found', ErrorType.NOT_FOUND_ERROR, 404);
+    }
+
+    if (user.emailVerified) {
+      return false;
+    }
+
+    await sendVerificationMail(user);
+
+    logger.info(`Verification email sent: ${user.email}`);
+    return true;
+  },
+
+  /**
+   * Mark the user's email as verified using a verification token
+   */
+  verifyEmail: async (_parent: any, args: any, _context: GraphQLContext) => {
+    const record = await consumeAccountToken('email-verification', args.token);
+
+    const user = await prisma.user.findUnique({
+      where: { id: record.userId },
+    });
+
+    // The token only verifies the address it was sent to
+    if (!user || user.deletedAt || user.email !== record.email) {
+      throw new AppError('Invalid or expired token', ErrorType.VALIDATION_ERROR, 400);
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerified: true },
+    });
+
+    logger.info(`Email verified: ${user.email}`);
+    return true;
+  },
+
+  /**
+   * Exchange the refresh token cookie for a new access token
+   * The refresh token is rotated; replaying an old one revokes the whole session
+   */
+  refreshSession: async (_parent: any, _args: any, context: GraphQLContext) => {
+    try {
+      const userId = await rotateSession(context);
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        include: {
+          tenant: true,
+        },
+      });
+
+      return {
+        success: true,
+        message: 'Session refreshed',
+        user: {
+          ...user,
+          password: undefined,
+        },
+      };
+    } catch (error) {
+      logger.error('Session refresh failed', error as Error);
+      if (error instanceof AppError) throw error;
+      throw new Error('Session refresh failed');
+    }
+  },
+
+  /**
+   * Revoke one of the current user's sessions (e.g. a lost device)
+   */
+  revokeSession: async (_parent: any, args: any, context: GraphQLContext) => {
+    if (!context.user) {
+      throw new AppError('Authentication required', ErrorType.AUTHENTICATION_ERROR, 401);
+    }
+
+    const session = await getSession(args.id);
+    if (!session || session.userId !== context.user.id) {
+      return false;
+    }
+
+    if (session.id === context.sessionId) {
+      clearAuthCookies(context.res);
+    }
+
+    logger.info(`Session revoked: ${session.id}`, { userId: context.user.id });
+    return revokeSession(session.id);
+  },
+
+  /**
+   * Revoke every session of a user
+   * Without userId revokes the caller's own sessions; other users require user:update
+   */
+  revokeAllSessions: async (_parent: any, args: any, context: GraphQLContext) => {
+    if (!context.user) {
+      throw new AppError('Authentication required', ErrorType.AUTHENTICATION_ERROR, 401);
+    }
+
+    const userId = args.userId || context.user.id;
+
+    if (userId !== context.user.id) {
+      // Platform admins may revoke sessions of users in any tenant
+      const db = isPlatformAdmin(context.user) ? platformPrisma(context) : context.prisma;
+      const targetUser = await db.user.findUnique({
+        where: { id: userId },
+      });
+
+      if (!targetUser) {
+        throw new AppError('User not found', ErrorType.NOT_FOUND_ERROR, 404);
+      }
+
+      authorize(context, 'user:update', targetUser);
+    } else {
+      clearAuthCookies(context.res);
+    }
+
+    const revoked = await revokeUserSessions(userId);
+    logger.info(`Revoked ${revoked} session(s) for user: ${userId}`, {
+      revokedBy: context.user.id,
+    });
+
+    return revoked;
+  },
 };
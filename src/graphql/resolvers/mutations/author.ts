@@ -0,0 +1,220 @@
+import { Prisma } from '@prisma/client';
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { slugify } from '@/utils';
+import { withPermission } from '@/auth/permissions';
+import { recordAudit } from '@/services/audit';
+import { DatabaseUtils, WITH_DELETED } from '@/database/prisma';
+
+const logger = createLogger('AUTHOR_MUTATIONS');
+
+/**
+ * Validate the writable fields of an author profile and normalize its slug
+ * The avatar and linked user must belong to the tenant
+ */
+async function authorProfileData(
+  context: GraphQLContext,
+  input: any
+): Promise<Record<string, any>> {
+  const data: Record<string, any> = { ...input };
+
+  if (input.displayName !== undefined) {
+    data.displayName = (input.displayName || '').trim();
+    if (!data.displayName) {
+      throw new AppError('Author display name is required', ErrorType.VALIDATION_ERROR, 400);
+    }
+  }
+
+  if (input.slug !== undefined) {
+    data.slug = slugify(input.slug || '');
+    if (!data.slug) {
+      throw new AppError('Author slug cannot be empty', ErrorType.VALIDATION_ERROR, 400);
+    }
+  }
+
+  // Nullable JSON columns are cleared with DbNull, not null
+  if (input.bio === null) {
+    data.bio = Prisma.DbNull;
+  }
+
+  if (input.avatarId) {
+    const avatar = await context.prisma.media.findFirst({
+      where: { id: input.avatarId, deletedAt: null },
+    });
+    if (!avatar || !avatar.mimeType.startsWith('image/')) {
+      throw new AppError(
+        'Avatar must be an uploaded image',
+        ErrorType.VALIDATION_ERROR,
+        400,
+        true,
+        {
+          avatarId: input.avatarId,
+        }
+      );
+    }
+  }
+
+  if (input.userId) {
+    const user = await context.prisma.user.findFirst({
+      where: { id: input.userId, deletedAt: null },
+    });
+    if (!user) {
+      throw new AppError('User not found', ErrorType.VALIDATION_ERROR, 400, true, {
+        userId: input.userId,
+      });
+    }
+  }
+
+  return data;
+}
+
+function duplicateProfileError(): AppError {
+  return new AppError(
+    'An author profile with this slug or user already exists',
+    ErrorType.DUPLICATE_ERROR,
+    409
+  );
+}
+
+/**
+ * Author Mutation Resolvers
+ * Manages the public author profiles used in article bylines
+ */
+export const authorMutations = {
+  /**
+   * Create an author profile; a deleted profile with the same slug is brought back instead
+   */
+  createAuthorProfile: withPermission(
+    'author:create',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const data = await authorProfileData(context, args.input);
+        data.slug = data.slug || slugify(data.displayName);
+
+        const existing = await context.prisma.authorProfile.findFirst({
+          where: { slug: data.slug, ...WITH_DELETED },
+        });
+        if (existing && !existing.deletedAt) {
+          throw duplicateProfileError();
+        }
+
+        const profile = existing
+          ? await context.prisma.authorProfile.update({
+              where: { id: existing.id },
+              data: {
+                bio: Prisma.DbNull,
+                avatarId: null,
+                userId: null,
+                ...data,
+                deletedAt: null,
+              } as any,
+            })
+          : await context.prisma.authorProfile.create({
+              data: { ...data, tenantId: context.user.tenantId } as any,
+            });
+
+        await recordAudit(context, {
+          entity: 'AuthorProfile',
+          entityId: profile.id,
+          action: 'CREATE',
+          after: profile,
+        });
+
+        logger.info(`Created author profile: ${profile.id}`, { userId: context.user.id });
+        return profile;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        if (DatabaseUtils.isUniqueConstraintError(error)) {
+          throw duplicateProfileError();
+        }
+        logger.error('Error creating author profile', error as Error);
+        throw new Error('Failed to create author profile');
+      }
+    }
+  ),
+
+  /**
+   * Update an author profile
+   */
+  updateAuthorProfile: withPermission(
+    'author:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id, input } = args;
+
+        const existing = await context.prisma.authorProfile.findFirst({
+          where: { id, deletedAt: null },
+        });
+        if (!existing) {
+          throw new AppError('Author profile not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+
+        const profile = await context.prisma.authorProfile.update({
+          where: { id },
+          data: await authorProfileData(context, input),
+        });
+
+        await recordAudit(context, {
+          entity: 'AuthorProfile',
+          entityId: profile.id,
+          action: 'UPDATE',
+          before: existing,
+          after: profile,
+        });
+
+        logger.info(`Updated author profile: ${profile.id}`, { userId: context.user.id });
+        return profile;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        if (DatabaseUtils.isUniqueConstraintError(error)) {
+          throw duplicateProfileError();
+        }
+        logger.error('Error updating author profile', error as Error);
+        throw new Error('Failed to update author profile');
+      }
+    }
+  ),
+
+  /**
+   * Delete an author profile and remove it from all article bylines
+   * The linked user is released so they can be given a new profile
+   */
+  deleteAuthorProfile: withPermission(
+    'author:delete',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id } = args;
+
+        const profile = await context.prisma.authorProfile.findFirst({
+          where: { id, deletedAt: null },
+        });
+        if (!profile) {
+          throw new AppError('Author profile not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+
+        await context.prisma.authorProfile.update({
+          where: { id },
+          data: {
+            deletedAt: new Date(),
+            userId: null,
+            articles: { deleteMany: {} },
+          },
+        });
+
+        await recordAudit(context, {
+          entity: 'AuthorProfile',
+          entityId: id,
+          action: 'DELETE',
+          before: profile,
+        });
+
+        logger.info(`Deleted author profile: ${id}`, { userId: context.user.id });
+        return true;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        logger.error('Error deleting author profile', error as Error);
+        throw new Error('Failed to delete author profile');
+      }
+    }
+  ),
+};
@@ -1,6 +1,13 @@
-import { GraphQLContext } from '@/types';
+import { Prisma } from '@prisma/client';
+import { AppError, GraphQLContext } from '@/types';
 import { createLogger } from '@/utils/logger';
 import { slugify } from '@/utils/index';
+import { authorize, withPermission } from '@/auth/permissions';
+import { recordAudit } from '@/services/audit';
+import { emitWebhookEvent } from '@/services/webhooks';
+import { assertValidSchedule } from '@/services/scheduler';
+import { replaceTagLinks, resolveTagIds } from '@/services/tags';
+import { recordSlugChange } from '@/services/slugs';
 
 const logger = createLogger('CONTENT_MUTATIONS');
 
@@ -12,135 +19,217 @@ export const contentMutations = {
   /**
    * Create content
    */
-  createContent: async (_: any, { input }: any, context: GraphQLContext) => {
-    try {
-      // Check authentication
-      if (!context.user) {
-        throw new Error('Not authenticated');
-      }
+  createContent: withPermission(
+    'content:create',
+    async (_: any, args: any, context: GraphQLContext) => {
+      try {
+        const { tagIds, ...input } = args.input;
+
+        // Publishing directly or scheduling requires the publish permission
+        if (input.status === 'PUBLISHED' || input.status === 'SCHEDULED') {
+          authorize(context, 'content:publish');
+        }
 
-      // Generate slug if not provided
-      const slug = input.slug || slugify(input.title || 'content');
-
-      const content = await context.prisma.content.create({
-        data: {
-          ...input,
-          slug,
-          tenantId: context.user.tenantId,
-          status: input.status || 'DRAFT',
-          createdById: context.user.id,
-        },
-        include: {
-          tenant: true
+        assertValidSchedule(input);
+
+        // Generate slug if not provided
+        const slug =
+          input.slug ||
+          slugify(typeof input.title === 'string' ? input.title : input.title?.en || 'content');
+
+        const content = await context.prisma.content.create({
+          data: {
+            ...input,
+            slug,
+            tenantId: context.user.tenantId,
+            status: input.status || 'DRAFT',
+            ...(input.status === 'PUBLISHED' && { publishedAt: new Date() }),
+            createdById: context.user.id,
+            ...(tagIds && {
+              tags: {
+                create: (await resolveTagIds(context.prisma, tagIds)).map(tagId => ({ tagId })),
+              },
+            }),
+          },
+          include: {
+            tenant: true,
+          },
+        });
+
+        await recordAudit(context, {
+          entity: 'Content',
+          entityId: content.id,
+          action: 'CREATE',
+          after: content,
+        });
+
+        await emitWebhookEvent(context, 'content.created', content);
+        if (content.status === 'PUBLISHED') {
+          await emitWebhookEvent(context, 'content.published', content);
         }
-      });
-
-      logger.info(`Created content: ${content.id}`, { userId: context.user.id });
-      return {
-        success: true,
-        message: 'Content created successfully',
-        content,
-      };
-    } catch (error) {
-      logger.error('Error creating content', error as Error);
-      throw new Error('Failed to create content');
+
+        logger.info(`Created content: ${content.id}`, { userId: context.user.id });
+        return {
+          success: true,
+          message: 'Content created successfully',
+          content,
+        };
+      } catch (error) {
+        logger.error('Error creating content', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to create content');
+      }
     }
-  },
+  ),
 
   /**
    * Update content
    */
-  updateContent: async (_: any, { id, input }: any, context: GraphQLContext) => {
-    try {
-      // Check authentication
-      if (!context.user) {
-        throw new Error('Not authenticated');
-      }
+  updateContent: withPermission(
+    'content:update',
+    async (_: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id } = args;
+        const { tagIds, ...input } = args.input;
+
+        // Check if content exists
+        const existingContent = await context.prisma.content.findUnique({
+          where: { id },
+        });
+
+        if (!existingContent || existingContent.deletedAt) {
+          throw new Error('Content not found');
+        }
 
-      // Check if content exists
-      const existingContent = await context.prisma.content.findUnique({
-        where: { id },
-      });
+        authorize(context, 'content:update', existingContent);
+
+        // Publishing, unpublishing or changing the schedule requires the publish permission
+        if (
+          (input.status &&
+            input.status !== existingContent.status &&
+            (input.status === 'PUBLISHED' ||
+              input.status === 'SCHEDULED' ||
+              existingContent.status === 'PUBLISHED')) ||
+          input.scheduledAt !== undefined ||
+          input.unpublishAt !== undefined
+        ) {
+          authorize(context, 'content:publish', existingContent);
+        }
 
-      if (!existingContent || existingContent.deletedAt) {
-        throw new Error('Content not found');
-      }
+        assertValidSchedule({ ...existingContent, ...input });
 
-      // Update slug if title changed
-      const updateData: any = { ...input };
-      if (input.title && !input.slug) {
-        updateData.slug = slugify(input.title);
-      }
+        // The slug only changes when one is given; editing the title keeps published URLs
+        const updateData: Prisma.ContentUncheckedUpdateInput = { ...input };
 
-      // Set published date if status changed to PUBLISHED
-      if (
-        input.status === 'PUBLISHED' &&
-        existingContent.status !== 'PUBLISHED' &&
-        !input.publishedAt
-      ) {
-        updateData.publishedAt = new Date();
-      }
+        // Set published date if status changed to PUBLISHED
+        if (
+          input.status === 'PUBLISHED' &&
+          existingContent.status !== 'PUBLISHED' &&
+          !input.publishedAt
+        ) {
+          updateData.publishedAt = new Date();
+        }
+
+        // Set updated by user
+        updateData.updatedById = context.user.id;
 
-      // Set updated by user
-      updateData.updatedById = context.user.id;
+        if (tagIds) {
+          updateData.tags = replaceTagLinks(await resolveTagIds(context.prisma, tagIds));
+        }
 
-      const content = await context.prisma.content.update({
-        where: { id },
-        data: updateData,
-        include: {
-          tenant: true
+        const content = await context.prisma.content.update({
+          where: { id },
+          data: updateData,
+          include: {
+            tenant: true,
+          },
+        });
+
+        await recordSlugChange(
+          context.prisma,
+          { tenantId: content.tenantId, type: 'CONTENT', id: content.id },
+          existingContent.slug,
+          content.slug
+        );
+
+        await recordAudit(context, {
+          entity: 'Content',
+          entityId: content.id,
+          action: 'UPDATE',
+          before: existingContent,
+          after: content,
+        });
+
+        await emitWebhookEvent(context, 'content.updated', content);
+        if (content.status !== existingContent.status) {
+          if (content.status === 'PUBLISHED') {
+            await emitWebhookEvent(context, 'content.published', content);
+          } else if (existingContent.status === 'PUBLISHED') {
+            await emitWebhookEvent(context, 'content.unpublished', content);
+          }
         }
-      });
-
-      logger.info(`Updated content: ${content.id}`, { userId: context.user.id });
-      return {
-        success: true,
-        message: 'Content updated successfully',
-        content,
-      };
-    } catch (error) {
-      logger.error('Error updating content', error as Error);
-      throw new Error('Failed to update content');
+
+        logger.info(`Updated content: ${content.id}`, { userId: context.user.id });
+        return {
+          success: true,
+          message: 'Content updated successfully',
+          content,
+        };
+      } catch (error) {
+        logger.error('Error updating content', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to update content');
+      }
     }
-  },
+  ),
 
   /**
    * Delete content (soft delete)
    */
-  deleteContent: async (_: any, { id }: { id: string }, context: GraphQLContext) => {
-    try {
-      // Check authentication
-      if (!context.user) {
-        throw new Error('Not authenticated');
-      }
-
-      const content = await context.prisma.content.findUnique({
-        where: { id },
-      });
+  deleteContent: withPermission(
+    'content:delete',
+    async (_: any, { id }: { id: string }, context: GraphQLContext) => {
+      try {
+        const content = await context.prisma.content.findUnique({
+          where: { id },
+        });
+
+        if (!content || content.deletedAt) {
+          throw new Error('Content not found');
+        }
 
-      if (!content || content.deletedAt) {
-        throw new Error('Content not found');
+        authorize(context, 'content:delete', content);
+
+        await context.prisma.content.update({
+          where: { id },
+          data: {
+            deletedAt: new Date(),
+            updatedById: context.user.id,
+          },
+        });
+
+        await recordAudit(context, {
+          entity: 'Content',
+          entityId: id,
+          action: 'DELETE',
+          before: content,
+        });
+
+        await emitWebhookEvent(context, 'content.deleted', content);
+
+        logger.info(`Deleted content: ${id}`, { userId: context.user.id });
+        return {
+          success: true,
+          message: 'Content deleted successfully',
+        };
+      } catch (error) {
+        logger.error('Error deleting content', error as Error);
+        if (error instanceof AppError) throw error;
+        return {
+          success: false,
+          message: 'Failed to delete content',
+        };
       }
-
-      await context.prisma.content.update({
-        where: { id },
-        data: {
-          deletedAt: new Date(),
-          updatedById: context.user.id,
-        },
-      });
-
-      logger.info(`Deleted content: ${id}`, { userId: context.user.id });
-      return {
-        success: true,
-        message: 'Content deleted successfully',
-      };
-    } catch (error) {
-      logger.error('Error deleting content', error as Error);
-      return {
-        success: false,
-        message: 'Failed to delete content',
-      };
     }
-  },
+  ),
 };
@@ -1,9 +1,38 @@
-import { GraphQLContext } from '@/types';
+import { Prisma } from '@prisma/client';
+import { AppError, GraphQLContext } from '@/types';
 import { createLogger } from '@/utils/logger';
 import { slugify } from '@/utils/index';
+import { authorize, withPermission } from '@/auth/permissions';
+import { recordAudit } from '@/services/audit';
+import { emitWebhookEvent } from '@/services/webhooks';
+import { assertValidCategoryParent } from '@/services/categories';
+import { recordSlugChange } from '@/services/slugs';
 
 const logger = createLogger('MERCH_MUTATIONS');
 
+/**
+ * Load a variant for modification
+ * Variants carry no tenantId, so ownership is checked through the tenant-scoped product
+ */
+async function findVariantForUpdate(context: GraphQLContext, id: string) {
+  const variant = await context.prisma.merchVariant.findUnique({
+    where: { id },
+  });
+
+  const product =
+    variant &&
+    (await context.prisma.merchProduct.findUnique({
+      where: { id: variant.productId },
+    }));
+
+  if (!variant || variant.deletedAt || !product) {
+    throw new Error('Variant not found');
+  }
+
+  authorize(context, 'merch:update', product);
+  return { variant, product };
+}
+
 /**
  * Merch Mutation Resolvers
  * Handles merchandise product and category mutations with authentication
@@ -12,387 +41,514 @@ export const merchMutations = {
   /**
    * Create new merchandise product
    */
-  createMerchProduct: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      // Check authentication
-      if (!context.user) {
-        throw new Error('Not authenticated');
-      }
-
-      const { input } = args;
+  createMerchProduct: withPermission(
+    'merch:create',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { input } = args;
+
+        // Extract variants from input
+        const { variants, ...productData } = input;
+
+        // Generate slug if not provided
+        const slug =
+          productData.slug ||
+          slugify(
+            typeof productData.name === 'string'
+              ? productData.name
+              : productData.name.en || 'product'
+          );
+
+        // Set published date if status is ACTIVE and no date provided
+        const publishedAt =
+          productData.status === 'ACTIVE' && !productData.publishedAt
+            ? new Date()
+            : productData.publishedAt;
+
+        const product = await context.prisma.merchProduct.create({
+          data: {
+            ...productData,
+            slug,
+            publishedAt,
+            tenantId: context.user.tenantId,
+            createdById: context.user.id,
+            // Create variants if provided
+            productVariants:
+              variants && variants.length > 0
+                ? {
+                    create: variants.map((variant: any, index: number) => ({
+                      ...variant,
+                      position: variant.position ?? index,
+                      inventory: variant.inventory ?? 0,
+                      isAvailable: variant.isAvailable ?? true,
+                    })),
+                  }
+                : undefined,
+          },
+          include: {
+            category: true,
+            tenant: true,
+            productVariants: {
+              where: { deletedAt: null },
+              orderBy: { position: 'asc' },
+            },
+          },
+        });
 
-      // Extract variants from input
-      const { variants, ...productData } = input;
+        await recordAudit(context, {
+          entity: 'MerchProduct',
+          entityId: product.id,
+          action: 'CREATE',
+          after: product,
+        });
 
-      // Generate slug if not provided
-      const slug =
-        productData.slug ||
-        slugify(
-          typeof productData.name === 'string' ? productData.name : productData.name.en || 'product'
-        );
+        await emitWebhookEvent(context, 'merch.product.created', product);
 
-      // Set published date if status is ACTIVE and no date provided
-      const publishedAt =
-        productData.status === 'ACTIVE' && !productData.publishedAt
-          ? new Date()
-          : productData.publishedAt;
-
-      const product = await context.prisma.merchProduct.create({
-        data: {
-          ...productData,
-          slug,
-          publishedAt,
-          tenantId: context.user.tenantId,
-          createdById: context.user.id,
-          // Create variants if provided
-          productVariants:
-            variants && variants.length > 0
-              ? {
-                  create: variants.map((variant: any, index: number) => ({
-                    ...variant,
-                    position: variant.position ?? index,
-                    inventory: variant.inventory ?? 0,
-                    isAvailable: variant.isAvailable ?? true,
-                  })),
-                }
-              : undefined,
-        },
-        include: {
-          category: true,
-          tenant: true,
-          productVariants: {
-            where: { deletedAt: null },
-            orderBy: { position: 'asc' },
-          },
-        },
-      });
-
-      logger.info(`Created merch product: ${product.id}`, { userId: context.user.id });
-      return product;
-    } catch (error) {
-      logger.error('Error creating merch product', error as Error);
-      throw new Error('Failed to create merchandise product');
+        logger.info(`Created merch product: ${product.id}`, { userId: context.user.id });
+        return product;
+      } catch (error) {
+        logger.error('Error creating merch product', error as Error);
+        throw new Error('Failed to create merchandise product');
+      }
     }
-  },
+  ),
 
   /**
    * Update existing merchandise product
    */
-  updateMerchProduct: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      // Check authentication
-      if (!context.user) {
-        throw new Error('Not authenticated');
-      }
+  updateMerchProduct: withPermission(
+    'merch:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id, input } = args;
+
+        // Check if product exists
+        const existingProduct = await context.prisma.merchProduct.findUnique({
+          where: { id },
+        });
 
-      const { id, input } = args;
+        if (!existingProduct || existingProduct.deletedAt) {
+          throw new Error('Merchandise product not found');
+        }
 
-      // Check if product exists
-      const existingProduct = await context.prisma.merchProduct.findUnique({
-        where: { id },
-      });
+        authorize(context, 'merch:update', existingProduct);
 
-      if (!existingProduct || existingProduct.deletedAt) {
-        throw new Error('Merchandise product not found');
-      }
+        // Extract variants from input
+        const { variants, ...productData } = input;
 
-      // Extract variants from input
-      const { variants, ...productData } = input;
+        // The slug only changes when one is given; renaming keeps published URLs
+        const updateData: Prisma.MerchProductUncheckedUpdateInput = { ...productData };
 
-      // Update slug if name changed
-      const updateData: any = { ...productData };
-      if (productData.name && !productData.slug) {
-        updateData.slug = slugify(
-          typeof productData.name === 'string' ? productData.name : productData.name.en || 'product'
-        );
-      }
+        // Set published date if status changed to ACTIVE
+        if (
+          productData.status === 'ACTIVE' &&
+          existingProduct.status !== 'ACTIVE' &&
+          !productData.publishedAt
+        ) {
+          updateData.publishedAt = new Date();
+        }
 
-      // Set published date if status changed to ACTIVE
-      if (
-        productData.status === 'ACTIVE' &&
-        existingProduct.status !== 'ACTIVE' &&
-        !productData.publishedAt
-      ) {
-        updateData.publishedAt = new Date();
-      }
+        // Set updated by user
+        updateData.updatedById = context.user.id;
+
+        // Handle variant updates
+        // If variants are provided, delete existing and create new ones
+        if (variants !== undefined) {
+          // Delete existing variants
+          await context.prisma.merchVariant.deleteMany({
+            where: { productId: id },
+          });
+
+          // Create new variants if provided
+          if (variants && variants.length > 0) {
+            updateData.productVariants = {
+              create: variants.map((variant: any, index: number) => ({
+                ...variant,
+                position: variant.position ?? index,
+                inventory: variant.inventory ?? 0,
+                isAvailable: variant.isAvailable ?? true,
+              })),
+            };
+          }
+        }
 
-      // Set updated by user
-      updateData.updatedById = context.user.id;
+        const product = await context.prisma.merchProduct.update({
+          where: { id },
+          data: updateData,
+          include: {
+            category: true,
+            tenant: true,
+            productVariants: {
+              where: { deletedAt: null },
+              orderBy: { position: 'asc' },
+            },
+          },
+        });
 
-      // Handle variant updates
-      // If variants are provided, delete existing and create new ones
-      if (variants !== undefined) {
-        // Delete existing variants
-        await context.prisma.merchVariant.deleteMany({
-          where: { productId: id },
+        await recordSlugChange(
+          context.prisma,
+          { tenantId: product.tenantId, type: 'MERCH_PRODUCT', id: product.id },
+          existingProduct.slug,
+          product.slug
+        );
+
+        await recordAudit(context, {
+          entity: 'MerchProduct',
+          entityId: product.id,
+          action: 'UPDATE',
+          before: existingProduct,
+          after: product,
         });
 
-        // Create new variants if provided
-        if (variants && variants.length > 0) {
-          updateData.productVariants = {
-            create: variants.map((variant: any, index: number) => ({
-              ...variant,
-              position: variant.position ?? index,
-              inventory: variant.inventory ?? 0,
-              isAvailable: variant.isAvailable ?? true,
-            })),
-          };
-        }
-      }
+        await emitWebhookEvent(context, 'merch.product.updated', product);
 
-      const product = await context.prisma.merchProduct.update({
-        where: { id },
-        data: updateData,
-        include: {
-          category: true,
-          tenant: true,
-          productVariants: {
-            where: { deletedAt: null },
-            orderBy: { position: 'asc' },
-          },
-        },
-      });
-
-      logger.info(`Updated merch product: ${product.id}`, { userId: context.user.id });
-      return product;
-    } catch (error) {
-      logger.error('Error updating merch product', error as Error);
-      throw new Error('Failed to update merchandise product');
+        logger.info(`Updated merch product: ${product.id}`, { userId: context.user.id });
+        return product;
+      } catch (error) {
+        logger.error('Error updating merch product', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to update merchandise product');
+      }
     }
-  },
+  ),
 
   /**
    * Delete merchandise product (soft delete)
    */
-  deleteMerchProduct: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      // Check authentication
-      if (!context.user) {
-        throw new Error('Not authenticated');
-      }
+  deleteMerchProduct: withPermission(
+    'merch:delete',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id } = args;
+
+        const product = await context.prisma.merchProduct.findUnique({
+          where: { id },
+        });
 
-      const { id } = args;
+        if (!product || product.deletedAt) {
+          throw new Error('Merchandise product not found');
+        }
 
-      const product = await context.prisma.merchProduct.findUnique({
-        where: { id },
-      });
+        authorize(context, 'merch:delete', product);
 
-      if (!product || product.deletedAt) {
-        throw new Error('Merchandise product not found');
-      }
+        await context.prisma.merchProduct.update({
+          where: { id },
+          data: {
+            deletedAt: new Date(),
+            updatedById: context.user.id,
+          },
+        });
+
+        await recordAudit(context, {
+          entity: 'MerchProduct',
+          entityId: id,
+          action: 'DELETE',
+          before: product,
+        });
 
-      await context.prisma.merchProduct.update({
-        where: { id },
-        data: {
-          deletedAt: new Date(),
-          updatedById: context.user.id,
-        },
-      });
-
-      logger.info(`Deleted merch product: ${id}`, { userId: context.user.id });
-      return true;
-    } catch (error) {
-      logger.error('Error deleting merch product', error as Error);
-      throw new Error('Failed to delete merchandise product');
+        await emitWebhookEvent(context, 'merch.product.deleted', product);
+
+        logger.info(`Deleted merch product: ${id}`, { userId: context.user.id });
+        return true;
+      } catch (error) {
+        logger.error('Error deleting merch product', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to delete merchandise product');
+      }
     }
-  },
+  ),
 
   /**
    * Create individual merchandise variant
    */
-  createMerchVariant: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      // Check authentication
-      if (!context.user) {
-        throw new Error('Not authenticated');
-      }
+  createMerchVariant: withPermission(
+    'merch:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { productId, input } = args;
+
+        // Check if product exists
+        const product = await context.prisma.merchProduct.findUnique({
+          where: { id: productId },
+        });
 
-      const { productId, input } = args;
+        if (!product || product.deletedAt) {
+          throw new Error('Product not found');
+        }
 
-      // Check if product exists
-      const product = await context.prisma.merchProduct.findUnique({
-        where: { id: productId },
-      });
+        authorize(context, 'merch:update', product);
 
-      if (!product || product.deletedAt) {
-        throw new Error('Product not found');
-      }
+        const variant = await context.prisma.merchVariant.create({
+          data: {
+            ...input,
+            productId,
+            inventory: input.inventory ?? 0,
+            isAvailable: input.isAvailable ?? true,
+          },
+        });
+
+        await recordAudit(context, {
+          entity: 'MerchVariant',
+          entityId: variant.id,
+          action: 'CREATE',
+          after: variant,
+        });
 
-      const variant = await context.prisma.merchVariant.create({
-        data: {
-          ...input,
-          productId,
-          inventory: input.inventory ?? 0,
-          isAvailable: input.isAvailable ?? true,
-        },
-      });
-
-      logger.info(`Created variant: ${variant.id} for product: ${productId}`, {
-        userId: context.user.id,
-      });
-      return variant;
-    } catch (error) {
-      logger.error('Error creating variant', error as Error);
-      throw new Error('Failed to create variant');
+        // Variant changes are published as updates of their product
+        await emitWebhookEvent(context, 'merch.product.updated', product);
+
+        logger.info(`Created variant: ${variant.id} for product: ${productId}`, {
+          userId: context.user.id,
+        });
+        return variant;
+      } catch (error) {
+        logger.error('Error creating variant', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to create variant');
+      }
     }
-  },
+  ),
 
   /**
    * Update merchandise variant
    */
-  updateMerchVariant: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      // Check authentication
-      if (!context.user) {
-        throw new Error('Not authenticated');
-      }
+  updateMerchVariant: withPermission(
+    'merch:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id, input } = args;
+
+        const { variant: existingVariant, product } = await findVariantForUpdate(context, id);
 
-      const { id, input } = args;
+        const variant = await context.prisma.merchVariant.update({
+          where: { id },
+          data: input,
+        });
 
-      const variant = await context.prisma.merchVariant.update({
-        where: { id },
-        data: input,
-      });
+        await recordAudit(context, {
+          entity: 'MerchVariant',
+          entityId: variant.id,
+          action: 'UPDATE',
+          before: existingVariant,
+          after: variant,
+        });
 
-      logger.info(`Updated variant: ${variant.id}`, { userId: context.user.id });
-      return variant;
-    } catch (error) {
-      logger.error('Error updating variant', error as Error);
-      throw new Error('Failed to update variant');
+        await emitWebhookEvent(context, 'merch.product.updated', product);
+
+        logger.info(`Updated variant: ${variant.id}`, { userId: context.user.id });
+        return variant;
+      } catch (error) {
+        logger.error('Error updating variant', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to update variant');
+      }
     }
-  },
+  ),
 
   /**
    * Delete merchandise variant
    */
-  deleteMerchVariant: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      // Check authentication
-      if (!context.user) {
-        throw new Error('Not authenticated');
-      }
+  deleteMerchVariant: withPermission(
+    'merch:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id } = args;
 
-      const { id } = args;
+        const { variant, product } = await findVariantForUpdate(context, id);
 
-      await context.prisma.merchVariant.update({
-        where: { id },
-        data: { deletedAt: new Date() },
-      });
+        await context.prisma.merchVariant.update({
+          where: { id },
+          data: { deletedAt: new Date() },
+        });
+
+        await recordAudit(context, {
+          entity: 'MerchVariant',
+          entityId: id,
+          action: 'DELETE',
+          before: variant,
+        });
+
+        await emitWebhookEvent(context, 'merch.product.updated', product);
 
-      logger.info(`Deleted variant: ${id}`, { userId: context.user.id });
-      return true;
-    } catch (error) {
-      logger.error('Error deleting variant', error as Error);
-      throw new Error('Failed to delete variant');
+        logger.info(`Deleted variant: ${id}`, { userId: context.user.id });
+        return true;
+      } catch (error) {
+        logger.error('Error deleting variant', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to delete variant');
+      }
     }
-  },
+  ),
 
   /**
    * Create new merchandise category
    */
-  createMerchCategory: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      // Check authentication
-      if (!context.user) {
-        throw new Error('Not authenticated');
-      }
+  createMerchCategory: withPermission(
+    'category:create',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { input } = args;
+
+        // Generate slug if not provided
+        const slug =
+          input.slug ||
+          slugify(typeof input.name === 'string' ? input.name : input.name.en || 'category');
+
+        await assertValidCategoryParent(
+          context.prisma,
+          'merchCategory',
+          context.user.tenantId,
+          input.parentId
+        );
 
-      const { input } = args;
-
-      // Generate slug if not provided
-      const slug =
-        input.slug ||
-        slugify(typeof input.name === 'string' ? input.name : input.name.en || 'category');
-
-      const category = await context.prisma.merchCategory.create({
-        data: {
-          ...input,
-          slug,
-          tenantId: context.user.tenantId,
-        },
-        include: {
-          products: true,
-          parent: true,
-          children: true,
-          tenant: true,
-        },
-      });
-
-      logger.info(`Created merch category: ${category.id}`, { userId: context.user.id });
-      return category;
-    } catch (error) {
-      logger.error('Error creating merch category', error as Error);
-      throw new Error('Failed to create merchandise category');
+        const category = await context.prisma.merchCategory.create({
+          data: {
+            ...input,
+            slug,
+            tenantId: context.user.tenantId,
+          },
+          include: {
+            products: true,
+            parent: true,
+            children: true,
+            tenant: true,
+          },
+        });
+
+        await recordAudit(context, {
+          entity: 'MerchCategory',
+          entityId: category.id,
+          action: 'CREATE',
+          after: category,
+        });
+
+        await emitWebhookEvent(context, 'merch.category.created', category);
+
+        logger.info(`Created merch category: ${category.id}`, { userId: context.user.id });
+        return category;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        logger.error('Error creating merch category', error as Error);
+        throw new Error('Failed to create merchandise category');
+      }
     }
-  },
+  ),
 
   /**
    * Update existing merchandise category
    */
-  updateMerchCategory: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      // Check authentication
-      if (!context.user) {
-        throw new Error('Not authenticated');
-      }
+  updateMerchCategory: withPermission(
+    'category:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id, input } = args;
+
+        const existingCategory = await context.prisma.merchCategory.findUnique({
+          where: { id },
+        });
 
-      const { id, input } = args;
-
-      const category = await context.prisma.merchCategory.update({
-        where: { id },
-        data: input,
-        include: {
-          products: true,
-          parent: true,
-          children: true,
-          tenant: true,
-        },
-      });
-
-      logger.info(`Updated merch category: ${category.id}`, { userId: context.user.id });
-      return category;
-    } catch (error) {
-      logger.error('Error updating merch category', error as Error);
-      throw new Error('Failed to update merchandise category');
+        if (!existingCategory || existingCategory.deletedAt) {
+          throw new Error('Merchandise category not found');
+        }
+
+        await assertValidCategoryParent(
+          context.prisma,
+          'merchCategory',
+          existingCategory.tenantId,
+          input.parentId,
+          id
+        );
+
+        const category = await context.prisma.merchCategory.update({
+          where: { id },
+          data: input,
+          include: {
+            products: true,
+            parent: true,
+            children: true,
+            tenant: true,
+          },
+        });
+
+        await recordAudit(context, {
+          entity: 'MerchCategory',
+          entityId: category.id,
+          action: 'UPDATE',
+          before: existingCategory,
+          after: category,
+        });
+
+        await emitWebhookEvent(context, 'merch.category.updated', category);
+
+        logger.info(`Updated merch category: ${category.id}`, { userId: context.user.id });
+        return category;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        logger.error('Error updating merch category', error as Error);
+        throw new Error('Failed to update merchandise category');
+      }
     }
-  },
+  ),
 
   /**
    * Delete merchandise category (soft delete)
    */
-  deleteMerchCategory: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      // Check authentication
-      if (!context.user) {
-        throw new Error('Not authenticated');
-      }
+  deleteMerchCategory: withPermission(
+    'category:delete',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id } = args;
+
+        // Check if category has products
+        const productsCount = await context.prisma.merchProduct.count({
+          where: {
+            categoryId: id,
+            deletedAt: null,
+          },
+        });
+
+        if (productsCount > 0) {
+          throw new Error('Cannot delete category with existing products');
+        }
 
-      const { id } = args;
+        const childrenCount = await context.prisma.merchCategory.count({
+          where: { parentId: id, deletedAt: null },
+        });
 
-      // Check if category has products
-      const productsCount = await context.prisma.merchProduct.count({
-        where: {
-          categoryId: id,
-          deletedAt: null,
-        },
-      });
+        if (childrenCount > 0) {
+          throw new Error('Cannot delete category with subcategories');
+        }
 
-      if (productsCount > 0) {
-        throw new Error('Cannot delete category with existing products');
-      }
+        const category = await context.prisma.merchCategory.findUnique({
+          where: { id },
+        });
 
-      await context.prisma.merchCategory.update({
-        where: { id },
-        data: { deletedAt: new Date() },
-      });
-
-      logger.info(`Deleted merch category: ${id}`, { userId: context.user.id });
-      return true;
-    } catch (error) {
-      logger.error('Error deleting merch category', error as Error);
-      throw new Error(
-        error instanceof Error ? error.message : 'Failed to delete merchandise category'
-      );
+        if (!category || category.deletedAt) {
+          throw new Error('Merchandise category not found');
+        }
+
+        await context.prisma.merchCategory.update({
+          where: { id },
+          data: { deletedAt: new Date() },
+        });
+
+        await recordAudit(context, {
+          entity: 'MerchCategory',
+          entityId: id,
+          action: 'DELETE',
+          before: category,
+        });
+
+        await emitWebhookEvent(context, 'merch.category.deleted', category);
+
+        logger.info(`Deleted merch category: ${id}`, { userId: context.user.id });
+        return true;
+      } catch (error) {
+        logger.error('Error deleting merch category', error as Error);
+        throw new Error(
+          error instanceof Error ? error.message : 'Failed to delete merchandise category'
+        );
+      }
     }
-  },
+  ),
 };
@@ -0,0 +1,193 @@
+import { newsReviewMutations } from '@/graphql/resolvers/mutations/news-review';
+import { newsMutations } from '@/graphql/resolvers/mutations/news';
+import { emitWebhookEvent } from '@/services/webhooks';
+import { AuthenticatedUser } from '@/types';
+import { MemoryStore, createMemoryPrismaClient } from '../../../../tests/helpers/memory-prisma';
+
+// Audit entries, webhook deliveries and revision pruning go through the unscoped client,
+// which would contact the database
+jest.mock('@/services/audit', () => ({ recordAudit: jest.fn() }));
+jest.mock('@/services/webhooks', () => ({
+  ...jest.requireActual('@/services/webhooks'),
+  emitWebhookEvent: jest.fn(),
+}));
+jest.mock('@/services/revisions', () => ({
+  ...jest.requireActual('@/services/revisions'),
+  pruneNewsRevisions: jest.fn(),
+}));
+
+function article(id: string, status: string, reviewStatus: string | null) {
+  return {
+    id,
+    tenantId: 'A',
+    slug: id,
+    title: { en: `Article ${id}` },
+    blocks: { en: [{ id: 'block-1', type: 'paragraph', data: { text: 'Body' } }] },
+    status,
+    reviewStatus,
+    reviewerId: null,
+    publishedAt: null,
+    scheduledAt: null,
+    deletedAt: null,
+  };
+}
+
+function user(id: string, actions: string[]): AuthenticatedUser {
+  return {
+    id,
+    email: `${id}@a.test`,
+    tenantId: 'A',
+    roles: [],
+    permissions: actions.map(action => `news:${action}`),
+    grants: actions.map(action => ({ resource: 'news', action, conditions: {} })),
+  };
+}
+
+const writer = () => user('writer', ['read', 'update']);
+const publisher = () => user('publisher', ['read', 'update', 'publish']);
+
+function context(store: MemoryStore, currentUser: AuthenticatedUser) {
+  return {
+    prisma: createMemoryPrismaClient(store, 'A'),
+    tenant: { id: 'A', config: {} },
+    user: currentUser,
+    req: { get: () => undefined, ip: '127.0.0.1' },
+  } as any;
+}
+
+describe('news review workflow', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = {
+      NewsArticle: [
+        article('draft', 'DRAFT', null),
+        article('review', 'DRAFT', 'IN_REVIEW'),
+        article('approved', 'DRAFT', 'APPROVED'),
+        article('live', 'PUBLISHED', null),
+      ],
+      NewsArticleComment: [],
+      User: [
+        { id: 'writer', tenantId: 'A', deletedAt: null },
+        { id: 'publisher', tenantId: 'A', deletedAt: null },
+      ],
+    };
+  });
+
+  it('lets writers submit drafts with a note for the reviewers', async () => {
+    await newsReviewMutations.submitForReview(
+      null,
+      { articleId: 'draft', note: ' Ready for a look ' },
+      context(store, writer())
+    );
+
+    expect(store.NewsArticle[0]).toMatchObject({ reviewStatus: 'IN_REVIEW', reviewedAt: null });
+    expect(store.NewsArticle[0].submittedForReviewAt).toBeInstanceOf(Date);
+    expect(store.NewsArticleComment).toEqual([
+      expect.objectContaining({ body: 'Ready for a look', articleId: 'draft', authorId: 'writer' }),
+    ]);
+    expect(emitWebhookEvent).toHaveBeenCalledWith(
+      expect.anything(),
+      'news.review.submitted',
+      expect.objectContaining({ id: 'draft' })
+    );
+  });
+
+  it('keeps published articles out of review', async () => {
+    await expect(
+      newsReviewMutations.submitForReview(null, { articleId: 'live' }, context(store, writer()))
+    ).rejects.toThrow('Published or scheduled articles cannot be submitted for review');
+  });
+
+  it('leaves approval to publishers, who take over unassigned articles', async () => {
+    // The permission wrapper rejects before the resolver runs
+    expect(() =>
+      newsReviewMutations.approveArticle(null, { articleId: 'review' }, context(store, writer()))
+    ).toThrow('Missing permission: news:publish');
+
+    await newsReviewMutations.approveArticle(
+      null,
+      { articleId: 'review' },
+      context(store, publisher())
+    );
+
+    expect(store.NewsArticle[1]).toMatchObject({
+      reviewStatus: 'APPROVED',
+      reviewerId: 'publisher',
+    });
+  });
+
+  it('only allows transitions from the expected review states', async () => {
+    await expect(
+      newsReviewMutations.approveArticle(null, { articleId: 'draft' }, context(store, publisher()))
+    ).rejects.toThrow('Cannot approveArticle an article that is not in review');
+    await expect(
+      newsReviewMutations.submitForReview(null, { articleId: 'review' }, context(store, writer()))
+    ).rejects.toThrow('Cannot submitForReview an article that is IN_REVIEW');
+  });
+
+  it('requires a note when requesting changes', async () => {
+    await expect(
+      newsReviewMutations.requestChanges(
+        null,
+        { articleId: 'review', note: '  ' },
+        context(store, publisher())
+      )
+    ).rejects.toThrow('Comment body is required');
+
+    await newsReviewMutations.requestChanges(
+      null,
+      { articleId: 'approved', note: 'Check the figures' },
+      context(store, publisher())
+    );
+    expect(store.NewsArticle[2].reviewStatus).toBe('CHANGES_REQUESTED');
+  });
+
+  it('rejects the second of two concurrent transitions', async () => {
+    const results = await Promise.allSettled([
+      newsReviewMutations.approveArticle(
+        null,
+        { articleId: 'review' },
+        context(store, publisher())
+      ),
+      newsReviewMutations.requestChanges(
+        null,
+        { articleId: 'review', note: 'Not yet' },
+        context(store, publisher())
+      ),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toMatchObject({ statusCode: 409 });
+    expect(store.NewsArticle[1].reviewStatus).toBe('APPROVED');
+  });
+
+  it('sends approved copy edited by a writer back to review', async () => {
+    await newsMutations.updateNewsArticle(
+      null,
+      { id: 'approved', input: { title: { en: 'Edited' } } },
+      context(store, writer())
+    );
+
+    expect(store.NewsArticle[2].reviewStatus).toBe('IN_REVIEW');
+  });
+
+  it('anchors comments to blocks that exist in the article', async () => {
+    await expect(
+      newsReviewMutations.addNewsArticleComment(
+        null,
+        { input: { articleId: 'draft', blockId: 'missing', body: 'Typo' } },
+        context(store, writer())
+      )
+    ).rejects.toThrow('Block missing does not exist in this article');
+
+    await newsReviewMutations.addNewsArticleComment(
+      null,
+      { input: { articleId: 'draft', blockId: 'block-1', body: 'Typo' } },
+      context(store, writer())
+    );
+    expect(store.NewsArticleComment).toEqual([
+      expect.objectContaining({ blockId: 'block-1', body: 'Typo' }),
+    ]);
+  });
+});
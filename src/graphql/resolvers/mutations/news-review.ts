@@ -0,0 +1,432 @@
+import { NewsReviewStatus } from '@prisma/client';
+import { AppError, AuthenticatedUser, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { authorize, hasPermission, loadUserAccess, withPermission } from '@/auth/permissions';
+import { recordAudit } from '@/services/audit';
+import { WebhookEvent, emitWebhookEvent } from '@/services/webhooks';
+import { collectBlockIds } from '@/libs/blocks';
+
+const logger = createLogger('NEWS_REVIEW_MUTATIONS');
+
+/**
+ * Publication states from which an article can no longer be submitted for review
+ */
+const LIVE_STATUSES = ['PUBLISHED', 'SCHEDULED'];
+
+/**
+ * Maximum length of an editor comment
+ */
+const MAX_COMMENT_LENGTH = 5000;
+
+/**
+ * Review transition triggered by a workflow mutation
+ */
+interface ReviewTransition {
+  action: 'submitForReview' | 'approveArticle' | 'requestChanges';
+  permission: string;
+  from: (NewsReviewStatus | null)[];
+  to: NewsReviewStatus;
+  event: WebhookEvent;
+}
+
+const TRANSITIONS: Record<ReviewTransition['action'], ReviewTransition> = {
+  submitForReview: {
+    action: 'submitForReview',
+    permission: 'news:update',
+    from: [null, 'CHANGES_REQUESTED'],
+    to: 'IN_REVIEW',
+    event: 'news.review.submitted',
+  },
+  approveArticle: {
+    action: 'approveArticle',
+    permission: 'news:publish',
+    from: ['IN_REVIEW'],
+    to: 'APPROVED',
+    event: 'news.review.approved',
+  },
+  requestChanges: {
+    action: 'requestChanges',
+    permission: 'news:publish',
+    from: ['IN_REVIEW', 'APPROVED'],
+    to: 'CHANGES_REQUESTED',
+    event: 'news.review.changes_requested',
+  },
+};
+
+/**
+ * Load a news article of the current tenant or throw a 404
+ */
+async function findArticle(context: GraphQLContext, id: string) {
+  const article = await context.prisma.newsArticle.findUnique({
+    where: { id },
+  });
+
+  if (!article || article.deletedAt) {
+    throw new AppError('News article not found', ErrorType.NOT_FOUND_ERROR, 404);
+  }
+
+  return article;
+}
+
+/**
+ * Validate a reviewer: an active user of the tenant who may publish news
+ */
+async function assertValidReviewer(context: GraphQLContext, reviewerId: string): Promise<void> {
+  const reviewer = await context.prisma.user.findFirst({
+    where: { id: reviewerId, isActive: true, deletedAt: null },
+  });
+
+  if (!reviewer) {
+    throw new AppError('Reviewer not found', ErrorType.VALIDATION_ERROR, 400);
+  }
+
+  const access = await loadUserAccess(context.prisma, reviewer.id);
+  const reviewerUser: AuthenticatedUser = {
+    id: reviewer.id,
+    email: reviewer.email,
+    tenantId: reviewer.tenantId,
+    ...access,
+  };
+
+  if (!hasPermission(reviewerUser, 'news:publish')) {
+    throw new AppError(
+      'Reviewer must hold the news:publish permission',
+      ErrorType.VALIDATION_ERROR,
+      400
+    );
+  }
+}
+
+/**
+ * Validate and trim a comment body
+ */
+function validateCommentBody(body: string | null | undefined): string {
+  const trimmed = (body || '').trim();
+
+  if (trimmed.length === 0) {
+    throw new AppError('Comment body is required', ErrorType.VALIDATION_ERROR, 400);
+  }
+  if (trimmed.length > MAX_COMMENT_LENGTH) {
+    throw new AppError(
+      `Comment body must be at most ${MAX_COMMENT_LENGTH} characters`,
+      ErrorType.VALIDATION_ERROR,
+      400
+    );
+  }
+
+  return trimmed;
+}
+
+/**
+ * Move an article to the next review state, with an optional article-level note
+ */
+async function transitionReview(
+  context: GraphQLContext,
+  transition: ReviewTransition,
+  articleId: string,
+  options: { note?: string | null; reviewerId?: string | null } = {}
+) {
+  const existingArticle = await findArticle(context, articleId);
+  authorize(context, transition.permission, existingArticle);
+
+  if (!transition.from.includes(existingArticle.reviewStatus)) {
+    throw new AppError(
+      `Cannot ${transition.action} an article that is ${existingArticle.reviewStatus || 'not in review'}`,
+      ErrorType.VALIDATION_ERROR,
+      400,
+      true,
+      { reviewStatus: existingArticle.reviewStatus }
+    );
+  }
+
+  const note = options.note ? validateCommentBody(options.note) : null;
+  if (options.reviewerId) {
+    await assertValidReviewer(context, options.reviewerId);
+  }
+
+  const now = new Date();
+  const data: Record<string, any> = { reviewStatus: transition.to };
+  if (transition.to === 'IN_REVIEW') {
+    data.submittedForReviewAt = now;
+    data.reviewedAt = null;
+    if (options.reviewerId) data.reviewerId = options.reviewerId;
+  } else {
+    data.reviewedAt = now;
+    // The first staff member to review takes over an unassigned article
+    if (!existingArticle.reviewerId) data.reviewerId = context.user.id;
+  }
+
+  // Conditional update: a concurrent transition makes this one fail instead of overwriting it
+  const { count } = await context.prisma.newsArticle.updateMany({
+    where: { id: articleId, reviewStatus: existingArticle.reviewStatus },
+    data,
+  });
+  if (count === 0) {
+    throw new AppError(
+      'News article review state changed, reload and try again',
+      ErrorType.VALIDATION_ERROR,
+      409
+    );
+  }
+
+  if (note) {
+    await context.prisma.newsArticleComment.create({
+      data: {
+        body: note,
+        articleId,
+        authorId: context.user.id,
+        tenantId: existingArticle.tenantId,
+      },
+    });
+  }
+
+  const article = await context.prisma.newsArticle.findUnique({
+    where: { id: articleId },
+    include: { category: true, reviewer: true },
+  });
+
+  await recordAudit(context, {
+    entity: 'NewsArticle',
+    entityId: articleId,
+    action: 'UPDATE',
+    before: existingArticle,
+    after: article,
+    metadata: { workflow: transition.action },
+  });
+
+  await emitWebhookEvent(context, transition.event, article);
+
+  logger.info(`News article ${articleId} moved to ${transition.to}`, {
+    userId: context.user.id,
+  });
+  return article;
+}
+
+/**
+ * News Review Mutation Resolvers
+ * Editorial workflow: submission, approval, change requests, reviewer assignment and comments
+ */
+export const newsReviewMutations = {
+  /**
+   * Submit a draft for review, optionally naming a reviewer
+   */
+  submitForReview: withPermission(
+    'news:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { articleId, reviewerId, note } = args;
+
+        const article = await findArticle(context, articleId);
+        if (LIVE_STATUSES.includes(article.status)) {
+          throw new AppError(
+            'Published or scheduled articles cannot be submitted for review',
+            ErrorType.VALIDATION_ERROR,
+            400
+          );
+        }
+
+        return await transitionReview(context, TRANSITIONS.submitForReview, articleId, {
+          note,
+          reviewerId,
+        });
+      } catch (error) {
+        logger.error('Error submitting news article for review', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to submit news article for review');
+      }
+    }
+  ),
+
+  /**
+   * Approve an article in review; publishing stays a separate step
+   */
+  approveArticle: withPermission(
+    'news:publish',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { articleId, note } = args;
+        return await transitionReview(context, TRANSITIONS.approveArticle, articleId, { note });
+      } catch (error) {
+        logger.error('Error approving news article', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to approve news article');
+      }
+    }
+  ),
+
+  /**
+   * Send an article back to its writer with a note
+   */
+  requestChanges: withPermission(
+    'news:publish',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { articleId, note } = args;
+        validateCommentBody(note);
+        return await transitionReview(context, TRANSITIONS.requestChanges, articleId, { note });
+      } catch (error) {
+        logger.error('Error requesting changes on news article', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to request changes on news article');
+      }
+    }
+  ),
+
+  /**
+   * Assign or unassign the reviewer of an article
+   */
+  assignNewsReviewer: withPermission(
+    'news:publish',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { articleId, reviewerId } = args;
+
+        const existingArticle = await findArticle(context, articleId);
+        authorize(context, 'news:publish', existingArticle);
+
+        if (reviewerId) {
+          await assertValidReviewer(context, reviewerId);
+        }
+
+        const article = await context.prisma.newsArticle.update({
+          where: { id: articleId },
+          data: { reviewerId: reviewerId || null },
+          include: { category: true, reviewer: true },
+        });
+
+        await recordAudit(context, {
+          entity: 'NewsArticle',
+          entityId: articleId,
+          action: 'UPDATE',
+          before: existingArticle,
+          after: article,
+          metadata: { workflow: 'assignReviewer' },
+        });
+
+        logger.info(`Assigned reviewer of news article ${articleId}`, {
+          userId: context.user.id,
+          reviewerId,
+        });
+        return article;
+      } catch (error) {
+        logger.error('Error assigning news article reviewer', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to assign news article reviewer');
+      }
+    }
+  ),
+
+  /**
+   * Add an internal editor comment, optionally anchored to a block
+   */
+  addNewsArticleComment: withPermission(
+    'news:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { articleId, blockId, body } = args.input;
+
+        const article = await findArticle(context, articleId);
+        authorize(context, 'news:update', article);
+
+        if (blockId && !collectBlockIds(article.blocks).has(blockId)) {
+          throw new AppError(
+            `Block ${blockId} does not exist in this article`,
+            ErrorType.VALIDATION_ERROR,
+            400,
+            true,
+            { field: 'blockId' }
+          );
+        }
+
+        const comment = await context.prisma.newsArticleComment.create({
+          data: {
+            body: validateCommentBody(body),
+            blockId: blockId || null,
+            articleId,
+            authorId: context.user.id,
+            tenantId: article.tenantId,
+          },
+          include: { author: true },
+        });
+
+        logger.info(`Added comment to news article ${articleId}`, { userId: context.user.id });
+        return comment;
+      } catch (error) {
+        logger.error('Error adding news article comment', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to add news article comment');
+      }
+    }
+  ),
+
+  /**
+   * Mark a comment resolved or reopen it
+   */
+  resolveNewsArticleComment: withPermission(
+    'news:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id, resolved = true } = args;
+
+        const existingComment = await context.prisma.newsArticleComment.findFirst({
+          where: { id, deletedAt: null },
+          include: { article: true },
+        });
+
+        if (!existingComment) {
+          throw new AppError('Comment not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+
+        authorize(context, 'news:update', existingComment.article);
+
+        return await context.prisma.newsArticleComment.update({
+          where: { id },
+          data: resolved
+            ? { resolvedAt: new Date(), resolvedById: context.user.id }
+            : { resolvedAt: null, resolvedById: null },
+          include: { author: true, resolvedBy: true },
+        });
+      } catch (error) {
+        logger.error('Error resolving news article comment', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to resolve news article comment');
+      }
+    }
+  ),
+
+  /**
+   * Delete a comment; only its author or a publisher may do so
+   */
+  deleteNewsArticleComment: withPermission(
+    'news:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id } = args;
+
+        const comment = await context.prisma.newsArticleComment.findFirst({
+          where: { id, deletedAt: null },
+          include: { article: true },
+        });
+
+        if (!comment) {
+          throw new AppError('Comment not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+
+        if (comment.authorId !== context.user.id) {
+          authorize(context, 'news:publish', comment.article);
+        }
+
+        await context.prisma.newsArticleComment.delete({
+          where: { id },
+        });
+
+        logger.info(`Deleted news article comment: ${id}`, { userId: context.user.id });
+        return true;
+      } catch (error) {
+        logger.error('Error deleting news article comment', error as Error);
+        if (error instanceof AppError) throw error;
+        return false;
+      }
+    }
+  ),
+};
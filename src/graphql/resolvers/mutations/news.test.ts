@@ -0,0 +1,131 @@
+import { newsMutations } from '@/graphql/resolvers/mutations/news';
+import { AuthenticatedUser } from '@/types';
+import { MemoryStore, createMemoryPrismaClient } from '../../../../tests/helpers/memory-prisma';
+
+// Audit entries, webhook deliveries and revision pruning go through the unscoped client,
+// which would contact the database
+jest.mock('@/services/audit', () => ({ recordAudit: jest.fn() }));
+jest.mock('@/services/webhooks', () => ({
+  ...jest.requireActual('@/services/webhooks'),
+  emitWebhookEvent: jest.fn(),
+}));
+jest.mock('@/services/revisions', () => ({
+  ...jest.requireActual('@/services/revisions'),
+  pruneNewsRevisions: jest.fn(),
+}));
+
+function article(id: string, status: string) {
+  return {
+    id,
+    tenantId: 'A',
+    slug: id,
+    title: { en: `Article ${id}` },
+    blocks: { en: [] },
+    status,
+    reviewStatus: null,
+    publishedAt: status === 'PUBLISHED' ? new Date('2024-01-01T00:00:00Z') : null,
+    scheduledAt: status === 'SCHEDULED' ? new Date('2099-01-01T00:00:00Z') : null,
+    deletedAt: null,
+  };
+}
+
+function user(actions: string[]): AuthenticatedUser {
+  return {
+    id: 'user-1',
+    email: 'user@a.test',
+    tenantId: 'A',
+    roles: [],
+    permissions: actions.map(action => `news:${action}`),
+    grants: actions.map(action => ({ resource: 'news', action, conditions: {} })),
+  };
+}
+
+const writer = () => user(['read', 'update']);
+const publisher = () => user(['read', 'update', 'publish']);
+
+function context(store: MemoryStore, currentUser: AuthenticatedUser) {
+  return {
+    prisma: createMemoryPrismaClient(store, 'A'),
+    tenant: { id: 'A', config: {} },
+    user: currentUser,
+    req: { get: () => undefined, ip: '127.0.0.1' },
+  } as any;
+}
+
+const newTitle = { title: { en: 'Edited title' } };
+
+describe('updateNewsArticle review rules', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = {
+      NewsArticle: [
+        article('draft', 'DRAFT'),
+        article('published', 'PUBLISHED'),
+        article('scheduled', 'SCHEDULED'),
+      ],
+    };
+  });
+
+  it('lets writers edit drafts', async () => {
+    const result = await newsMutations.updateNewsArticle(
+      null,
+      { id: 'draft', input: newTitle },
+      context(store, writer())
+    );
+    expect(result.title).toEqual(newTitle.title);
+    // Baseline of the pre-revision article, then the edit
+    expect(store.NewsArticleRevision.map(revision => revision.version)).toEqual([1, 2]);
+  });
+
+  it.each(['published', 'scheduled'])('keeps writers from editing %s copy', async id => {
+    await expect(
+      newsMutations.updateNewsArticle(null, { id, input: newTitle }, context(store, writer()))
+    ).rejects.toMatchObject({ statusCode: 403 });
+
+    expect(store.NewsArticle.find(row => row.id === id)?.title).toEqual({
+      en: `Article ${id}`,
+    });
+  });
+
+  it('lets publishers edit published copy', async () => {
+    const result = await newsMutations.updateNewsArticle(
+      null,
+      { id: 'published', input: newTitle },
+      context(store, publisher())
+    );
+    expect(result.title).toEqual(newTitle.title);
+  });
+
+  it('keeps writers from publishing', async () => {
+    await expect(
+      newsMutations.updateNewsArticle(
+        null,
+        { id: 'draft', input: { status: 'PUBLISHED' } },
+        context(store, writer())
+      )
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('keeps writers from restoring revisions of published articles', async () => {
+    store.NewsArticleRevision = [
+      {
+        id: 'revision-1',
+        tenantId: 'A',
+        articleId: 'published',
+        article: store.NewsArticle[1],
+        snapshot: { title: { en: 'Old title' } },
+        deletedAt: null,
+      },
+    ];
+
+    await expect(
+      newsMutations.restoreNewsArticleRevision(
+        null,
+        { revisionId: 'revision-1' },
+        context(store, writer())
+      )
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(store.NewsArticle[1].title).toEqual({ en: 'Article published' });
+  });
+});
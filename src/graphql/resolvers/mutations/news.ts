@@ -1,9 +1,39 @@
-import { GraphQLContext } from '@/types';
+import { Prisma } from '@prisma/client';
+import { AppError, ErrorType, GraphQLContext } from '@/types';
 import { createLogger } from '@/utils/logger';
 import { slugify } from '@/utils';
+import { authorize, hasPermission, withPermission } from '@/auth/permissions';
+import { recordAudit } from '@/services/audit';
+import { emitWebhookEvent } from '@/services/webhooks';
+import { assertValidSchedule } from '@/services/scheduler';
+import { assertValidBlocks } from '@/libs/blocks';
+import { replaceTagLinks, resolveTagIds } from '@/services/tags';
+import { assertValidCategoryParent } from '@/services/categories';
+import {
+  contributorLinks,
+  defaultContributorIds,
+  replaceContributorLinks,
+  resolveAuthorIds,
+} from '@/services/authors';
+import { recordSlugChange } from '@/services/slugs';
+import { DatabaseUtils } from '@/database/prisma';
+import {
+  ensureNewsRevisionBaseline,
+  pruneNewsRevisions,
+  recordNewsRevision,
+  restoreDataFromSnapshot,
+  restoreLinksFromSnapshot,
+} from '@/services/revisions';
 
 const logger = createLogger('NEWS_MUTATIONS');
 
+/**
+ * Whether an article's copy is live or about to go live; only publishers may change it
+ */
+function isLiveArticle(article: { status: string }): boolean {
+  return article.status === 'PUBLISHED' || article.status === 'SCHEDULED';
+}
+
 /**
  * News Mutation Resolvers
  * Handles news articles and categories creation, update, and deletion
@@ -12,212 +42,477 @@ export const newsMutations = {
   /**
    * Create new news article
    */
-  createNewsArticle: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      const { input } = args;
-
-      if (!context.user) {
-        throw new Error('Authentication required');
+  createNewsArticle: withPermission(
+    'news:create',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { tagIds, contributorIds, ...input } = args.input;
+
+        // Publishing directly or scheduling requires the publish permission
+        if (input.status === 'PUBLISHED' || input.status === 'SCHEDULED') {
+          authorize(context, 'news:publish');
+        }
+
+        assertValidSchedule(input);
+        assertValidBlocks(input.blocks);
+
+        // Generate slug if not provided
+        const slug =
+          input.slug ||
+          slugify(typeof input.title === 'string' ? input.title : input.title.en || 'article');
+
+        // Set published date if status is PUBLISHED and no date provided
+        const publishedAt =
+          input.status === 'PUBLISHED' && !input.publishedAt ? new Date() : input.publishedAt;
+
+        // The first revision is written with the article so history starts at creation
+        const article = await context.prisma.$transaction(async tx => {
+          const created = await tx.newsArticle.create({
+            data: {
+              ...input,
+              slug,
+              publishedAt,
+              tenantId: context.user.tenantId,
+              createdById: context.user.id,
+              updatedById: context.user.id,
+              contributors: {
+                create: contributorLinks(
+                  contributorIds
+                    ? await resolveAuthorIds(tx, contributorIds)
+                    : await defaultContributorIds(tx, context.user.id)
+                ),
+              },
+              ...(tagIds && {
+                tags: {
+                  create: (await resolveTagIds(tx, tagIds)).map(tagId => ({ tagId })),
+                },
+              }),
+            },
+            include: {
+              category: true,
+            },
+          });
+          await recordNewsRevision(tx, created, { userId: context.user.id });
+          return created;
+        });
+
+        await recordAudit(context, {
+          entity: 'NewsArticle',
+          entityId: article.id,
+          action: 'CREATE',
+          after: article,
+        });
+
+        await emitWebhookEvent(context, 'news.created', article);
+        if (article.status === 'PUBLISHED') {
+          await emitWebhookEvent(context, 'news.published', article);
+        }
+
+        logger.info(`Created news article: ${article.id}`);
+        return article;
+      } catch (error) {
+        logger.error('Error creating news article', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to create news article');
       }
-
-      // Generate slug if not provided
-      const slug =
-        input.slug ||
-        slugify(typeof input.title === 'string' ? input.title : input.title.en || 'article');
-
-      // Set published date if status is PUBLISHED and no date provided
-      const publishedAt =
-        input.status === 'PUBLISHED' && !input.publishedAt ? new Date() : input.publishedAt;
-
-      const article = await context.prisma.newsArticle.create({
-        data: {
-          ...input,
-          slug,
-          publishedAt,
-          tenantId: context.tenant?.id || context.user.tenantId,
-        },
-        include: {
-          category: true,
-        },
-      });
-
-      logger.info(`Created news article: ${article.id}`);
-      return article;
-    } catch (error) {
-      logger.error('Error creating news article', error as Error);
-      throw new Error('Failed to create news article');
     }
-  },
+  ),
 
   /**
    * Update existing news article
    */
-  updateNewsArticle: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      const { id, input } = args;
-
-      if (!context.user) {
-        throw new Error('Authentication required');
-      }
-
-      // Check if article exists
-      const existingArticle = await context.prisma.newsArticle.findUnique({
-        where: { id },
-      });
-
-      if (!existingArticle) {
-        throw new Error('News article not found');
-      }
-
-      // Update slug if title changed
-      const updateData: any = { ...input };
-      if (input.title && !input.slug) {
-        updateData.slug = slugify(
-          typeof input.title === 'string' ? input.title : input.title.en || 'article'
-        );
+  updateNewsArticle: withPermission(
+    'news:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id } = args;
+        const { tagIds, contributorIds, ...input } = args.input;
+
+        // Check if article exists
+        const existingArticle = await context.prisma.newsArticle.findUnique({
+          where: { id },
+        });
+
+        if (!existingArticle) {
+          throw new Error('News article not found');
+        }
+
+        authorize(context, 'news:update', existingArticle);
+
+        // Publishing, unpublishing, changing the schedule or editing live copy requires the
+        // publish permission, so writers' changes cannot go live without review
+        if (
+          isLiveArticle(existingArticle) ||
+          (input.status &&
+            input.status !== existingArticle.status &&
+            (input.status === 'PUBLISHED' ||
+              input.status === 'SCHEDULED' ||
+              existingArticle.status === 'PUBLISHED')) ||
+          input.scheduledAt !== undefined ||
+          input.unpublishAt !== undefined
+        ) {
+          authorize(context, 'news:publish', existingArticle);
+        }
+
+        assertValidSchedule({ ...existingArticle, ...input });
+        if (input.blocks !== undefined) {
+          assertValidBlocks(input.blocks);
+        }
+
+        // The slug only changes when one is given; editing the title keeps published URLs
+        const updateData: Prisma.NewsArticleUncheckedUpdateInput = {
+          ...input,
+          updatedById: context.user.id,
+        };
+
+        // Set published date if status changed to PUBLISHED
+        if (
+          input.status === 'PUBLISHED' &&
+          existingArticle.status !== 'PUBLISHED' &&
+          !input.publishedAt
+        ) {
+          updateData.publishedAt = new Date();
+        }
+
+        // Approved copy edited by a writer goes back to the reviewers
+        if (
+          existingArticle.reviewStatus === 'APPROVED' &&
+          !hasPermission(context.user, 'news:publish', existingArticle)
+        ) {
+          updateData.reviewStatus = 'IN_REVIEW';
+          updateData.submittedForReviewAt = new Date();
+        }
+
+        // Every save stores an immutable revision in the same transaction
+        const article = await context.prisma.$transaction(async tx => {
+          await ensureNewsRevisionBaseline(tx, existingArticle);
+          if (tagIds) {
+            updateData.tags = replaceTagLinks(await resolveTagIds(tx, tagIds));
+          }
+          if (contributorIds) {
+            updateData.contributors = replaceContributorLinks(
+              await resolveAuthorIds(tx, contributorIds)
+            );
+          }
+          const updated = await tx.newsArticle.update({
+            where: { id },
+            data: updateData,
+            include: {
+              category: true,
+            },
+          });
+          await recordNewsRevision(tx, updated, { userId: context.user.id });
+          await recordSlugChange(
+            tx,
+            { tenantId: updated.tenantId, type: 'NEWS_ARTICLE', id: updated.id },
+            existingArticle.slug,
+            updated.slug
+          );
+          return updated;
+        });
+        await pruneNewsRevisions(context.prisma, article);
+
+        await recordAudit(context, {
+          entity: 'NewsArticle',
+          entityId: article.id,
+          action: 'UPDATE',
+          before: existingArticle,
+          after: article,
+        });
+
+        await emitWebhookEvent(context, 'news.updated', article);
+        if (article.status !== existingArticle.status) {
+          if (article.status === 'PUBLISHED') {
+            await emitWebhookEvent(context, 'news.published', article);
+          } else if (existingArticle.status === 'PUBLISHED') {
+            await emitWebhookEvent(context, 'news.unpublished', article);
+          }
+        }
+
+        logger.info(`Updated news article: ${article.id}`);
+        return article;
+      } catch (error) {
+        logger.error('Error updating news article', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to update news article');
       }
+    }
+  ),
 
-      // Set published date if status changed to PUBLISHED
-      if (
-        input.status === 'PUBLISHED' &&
-        existingArticle.status !== 'PUBLISHED' &&
-        !input.publishedAt
-      ) {
-        updateData.publishedAt = new Date();
+  /**
+   * Restore the copy of a news article from one of its revisions
+   * Publishing state is left untouched; the restore is itself stored as a new revision
+   */
+  restoreNewsArticleRevision: withPermission(
+    'news:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { revisionId } = args;
+
+        const revision = await context.prisma.newsArticleRevision.findFirst({
+          where: { id: revisionId, deletedAt: null },
+          include: { article: true },
+        });
+
+        if (!revision) {
+          throw new AppError('News article revision not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+
+        const existingArticle = revision.article;
+        authorize(context, 'news:update', existingArticle);
+        if (isLiveArticle(existingArticle)) {
+          authorize(context, 'news:publish', existingArticle);
+        }
+
+        const snapshot = revision.snapshot as Record<string, any>;
+        const article = await context.prisma.$transaction(async tx => {
+          await ensureNewsRevisionBaseline(tx, existingArticle);
+          const updated = await tx.newsArticle.update({
+            where: { id: existingArticle.id },
+            data: {
+              ...restoreDataFromSnapshot(snapshot),
+              ...(await restoreLinksFromSnapshot(tx, snapshot)),
+              updatedById: context.user.id,
+            },
+            include: {
+              category: true,
+            },
+          });
+          await recordNewsRevision(tx, updated, {
+            userId: context.user.id,
+            restoredFromId: revision.id,
+          });
+          await recordSlugChange(
+            tx,
+            { tenantId: updated.tenantId, type: 'NEWS_ARTICLE', id: updated.id },
+            existingArticle.slug,
+            updated.slug
+          );
+          return updated;
+        });
+        await pruneNewsRevisions(context.prisma, article);
+
+        await recordAudit(context, {
+          entity: 'NewsArticle',
+          entityId: article.id,
+          action: 'UPDATE',
+          before: existingArticle,
+          after: article,
+          metadata: { restoredFromRevision: revision.version },
+        });
+
+        await emitWebhookEvent(context, 'news.updated', article);
+
+        logger.info(`Restored news article ${article.id} to revision ${revision.version}`);
+        return article;
+      } catch (error) {
+        logger.error('Error restoring news article revision', error as Error);
+        if (error instanceof AppError) throw error;
+        if (DatabaseUtils.isUniqueConstraintError(error)) {
+          throw new AppError(
+            'Another news article already uses the slug of this revision',
+            ErrorType.DUPLICATE_ERROR,
+            409
+          );
+        }
+        throw new Error('Failed to restore news article revision');
       }
-
-      const article = await context.prisma.newsArticle.update({
-        where: { id },
-        data: updateData,
-        include: {
-          category: true,
-        },
-      });
-
-      logger.info(`Updated news article: ${article.id}`);
-      return article;
-    } catch (error) {
-      logger.error('Error updating news article', error as Error);
-      throw new Error('Failed to update news article');
     }
-  },
+  ),
 
   /**
    * Delete news article
    */
-  deleteNewsArticle: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      const { id } = args;
-
-      if (!context.user) {
-        throw new Error('Authentication required');
+  deleteNewsArticle: withPermission(
+    'news:delete',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id } = args;
+
+        const article = await context.prisma.newsArticle.findUnique({
+          where: { id },
+        });
+
+        if (!article) {
+          throw new Error('News article not found');
+        }
+
+        authorize(context, 'news:delete', article);
+
+        await context.prisma.newsArticle.delete({
+          where: { id },
+        });
+
+        await recordAudit(context, {
+          entity: 'NewsArticle',
+          entityId: id,
+          action: 'DELETE',
+          before: article,
+        });
+
+        await emitWebhookEvent(context, 'news.deleted', article);
+
+        logger.info(`Deleted news article: ${id}`);
+        return true;
+      } catch (error) {
+        logger.error('Error deleting news article', error as Error);
+        if (error instanceof AppError) throw error;
+        return false;
       }
-
-      const article = await context.prisma.newsArticle.findUnique({
-        where: { id },
-      });
-
-      if (!article) {
-        throw new Error('News article not found');
-      }
-
-      await context.prisma.newsArticle.delete({
-        where: { id },
-      });
-
-      logger.info(`Deleted news article: ${id}`);
-      return true;
-    } catch (error) {
-      logger.error('Error deleting news article', error as Error);
-      return false;
     }
-  },
+  ),
 
   /**
    * Create new news category
    */
-  createNewsCategory: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      const { input } = args;
+  createNewsCategory: withPermission(
+    'category:create',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { input } = args;
+
+        // Generate slug if not provided
+        const slug =
+          input.slug ||
+          slugify(typeof input.name === 'string' ? input.name : input.name.en || 'category');
+
+        await assertValidCategoryParent(
+          context.prisma,
+          'newsCategory',
+          context.user.tenantId,
+          input.parentId
+        );
 
-      if (!context.user) {
-        throw new Error('Authentication required');
+        const category = await context.prisma.newsCategory.create({
+          data: {
+            ...input,
+            slug,
+            tenantId: context.user.tenantId,
+          },
+        });
+
+        await recordAudit(context, {
+          entity: 'NewsCategory',
+          entityId: category.id,
+          action: 'CREATE',
+          after: category,
+        });
+
+        await emitWebhookEvent(context, 'news.category.created', category);
+
+        logger.info(`Created news category: ${category.id}`);
+        return category;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        logger.error('Error creating news category', error as Error);
+        throw new Error('Failed to create news category');
       }
-
-      // Generate slug if not provided
-      const slug =
-        input.slug ||
-        slugify(typeof input.name === 'string' ? input.name : input.name.en || 'category');
-
-      const category = await context.prisma.newsCategory.create({
-        data: {
-          ...input,
-          slug,
-          tenantId: context.tenant?.id || context.user.tenantId,
-        },
-      });
-
-      logger.info(`Created news category: ${category.id}`);
-      return category;
-    } catch (error) {
-      logger.error('Error creating news category', error as Error);
-      throw new Error('Failed to create news category');
     }
-  },
+  ),
 
   /**
    * Update existing news category
    */
-  updateNewsCategory: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      const { id, input } = args;
+  updateNewsCategory: withPermission(
+    'category:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id, input } = args;
+
+        const existingCategory = await context.prisma.newsCategory.findUnique({
+          where: { id },
+        });
+
+        if (!existingCategory) {
+          throw new Error('News category not found');
+        }
+
+        await assertValidCategoryParent(
+          context.prisma,
+          'newsCategory',
+          existingCategory.tenantId,
+          input.parentId,
+          id
+        );
 
-      if (!context.user) {
-        throw new Error('Authentication required');
+        const category = await context.prisma.newsCategory.update({
+          where: { id },
+          data: input,
+        });
+
+        await recordAudit(context, {
+          entity: 'NewsCategory',
+          entityId: category.id,
+          action: 'UPDATE',
+          before: existingCategory,
+          after: category,
+        });
+
+        await emitWebhookEvent(context, 'news.category.updated', category);
+
+        logger.info(`Updated news category: ${category.id}`);
+        return category;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        logger.error('Error updating news category', error as Error);
+        throw new Error('Failed to update news category');
       }
-
-      const category = await context.prisma.newsCategory.update({
-        where: { id },
-        data: input,
-      });
-
-      logger.info(`Updated news category: ${category.id}`);
-      return category;
-    } catch (error) {
-      logger.error('Error updating news category', error as Error);
-      throw new Error('Failed to update news category');
     }
-  },
+  ),
 
   /**
    * Delete news category
    */
-  deleteNewsCategory: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      const { id } = args;
-
-      if (!context.user) {
-        throw new Error('Authentication required');
+  deleteNewsCategory: withPermission(
+    'category:delete',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id } = args;
+
+        // Check if category has articles
+        const articlesCount = await context.prisma.newsArticle.count({
+          where: { categoryId: id },
+        });
+
+        if (articlesCount > 0) {
+          throw new Error('Cannot delete category with existing articles');
+        }
+
+        const childrenCount = await context.prisma.newsCategory.count({
+          where: { parentId: id, deletedAt: null },
+        });
+
+        if (childrenCount > 0) {
+          throw new Error('Cannot delete category with subcategories');
+        }
+
+        const category = await context.prisma.newsCategory.findUnique({
+          where: { id },
+        });
+
+        if (!category) {
+          throw new Error('News category not found');
+        }
+
+        await context.prisma.newsCategory.delete({
+          where: { id },
+        });
+
+        await recordAudit(context, {
+          entity: 'NewsCategory',
+          entityId: id,
+          action: 'DELETE',
+          before: category,
+        });
+
+        await emitWebhookEvent(context, 'news.category.deleted', category);
+
+        logger.info(`Deleted news category: ${id}`);
+        return true;
+      } catch (error) {
+        logger.error('Error deleting news category', error as Error);
+        return false;
       }
-
-      // Check if category has articles
-      const articlesCount = await context.prisma.newsArticle.count({
-        where: { categoryId: id },
-      });
-
-      if (articlesCount > 0) {
-        throw new Error('Cannot delete category with existing articles');
-      }
-
-      await context.prisma.newsCategory.delete({
-        where: { id },
-      });
-
-      logger.info(`Deleted news category: ${id}`);
-      return true;
-    } catch (error) {
-      logger.error('Error deleting news category', error as Error);
-      return false;
     }
-  },
+  ),
 };
@@ -0,0 +1,113 @@
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { authorize } from '@/auth/permissions';
+import { recordAudit } from '@/services/audit';
+import {
+  DEFAULT_PREVIEW_TTL_SECONDS,
+  MAX_PREVIEW_TTL_SECONDS,
+  PREVIEW_PERMISSIONS,
+  findPreviewEntity,
+  signPreviewToken,
+} from '@/services/previews';
+
+const logger = createLogger('PREVIEW_MUTATIONS');
+
+/**
+ * Preview Mutation Resolvers
+ * Issues and revokes preview links; managing them takes update access to the entity
+ */
+export const previewMutations = {
+  /**
+   * Create a preview link for an article or content entry
+   */
+  createPreviewLink: async (_parent: any, args: any, context: GraphQLContext) => {
+    const { entityType, id, expiresIn = DEFAULT_PREVIEW_TTL_SECONDS } = args;
+    const permission = PREVIEW_PERMISSIONS[entityType as keyof typeof PREVIEW_PERMISSIONS].update;
+    const user = authorize(context, permission);
+
+    if (!Number.isInteger(expiresIn) || expiresIn <= 0 || expiresIn > MAX_PREVIEW_TTL_SECONDS) {
+      throw new AppError(
+        `expiresIn must be between 1 and ${MAX_PREVIEW_TTL_SECONDS} seconds`,
+        ErrorType.VALIDATION_ERROR,
+        400
+      );
+    }
+
+    try {
+      const entity = await findPreviewEntity(context.prisma, user.tenantId, entityType, id);
+      if (!entity) {
+        throw new AppError('Preview entity not found', ErrorType.NOT_FOUND_ERROR, 404);
+      }
+      authorize(context, permission, entity);
+
+      const previewLink = await context.prisma.previewLink.create({
+        data: {
+          entityType,
+          entityId: id,
+          expiresAt: new Date(Date.now() + expiresIn * 1000),
+          tenantId: user.tenantId,
+          createdById: user.id,
+        },
+        include: { createdBy: true },
+      });
+
+      await recordAudit(context, {
+        entity: 'PreviewLink',
+        entityId: previewLink.id,
+        action: 'CREATE',
+        after: previewLink,
+      });
+
+      logger.info(`Created preview link: ${previewLink.id}`, { userId: user.id });
+      return { token: signPreviewToken(previewLink), previewLink };
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error creating preview link', error as Error);
+      throw new Error('Failed to create preview link');
+    }
+  },
+
+  /**
+   * Revoke a preview link; its token stops working immediately
+   */
+  revokePreviewLink: async (_parent: any, args: any, context: GraphQLContext) => {
+    const { id } = args;
+
+    if (!context.user) {
+      throw new AppError('Authentication required', ErrorType.AUTHENTICATION_ERROR, 401);
+    }
+
+    try {
+      const previewLink = await context.prisma.previewLink.findFirst({
+        where: { id, tenantId: context.user.tenantId },
+      });
+      if (!previewLink) {
+        throw new AppError('Preview link not found', ErrorType.NOT_FOUND_ERROR, 404);
+      }
+
+      const user = authorize(context, PREVIEW_PERMISSIONS[previewLink.entityType].update);
+      if (previewLink.revokedAt) return true;
+
+      const revoked = await context.prisma.previewLink.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+      });
+
+      await recordAudit(context, {
+        entity: 'PreviewLink',
+        entityId: id,
+        action: 'UPDATE',
+        before: previewLink,
+        after: revoked,
+        metadata: { revoked: true },
+      });
+
+      logger.info(`Revoked preview link: ${id}`, { userId: user.id });
+      return true;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error revoking preview link', error as Error);
+      throw new Error('Failed to revoke preview link');
+    }
+  },
+};
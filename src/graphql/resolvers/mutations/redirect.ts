@@ -0,0 +1,215 @@
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { withPermission } from '@/auth/permissions';
+import { recordAudit } from '@/services/audit';
+import { DatabaseUtils, WITH_DELETED } from '@/database/prisma';
+import {
+  REDIRECT_STATUS_CODES,
+  REDIRECT_WILDCARD,
+  matchRedirect,
+  normalizePath,
+} from '@/services/slugs';
+
+const logger = createLogger('REDIRECT_MUTATIONS');
+
+interface RedirectFields {
+  source: string;
+  target: string;
+  statusCode: number;
+}
+
+function redirectError(message: string, details?: Record<string, any>): AppError {
+  return new AppError(message, ErrorType.VALIDATION_ERROR, 400, true, details);
+}
+
+function isAbsoluteUrl(target: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(target).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a redirect and normalize its source path
+ * Sources are site paths with an optional trailing `/*`; targets are site paths or
+ * http(s) URLs and may only use `*` when the source does
+ */
+function validateRedirect(fields: RedirectFields): RedirectFields {
+  const raw = fields.source.trim();
+  const wildcard = raw.endsWith(REDIRECT_WILDCARD);
+  const base = wildcard ? raw.slice(0, -REDIRECT_WILDCARD.length) : raw;
+  const target = fields.target.trim();
+
+  if (!raw.startsWith('/') || base.includes('*')) {
+    throw redirectError('Redirect source must be a site path, optionally ending in /*', {
+      source: fields.source,
+    });
+  }
+
+  const path = normalizePath(base);
+  const source = wildcard ? `${path === '/' ? '' : path}${REDIRECT_WILDCARD}` : path;
+
+  if (!target.startsWith('/') && !isAbsoluteUrl(target)) {
+    throw redirectError('Redirect target must be a site path or an http(s) URL', { target });
+  }
+
+  if ((target.match(/\*/g) || []).length > (wildcard ? 1 : 0)) {
+    throw redirectError('Only a wildcard source can use * in its target, and only once', {
+      target,
+    });
+  }
+
+  if (!REDIRECT_STATUS_CODES.includes(fields.statusCode)) {
+    throw redirectError(`Redirect status code must be one of ${REDIRECT_STATUS_CODES.join(', ')}`, {
+      statusCode: fields.statusCode,
+    });
+  }
+
+  // A target the source itself matches would redirect forever
+  if (
+    target.startsWith('/') &&
+    matchRedirect([{ ...fields, source }], normalizePath(target.replace('*', '')))
+  ) {
+    throw redirectError('Redirect target is matched by its own source', { source, target });
+  }
+
+  return { source, target, statusCode: fields.statusCode };
+}
+
+function duplicateSourceError(): AppError {
+  return new AppError('A redirect for this source already exists', ErrorType.DUPLICATE_ERROR, 409);
+}
+
+/**
+ * Redirect Mutation Resolvers
+ * Manages the tenant's redirects of public site paths
+ */
+export const redirectMutations = {
+  /**
+   * Create a redirect; a deleted redirect with the same source is brought back instead
+   */
+  createRedirect: withPermission(
+    'settings:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { input } = args;
+        const data = validateRedirect({ ...input, statusCode: input.statusCode ?? 301 });
+
+        const existing = await context.prisma.redirect.findFirst({
+          where: { source: data.source, ...WITH_DELETED },
+        });
+        if (existing && !existing.deletedAt) {
+          throw duplicateSourceError();
+        }
+
+        const redirect = existing
+          ? await context.prisma.redirect.update({
+              where: { id: existing.id },
+              data: { ...data, deletedAt: null },
+            })
+          : await context.prisma.redirect.create({
+              data: { ...data, tenantId: context.user.tenantId },
+            });
+
+        await recordAudit(context, {
+          entity: 'Redirect',
+          entityId: redirect.id,
+          action: 'CREATE',
+          after: redirect,
+        });
+
+        logger.info(`Created redirect: ${redirect.id}`, { userId: context.user.id });
+        return redirect;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        if (DatabaseUtils.isUniqueConstraintError(error)) {
+          throw duplicateSourceError();
+        }
+        logger.error('Error creating redirect', error as Error);
+        throw new Error('Failed to create redirect');
+      }
+    }
+  ),
+
+  /**
+   * Update a redirect
+   */
+  updateRedirect: withPermission(
+    'settings:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id, input } = args;
+
+        const existing = await context.prisma.redirect.findFirst({
+          where: { id, deletedAt: null },
+        });
+        if (!existing) {
+          throw new AppError('Redirect not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+
+        const redirect = await context.prisma.redirect.update({
+          where: { id },
+          data: validateRedirect({
+            source: input.source ?? existing.source,
+            target: input.target ?? existing.target,
+            statusCode: input.statusCode ?? existing.statusCode,
+          }),
+        });
+
+        await recordAudit(context, {
+          entity: 'Redirect',
+          entityId: redirect.id,
+          action: 'UPDATE',
+          before: existing,
+          after: redirect,
+        });
+
+        logger.info(`Updated redirect: ${redirect.id}`, { userId: context.user.id });
+        return redirect;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        if (DatabaseUtils.isUniqueConstraintError(error)) {
+          throw duplicateSourceError();
+        }
+        logger.error('Error updating redirect', error as Error);
+        throw new Error('Failed to update redirect');
+      }
+    }
+  ),
+
+  /**
+   * Delete a redirect
+   */
+  deleteRedirect: withPermission(
+    'settings:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id } = args;
+
+        const redirect = await context.prisma.redirect.findFirst({
+          where: { id, deletedAt: null },
+        });
+        if (!redirect) {
+          throw new AppError('Redirect not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+
+        await context.prisma.redirect.delete({ where: { id } });
+
+        await recordAudit(context, {
+          entity: 'Redirect',
+          entityId: id,
+          action: 'DELETE',
+          before: redirect,
+        });
+
+        logger.info(`Deleted redirect: ${id}`, { userId: context.user.id });
+        return true;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        logger.error('Error deleting redirect', error as Error);
+        throw new Error('Failed to delete redirect');
+      }
+    }
+  ),
+};
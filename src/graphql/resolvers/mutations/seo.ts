@@ -0,0 +1,104 @@
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { withPermission } from '@/auth/permissions';
+import { recordAudit } from '@/services/audit';
+import { ROBOTS_SETTING, RobotsConfig, parseRobotsConfig } from '@/libs/sitemaps';
+
+const logger = createLogger('SEO_MUTATIONS');
+
+/**
+ * Longest crawl delay accepted, in seconds
+ */
+const MAX_CRAWL_DELAY = 3600;
+
+/**
+ * Validate robots.txt path patterns; each becomes one Allow/Disallow line
+ */
+function validateRobotsPaths(paths: string[], field: string): string[] {
+  const normalized = paths.map(path => path.trim());
+
+  for (const path of normalized) {
+    if (!/^[/*]/.test(path) || /[\r\n]/.test(path)) {
+      throw new AppError(
+        `${field} paths must start with "/" or "*"`,
+        ErrorType.VALIDATION_ERROR,
+        400,
+        true,
+        { path }
+      );
+    }
+  }
+
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * SEO Mutation Resolvers
+ * Manages the tenant's crawler rules
+ */
+export const seoMutations = {
+  /**
+   * Update robots.txt rules; omitted fields keep their current value
+   */
+  updateRobotsConfig: withPermission(
+    'settings:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { input } = args;
+        const tenantId = context.user.tenantId;
+
+        const existing = await context.prisma.setting.findUnique({
+          where: { key_tenantId: { key: ROBOTS_SETTING, tenantId } },
+        });
+        const current = parseRobotsConfig(existing?.value);
+
+        const robots: RobotsConfig = { ...current };
+        if (input.allowIndexing !== undefined && input.allowIndexing !== null) {
+          robots.allowIndexing = input.allowIndexing;
+        }
+        if (input.allow) robots.allow = validateRobotsPaths(input.allow, 'Allow');
+        if (input.disallow) robots.disallow = validateRobotsPaths(input.disallow, 'Disallow');
+        if (input.crawlDelay !== undefined) {
+          if (
+            input.crawlDelay !== null &&
+            (input.crawlDelay < 0 || input.crawlDelay > MAX_CRAWL_DELAY)
+          ) {
+            throw new AppError(
+              `Crawl delay must be between 0 and ${MAX_CRAWL_DELAY} seconds`,
+              ErrorType.VALIDATION_ERROR,
+              400
+            );
+          }
+          robots.crawlDelay = input.crawlDelay;
+        }
+        if (input.extra !== undefined) robots.extra = input.extra?.trim() || null;
+
+        const setting = await context.prisma.setting.upsert({
+          where: { key_tenantId: { key: ROBOTS_SETTING, tenantId } },
+          create: {
+            key: ROBOTS_SETTING,
+            value: robots as any,
+            description: 'robots.txt rules',
+            tenantId,
+          },
+          update: { value: robots as any },
+        });
+
+        await recordAudit(context, {
+          entity: 'Setting',
+          entityId: setting.id,
+          action: existing ? 'UPDATE' : 'CREATE',
+          before: existing,
+          after: setting,
+        });
+
+        logger.info('Updated robots config', { userId: context.user.id, tenantId });
+        return robots;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        logger.error('Error updating robots config', error as Error);
+        throw new Error('Failed to update robots config');
+      }
+    }
+  ),
+};
@@ -0,0 +1,92 @@
+import { contentMutations } from '@/graphql/resolvers/mutations/content';
+import { merchMutations } from '@/graphql/resolvers/mutations/merch';
+import { AuthenticatedUser } from '@/types';
+import { MemoryStore, createMemoryPrismaClient } from '../../../../tests/helpers/memory-prisma';
+
+// Audit entries and webhook deliveries go through the unscoped client, which would
+// contact the database
+jest.mock('@/services/audit', () => ({ recordAudit: jest.fn() }));
+jest.mock('@/services/webhooks', () => ({
+  ...jest.requireActual('@/services/webhooks'),
+  emitWebhookEvent: jest.fn(),
+}));
+
+const editor: AuthenticatedUser = {
+  id: 'user-1',
+  email: 'user@a.test',
+  tenantId: 'A',
+  roles: [],
+  permissions: ['content:update', 'merch:update'],
+  grants: [
+    { resource: 'content', action: 'update', conditions: {} },
+    { resource: 'merch', action: 'update', conditions: {} },
+  ],
+};
+
+function context(store: MemoryStore) {
+  return {
+    prisma: createMemoryPrismaClient(store, 'A'),
+    tenant: { id: 'A', config: {} },
+    user: editor,
+    req: { get: () => undefined, ip: '127.0.0.1' },
+  } as any;
+}
+
+describe('slugs of content and merch products', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = {
+      Content: [
+        {
+          id: 'page',
+          tenantId: 'A',
+          slug: 'about',
+          title: { en: 'About' },
+          content: { en: 'Body' },
+          status: 'DRAFT',
+          deletedAt: null,
+        },
+      ],
+      MerchProduct: [
+        {
+          id: 'shirt',
+          tenantId: 'A',
+          slug: 'shirt',
+          name: { en: 'Shirt' },
+          status: 'DRAFT',
+          deletedAt: null,
+        },
+      ],
+      SlugHistory: [],
+    };
+  });
+
+  it('keeps the slug when only the title or name changes', async () => {
+    await contentMutations.updateContent(
+      null,
+      { id: 'page', input: { title: { en: 'About us' } } },
+      context(store)
+    );
+    await merchMutations.updateMerchProduct(
+      null,
+      { id: 'shirt', input: { name: { en: 'Blue shirt' } } },
+      context(store)
+    );
+
+    expect(store.Content[0]).toMatchObject({ slug: 'about', title: { en: 'About us' } });
+    expect(store.MerchProduct[0]).toMatchObject({ slug: 'shirt', name: { en: 'Blue shirt' } });
+    expect(store.SlugHistory).toEqual([]);
+  });
+
+  it('changes the slug when one is given', async () => {
+    await contentMutations.updateContent(
+      null,
+      { id: 'page', input: { slug: 'about-us' } },
+      context(store)
+    );
+
+    expect(store.Content[0].slug).toBe('about-us');
+    expect(store.SlugHistory).toEqual([expect.objectContaining({ slug: 'about' })]);
+  });
+});
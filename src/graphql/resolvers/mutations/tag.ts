@@ -0,0 +1,269 @@
+import { Prisma } from '@prisma/client';
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { slugify } from '@/utils';
+import { withPermission } from '@/auth/permissions';
+import { recordAudit } from '@/services/audit';
+import { DatabaseUtils, WITH_DELETED } from '@/database/prisma';
+import { TAG_USAGE_COUNT } from '@/services/tags';
+
+const logger = createLogger('TAG_MUTATIONS');
+
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Validate the writable fields of a tag and normalize its slug
+ */
+function tagData(input: any): Record<string, any> {
+  const data: Record<string, any> = { ...input };
+
+  if (input.name !== undefined) {
+    const names = typeof input.name === 'string' ? [input.name] : Object.values(input.name || {});
+    if (!names.some(name => typeof name === 'string' && name.trim())) {
+      throw new AppError('Tag name is required', ErrorType.VALIDATION_ERROR, 400);
+    }
+  }
+
+  // Nullable JSON columns are cleared with DbNull, not null
+  if (input.description === null) {
+    data.description = Prisma.DbNull;
+  }
+
+  if (input.slug !== undefined) {
+    data.slug = slugify(input.slug || '');
+    if (!data.slug) {
+      throw new AppError('Tag slug cannot be empty', ErrorType.VALIDATION_ERROR, 400);
+    }
+  }
+
+  if (input.color && !COLOR_PATTERN.test(input.color)) {
+    throw new AppError(
+      'Tag color must be a hex color like #1e88e5',
+      ErrorType.VALIDATION_ERROR,
+      400
+    );
+  }
+
+  return data;
+}
+
+function duplicateSlugError(): AppError {
+  return new AppError('A tag with this slug already exists', ErrorType.DUPLICATE_ERROR, 409);
+}
+
+/**
+ * Tag Mutation Resolvers
+ * Manages the tag taxonomy shared by news and content
+ */
+export const tagMutations = {
+  /**
+   * Create a tag; a deleted tag with the same slug is brought back instead
+   */
+  createTag: withPermission(
+    'tag:create',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const data = tagData(args.input);
+        data.slug =
+          data.slug || slugify(typeof data.name === 'string' ? data.name : data.name.en || 'tag');
+
+        const existing = await context.prisma.tag.findFirst({
+          where: { slug: data.slug, ...WITH_DELETED },
+        });
+        if (existing && !existing.deletedAt) {
+          throw duplicateSlugError();
+        }
+
+        const tag = existing
+          ? await context.prisma.tag.update({
+              where: { id: existing.id },
+              data: { description: Prisma.DbNull, color: null, ...data, deletedAt: null },
+              include: TAG_USAGE_COUNT,
+            })
+          : await context.prisma.tag.create({
+              data: { ...data, name: data.name, slug: data.slug, tenantId: context.user.tenantId },
+              include: TAG_USAGE_COUNT,
+            });
+
+        await recordAudit(context, {
+          entity: 'Tag',
+          entityId: tag.id,
+          action: 'CREATE',
+          after: tag,
+        });
+
+        logger.info(`Created tag: ${tag.id}`, { userId: context.user.id });
+        return tag;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        if (DatabaseUtils.isUniqueConstraintError(error)) {
+          throw duplicateSlugError();
+        }
+        logger.error('Error creating tag', error as Error);
+        throw new Error('Failed to create tag');
+      }
+    }
+  ),
+
+  /**
+   * Update a tag
+   */
+  updateTag: withPermission(
+    'tag:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id, input } = args;
+
+        const existing = await context.prisma.tag.findFirst({ where: { id, deletedAt: null } });
+        if (!existing) {
+          throw new AppError('Tag not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+
+        const tag = await context.prisma.tag.update({
+          where: { id },
+          data: tagData(input),
+          include: TAG_USAGE_COUNT,
+        });
+
+        await recordAudit(context, {
+          entity: 'Tag',
+          entityId: tag.id,
+          action: 'UPDATE',
+          before: existing,
+          after: tag,
+        });
+
+        logger.info(`Updated tag: ${tag.id}`, { userId: context.user.id });
+        return tag;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        if (DatabaseUtils.isUniqueConstraintError(error)) {
+          throw duplicateSlugError();
+        }
+        logger.error('Error updating tag', error as Error);
+        throw new Error('Failed to update tag');
+      }
+    }
+  ),
+
+  /**
+   * Merge tags into a target tag
+   * News and content keep a single link to the target; source tags are deleted
+   */
+  mergeTags: withPermission(
+    'tag:delete',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { targetId } = args;
+        const sourceIds: string[] = Array.from(new Set<string>(args.sourceIds)).filter(
+          id => id !== targetId
+        );
+
+        if (sourceIds.length === 0) {
+          throw new AppError(
+            'At least one source tag other than the target is required',
+            ErrorType.VALIDATION_ERROR,
+            400
+          );
+        }
+
+        const tags = await context.prisma.tag.findMany({
+          where: { id: { in: [targetId, ...sourceIds] }, deletedAt: null },
+          include: { newsArticles: true, content: true },
+        });
+        const target = tags.find(tag => tag.id === targetId);
+        const sources = tags.filter(tag => tag.id !== targetId);
+
+        if (!target || sources.length !== sourceIds.length) {
+          throw new AppError('Tag not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+
+        const merged = await context.prisma.$transaction(async tx => {
+          await tx.newsArticleTag.createMany({
+            data: sources.flatMap(source =>
+              source.newsArticles.map(link => ({ articleId: link.articleId, tagId: targetId }))
+            ),
+            skipDuplicates: true,
+          });
+          await tx.contentTag.createMany({
+            data: sources.flatMap(source =>
+              source.content.map(link => ({ contentId: link.contentId, tagId: targetId }))
+            ),
+            skipDuplicates: true,
+          });
+
+          // Nested deleteMany removes the source links outright (link rows are not soft-deleted)
+          for (const source of sources) {
+            await tx.tag.update({
+              where: { id: source.id },
+              data: {
+                deletedAt: new Date(),
+                newsArticles: { deleteMany: {} },
+                content: { deleteMany: {} },
+              },
+            });
+          }
+
+          return tx.tag.findUniqueOrThrow({ where: { id: targetId }, include: TAG_USAGE_COUNT });
+        });
+
+        for (const source of sources) {
+          await recordAudit(context, {
+            entity: 'Tag',
+            entityId: source.id,
+            action: 'DELETE',
+            before: source,
+            metadata: { mergedInto: targetId },
+          });
+        }
+
+        logger.info(`Merged ${sources.length} tags into ${targetId}`, { userId: context.user.id });
+        return merged;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        logger.error('Error merging tags', error as Error);
+        throw new Error('Failed to merge tags');
+      }
+    }
+  ),
+
+  /**
+   * Delete a tag and remove it from all news and content
+   */
+  deleteTag: withPermission(
+    'tag:delete',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id } = args;
+
+        const tag = await context.prisma.tag.findFirst({ where: { id, deletedAt: null } });
+        if (!tag) {
+          throw new AppError('Tag not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+
+        await context.prisma.tag.update({
+          where: { id },
+          data: {
+            deletedAt: new Date(),
+            newsArticles: { deleteMany: {} },
+            content: { deleteMany: {} },
+          },
+        });
+
+        await recordAudit(context, {
+          entity: 'Tag',
+          entityId: id,
+          action: 'DELETE',
+          before: tag,
+        });
+
+        logger.info(`Deleted tag: ${id}`, { userId: context.user.id });
+        return true;
+      } catch (error) {
+        if (error instanceof AppError) throw error;
+        logger.error('Error deleting tag', error as Error);
+        throw new Error('Failed to delete tag');
+      }
+    }
+  ),
+};
@@ -1,6 +1,10 @@
-import { GraphQLContext } from '@/types';
+import { AppError, ErrorType, GraphQLContext } from '@/types';
 import { GraphQLError } from 'graphql';
 import { createLogger } from '@/utils/logger';
+import { authorize, isPlatformAdmin, withPermission } from '@/auth/permissions';
+import { recordAudit } from '@/services/audit';
+import { parseLocaleSettings } from '@/services/locales';
+import { WITH_DELETED } from '@/database/prisma';
 
 const logger = createLogger('TENANT_MUTATIONS');
 
@@ -53,304 +57,351 @@ export const tenantMutations = {
    * Create a new tenant
    * Validates slug format and uniqueness, initializes with default config
    */
-  createTenant: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      const { input } = args;
-
-      // TODO: Add admin role check in production
-      // if (!context.user || !context.user.roles.includes('ADMIN')) {
-      //   throw new GraphQLError('Unauthorized: Admin access required');
-      // }
-
-      // Validate required fields
-      if (!input.name || input.name.trim().length === 0) {
-        throw new GraphQLError('Tenant name is required');
-      }
+  createTenant: withPermission(
+    'tenant:create',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { input } = args;
+
+        // Validate required fields
+        if (!input.name || input.name.trim().length === 0) {
+          throw new GraphQLError('Tenant name is required');
+        }
 
-      if (!input.slug || input.slug.trim().length === 0) {
-        throw new GraphQLError('Tenant slug is required');
-      }
+        if (!input.slug || input.slug.trim().length === 0) {
+          throw new GraphQLError('Tenant slug is required');
+        }
 
-      // Normalize slug to lowercase and validate format
-      const normalizedSlug = input.slug.toLowerCase().trim();
+        // Normalize slug to lowercase and validate format
+        const normalizedSlug = input.slug.toLowerCase().trim();
 
-      // Validate slug is in kebab-case format
-      if (!validateSlugFormat(normalizedSlug)) {
-        throw new GraphQLError(
-          'Slug must be in kebab-case format (lowercase letters, numbers, and hyphens only). Example: my-organization'
-        );
-      }
+        // Validate slug is in kebab-case format
+        if (!validateSlugFormat(normalizedSlug)) {
+          throw new GraphQLError(
+            'Slug must be in kebab-case format (lowercase letters, numbers, and hyphens only). Example: my-organization'
+          );
+        }
 
-      // Check if slug already exists
-      const existingTenant = await context.prisma.tenant.findUnique({
-        where: { slug: normalizedSlug },
-      });
+        // Check if slug already exists
+        const existingTenant = await context.prisma.tenant.findUnique({
+          where: { slug: normalizedSlug, ...WITH_DELETED },
+        });
 
-      if (existingTenant) {
-        throw new GraphQLError(`Tenant with slug "${normalizedSlug}" already exists`);
-      }
+        if (existingTenant) {
+          throw new GraphQLError(`Tenant with slug "${normalizedSlug}" already exists`);
+        }
 
-      // Check if domain already exists (if provided)
-      if (input.domain) {
-        const domainExists = await context.prisma.tenant.findUnique({
-          where: { domain: input.domain },
-        });
+        // Check if domain already exists (if provided)
+        if (input.domain) {
+          const domainExists = await context.prisma.tenant.findUnique({
+            where: { domain: input.domain, ...WITH_DELETED },
+          });
 
-        if (domainExists) {
-          throw new GraphQLError(`Tenant with domain "${input.domain}" already exists`);
+          if (domainExists) {
+            throw new GraphQLError(`Tenant with domain "${input.domain}" already exists`);
+          }
         }
-      }
 
-      // Determine status: prioritize explicit status, then isActive, then default to ACTIVE
-      let status = 'ACTIVE';
-      if (input.status) {
-        validateTenantStatus(input.status);
-        status = input.status;
-      } else if (input.isActive === false) {
-        status = 'INACTIVE';
-      }
+        // Determine status: prioritize explicit status, then isActive, then default to ACTIVE
+        let status = 'ACTIVE';
+        if (input.status) {
+          validateTenantStatus(input.status);
+          status = input.status;
+        } else if (input.isActive === false) {
+          status = 'INACTIVE';
+        }
 
-      // Determine plan: use provided plan or default to FREE
-      const plan = input.plan || 'FREE';
-      if (input.plan) {
-        validateTenantPlan(input.plan);
-      }
+        // Determine plan: use provided plan or default to FREE
+        const plan = input.plan || 'FREE';
+        if (input.plan) {
+          validateTenantPlan(input.plan);
+        }
 
-      // Create tenant with validated data
-      const tenant = await context.prisma.tenant.create({
-        data: {
-          name: input.name.trim(),
-          slug: normalizedSlug,
-          domain: input.domain?.trim() || null,
-          status: status as any,
-          plan: plan as any,
-        },
-      });
-
-      logger.info(`Created tenant: ${tenant.slug} (${tenant.id})`);
-
-      return tenant;
-    } catch (error) {
-      logger.error('Error creating tenant', error as Error);
-
-      // Re-throw GraphQLErrors as-is
-      if (error instanceof GraphQLError) {
-        throw error;
-      }
+        // Create tenant with validated data
+        const tenant = await context.prisma.tenant.create({
+          data: {
+            name: input.name.trim(),
+            slug: normalizedSlug,
+            domain: input.domain?.trim() || null,
+            status: status as any,
+            plan: plan as any,
+            ...(input.locales && {
+              config: { locales: { ...parseLocaleSettings(input.locales) } },
+            }),
+          },
+        });
+
+        await recordAudit(context, {
+          entity: 'Tenant',
+          entityId: tenant.id,
+          action: 'CREATE',
+          after: tenant,
+          tenantId: tenant.id,
+        });
 
-      // Handle Prisma unique constraint violations
-      if ((error as any).code === 'P2002') {
-        const target = (error as any).meta?.target || [];
-        if (target.includes('slug')) {
-          throw new GraphQLError('A tenant with this slug already exists');
+        logger.info(`Created tenant: ${tenant.slug} (${tenant.id})`);
+
+        return tenant;
+      } catch (error) {
+        logger.error('Error creating tenant', error as Error);
+
+        // Re-throw GraphQLErrors and authorization errors as-is
+        if (error instanceof GraphQLError || error instanceof AppError) {
+          throw error;
         }
-        if (target.includes('domain')) {
-          throw new GraphQLError('A tenant with this domain already exists');
+
+        // Handle Prisma unique constraint violations
+        if ((error as any).code === 'P2002') {
+          const target = (error as any).meta?.target || [];
+          if (target.includes('slug')) {
+            throw new GraphQLError('A tenant with this slug already exists');
+          }
+          if (target.includes('domain')) {
+            throw new GraphQLError('A tenant with this domain already exists');
+          }
         }
-      }
 
-      throw new GraphQLError('Failed to create tenant');
+        throw new GraphQLError('Failed to create tenant');
+      }
     }
-  },
+  ),
 
   /**
    * Update an existing tenant
-   * Allows updating name, slug, domain, isActive status, and config
+   * Allows updating name, slug, domain, isActive status, plan, and language settings
    */
-  updateTenant: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      const { id, input } = args;
-
-      // TODO: Add admin role check in production
-      // if (!context.user || !context.user.roles.includes('ADMIN')) {
-      //   throw new GraphQLError('Unauthorized: Admin access required');
-      // }
-
-      // Check if tenant exists
-      const existingTenant = await context.prisma.tenant.findUnique({
-        where: { id },
-      });
-
-      if (!existingTenant || existingTenant.deletedAt) {
-        throw new GraphQLError('Tenant not found');
-      }
+  updateTenant: withPermission(
+    'tenant:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id, input } = args;
+
+        // Check if tenant exists
+        const existingTenant = await context.prisma.tenant.findUnique({
+          where: { id },
+        });
 
-      // Build update data object
-      const updateData: any = {};
+        if (!existingTenant || existingTenant.deletedAt) {
+          throw new GraphQLError('Tenant not found');
+        }
 
-      // Update name if provided
-      if (input.name !== undefined) {
-        if (input.name.trim().length === 0) {
-          throw new GraphQLError('Tenant name cannot be empty');
+        // Tenant admins may only manage their own organization
+        authorize(context, 'tenant:update', { tenantId: existingTenant.id });
+
+        // Plan and status are billing and moderation settings, not the tenant's own to change
+        const changesPlanOrStatus =
+          input.plan !== undefined || input.status !== undefined || input.isActive !== undefined;
+        if (changesPlanOrStatus && !isPlatformAdmin(context.user)) {
+          throw new AppError(
+            'Only platform admins can change the plan or status of a tenant',
+            ErrorType.AUTHORIZATION_ERROR,
+            403
+          );
         }
-        updateData.name = input.name.trim();
-      }
 
-      // Update slug if provided
-      if (input.slug !== undefined) {
-        const normalizedSlug = input.slug.toLowerCase().trim();
+        // Build update data object
+        const updateData: any = {};
 
-        if (!validateSlugFormat(normalizedSlug)) {
-          throw new GraphQLError(
-            'Slug must be in kebab-case format (lowercase letters, numbers, and hyphens only)'
-          );
+        // Update name if provided
+        if (input.name !== undefined) {
+          if (input.name.trim().length === 0) {
+            throw new GraphQLError('Tenant name cannot be empty');
+          }
+          updateData.name = input.name.trim();
         }
 
-        // Check if new slug conflicts with existing tenant
-        if (normalizedSlug !== existingTenant.slug) {
-          const slugExists = await context.prisma.tenant.findUnique({
-            where: { slug: normalizedSlug },
-          });
+        // Update slug if provided
+        if (input.slug !== undefined) {
+          const normalizedSlug = input.slug.toLowerCase().trim();
 
-          if (slugExists) {
-            throw new GraphQLError(`Tenant with slug "${normalizedSlug}" already exists`);
+          if (!validateSlugFormat(normalizedSlug)) {
+            throw new GraphQLError(
+              'Slug must be in kebab-case format (lowercase letters, numbers, and hyphens only)'
+            );
           }
 
-          updateData.slug = normalizedSlug;
+          // Check if new slug conflicts with existing tenant
+          if (normalizedSlug !== existingTenant.slug) {
+            const slugExists = await context.prisma.tenant.findUnique({
+              where: { slug: normalizedSlug, ...WITH_DELETED },
+            });
+
+            if (slugExists) {
+              throw new GraphQLError(`Tenant with slug "${normalizedSlug}" already exists`);
+            }
+
+            updateData.slug = normalizedSlug;
+          }
         }
-      }
 
-      // Update domain if provided
-      if (input.domain !== undefined) {
-        const domain = input.domain?.trim() || null;
+        // Update domain if provided
+        if (input.domain !== undefined) {
+          const domain = input.domain?.trim() || null;
 
-        if (domain && domain !== existingTenant.domain) {
-          const domainExists = await context.prisma.tenant.findUnique({
-            where: { domain },
-          });
+          if (domain && domain !== existingTenant.domain) {
+            const domainExists = await context.prisma.tenant.findUnique({
+              where: { domain, ...WITH_DELETED },
+            });
 
-          if (domainExists) {
-            throw new GraphQLError(`Tenant with domain "${domain}" already exists`);
+            if (domainExists) {
+              throw new GraphQLError(`Tenant with domain "${domain}" already exists`);
+            }
           }
+
+          updateData.domain = domain;
         }
 
-        updateData.domain = domain;
-      }
+        // Update status: prioritize explicit status over isActive flag
+        if (input.status !== undefined) {
+          validateTenantStatus(input.status);
+          updateData.status = input.status;
+        } else if (input.isActive !== undefined) {
+          // If only isActive is provided, map it to status
+          updateData.status = input.isActive ? 'ACTIVE' : 'INACTIVE';
+        }
 
-      // Update status: prioritize explicit status over isActive flag
-      if (input.status !== undefined) {
-        validateTenantStatus(input.status);
-        updateData.status = input.status;
-      } else if (input.isActive !== undefined) {
-        // If only isActive is provided, map it to status
-        updateData.status = input.isActive ? 'ACTIVE' : 'INACTIVE';
-      }
+        // Update plan if provided
+        if (input.plan !== undefined) {
+          validateTenantPlan(input.plan);
+          updateData.plan = input.plan;
+        }
 
-      // Update plan if provided
-      if (input.plan !== undefined) {
-        validateTenantPlan(input.plan);
-        updateData.plan = input.plan;
-      }
+        // Replace the language settings, keeping the rest of the config
+        if (input.locales) {
+          updateData.config = {
+            ...((existingTenant.config as Record<string, any>) || {}),
+            locales: parseLocaleSettings(input.locales),
+          };
+        }
 
-      // Perform update
-      const updatedTenant = await context.prisma.tenant.update({
-        where: { id },
-        data: updateData,
-      });
+        // Perform update
+        const updatedTenant = await context.prisma.tenant.update({
+          where: { id },
+          data: updateData,
+        });
 
-      logger.info(`Updated tenant: ${updatedTenant.slug} (${updatedTenant.id})`);
+        await recordAudit(context, {
+          entity: 'Tenant',
+          entityId: updatedTenant.id,
+          action: 'UPDATE',
+          before: existingTenant,
+          after: updatedTenant,
+          tenantId: updatedTenant.id,
+        });
 
-      return updatedTenant;
-    } catch (error) {
-      logger.error('Error updating tenant', error as Error);
+        logger.info(`Updated tenant: ${updatedTenant.slug} (${updatedTenant.id})`);
 
-      // Re-throw GraphQLErrors as-is
-      if (error instanceof GraphQLError) {
-        throw error;
-      }
+        return updatedTenant;
+      } catch (error) {
+        logger.error('Error updating tenant', error as Error);
 
-      // Handle Prisma unique constraint violations
-      if ((error as any).code === 'P2002') {
-        const target = (error as any).meta?.target || [];
-        if (target.includes('slug')) {
-          throw new GraphQLError('A tenant with this slug already exists');
+        // Re-throw GraphQLErrors and authorization errors as-is
+        if (error instanceof GraphQLError || error instanceof AppError) {
+          throw error;
         }
-        if (target.includes('domain')) {
-          throw new GraphQLError('A tenant with this domain already exists');
+
+        // Handle Prisma unique constraint violations
+        if ((error as any).code === 'P2002') {
+          const target = (error as any).meta?.target || [];
+          if (target.includes('slug')) {
+            throw new GraphQLError('A tenant with this slug already exists');
+          }
+          if (target.includes('domain')) {
+            throw new GraphQLError('A tenant with this domain already exists');
+          }
         }
-      }
 
-      throw new GraphQLError('Failed to update tenant');
+        throw new GraphQLError('Failed to update tenant');
+      }
     }
-  },
+  ),
 
   /**
    * Delete a tenant (soft delete)
    * Prevents deletion if tenant has existing users or products
    */
-  deleteTenant: async (_parent: any, args: any, context: GraphQLContext) => {
-    try {
-      const { id } = args;
-
-      // TODO: Add admin role check in production
-      // if (!context.user || !context.user.roles.includes('ADMIN')) {
-      //   throw new GraphQLError('Unauthorized: Admin access required');
-      // }
-
-      // Check if tenant exists
-      const tenant = await context.prisma.tenant.findUnique({
-        where: { id },
-        include: {
-          users: true,
-          merchProducts: true,
-          newsArticles: true,
-          content: true,
-        },
-      });
-
-      if (!tenant || tenant.deletedAt) {
-        throw new GraphQLError('Tenant not found');
-      }
+  deleteTenant: withPermission(
+    'tenant:delete',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { id } = args;
+
+        // Check if tenant exists
+        const tenant = await context.prisma.tenant.findUnique({
+          where: { id },
+          include: {
+            users: true,
+            merchProducts: true,
+            newsArticles: true,
+            content: true,
+          },
+        });
 
-      // Prevent deletion if tenant has users
-      if (tenant.users.length > 0) {
-        throw new GraphQLError(
-          `Cannot delete tenant: ${tenant.users.length} user(s) are associated with this tenant. Please remove or reassign users first.`
-        );
-      }
+        if (!tenant || tenant.deletedAt) {
+          throw new GraphQLError('Tenant not found');
+        }
 
-      // Prevent deletion if tenant has products
-      if (tenant.merchProducts.length > 0) {
-        throw new GraphQLError(
-          `Cannot delete tenant: ${tenant.merchProducts.length} product(s) are associated with this tenant. Please remove products first.`
-        );
-      }
+        // Tenant admins may only manage their own organization
+        authorize(context, 'tenant:delete', { tenantId: tenant.id });
 
-      // Prevent deletion if tenant has news articles
-      if (tenant.newsArticles.length > 0) {
-        throw new GraphQLError(
-          `Cannot delete tenant: ${tenant.newsArticles.length} news article(s) are associated with this tenant. Please remove articles first.`
-        );
-      }
+        // Prevent deletion if tenant has users
+        if (tenant.users.length > 0) {
+          throw new GraphQLError(
+            `Cannot delete tenant: ${tenant.users.length} user(s) are associated with this tenant. Please remove or reassign users first.`
+          );
+        }
 
-      // Prevent deletion if tenant has content
-      if (tenant.content.length > 0) {
-        throw new GraphQLError(
-          `Cannot delete tenant: ${tenant.content.length} content item(s) are associated with this tenant. Please remove content first.`
-        );
-      }
+        // Prevent deletion if tenant has products
+        if (tenant.merchProducts.length > 0) {
+          throw new GraphQLError(
+            `Cannot delete tenant: ${tenant.merchProducts.length} product(s) are associated with this tenant. Please remove products first.`
+          );
+        }
 
-      // Perform soft delete by setting deletedAt timestamp
-      await context.prisma.tenant.update({
-        where: { id },
-        data: {
-          deletedAt: new Date(),
-          status: 'ARCHIVED',
-        },
-      });
+        // Prevent deletion if tenant has news articles
+        if (tenant.newsArticles.length > 0) {
+          throw new GraphQLError(
+            `Cannot delete tenant: ${tenant.newsArticles.length} news article(s) are associated with this tenant. Please remove articles first.`
+          );
+        }
 
-      logger.info(`Soft deleted tenant: ${tenant.slug} (${tenant.id})`);
+        // Prevent deletion if tenant has content
+        if (tenant.content.length > 0) {
+          throw new GraphQLError(
+            `Cannot delete tenant: ${tenant.content.length} content item(s) are associated with this tenant. Please remove content first.`
+          );
+        }
 
-      return true;
-    } catch (error) {
-      logger.error('Error deleting tenant', error as Error);
+        // Perform soft delete by setting deletedAt timestamp
+        await context.prisma.tenant.update({
+          where: { id },
+          data: {
+            deletedAt: new Date(),
+            status: 'ARCHIVED',
+          },
+        });
 
-      // Re-throw GraphQLErrors as-is
-      if (error instanceof GraphQLError) {
-        throw error;
-      }
+        await recordAudit(context, {
+          entity: 'Tenant',
+          entityId: tenant.id,
+          action: 'DELETE',
+          before: tenant,
+          tenantId: tenant.id,
+        });
 
-      throw new GraphQLError('Failed to delete tenant');
+        logger.info(`Soft deleted tenant: ${tenant.slug} (${tenant.id})`);
+
+        return true;
+      } catch (error) {
+        logger.error('Error deleting tenant', error as Error);
+
+        // Re-throw GraphQLErrors and authorization errors as-is
+        if (error instanceof GraphQLError || error instanceof AppError) {
+          throw error;
+        }
+
+        throw new GraphQLError('Failed to delete tenant');
+      }
     }
-  },
+  ),
 };
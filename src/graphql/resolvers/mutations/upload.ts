@@ -1,4 +1,5 @@
 import { getPresignedUploadUrl, PresignedUrlResponse } from "../../../libs/file-storage";
+import { withPermission } from "@/auth/permissions";
 
 export const uploadResolvers = {
   Mutation: {
@@ -6,11 +7,14 @@ export const uploadResolvers = {
      * Resolver for the createPresignedUploadUrl mutation.
      * It takes a fileType (MIME type) as input and returns a pre-signed URL for uploading.
      */
-    createPresignedUploadUrl: async (_: any, { fileType }: { fileType: string }): Promise<PresignedUrlResponse> => {
-      if (!fileType) {
-        throw new Error("A 'fileType' argument is required.");
+    createPresignedUploadUrl: withPermission(
+      "media:create",
+      async (_: any, { fileType }: { fileType: string }): Promise<PresignedUrlResponse> => {
+        if (!fileType) {
+          throw new Error("A 'fileType' argument is required.");
+        }
+        return getPresignedUploadUrl(fileType);
       }
-      return getPresignedUploadUrl(fileType);
-    },
+    ),
   },
 };
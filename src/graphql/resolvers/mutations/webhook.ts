@@ -0,0 +1,222 @@
+import { Prisma } from '@prisma/client';
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { authorize, withPermission } from '@/auth/permissions';
+import { recordAudit } from '@/services/audit';
+import {
+  WEBHOOK_EVENTS,
+  WILDCARD_EVENT,
+  assertSafeWebhookUrl,
+  generateWebhookSecret,
+  webhookDispatcher,
+} from '@/services/webhooks';
+
+const logger = createLogger('WEBHOOK_MUTATIONS');
+
+/**
+ * Validate subscribed event names
+ */
+function validateEvents(events: string[]): string[] {
+  const unique = Array.from(new Set(events));
+  const known = new Set<string>([WILDCARD_EVENT, ...WEBHOOK_EVENTS]);
+  const invalid = unique.filter(event => !known.has(event));
+
+  if (unique.length === 0) {
+    throw new AppError('At least one event is required', ErrorType.VALIDATION_ERROR, 400);
+  }
+  if (invalid.length > 0) {
+    throw new AppError(`Unknown events: ${invalid.join(', ')}`, ErrorType.VALIDATION_ERROR, 400);
+  }
+
+  return unique;
+}
+
+/**
+ * Webhook Mutation Resolvers
+ * Handles webhook CRUD and manual redelivery
+ */
+export const webhookMutations = {
+  /**
+   * Create a webhook
+   * Returns the signing secret once
+   */
+  createWebhook: withPermission(
+    'webhook:manage',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      const { input } = args;
+
+      if (!input.name || input.name.trim().length === 0) {
+        throw new AppError('Webhook name is required', ErrorType.VALIDATION_ERROR, 400);
+      }
+      await assertSafeWebhookUrl(input.url);
+      const events = validateEvents(input.events);
+
+      try {
+        const secret = generateWebhookSecret();
+
+        const webhook = await context.prisma.webhook.create({
+          data: {
+            name: input.name.trim(),
+            url: input.url,
+            events,
+            secret,
+            isActive: input.isActive ?? true,
+            retryPolicy: input.retryPolicy ?? {},
+            metadata: input.metadata ?? {},
+            tenantId: context.user.tenantId,
+          },
+        });
+
+        await recordAudit(context, {
+          entity: 'Webhook',
+          entityId: webhook.id,
+          action: 'CREATE',
+          after: { ...webhook, secret: undefined },
+        });
+
+        logger.info(`Created webhook: ${webhook.id}`, { userId: context.user.id });
+        return { secret, webhook };
+      } catch (error) {
+        logger.error('Error creating webhook', error as Error);
+        throw new Error('Failed to create webhook');
+      }
+    }
+  ),
+
+  /**
+   * Update a webhook
+   */
+  updateWebhook: withPermission(
+    'webhook:manage',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      const { id, input } = args;
+
+      const existingWebhook = await context.prisma.webhook.findUnique({
+        where: { id },
+      });
+
+      if (!existingWebhook || existingWebhook.deletedAt) {
+        throw new AppError('Webhook not found', ErrorType.NOT_FOUND_ERROR, 404);
+      }
+
+      authorize(context, 'webhook:manage', existingWebhook);
+
+      const updateData: Prisma.WebhookUpdateInput = {};
+      if (input.name !== undefined) {
+        if (!input.name || input.name.trim().length === 0) {
+          throw new AppError('Webhook name is required', ErrorType.VALIDATION_ERROR, 400);
+        }
+        updateData.name = input.name.trim();
+      }
+      if (input.url !== undefined) {
+        await assertSafeWebhookUrl(input.url);
+        updateData.url = input.url;
+      }
+      if (input.events !== undefined) updateData.events = validateEvents(input.events);
+      if (input.isActive !== undefined) updateData.isActive = input.isActive;
+      if (input.retryPolicy !== undefined) updateData.retryPolicy = input.retryPolicy;
+      if (input.metadata !== undefined) updateData.metadata = input.metadata;
+
+      try {
+        const webhook = await context.prisma.webhook.update({
+          where: { id },
+          data: updateData,
+        });
+
+        await recordAudit(context, {
+          entity: 'Webhook',
+          entityId: webhook.id,
+          action: 'UPDATE',
+          before: { ...existingWebhook, secret: undefined },
+          after: { ...webhook, secret: undefined },
+        });
+
+        logger.info(`Updated webhook: ${webhook.id}`, { userId: context.user.id });
+        return webhook;
+      } catch (error) {
+        logger.error('Error updating webhook', error as Error);
+        throw new Error('Failed to update webhook');
+      }
+    }
+  ),
+
+  /**
+   * Delete a webhook (soft delete); pending deliveries are failed on their next attempt
+   */
+  deleteWebhook: withPermission(
+    'webhook:manage',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      const { id } = args;
+
+      const webhook = await context.prisma.webhook.findUnique({
+        where: { id },
+      });
+
+      if (!webhook || webhook.deletedAt) {
+        throw new AppError('Webhook not found', ErrorType.NOT_FOUND_ERROR, 404);
+      }
+
+      authorize(context, 'webhook:manage', webhook);
+
+      try {
+        await context.prisma.webhook.delete({
+          where: { id },
+        });
+
+        await recordAudit(context, {
+          entity: 'Webhook',
+          entityId: id,
+          action: 'DELETE',
+          before: { ...webhook, secret: undefined },
+        });
+
+        logger.info(`Deleted webhook: ${id}`, { userId: context.user.id });
+        return true;
+      } catch (error) {
+        logger.error('Error deleting webhook', error as Error);
+        throw new Error('Failed to delete webhook');
+      }
+    }
+  ),
+
+  /**
+   * Send an existing delivery again
+   */
+  redeliverWebhook: withPermission(
+    'webhook:manage',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      const { deliveryId } = args;
+
+      const delivery = await context.prisma.webhookDelivery.findUnique({
+        where: { id: deliveryId },
+      });
+
+      // Deliveries carry no tenantId; ownership is checked through the tenant-scoped webhook
+      const webhook =
+        delivery &&
+        (await context.prisma.webhook.findUnique({
+          where: { id: delivery.webhookId },
+        }));
+
+      if (!delivery || !webhook) {
+        throw new AppError('Webhook delivery not found', ErrorType.NOT_FOUND_ERROR, 404);
+      }
+
+      authorize(context, 'webhook:manage', webhook);
+
+      if (!webhook.isActive || webhook.deletedAt) {
+        throw new AppError('Webhook is disabled', ErrorType.VALIDATION_ERROR, 400);
+      }
+
+      try {
+        const queued = await webhookDispatcher.redeliver(delivery.id);
+
+        logger.info(`Queued webhook redelivery: ${delivery.id}`, { userId: context.user.id });
+        return { ...queued, webhook };
+      } catch (error) {
+        logger.error('Error redelivering webhook', error as Error);
+        throw new Error('Failed to redeliver webhook');
+      }
+    }
+  ),
+};
@@ -0,0 +1,30 @@
+import { GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { withPermission } from '@/auth/permissions';
+
+const logger = createLogger('API_TOKEN_QUERIES');
+
+/**
+ * API Token Query Resolvers
+ * Lists the tenant's API tokens (never the token secrets)
+ */
+export const apiTokenQueries = {
+  /**
+   * Get API tokens of the current tenant
+   */
+  apiTokens: withPermission(
+    'api:manage',
+    async (_parent: any, _args: any, context: GraphQLContext) => {
+      try {
+        return await context.prisma.apiToken.findMany({
+          where: { tenantId: context.user.tenantId },
+          include: { createdBy: true },
+          orderBy: { createdAt: 'desc' },
+        });
+      } catch (error) {
+        logger.error('Error fetching API tokens', error as Error);
+        throw new Error('Failed to fetch API tokens');
+      }
+    }
+  ),
+};
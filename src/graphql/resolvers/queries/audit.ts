@@ -0,0 +1,61 @@
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { withPermission } from '@/auth/permissions';
+
+const logger = createLogger('AUDIT_QUERIES');
+
+/**
+ * Maximum page size for audit log queries
+ */
+const MAX_AUDIT_PAGE_SIZE = 100;
+
+/**
+ * Audit Query Resolvers
+ * Lets tenant admins search the audit trail of their tenant
+ */
+export const auditQueries = {
+  /**
+   * Get audit log entries with filtering and pagination, newest first
+   */
+  auditLogs: withPermission(
+    'audit:read',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { entity, entityId, userId, action, from, to, limit = 50, offset = 0 } = args;
+
+        if (from && to && from > to) {
+          throw new AppError('"from" must be before "to"', ErrorType.VALIDATION_ERROR, 400);
+        }
+
+        const where: any = { tenantId: context.user.tenantId };
+        if (entity) where.entity = entity;
+        if (entityId) where.entityId = entityId;
+        if (userId) where.userId = userId;
+        if (action) where.action = action;
+        if (from || to) {
+          where.createdAt = {
+            ...(from && { gte: from }),
+            ...(to && { lte: to }),
+          };
+        }
+
+        const [items, total] = await Promise.all([
+          context.prisma.auditLog.findMany({
+            where,
+            include: { user: true },
+            take: Math.min(limit, MAX_AUDIT_PAGE_SIZE),
+            skip: offset,
+            orderBy: { createdAt: 'desc' },
+          }),
+          context.prisma.auditLog.count({ where }),
+        ]);
+
+        return { items, total };
+      } catch (error) {
+        logger.error('Error fetching audit logs', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to fetch audit logs');
+      }
+    }
+  ),
+};
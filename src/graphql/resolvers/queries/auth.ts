@@ -1,5 +1,6 @@
 import { GraphQLContext } from '@/types';
 import { createLogger } from '@/utils/logger';
+import { listUserSessions } from '@/auth/sessions';
 
 const logger = createLogger('AUTH_QUERIES');
 
@@ -27,6 +28,27 @@ export const authQueries = {
     return user;
   },
 
+  /**
+   * Get active sessions of the current user
+   */
+  mySessions: async (_parent: any, _args: any, context: GraphQLContext) => {
+    if (!context.user) {
+      return [];
+    }
+
+    const sessions = await listUserSessions(context.user.id);
+
+    return sessions.map(session => ({
+      id: session.id,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === context.sessionId,
+    }));
+  },
+
   /**
    * Get list of available tenants for registration
    */
@@ -0,0 +1,52 @@
+import { AppError, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { requireTenantId } from '@/middleware/tenant';
+import { localizeAuthorProfile } from '@/services/authors';
+import { resolveOptionalLanguages } from '@/services/locales';
+
+const logger = createLogger('AUTHOR_QUERIES');
+
+/**
+ * Author Query Resolvers
+ * Public author profiles for bylines and author pages
+ */
+export const authorQueries = {
+  /**
+   * Get all author profiles of the current tenant
+   */
+  authorProfiles: async (_parent: any, args: any, context: GraphQLContext) => {
+    try {
+      const profiles = await context.prisma.authorProfile.findMany({
+        where: { tenantId: requireTenantId(context), deletedAt: null },
+        orderBy: { displayName: 'asc' },
+      });
+
+      return profiles.map(profile =>
+        localizeAuthorProfile(profile, resolveOptionalLanguages(context, args.language))
+      );
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error fetching author profiles', error as Error);
+      throw new Error('Failed to fetch author profiles');
+    }
+  },
+
+  /**
+   * Get an author profile by slug
+   */
+  authorProfileBySlug: async (_parent: any, args: any, context: GraphQLContext) => {
+    try {
+      const profile = await context.prisma.authorProfile.findFirst({
+        where: { tenantId: requireTenantId(context), slug: args.slug, deletedAt: null },
+      });
+
+      return profile
+        ? localizeAuthorProfile(profile, resolveOptionalLanguages(context, args.language))
+        : null;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error fetching author profile', error as Error);
+      throw new Error('Failed to fetch author profile');
+    }
+  },
+};
@@ -1,8 +1,52 @@
-import { GraphQLContext } from '@/types';
+import type { ContentStatus, Prisma } from '@prisma/client';
+import { AppError, GraphQLContext } from '@/types';
 import { createLogger } from '@/utils/logger';
+import { requireTenantId } from '@/middleware/tenant';
+import { paginate } from '@/libs/pagination';
+import { canViewEntity } from '@/services/previews';
+import { hasPermission } from '@/auth/permissions';
+import { localizedFields } from '@/libs/localization';
+import { resolveLanguages } from '@/services/locales';
 
 const logger = createLogger('CONTENT_QUERIES');
 
+/**
+ * Fields `contentConnection` can be sorted by
+ */
+const CONTENT_SORTABLE_FIELDS = ['createdAt', 'updatedAt', 'publishedAt', 'slug'];
+
+/**
+ * Multilingual fields of content, returned as `LocalizedString`
+ */
+const CONTENT_LOCALIZED_FIELDS = ['title', 'content', 'excerpt'];
+
+/**
+ * Resolve the multilingual fields of a content entry to a fallback chain of languages
+ */
+function localizeContent(content: any, languages: string[]) {
+  return { ...content, ...localizedFields(content, CONTENT_LOCALIZED_FIELDS, languages) };
+}
+
+/**
+ * Whether the caller may see a content entry: published, or previewed
+ */
+function canViewContent(context: GraphQLContext, content: any, previewToken?: string) {
+  return canViewEntity(context, 'CONTENT', content, content.status === 'PUBLISHED', previewToken);
+}
+
+/**
+ * Status filter of content lists
+ * Callers without content:read only see live, published entries, whatever status they ask for
+ */
+function listStatusWhere(
+  context: GraphQLContext,
+  tenantId: string,
+  status: ContentStatus
+): Prisma.ContentWhereInput {
+  if (hasPermission(context.user, 'content:read', { tenantId })) return { status };
+  return { status: 'PUBLISHED', publishedAt: { lte: new Date() } };
+}
+
 /**
  * Content Query Resolvers
  * Handles content queries for the CMS
@@ -14,11 +58,13 @@ export const contentQueries = {
   content: async (_: any, args: any, context: GraphQLContext) => {
     try {
       const { status = 'PUBLISHED', limit = 10, offset = 0 } = args;
+      const tenantId = requireTenantId(context);
 
       const contents = await context.prisma.content.findMany({
         where: {
+          tenantId,
           deletedAt: null,
-          status: status
+          ...listStatusWhere(context, tenantId, status)
         },
         include: {
           tenant: true
@@ -28,8 +74,34 @@ export const contentQueries = {
         orderBy: { createdAt: 'desc' }
       });
 
-      return contents;
+      const languages = resolveLanguages(context, args.language);
+      return contents.map(content => localizeContent(content, languages));
     } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error fetching content', error as Error);
+      throw new Error('Failed to fetch content');
+    }
+  },
+
+  /**
+   * Get content as a Relay connection with a total count
+   */
+  contentConnection: async (_: any, args: any, context: GraphQLContext) => {
+    try {
+      const { status = 'PUBLISHED', pagination } = args;
+      const tenantId = requireTenantId(context);
+      const languages = resolveLanguages(context, args.language);
+
+      return await paginate(context.prisma.content, pagination, {
+        model: 'Content',
+        where: { tenantId, deletedAt: null, ...listStatusWhere(context, tenantId, status) },
+        include: { tenant: true },
+        defaultSort: [{ field: 'createdAt', direction: 'desc' }],
+        sortableFields: CONTENT_SORTABLE_FIELDS,
+        toNode: content => localizeContent(content, languages),
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
       logger.error('Error fetching content', error as Error);
       throw new Error('Failed to fetch content');
     }
@@ -37,11 +109,14 @@ export const contentQueries = {
 
   /**
    * Get content by ID
+   * Unpublished content needs content:read or a preview token
    */
-  contentById: async (_: any, { id }: { id: string }, context: GraphQLContext) => {
+  contentById: async (_: any, args: any, context: GraphQLContext) => {
     try {
-      const content = await context.prisma.content.findUnique({
-        where: { id },
+      const { id, previewToken } = args;
+
+      const content = await context.prisma.content.findFirst({
+        where: { id, tenantId: requireTenantId(context) },
         include: {
           tenant: true
         }
@@ -51,10 +126,39 @@ export const contentQueries = {
         throw new Error('Content not found');
       }
 
-      return content;
+      if (!(await canViewContent(context, content, previewToken))) return null;
+
+      return localizeContent(content, resolveLanguages(context, args.language));
     } catch (error) {
+      if (error instanceof AppError) throw error;
       logger.error('Error fetching content by ID', error as Error);
       throw new Error('Failed to fetch content');
     }
+  },
+
+  /**
+   * Get content by its current slug
+   * Unpublished content needs content:read or a preview token
+   */
+  contentBySlug: async (_: any, args: any, context: GraphQLContext) => {
+    try {
+      const { slug, previewToken } = args;
+
+      const content = await context.prisma.content.findFirst({
+        where: { slug, tenantId: requireTenantId(context), deletedAt: null },
+        include: {
+          tenant: true
+        }
+      });
+
+      if (!content) return null;
+      if (!(await canViewContent(context, content, previewToken))) return null;
+
+      return localizeContent(content, resolveLanguages(context, args.language));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error fetching content by slug', error as Error);
+      throw new Error('Failed to fetch content');
+    }
   }
 };
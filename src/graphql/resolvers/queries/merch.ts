@@ -1,9 +1,105 @@
-import { GraphQLContext } from '@/types';
+import { AppError, GraphQLContext } from '@/types';
 import { createLogger } from '@/utils/logger';
-import { getLocalizedContent } from '@/libs/localization';
+import { localizedFields, localizedText } from '@/libs/localization';
+import { requireTenantId } from '@/middleware/tenant';
+import { SortField, paginate } from '@/libs/pagination';
+import {
+  buildCategoryTree,
+  categoryFilter,
+  loadCategories,
+  localizeCategory,
+} from '@/services/categories';
+import { isTranslated, translatedWhere } from '@/services/translations';
+import { resolveLanguages } from '@/services/locales';
 
 const logger = createLogger('MERCH_QUERIES');
 
+/**
+ * Sort order of product lists: featured products first
+ */
+const PRODUCT_SORT: SortField[] = [
+  { field: 'isFeatured', direction: 'desc' },
+  { field: 'status', direction: 'asc' },
+  { field: 'createdAt', direction: 'desc' },
+];
+
+/**
+ * Fields `merchProductsConnection` can be sorted by
+ */
+const PRODUCT_SORTABLE_FIELDS = [
+  'price',
+  'createdAt',
+  'updatedAt',
+  'publishedAt',
+  'inventory',
+  'slug',
+];
+
+/**
+ * Product relations loaded for list and detail queries
+ */
+const PRODUCT_INCLUDE = {
+  category: true,
+  tenant: true,
+  productVariants: {
+    where: { deletedAt: null },
+    orderBy: { position: 'asc' as const },
+  },
+};
+
+/**
+ * Multilingual text fields of a product, returned as `LocalizedString`
+ */
+const PRODUCT_TEXT_FIELDS = [
+  'name',
+  'description',
+  'shortDescription',
+  'metaTitle',
+  'metaDescription',
+];
+
+/**
+ * Read a product's text fields (category and variants included) in a fallback chain of
+ * languages; search keywords are returned as `LocalizedStringList`
+ * With `strict`, untranslated fields are null instead of falling back to another language
+ */
+function localizeProduct(product: any, languages: string[], strict = false) {
+  return {
+    ...product,
+    ...localizedFields(product, PRODUCT_TEXT_FIELDS, languages, strict),
+    searchKeywords: localizedText(product.searchKeywords, languages, strict),
+    category:
+      product.category &&
+      (!strict || isTranslated(product.category, 'MERCH_CATEGORY', languages[0]))
+        ? localizeCategory(product.category, languages, strict)
+        : null,
+    variants: product.productVariants.map((variant: any) => ({
+      ...variant,
+      title: localizedText(variant.title, languages, strict),
+      // Keep optionValues as-is (contains multi-language data)
+    })),
+  };
+}
+
+/**
+ * Resolve a category with its parent and children to a fallback chain of languages
+ * With `strict`, a parent or child without a name in the language is left out
+ */
+function localizeMerchCategory(category: any, languages: string[], strict = false) {
+  const translated = (related: any) =>
+    !strict || isTranslated(related, 'MERCH_CATEGORY', languages[0]);
+  return {
+    ...localizeCategory(category, languages, strict),
+    parent:
+      category.parent && translated(category.parent)
+        ? localizeCategory(category.parent, languages, strict)
+        : null,
+    children: category.children
+      .filter(translated)
+      .map((child: any) => localizeCategory(child, languages, strict)),
+  };
+}
+
 /**
  * Merch Query Resolvers
  * Handles merchandise products and categories queries with multi-language support
@@ -15,24 +111,26 @@ export const merchQueries = {
   merchProducts: async (_parent: any, args: any, context: GraphQLContext) => {
     try {
       const {
-        language = 'en',
+        strictLanguage = false,
         status,
         categoryId,
+        includeDescendants,
         isFeatured,
         tenantId,
         tenantSlug,
         limit = 50,
         offset = 0,
       } = args;
+      const languages = resolveLanguages(context, args.language);
+      const [language] = languages;
 
       // Build where clause
       const where: any = { deletedAt: null };
 
       if (status) where.status = status;
-      if (categoryId) where.categoryId = categoryId;
       if (isFeatured !== undefined) where.isFeatured = isFeatured;
 
-      // Handle tenant filtering
+      // Handle tenant filtering (explicit arguments for another tenant are rejected by the scoped client)
       if (tenantId) {
         where.tenantId = tenantId;
       } else if (tenantSlug) {
@@ -46,56 +144,83 @@ export const merchQueries = {
           // If tenant not found, return empty array
           return [];
         }
+      } else {
+        where.tenantId = requireTenantId(context);
+      }
+
+      if (categoryId) {
+        where.categoryId = await categoryFilter(
+          context.prisma,
+          'merchCategory',
+          where.tenantId,
+          categoryId,
+          includeDescendants
+        );
+      }
+
+      if (strictLanguage) {
+        Object.assign(where, translatedWhere('MERCH_PRODUCT', language));
       }
 
       const products = await context.prisma.merchProduct.findMany({
         where,
-        include: {
-          category: true,
-          tenant: true,
-          productVariants: {
-            where: { deletedAt: null },
-            orderBy: { position: 'asc' },
-          },
-        },
+        include: PRODUCT_INCLUDE,
         take: limit,
         skip: offset,
         orderBy: [{ isFeatured: 'desc' }, { status: 'asc' }, { createdAt: 'desc' }],
       });
 
       // Transform for localization
-      return products.map(product => ({
-        ...product,
-        name: getLocalizedContent(product.name, language),
-        description: product.description
-          ? getLocalizedContent(product.description, language)
-          : null,
-        shortDescription: product.shortDescription
-          ? getLocalizedContent(product.shortDescription, language)
-          : null,
-        metaTitle: product.metaTitle ? getLocalizedContent(product.metaTitle, language) : null,
-        metaDescription: product.metaDescription
-          ? getLocalizedContent(product.metaDescription, language)
-          : null,
-        searchKeywords: product.searchKeywords
-          ? getLocalizedContent(product.searchKeywords, language)
-          : null,
-        category: product.category
-          ? {
-              ...product.category,
-              name: getLocalizedContent(product.category.name, language),
-              description: product.category.description
-                ? getLocalizedContent(product.category.description, language)
-                : null,
-            }
-          : null,
-        variants: product.productVariants.map((variant: any) => ({
-          ...variant,
-          title: variant.title ? getLocalizedContent(variant.title, language) : null,
-          // Keep optionValues as-is (contains multi-language data)
-        })),
-      }));
+      return products.map(product => localizeProduct(product, languages, strictLanguage));
     } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error fetching merch products', error as Error);
+      throw new Error('Failed to fetch merch products');
+    }
+  },
+
+  /**
+   * Get merchandise products of the current tenant as a Relay connection with a total count
+   */
+  merchProductsConnection: async (_parent: any, args: any, context: GraphQLContext) => {
+    try {
+      const {
+        strictLanguage = false,
+        status,
+        categoryId,
+        includeDescendants,
+        isFeatured,
+        pagination,
+      } = args;
+      const languages = resolveLanguages(context, args.language);
+      const [language] = languages;
+
+      const where: any = { tenantId: requireTenantId(context), deletedAt: null };
+      if (status) where.status = status;
+      if (categoryId) {
+        where.categoryId = await categoryFilter(
+          context.prisma,
+          'merchCategory',
+          where.tenantId,
+          categoryId,
+          includeDescendants
+        );
+      }
+      if (isFeatured !== undefined && isFeatured !== null) where.isFeatured = isFeatured;
+      if (strictLanguage) {
+        Object.assign(where, translatedWhere('MERCH_PRODUCT', language));
+      }
+
+      return await paginate(context.prisma.merchProduct, pagination, {
+        model: 'MerchProduct',
+        where,
+        include: PRODUCT_INCLUDE,
+        defaultSort: PRODUCT_SORT,
+        sortableFields: PRODUCT_SORTABLE_FIELDS,
+        toNode: product => localizeProduct(product, languages, strictLanguage),
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
       logger.error('Error fetching merch products', error as Error);
       throw new Error('Failed to fetch merch products');
     }
@@ -106,55 +231,22 @@ export const merchQueries = {
    */
   merchProductById: async (_parent: any, args: any, context: GraphQLContext) => {
     try {
-      const { id, language = 'en' } = args;
+      const { id, strictLanguage = false } = args;
+      const languages = resolveLanguages(context, args.language);
+      const [language] = languages;
 
-      const product = await context.prisma.merchProduct.findUnique({
-        where: { id },
-        include: {
-          category: true,
-          tenant: true,
-          productVariants: {
-            where: { deletedAt: null },
-            orderBy: { position: 'asc' },
-          },
-        },
+      const product = await context.prisma.merchProduct.findFirst({
+        where: { id, tenantId: requireTenantId(context) },
+        include: PRODUCT_INCLUDE,
       });
 
       if (!product || product.deletedAt) return null;
+      if (strictLanguage && !isTranslated(product, 'MERCH_PRODUCT', language)) return null;
 
       // Transform for localization
-      return {
-        ...product,
-        name: getLocalizedContent(product.name, language),
-        description: product.description
-          ? getLocalizedContent(product.description, language)
-          : null,
-        shortDescription: product.shortDescription
-          ? getLocalizedContent(product.shortDescription, language)
-          : null,
-        metaTitle: product.metaTitle ? getLocalizedContent(product.metaTitle, language) : null,
-        metaDescription: product.metaDescription
-          ? getLocalizedContent(product.metaDescription, language)
-          : null,
-        searchKeywords: product.searchKeywords
-          ? getLocalizedContent(product.searchKeywords, language)
-          : null,
-        category: product.category
-          ? {
-              ...product.category,
-              name: getLocalizedContent(product.category.name, language),
-              description: product.category.description
-                ? getLocalizedContent(product.category.description, language)
-                : null,
-            }
-          : null,
-        variants: product.productVariants.map((variant: any) => ({
-          ...variant,
-          title: variant.title ? getLocalizedContent(variant.title, language) : null,
-          // Keep optionValues as-is (contains multi-language data)
-        })),
-      };
+      return localizeProduct(product, languages, strictLanguage);
     } catch (error) {
+      if (error instanceof AppError) throw error;
       logger.error('Error fetching merch product', error as Error);
       throw new Error('Failed to fetch merch product');
     }
@@ -165,42 +257,27 @@ export const merchQueries = {
    */
   merchCategories: async (_parent: any, args: any, context: GraphQLContext) => {
     try {
-      const { language = 'en' } = args;
+      const { strictLanguage = false } = args;
+      const languages = resolveLanguages(context, args.language);
+      const [language] = languages;
 
       const categories = await context.prisma.merchCategory.findMany({
-        where: { deletedAt: null },
+        where: { tenantId: requireTenantId(context), deletedAt: null },
         include: {
           products: true,
           parent: true,
-          children: true,
+          children: { where: { deletedAt: null } },
           tenant: true,
         },
         orderBy: { name: 'asc' },
       });
 
       // Transform for localization
-      return categories.map(category => ({
-        ...category,
-        name: getLocalizedContent(category.name, language),
-        description: category.description
-          ? getLocalizedContent(category.description, language)
-          : null,
-        parent: category.parent
-          ? {
-              ...category.parent,
-              name: getLocalizedContent(category.parent.name, language),
-              description: category.parent.description
-                ? getLocalizedContent(category.parent.description, language)
-                : null,
-            }
-          : null,
-        children: category.children.map(child => ({
-          ...child,
-          name: getLocalizedContent(child.name, language),
-          description: child.description ? getLocalizedContent(child.description, language) : null,
-        })),
-      }));
+      return categories
+        .filter(category => !strictLanguage || isTranslated(category, 'MERCH_CATEGORY', language))
+        .map(category => localizeMerchCategory(category, languages, strictLanguage));
     } catch (error) {
+      if (error instanceof AppError) throw error;
       logger.error('Error fetching merch categories', error as Error);
       throw new Error('Failed to fetch merch categories');
     }
@@ -211,45 +288,57 @@ export const merchQueries = {
    */
   merchCategoryById: async (_parent: any, args: any, context: GraphQLContext) => {
     try {
-      const { id, language = 'en' } = args;
+      const { id, strictLanguage = false } = args;
+      const languages = resolveLanguages(context, args.language);
+      const [language] = languages;
 
-      const category = await context.prisma.merchCategory.findUnique({
-        where: { id },
+      const category = await context.prisma.merchCategory.findFirst({
+        where: { id, tenantId: requireTenantId(context) },
         include: {
           products: true,
           parent: true,
-          children: true,
+          children: { where: { deletedAt: null } },
           tenant: true,
         },
       });
 
       if (!category || category.deletedAt) return null;
+      if (strictLanguage && !isTranslated(category, 'MERCH_CATEGORY', language)) return null;
 
       // Transform for localization
-      return {
-        ...category,
-        name: getLocalizedContent(category.name, language),
-        description: category.description
-          ? getLocalizedContent(category.description, language)
-          : null,
-        parent: category.parent
-          ? {
-              ...category.parent,
-              name: getLocalizedContent(category.parent.name, language),
-              description: category.parent.description
-                ? getLocalizedContent(category.parent.description, language)
-                : null,
-            }
-          : null,
-        children: category.children.map(child => ({
-          ...child,
-          name: getLocalizedContent(child.name, language),
-          description: child.description ? getLocalizedContent(child.description, language) : null,
-        })),
-      };
+      return localizeMerchCategory(category, languages, strictLanguage);
     } catch (error) {
+      if (error instanceof AppError) throw error;
       logger.error('Error fetching merch category', error as Error);
       throw new Error('Failed to fetch merch category');
     }
   },
+  /**
+   * Get merchandise categories as a tree of top-level categories and their subcategories
+   */
+  merchCategoryTree: async (_parent: any, args: any, context: GraphQLContext) => {
+    try {
+      const { strictLanguage = false } = args;
+      const languages = resolveLanguages(context, args.language);
+      const [language] = languages;
+
+      const categories = await loadCategories(
+        context.prisma,
+        'merchCategory',
+        requireTenantId(context)
+      );
+
+      return buildCategoryTree(
+        categories.filter(
+          category => !strictLanguage || isTranslated(category, 'MERCH_CATEGORY', language)
+        ),
+        languages,
+        strictLanguage
+      );
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error fetching merch category tree', error as Error);
+      throw new Error('Failed to fetch merch category tree');
+    }
+  },
 };
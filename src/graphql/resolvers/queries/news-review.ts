@@ -0,0 +1,79 @@
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { authorize, withPermission } from '@/auth/permissions';
+
+const logger = createLogger('NEWS_REVIEW_QUERIES');
+
+/**
+ * News Review Query Resolvers
+ * Review queue and editor comments for the editorial workflow
+ */
+export const newsReviewQueries = {
+  /**
+   * Get articles in the review workflow, oldest submission first
+   * Defaults to articles waiting for a review
+   */
+  newsReviewQueue: withPermission(
+    'news:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { reviewStatus = 'IN_REVIEW', reviewerId, limit = 50, offset = 0 } = args;
+
+        const where: any = {
+          tenantId: context.user.tenantId,
+          reviewStatus,
+          deletedAt: null,
+        };
+        if (reviewerId) where.reviewerId = reviewerId;
+
+        return await context.prisma.newsArticle.findMany({
+          where,
+          include: { category: true, reviewer: true },
+          take: limit,
+          skip: offset,
+          orderBy: [{ submittedForReviewAt: 'asc' }, { createdAt: 'asc' }],
+        });
+      } catch (error) {
+        logger.error('Error fetching news review queue', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to fetch news review queue');
+      }
+    }
+  ),
+
+  /**
+   * Get editor comments of an article, optionally for a single block
+   */
+  newsArticleComments: withPermission(
+    'news:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { articleId, blockId, includeResolved = false } = args;
+
+        const article = await context.prisma.newsArticle.findUnique({
+          where: { id: articleId },
+        });
+
+        if (!article || article.deletedAt) {
+          throw new AppError('News article not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+
+        authorize(context, 'news:update', article);
+
+        const where: any = { articleId, deletedAt: null };
+        if (blockId) where.blockId = blockId;
+        if (!includeResolved) where.resolvedAt = null;
+
+        return await context.prisma.newsArticleComment.findMany({
+          where,
+          include: { author: true, resolvedBy: true },
+          orderBy: { createdAt: 'asc' },
+        });
+      } catch (error) {
+        logger.error('Error fetching news article comments', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to fetch news article comments');
+      }
+    }
+  ),
+};
@@ -0,0 +1,98 @@
+import { newsQueries } from './news';
+import { contentQueries } from './content';
+import { AuthenticatedUser } from '@/types';
+import { MemoryStore, createMemoryPrismaClient } from '../../../../tests/helpers/memory-prisma';
+
+const past = new Date('2024-01-01T00:00:00Z');
+const future = new Date('2999-01-01T00:00:00Z');
+
+function row(id: string, status: string, publishedAt: Date | null, deletedAt: Date | null = null) {
+  return {
+    id,
+    tenantId: 'A',
+    slug: id,
+    title: { en: id },
+    blocks: {},
+    status,
+    publishedAt,
+    deletedAt,
+  };
+}
+
+const reader: AuthenticatedUser = {
+  id: 'reader',
+  email: 'reader@a.test',
+  tenantId: 'A',
+  roles: ['editor'],
+  permissions: ['news:read', 'content:read'],
+  grants: [
+    { resource: 'news', action: 'read', conditions: {} },
+    { resource: 'content', action: 'read', conditions: {} },
+  ],
+};
+
+function context(store: MemoryStore, user?: AuthenticatedUser) {
+  return {
+    prisma: createMemoryPrismaClient(store, 'A'),
+    tenant: { id: 'A', config: {} },
+    user,
+    req: { get: () => undefined },
+  } as any;
+}
+
+const ids = (items: any[]) => items.map(item => item.id).sort();
+
+describe('list visibility', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    const rows = [
+      row('live', 'PUBLISHED', past),
+      row('scheduled', 'PUBLISHED', future),
+      row('draft', 'DRAFT', null),
+      row('deleted', 'PUBLISHED', past, past),
+      row('deleted-draft', 'DRAFT', null, past),
+    ];
+    store = { NewsArticle: rows.map(r => ({ ...r })), Content: rows.map(r => ({ ...r })) };
+  });
+
+  it('only lists live articles to anonymous callers, whatever status they ask for', async () => {
+    for (const status of [undefined, 'DRAFT', 'PUBLISHED']) {
+      const articles = await newsQueries.newsArticles(null, { status }, context(store));
+      expect(ids(articles)).toEqual(['live']);
+
+      const connection = await newsQueries.newsArticlesConnection(null, { status }, context(store));
+      expect(ids(connection.edges.map(edge => edge.node))).toEqual(['live']);
+      expect(connection.totalCount).toBe(1);
+    }
+  });
+
+  it('lists drafts to news readers but never deleted articles', async () => {
+    const articles = await newsQueries.newsArticles(null, {}, context(store, reader));
+    expect(ids(articles)).toEqual(['draft', 'live', 'scheduled']);
+
+    const drafts = await newsQueries.newsArticlesConnection(
+      null,
+      { status: 'DRAFT' },
+      context(store, reader)
+    );
+    expect(ids(drafts.edges.map(edge => edge.node))).toEqual(['draft']);
+  });
+
+  it('only lists live content to anonymous callers', async () => {
+    const content = await contentQueries.content(null, { status: 'DRAFT' }, context(store));
+    expect(ids(content)).toEqual(['live']);
+
+    const connection = await contentQueries.contentConnection(
+      null,
+      { status: 'DRAFT' },
+      context(store)
+    );
+    expect(connection.totalCount).toBe(1);
+  });
+
+  it('lists content of any status to content readers', async () => {
+    const drafts = await contentQueries.content(null, { status: 'DRAFT' }, context(store, reader));
+    expect(ids(drafts)).toEqual(['draft']);
+  });
+});
@@ -1,9 +1,124 @@
-import { GraphQLContext } from '@/types';
+import { AppError, ErrorType, GraphQLContext } from '@/types';
 import { createLogger } from '@/utils/logger';
-import { getLocalizedContent } from '@/libs/localization';
+import { localizedFields } from '@/libs/localization';
+import { requireTenantId } from '@/middleware/tenant';
+import { authorize, hasPermission, withPermission } from '@/auth/permissions';
+import { diffRevisionSnapshots } from '@/services/revisions';
+import { SortField, paginate } from '@/libs/pagination';
+import {
+  buildCategoryTree,
+  categoryFilter,
+  loadCategories,
+  localizeCategory,
+} from '@/services/categories';
+import { isTranslated, translatedWhere } from '@/services/translations';
+import { canViewEntity } from '@/services/previews';
+import { resolveLanguages } from '@/services/locales';
 
 const logger = createLogger('NEWS_QUERIES');
 
+/**
+ * Sort order of article lists: breaking and high-priority news first
+ */
+const ARTICLE_SORT: SortField[] = [
+  { field: 'isBreaking', direction: 'desc' },
+  { field: 'priority', direction: 'desc' },
+  { field: 'publishedAt', direction: 'desc' },
+  { field: 'createdAt', direction: 'desc' },
+];
+
+/**
+ * Sort order of author pages: latest published first
+ */
+const AUTHOR_ARTICLE_SORT: SortField[] = [{ field: 'publishedAt', direction: 'desc' }];
+
+/**
+ * Fields `newsArticlesConnection` and `newsArticlesByAuthor` can be sorted by
+ */
+const ARTICLE_SORTABLE_FIELDS = ['publishedAt', 'createdAt', 'updatedAt', 'priority', 'slug'];
+
+/**
+ * Multilingual fields of an article, returned as `LocalizedString`, `LocalizedBlocks`
+ * (blocks) and `LocalizedStringList` (keywords)
+ */
+const ARTICLE_LOCALIZED_FIELDS = [
+  'title',
+  'subtitle',
+  'excerpt',
+  'byline',
+  'blocks',
+  'location',
+  'metaTitle',
+  'metaDescription',
+  'keywords',
+];
+
+/**
+ * Read an article's multilingual fields (and its category) in a fallback chain of languages
+ * With `strict`, untranslated fields are null instead of falling back to another language
+ */
+function localizeArticle(article: any, languages: string[], strict = false) {
+  return {
+    ...article,
+    ...localizedFields(article, ARTICLE_LOCALIZED_FIELDS, languages, strict),
+    category:
+      article.category && (!strict || isTranslated(article.category, 'NEWS_CATEGORY', languages[0]))
+        ? localizeCategory(article.category, languages, strict)
+        : null,
+  };
+}
+
+/**
+ * Whether the caller may see an article: published and live, or previewed
+ */
+function canViewArticle(context: GraphQLContext, article: any, previewToken?: string) {
+  const isPublished =
+    article.status === 'PUBLISHED' && !!article.publishedAt && article.publishedAt <= new Date();
+  return canViewEntity(context, 'NEWS_ARTICLE', article, isPublished, previewToken);
+}
+
+/**
+ * Where clause of the article list queries
+ * Deleted articles are never listed; callers without news:read only see live, published
+ * articles, whatever status they ask for
+ */
+async function articleListWhere(context: GraphQLContext, args: any, language: string) {
+  const {
+    strictLanguage = false,
+    status,
+    priority,
+    categoryId,
+    includeDescendants,
+    tagSlugs,
+  } = args;
+  const tenantId = requireTenantId(context);
+
+  const where: any = { tenantId, deletedAt: null };
+  if (hasPermission(context.user, 'news:read', { tenantId })) {
+    if (status) where.status = status;
+  } else {
+    where.status = 'PUBLISHED';
+    where.publishedAt = { lte: new Date() };
+  }
+  if (priority) where.priority = priority;
+  if (categoryId) {
+    where.categoryId = await categoryFilter(
+      context.prisma,
+      'newsCategory',
+      tenantId,
+      categoryId,
+      includeDescendants
+    );
+  }
+  if (tagSlugs?.length) {
+    where.tags = { some: { tag: { slug: { in: tagSlugs }, deletedAt: null } } };
+  }
+  if (strictLanguage) {
+    Object.assign(where, translatedWhere('NEWS_ARTICLE', language));
+  }
+  return where;
+}
+
 /**
  * News Query Resolvers
  * Handles news articles and categories queries with multi-language support
@@ -14,13 +129,9 @@ export const newsQueries = {
    */
   newsArticles: async (_parent: any, args: any, context: GraphQLContext) => {
     try {
-      const { language = 'en', status, priority, categoryId, limit = 50, offset = 0 } = args;
-
-      // Build where clause
-      const where: any = {};
-      if (status) where.status = status;
-      if (priority) where.priority = priority;
-      if (categoryId) where.categoryId = categoryId;
+      const { strictLanguage = false, limit = 50, offset = 0 } = args;
+      const languages = resolveLanguages(context, args.language);
+      const where = await articleListWhere(context, args, languages[0]);
 
       const articles = await context.prisma.newsArticle.findMany({
         where,
@@ -38,97 +149,157 @@ export const newsQueries = {
       });
 
       // Transform for localization
-      return articles.map(article => ({
-        ...article,
-        title: getLocalizedContent(article.title, language),
-        subtitle: article.subtitle ? getLocalizedContent(article.subtitle, language) : null,
-        excerpt: article.excerpt ? getLocalizedContent(article.excerpt, language) : null,
-        byline: article.byline ? getLocalizedContent(article.byline, language) : null,
-        location: article.location ? getLocalizedContent(article.location, language) : null,
-        blocks: getLocalizedContent(article.blocks, language),
-        metaTitle: article.metaTitle ? getLocalizedContent(article.metaTitle, language) : null,
-        metaDescription: article.metaDescription ? getLocalizedContent(article.metaDescription, language) : null,
-        keywords: article.keywords ? getLocalizedContent(article.keywords, language) : null,
-        category: article.category
-          ? {
-              ...article.category,
-              name: getLocalizedContent(article.category.name, language),
-              description: article.category.description
-                ? getLocalizedContent(article.category.description, language)
-                : null,
-            }
-          : null,
-      }));
+      return articles.map(article => localizeArticle(article, languages, strictLanguage));
     } catch (error) {
+      if (error instanceof AppError) throw error;
       logger.error('Error fetching news articles', error as Error);
       throw new Error('Failed to fetch news articles');
     }
   },
 
+  /**
+   * Get news articles as a Relay connection with a total count
+   */
+  newsArticlesConnection: async (_parent: any, args: any, context: GraphQLContext) => {
+    try {
+      const { strictLanguage = false, pagination } = args;
+      const languages = resolveLanguages(context, args.language);
+      const where = await articleListWhere(context, args, languages[0]);
+
+      return await paginate(context.prisma.newsArticle, pagination, {
+        model: 'NewsArticle',
+        where,
+        include: { category: true },
+        defaultSort: ARTICLE_SORT,
+        sortableFields: ARTICLE_SORTABLE_FIELDS,
+        toNode: article => localizeArticle(article, languages, strictLanguage),
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error fetching news articles', error as Error);
+      throw new Error('Failed to fetch news articles');
+    }
+  },
+
+  /**
+   * Get the published articles of an author profile for public author pages
+   */
+  newsArticlesByAuthor: async (_parent: any, args: any, context: GraphQLContext) => {
+    try {
+      const { authorSlug, strictLanguage = false, pagination } = args;
+      const languages = resolveLanguages(context, args.language);
+      const [language] = languages;
+      const tenantId = requireTenantId(context);
+
+      const author = await context.prisma.authorProfile.findFirst({
+        where: { tenantId, slug: authorSlug, deletedAt: null },
+      });
+
+      if (!author) {
+        throw new AppError('Author not found', ErrorType.NOT_FOUND_ERROR, 404);
+      }
+
+      return await paginate(context.prisma.newsArticle, pagination, {
+        model: 'NewsArticle',
+        where: {
+          tenantId,
+          status: 'PUBLISHED',
+          publishedAt: { lte: new Date() },
+          deletedAt: null,
+          contributors: { some: { authorId: author.id } },
+          ...(strictLanguage && translatedWhere('NEWS_ARTICLE', language)),
+        },
+        include: { category: true },
+        defaultSort: AUTHOR_ARTICLE_SORT,
+        sortableFields: ARTICLE_SORTABLE_FIELDS,
+        toNode: article => localizeArticle(article, languages, strictLanguage),
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error fetching news articles by author', error as Error);
+      throw new Error('Failed to fetch news articles by author');
+    }
+  },
+
   /**
    * Get single news article by ID
+   * Unpublished articles need news:read or a preview token
    */
   newsArticleById: async (_parent: any, args: any, context: GraphQLContext) => {
     try {
-      const { id, language = 'en' } = args;
+      const { id, strictLanguage = false, previewToken } = args;
+      const languages = resolveLanguages(context, args.language);
+      const [language] = languages;
 
-      const article = await context.prisma.newsArticle.findUnique({
-        where: { id },
+      const article = await context.prisma.newsArticle.findFirst({
+        where: { id, tenantId: requireTenantId(context), deletedAt: null },
         include: {
           category: true,
         },
       });
 
       if (!article) return null;
+      if (strictLanguage && !isTranslated(article, 'NEWS_ARTICLE', language)) return null;
+      if (!(await canViewArticle(context, article, previewToken))) return null;
 
       // Transform for localization
-      return {
-        ...article,
-        title: getLocalizedContent(article.title, language),
-        subtitle: article.subtitle ? getLocalizedContent(article.subtitle, language) : null,
-        excerpt: article.excerpt ? getLocalizedContent(article.excerpt, language) : null,
-        byline: article.byline ? getLocalizedContent(article.byline, language) : null,
-        location: article.location ? getLocalizedContent(article.location, language) : null,
-        blocks: getLocalizedContent(article.blocks, language),
-        metaTitle: article.metaTitle ? getLocalizedContent(article.metaTitle, language) : null,
-        metaDescription: article.metaDescription ? getLocalizedContent(article.metaDescription, language) : null,
-        keywords: article.keywords ? getLocalizedContent(article.keywords, language) : null,
-        category: article.category
-          ? {
-              ...article.category,
-              name: getLocalizedContent(article.category.name, language),
-              description: article.category.description
-                ? getLocalizedContent(article.category.description, language)
-                : null,
-            }
-          : null,
-      };
+      return localizeArticle(article, languages, strictLanguage);
     } catch (error) {
+      if (error instanceof AppError) throw error;
       logger.error('Error fetching news article', error as Error);
       throw new Error('Failed to fetch news article');
     }
   },
 
+  /**
+   * Get single news article by its current slug
+   * Unpublished articles need news:read or a preview token
+   */
+  newsArticleBySlug: async (_parent: any, args: any, context: GraphQLContext) => {
+    try {
+      const { slug, strictLanguage = false, previewToken } = args;
+      const languages = resolveLanguages(context, args.language);
+      const [language] = languages;
+
+      const article = await context.prisma.newsArticle.findFirst({
+        where: { slug, tenantId: requireTenantId(context), deletedAt: null },
+        include: {
+          category: true,
+        },
+      });
+
+      if (!article) return null;
+      if (strictLanguage && !isTranslated(article, 'NEWS_ARTICLE', language)) return null;
+      if (!(await canViewArticle(context, article, previewToken))) return null;
+
+      return localizeArticle(article, languages, strictLanguage);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error fetching news article by slug', error as Error);
+      throw new Error('Failed to fetch news article');
+    }
+  },
+
   /**
    * Get news categories
    */
   newsCategories: async (_parent: any, args: any, context: GraphQLContext) => {
     try {
-      const { language = 'en' } = args;
+      const { strictLanguage = false } = args;
+      const languages = resolveLanguages(context, args.language);
+      const [language] = languages;
 
       const categories = await context.prisma.newsCategory.findMany({
+        where: { tenantId: requireTenantId(context) },
         orderBy: { name: 'asc' },
       });
 
       // Transform for localization
-      return categories.map(category => ({
-        ...category,
-        name: getLocalizedContent(category.name, language),
-        description: category.description
-          ? getLocalizedContent(category.description, language)
-          : null,
-      }));
+      return categories
+        .filter(category => !strictLanguage || isTranslated(category, 'NEWS_CATEGORY', language))
+        .map(category => localizeCategory(category, languages, strictLanguage));
     } catch (error) {
+      if (error instanceof AppError) throw error;
       logger.error('Error fetching news categories', error as Error);
       throw new Error('Failed to fetch news categories');
     }
@@ -139,25 +310,130 @@ export const newsQueries = {
    */
   newsCategoryById: async (_parent: any, args: any, context: GraphQLContext) => {
     try {
-      const { id, language = 'en' } = args;
+      const { id, strictLanguage = false } = args;
+      const languages = resolveLanguages(context, args.language);
+      const [language] = languages;
 
-      const category = await context.prisma.newsCategory.findUnique({
-        where: { id },
+      const category = await context.prisma.newsCategory.findFirst({
+        where: { id, tenantId: requireTenantId(context) },
       });
 
       if (!category) return null;
+      if (strictLanguage && !isTranslated(category, 'NEWS_CATEGORY', language)) return null;
 
       // Transform for localization
-      return {
-        ...category,
-        name: getLocalizedContent(category.name, language),
-        description: category.description
-          ? getLocalizedContent(category.description, language)
-          : null,
-      };
+      return localizeCategory(category, languages, strictLanguage);
     } catch (error) {
+      if (error instanceof AppError) throw error;
       logger.error('Error fetching news category', error as Error);
       throw new Error('Failed to fetch news category');
     }
   },
+
+  /**
+   * Get news categories as a tree of top-level categories and their subcategories
+   */
+  newsCategoryTree: async (_parent: any, args: any, context: GraphQLContext) => {
+    try {
+      const { strictLanguage = false } = args;
+      const languages = resolveLanguages(context, args.language);
+      const [language] = languages;
+
+      const categories = await loadCategories(
+        context.prisma,
+        'newsCategory',
+        requireTenantId(context)
+      );
+
+      return buildCategoryTree(
+        categories.filter(
+          category => !strictLanguage || isTranslated(category, 'NEWS_CATEGORY', language)
+        ),
+        languages,
+        strictLanguage
+      );
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error fetching news category tree', error as Error);
+      throw new Error('Failed to fetch news category tree');
+    }
+  },
+
+  /**
+   * Get the revision history of a news article, newest first
+   */
+  newsArticleRevisions: withPermission(
+    'news:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { articleId, limit = 50, offset = 0 } = args;
+
+        const article = await context.prisma.newsArticle.findUnique({
+          where: { id: articleId },
+        });
+
+        if (!article) {
+          throw new AppError('News article not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+
+        authorize(context, 'news:update', article);
+
+        return await context.prisma.newsArticleRevision.findMany({
+          where: { articleId, deletedAt: null },
+          include: { createdBy: true },
+          take: limit,
+          skip: offset,
+          orderBy: { version: 'desc' },
+        });
+      } catch (error) {
+        logger.error('Error fetching news article revisions', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to fetch news article revisions');
+      }
+    }
+  ),
+
+  /**
+   * Compare two revisions of the same news article per field and language
+   */
+  newsArticleRevisionDiff: withPermission(
+    'news:update',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { fromRevisionId, toRevisionId } = args;
+
+        const [from, to] = await Promise.all(
+          [fromRevisionId, toRevisionId].map(id =>
+            context.prisma.newsArticleRevision.findFirst({
+              where: { id, deletedAt: null },
+              include: { createdBy: true, article: true },
+            })
+          )
+        );
+
+        if (!from || !to) {
+          throw new AppError('News article revision not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+        if (from.articleId !== to.articleId) {
+          throw new AppError(
+            'Revisions belong to different news articles',
+            ErrorType.VALIDATION_ERROR,
+            400
+          );
+        }
+
+        authorize(context, 'news:update', from.article);
+
+        return {
+          from,
+          to,
+          changes: diffRevisionSnapshots(from.snapshot as any, to.snapshot as any),
+        };
+      } catch (error) {
+        logger.error('Error comparing news article revisions', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to compare news article revisions');
+      }
+    }
+  ),
 };
@@ -0,0 +1,39 @@
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { authorize } from '@/auth/permissions';
+import { PREVIEW_PERMISSIONS, findPreviewEntity } from '@/services/previews';
+
+const logger = createLogger('PREVIEW_QUERIES');
+
+/**
+ * Preview Query Resolvers
+ * Lists the preview links shared for an article or content entry
+ */
+export const previewQueries = {
+  /**
+   * Get the preview links of an article or content entry, including revoked and expired ones
+   */
+  previewLinks: async (_parent: any, args: any, context: GraphQLContext) => {
+    const { entityType, id } = args;
+    const permission = PREVIEW_PERMISSIONS[entityType as keyof typeof PREVIEW_PERMISSIONS].update;
+    const user = authorize(context, permission);
+
+    try {
+      const entity = await findPreviewEntity(context.prisma, user.tenantId, entityType, id);
+      if (!entity) {
+        throw new AppError('Preview entity not found', ErrorType.NOT_FOUND_ERROR, 404);
+      }
+      authorize(context, permission, entity);
+
+      return await context.prisma.previewLink.findMany({
+        where: { tenantId: user.tenantId, entityType, entityId: id },
+        include: { createdBy: true },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error fetching preview links', error as Error);
+      throw new Error('Failed to fetch preview links');
+    }
+  },
+};
@@ -0,0 +1,65 @@
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { requireTenantId } from '@/middleware/tenant';
+import { withPermission } from '@/auth/permissions';
+import { resolveSitePath } from '@/services/slugs';
+import { requestLocaleSettings } from '@/services/locales';
+
+const logger = createLogger('REDIRECT_QUERIES');
+
+/**
+ * Longest path accepted by `resolveSlug`
+ */
+const MAX_PATH_LENGTH = 2048;
+
+/**
+ * Redirect Query Resolvers
+ * Resolves public site paths for the frontends and lists the tenant's redirects
+ */
+export const redirectQueries = {
+  /**
+   * Resolve a public site path to the entity it shows or to where it redirects
+   */
+  resolveSlug: async (_parent: any, args: any, context: GraphQLContext) => {
+    try {
+      const { path } = args;
+
+      if (typeof path !== 'string' || path.length > MAX_PATH_LENGTH) {
+        throw new AppError(
+          `Path must be at most ${MAX_PATH_LENGTH} characters`,
+          ErrorType.VALIDATION_ERROR,
+          400
+        );
+      }
+
+      return await resolveSitePath(
+        context.prisma,
+        requireTenantId(context),
+        path,
+        requestLocaleSettings(context).supportedLanguages
+      );
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error resolving slug', error as Error);
+      throw new Error('Failed to resolve slug');
+    }
+  },
+
+  /**
+   * Get the redirects of the current tenant
+   */
+  redirects: withPermission(
+    'settings:read',
+    async (_parent: any, _args: any, context: GraphQLContext) => {
+      try {
+        return await context.prisma.redirect.findMany({
+          where: { tenantId: context.user.tenantId, deletedAt: null },
+          orderBy: { source: 'asc' },
+        });
+      } catch (error) {
+        logger.error('Error fetching redirects', error as Error);
+        throw new Error('Failed to fetch redirects');
+      }
+    }
+  ),
+};
@@ -0,0 +1,51 @@
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { requireTenantId } from '@/middleware/tenant';
+import { resolveLanguages } from '@/services/locales';
+import { SEARCH_TYPES, searchTenant } from '@/services/search';
+
+const logger = createLogger('SEARCH_QUERIES');
+
+/**
+ * Longest accepted search query, in characters
+ */
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * Search Query Resolvers
+ * Full-text search over the public records of the current tenant
+ */
+export const searchQueries = {
+  /**
+   * Search published news, content and active products in one language
+   */
+  search: async (_parent: any, args: any, context: GraphQLContext) => {
+    try {
+      const { types = SEARCH_TYPES, limit = 20 } = args;
+      const [language] = resolveLanguages(context, args.language);
+      const query = (args.query || '').trim();
+
+      if (!query) {
+        throw new AppError('Search query is required', ErrorType.VALIDATION_ERROR, 400);
+      }
+      if (query.length > MAX_QUERY_LENGTH) {
+        throw new AppError(
+          `Search query must be at most ${MAX_QUERY_LENGTH} characters`,
+          ErrorType.VALIDATION_ERROR,
+          400
+        );
+      }
+
+      return await searchTenant(context.prisma, requireTenantId(context), {
+        query,
+        language,
+        types: Array.from(new Set(types)),
+        limit: Math.min(Math.max(limit, 1), 50),
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error searching', error as Error);
+      throw new Error('Failed to search');
+    }
+  },
+};
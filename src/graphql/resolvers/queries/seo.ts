@@ -0,0 +1,31 @@
+import { GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { withPermission } from '@/auth/permissions';
+import { ROBOTS_SETTING, parseRobotsConfig } from '@/libs/sitemaps';
+
+const logger = createLogger('SEO_QUERIES');
+
+/**
+ * SEO Query Resolvers
+ * Reads the tenant's crawler rules
+ */
+export const seoQueries = {
+  /**
+   * Get the robots.txt rules of the current tenant (defaults when never configured)
+   */
+  robotsConfig: withPermission(
+    'settings:read',
+    async (_parent: any, _args: any, context: GraphQLContext) => {
+      try {
+        const setting = await context.prisma.setting.findUnique({
+          where: { key_tenantId: { key: ROBOTS_SETTING, tenantId: context.user.tenantId } },
+        });
+
+        return parseRobotsConfig(setting?.value);
+      } catch (error) {
+        logger.error('Error fetching robots config', error as Error);
+        throw new Error('Failed to fetch robots config');
+      }
+    }
+  ),
+};
@@ -0,0 +1,50 @@
+import { AppError, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { requireTenantId } from '@/middleware/tenant';
+import { TAG_USAGE_COUNT, localizeTag } from '@/services/tags';
+import { resolveOptionalLanguages } from '@/services/locales';
+
+const logger = createLogger('TAG_QUERIES');
+
+/**
+ * Tag Query Resolvers
+ * Lists the tenant's tags with usage counts
+ */
+export const tagQueries = {
+  /**
+   * Get all tags of the current tenant
+   */
+  tags: async (_parent: any, args: any, context: GraphQLContext) => {
+    try {
+      const tags = await context.prisma.tag.findMany({
+        where: { tenantId: requireTenantId(context), deletedAt: null },
+        include: TAG_USAGE_COUNT,
+        orderBy: { slug: 'asc' },
+      });
+
+      return tags.map(tag => localizeTag(tag, resolveOptionalLanguages(context, args.language)));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error fetching tags', error as Error);
+      throw new Error('Failed to fetch tags');
+    }
+  },
+
+  /**
+   * Get a tag by slug
+   */
+  tagBySlug: async (_parent: any, args: any, context: GraphQLContext) => {
+    try {
+      const tag = await context.prisma.tag.findFirst({
+        where: { tenantId: requireTenantId(context), slug: args.slug, deletedAt: null },
+        include: TAG_USAGE_COUNT,
+      });
+
+      return tag ? localizeTag(tag, resolveOptionalLanguages(context, args.language)) : null;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.error('Error fetching tag', error as Error);
+      throw new Error('Failed to fetch tag');
+    }
+  },
+};
@@ -51,4 +51,11 @@ export const tenantQueries = {
       throw new Error('Failed to fetch tenant');
     }
   },
+
+  /**
+   * Get the tenant resolved for the current request
+   */
+  currentTenant: async (_parent: any, _args: any, context: GraphQLContext) => {
+    return context.tenant ?? null;
+  },
 };
@@ -0,0 +1,49 @@
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { authorize, hasPermission } from '@/auth/permissions';
+import {
+  TRANSLATABLE_FIELDS,
+  TRANSLATION_READ_PERMISSIONS,
+  TranslatableType,
+  findUntranslatedItems,
+} from '@/services/translations';
+import { assertSupportedLanguage } from '@/services/locales';
+
+const logger = createLogger('TRANSLATION_QUERIES');
+
+/**
+ * Translation Query Resolvers
+ * Reports of untranslated news, content, products and categories
+ */
+export const translationQueries = {
+  /**
+   * Get the records of the current tenant with fields missing in a language
+   */
+  untranslatedItems: async (_parent: any, args: any, context: GraphQLContext) => {
+    const { language } = args;
+
+    if (!context.user) {
+      throw new AppError('Authentication required', ErrorType.AUTHENTICATION_ERROR, 401);
+    }
+
+    // Explicitly requested types must all be readable; otherwise readable types are checked
+    let types: TranslatableType[];
+    if (args.types) {
+      types = Array.from(new Set<TranslatableType>(args.types));
+      types.forEach(type => authorize(context, TRANSLATION_READ_PERMISSIONS[type]));
+    } else {
+      types = (Object.keys(TRANSLATABLE_FIELDS) as TranslatableType[]).filter(type =>
+        hasPermission(context.user, TRANSLATION_READ_PERMISSIONS[type])
+      );
+    }
+
+    assertSupportedLanguage(context, language);
+
+    try {
+      return await findUntranslatedItems(context.prisma, context.user.tenantId, language, types);
+    } catch (error) {
+      logger.error('Error fetching untranslated items', error as Error);
+      throw new Error('Failed to fetch untranslated items');
+    }
+  },
+};
@@ -0,0 +1,88 @@
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { withPermission } from '@/auth/permissions';
+import { WEBHOOK_EVENTS, WILDCARD_EVENT } from '@/services/webhooks';
+
+const logger = createLogger('WEBHOOK_QUERIES');
+
+/**
+ * Webhook Query Resolvers
+ * Lists the tenant's webhooks and their delivery history
+ */
+export const webhookQueries = {
+  /**
+   * Get webhooks of the current tenant
+   */
+  webhooks: withPermission(
+    'webhook:manage',
+    async (_parent: any, _args: any, context: GraphQLContext) => {
+      try {
+        return await context.prisma.webhook.findMany({
+          where: { tenantId: context.user.tenantId, deletedAt: null },
+          orderBy: { createdAt: 'desc' },
+        });
+      } catch (error) {
+        logger.error('Error fetching webhooks', error as Error);
+        throw new Error('Failed to fetch webhooks');
+      }
+    }
+  ),
+
+  /**
+   * Get single webhook by ID
+   */
+  webhookById: withPermission(
+    'webhook:manage',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        return await context.prisma.webhook.findFirst({
+          where: { id: args.id, deletedAt: null },
+        });
+      } catch (error) {
+        logger.error('Error fetching webhook', error as Error);
+        throw new Error('Failed to fetch webhook');
+      }
+    }
+  ),
+
+  /**
+   * Get the event names webhooks can subscribe to
+   */
+  webhookEvents: withPermission('webhook:manage', async () => [WILDCARD_EVENT, ...WEBHOOK_EVENTS]),
+
+  /**
+   * Get deliveries of a webhook, newest first
+   */
+  webhookDeliveries: withPermission(
+    'webhook:manage',
+    async (_parent: any, args: any, context: GraphQLContext) => {
+      try {
+        const { webhookId, status, limit = 50, offset = 0 } = args;
+
+        // Tenant-scoped lookup: deliveries carry no tenantId of their own
+        const webhook = await context.prisma.webhook.findUnique({
+          where: { id: webhookId },
+        });
+
+        if (!webhook) {
+          throw new AppError('Webhook not found', ErrorType.NOT_FOUND_ERROR, 404);
+        }
+
+        return await context.prisma.webhookDelivery.findMany({
+          where: {
+            webhookId,
+            ...(status && { status }),
+          },
+          include: { webhook: true },
+          take: Math.min(limit, 100),
+          skip: offset,
+          orderBy: { createdAt: 'desc' },
+        });
+      } catch (error) {
+        logger.error('Error fetching webhook deliveries', error as Error);
+        if (error instanceof AppError) throw error;
+        throw new Error('Failed to fetch webhook deliveries');
+      }
+    }
+  ),
+};
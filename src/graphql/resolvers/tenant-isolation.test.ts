@@ -0,0 +1,138 @@
+import { newsQueries } from '@/graphql/resolvers/queries/news';
+import { merchMutations } from '@/graphql/resolvers/mutations/merch';
+import { AuthenticatedUser } from '@/types';
+import { MemoryStore, createMemoryPrismaClient } from '../../../tests/helpers/memory-prisma';
+
+// Audit entries and webhook deliveries go through the unscoped client, which would
+// contact the database
+jest.mock('@/services/audit', () => ({ recordAudit: jest.fn() }));
+jest.mock('@/services/webhooks', () => ({
+  ...jest.requireActual('@/services/webhooks'),
+  emitWebhookEvent: jest.fn(),
+}));
+
+const publishedAt = new Date('2024-01-01T00:00:00Z');
+
+function article(id: string, tenantId: string) {
+  return {
+    id,
+    tenantId,
+    slug: id,
+    title: { en: `Article ${id}` },
+    blocks: { en: [] },
+    status: 'PUBLISHED',
+    publishedAt,
+    deletedAt: null,
+  };
+}
+
+function product(id: string, tenantId: string) {
+  return {
+    id,
+    tenantId,
+    slug: id,
+    name: { en: `Product ${id}` },
+    price: 10,
+    status: 'ACTIVE',
+    deletedAt: null,
+  };
+}
+
+function editor(tenantId: string): AuthenticatedUser {
+  return {
+    id: `editor-${tenantId}`,
+    email: `editor@${tenantId}.test`,
+    tenantId,
+    roles: ['admin'],
+    permissions: ['news:read', 'merch:update'],
+    grants: [
+      { resource: 'news', action: 'read', conditions: {} },
+      { resource: 'merch', action: 'update', conditions: {} },
+    ],
+  };
+}
+
+/**
+ * Request context of a tenant; `tenantId` may differ from the client's tenant to model
+ * a spoofed tenant header
+ */
+function tenantContext(store: MemoryStore, clientTenantId: string, tenantId = clientTenantId) {
+  return {
+    prisma: createMemoryPrismaClient(store, clientTenantId),
+    tenant: { id: tenantId, config: {} },
+    user: editor(clientTenantId),
+    req: { get: () => undefined, ip: '127.0.0.1' },
+  } as any;
+}
+
+describe('tenant isolation', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = {
+      NewsArticle: [article('a-article', 'A'), article('b-article', 'B')],
+      MerchProduct: [product('a-product', 'A'), product('b-product', 'B')],
+    };
+  });
+
+  describe('newsArticleById', () => {
+    it('returns articles of the own tenant', async () => {
+      const result = await newsQueries.newsArticleById(
+        null,
+        { id: 'a-article' },
+        tenantContext(store, 'A')
+      );
+      expect(result.id).toBe('a-article');
+    });
+
+    it('does not find articles of another tenant', async () => {
+      const result = await newsQueries.newsArticleById(
+        null,
+        { id: 'b-article' },
+        tenantContext(store, 'A')
+      );
+      expect(result).toBeNull();
+    });
+
+    it('rejects a request tenant other than the client tenant', async () => {
+      await expect(
+        newsQueries.newsArticleById(null, { id: 'b-article' }, tenantContext(store, 'A', 'B'))
+      ).rejects.toMatchObject({ statusCode: 403, message: 'Cross-tenant access denied' });
+    });
+  });
+
+  describe('updateMerchProduct', () => {
+    it('updates products of the own tenant', async () => {
+      const result = await merchMutations.updateMerchProduct(
+        null,
+        { id: 'a-product', input: { price: 20 } },
+        tenantContext(store, 'A')
+      );
+      expect(result.price).toBe(20);
+    });
+
+    it('cannot update products of another tenant', async () => {
+      await expect(
+        merchMutations.updateMerchProduct(
+          null,
+          { id: 'b-product', input: { price: 20 } },
+          tenantContext(store, 'A')
+        )
+      ).rejects.toThrow();
+
+      expect(store.MerchProduct[1]).toMatchObject({ price: 10, tenantId: 'B' });
+    });
+
+    it('cannot move a product to another tenant', async () => {
+      await expect(
+        merchMutations.updateMerchProduct(
+          null,
+          { id: 'a-product', input: { tenantId: 'B' } },
+          tenantContext(store, 'A')
+        )
+      ).rejects.toThrow();
+
+      expect(store.MerchProduct[0].tenantId).toBe('A');
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import gql from 'graphql-tag';
+
+/**
+ * API Token Schema
+ * Machine credentials for static-site builders and mobile apps
+ */
+export const apiTokenSchema = gql`
+  # ============================================
+  # API Token Types
+  # ============================================
+
+  type ApiToken {
+    id: ID!
+    name: String!
+    permissions: [String!]!
+    lastUsedAt: DateTime
+    expiresAt: DateTime
+    isActive: Boolean!
+    createdBy: User
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  """
+  Returned once on creation; the plaintext token cannot be retrieved again
+  """
+  type CreatedApiToken {
+    token: String!
+    apiToken: ApiToken!
+  }
+
+  input CreateApiTokenInput {
+    name: String!
+    permissions: [String!]!
+    expiresAt: DateTime
+  }
+
+  # ============================================
+  # API Token Queries
+  # ============================================
+
+  extend type Query {
+    apiTokens: [ApiToken!]!
+  }
+
+  # ============================================
+  # API Token Mutations
+  # ============================================
+
+  extend type Mutation {
+    createApiToken(input: CreateApiTokenInput!): CreatedApiToken!
+    revokeApiToken(id: ID!): Boolean!
+  }
+`;
@@ -0,0 +1,60 @@
+import gql from 'graphql-tag';
+
+/**
+ * Audit Schema
+ * Read access to the audit trail written by mutations and auth events
+ */
+export const auditSchema = gql`
+  # ============================================
+  # Audit Types
+  # ============================================
+
+  enum AuditAction {
+    CREATE
+    UPDATE
+    DELETE
+    VIEW
+    LOGIN
+    LOGOUT
+    BULK_UPDATE
+    BULK_DELETE
+  }
+
+  type AuditLog {
+    id: ID!
+    entity: String!
+    entityId: ID!
+    action: AuditAction!
+    """
+    Field-level diff: { field: { from, to } }
+    """
+    changes: JSON!
+    metadata: JSON!
+    ipAddress: String
+    userAgent: String
+    user: User
+    createdAt: DateTime!
+  }
+
+  type AuditLogList {
+    items: [AuditLog!]!
+    total: Int!
+  }
+
+  # ============================================
+  # Audit Queries
+  # ============================================
+
+  extend type Query {
+    auditLogs(
+      entity: String
+      entityId: ID
+      userId: ID
+      action: AuditAction
+      from: DateTime
+      to: DateTime
+      limit: Int
+      offset: Int
+    ): AuditLogList!
+  }
+`;
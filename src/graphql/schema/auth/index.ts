@@ -15,6 +15,7 @@ export const authSchema = gql`
     firstName: String!
     lastName: String!
     isActive: Boolean!
+    emailVerified: Boolean!
     createdAt: DateTime!
     updatedAt: DateTime!
   }
@@ -42,10 +43,36 @@ export const authSchema = gql`
     isActive: Boolean!
     status: TenantStatus!
     plan: TenantPlan!
+    locales: TenantLocales!
     createdAt: DateTime!
     updatedAt: DateTime!
   }
 
+  # Languages a tenant publishes in; the default is served when no language is asked for
+  type TenantLocales {
+    defaultLanguage: String!
+    supportedLanguages: [String!]!
+    fallbacks: [LanguageFallback!]!
+  }
+
+  # Languages tried in order when text is missing in a language, e.g. kk -> mn
+  # The tenant default language is always tried last
+  type LanguageFallback {
+    language: String!
+    fallbacks: [String!]!
+  }
+
+  input TenantLocalesInput {
+    defaultLanguage: String!
+    supportedLanguages: [String!]!
+    fallbacks: [LanguageFallbackInput!]
+  }
+
+  input LanguageFallbackInput {
+    language: String!
+    fallbacks: [String!]!
+  }
+
   input CreateTenantInput {
     name: String!
     slug: String!
@@ -53,6 +80,7 @@ export const authSchema = gql`
     isActive: Boolean
     status: TenantStatus
     plan: TenantPlan
+    locales: TenantLocalesInput
   }
 
   input UpdateTenantInput {
@@ -62,6 +90,7 @@ export const authSchema = gql`
     isActive: Boolean
     status: TenantStatus
     plan: TenantPlan
+    locales: TenantLocalesInput
   }
 
   type AuthPayload {
@@ -75,15 +104,28 @@ export const authSchema = gql`
     token: String!
   }
 
+  type Session {
+    id: ID!
+    ipAddress: String
+    userAgent: String
+    createdAt: DateTime!
+    lastUsedAt: DateTime!
+    expiresAt: DateTime!
+    current: Boolean!
+  }
+
   # ============================================
   # Auth Queries
   # ============================================
 
   extend type Query {
     me: User
+    mySessions: [Session!]!
     tenants: [Tenant!]!
     tenantById(id: ID!): Tenant
     tenantBySlug(slug: String!): Tenant
+    # Tenant resolved for this request (X-Tenant-ID, custom domain, subdomain or default)
+    currentTenant: Tenant
   }
 
   # ============================================
@@ -100,6 +142,13 @@ export const authSchema = gql`
       tenantSlug: String!
     ): AuthPayload!
     logout: Boolean!
+    refreshSession: AuthPayload!
+    requestPasswordReset(email: String!, tenantSlug: String!): Boolean!
+    resetPassword(token: String!, newPassword: String!): Boolean!
+    sendVerificationEmail: Boolean!
+    verifyEmail(token: String!): Boolean!
+    revokeSession(id: ID!): Boolean!
+    revokeAllSessions(userId: ID): Int!
 
     # Tenant Management
     createTenant(input: CreateTenantInput!): Tenant!
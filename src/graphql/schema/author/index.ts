@@ -0,0 +1,77 @@
+import gql from 'graphql-tag';
+
+/**
+ * Author Schema
+ * Public author profiles and the bylines of news articles
+ */
+export const authorSchema = gql`
+  # ============================================
+  # Author Types
+  # ============================================
+
+  type AuthorProfile {
+    id: ID!
+    slug: String!
+    displayName: String!
+    bio: LocalizedString
+    avatar: Media
+    """
+    Number of published news articles the author contributed to
+    """
+    articleCount: Int!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  input CreateAuthorProfileInput {
+    displayName: String!
+    slug: String
+    bio: JSON
+    avatarId: ID
+    # Staff account behind the profile; omit for guest contributors
+    userId: ID
+  }
+
+  input UpdateAuthorProfileInput {
+    displayName: String
+    slug: String
+    bio: JSON
+    avatarId: ID
+    userId: ID
+  }
+
+  extend type NewsArticle {
+    """
+    Last user to save the article
+    """
+    lastEditedBy: User
+    """
+    Public bylines in display order
+    """
+    contributors(language: String): [AuthorProfile!]!
+  }
+
+  extend type User {
+    authorProfile: AuthorProfile
+  }
+
+  # ============================================
+  # Author Queries
+  # ============================================
+
+  extend type Query {
+    authorProfiles(language: String): [AuthorProfile!]!
+    authorProfileBySlug(slug: String!, language: String): AuthorProfile
+  }
+
+  # ============================================
+  # Author Mutations
+  # ============================================
+
+  extend type Mutation {
+    createAuthorProfile(input: CreateAuthorProfileInput!): AuthorProfile!
+    updateAuthorProfile(id: ID!, input: UpdateAuthorProfileInput!): AuthorProfile!
+    # Removes the profile from every article byline
+    deleteAuthorProfile(id: ID!): Boolean!
+  }
+`;
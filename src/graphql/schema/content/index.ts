@@ -11,27 +11,52 @@ export const contentSchema = gql`
 
   type Content {
     id: ID!
-    title: String!
+    title: LocalizedString!
     slug: String!
-    content: String!
+    content: LocalizedString!
+    excerpt: LocalizedString
     status: String!
+    publishedAt: DateTime
+    scheduledAt: DateTime
+    unpublishAt: DateTime
     tenant: Tenant
     createdAt: DateTime!
     updatedAt: DateTime!
   }
 
+  type ContentEdge {
+    cursor: String!
+    node: Content!
+  }
+
+  type ContentConnection {
+    edges: [ContentEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
   input CreateContentInput {
-    title: String!
+    title: JSON!
     slug: String!
-    content: String!
+    content: JSON!
+    excerpt: JSON
     status: String
+    scheduledAt: DateTime
+    unpublishAt: DateTime
+    # Replaces all tags of the entry
+    tagIds: [ID!]
   }
 
   input UpdateContentInput {
-    title: String
+    title: JSON
     slug: String
-    content: String
+    content: JSON
+    excerpt: JSON
     status: String
+    scheduledAt: DateTime
+    unpublishAt: DateTime
+    # Replaces all tags of the entry
+    tagIds: [ID!]
   }
 
   # ============================================
@@ -39,8 +64,16 @@ export const contentSchema = gql`
   # ============================================
 
   extend type Query {
-    content: [Content!]!
-    contentById(id: ID!): Content
+    content(language: String): [Content!]!
+    # orderBy: createdAt, updatedAt, publishedAt or slug
+    contentConnection(
+      language: String
+      status: String
+      pagination: PaginationInput
+    ): ContentConnection!
+    # Unpublished content needs content:read or a preview token from createPreviewLink
+    contentById(id: ID!, language: String, previewToken: String): Content
+    contentBySlug(slug: String!, language: String, previewToken: String): Content
   }
 
   # ============================================
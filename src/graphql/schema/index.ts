@@ -1,8 +1,19 @@
 import gql from 'graphql-tag';
 import { authSchema } from './auth';
 import { newsSchema } from './news';
+import { newsReviewSchema } from './news-review';
 import { merchSchema } from './merch';
 import { contentSchema } from './content';
+import { apiTokenSchema } from './api-token';
+import { auditSchema } from './audit';
+import { webhookSchema } from './webhook';
+import { seoSchema } from './seo';
+import { searchSchema } from './search';
+import { tagSchema } from './tag';
+import { authorSchema } from './author';
+import { redirectSchema } from './redirect';
+import { previewSchema } from './preview';
+import { translationSchema } from './translation';
 import { uploadTypeDefs } from "./upload";
 
 /**
@@ -23,6 +34,89 @@ const baseSchema = gql`
     version: String!
   }
 
+  # ============================================
+  # Localization
+  # ============================================
+
+  """
+  Text stored in several languages
+  """
+  type LocalizedString {
+    """
+    Text in a language, following the tenant's fallback chain when it is missing.
+    Defaults to the language the field was queried in, or else the request language
+    """
+    value(lang: String): String
+    # Every translation, or only those of the given languages
+    translations(langs: [String!]): [Translation!]!
+    # Languages with a non-empty translation
+    availableLanguages: [String!]!
+  }
+
+  type Translation {
+    lang: String!
+    text: String!
+  }
+
+  """
+  Content blocks stored per language, resolved like LocalizedString
+  """
+  type LocalizedBlocks {
+    # Block array of a language; typedBlocks and renderedHtml give the same blocks typed or rendered
+    value(lang: String): JSON
+    translations(langs: [String!]): [BlocksTranslation!]!
+    availableLanguages: [String!]!
+  }
+
+  type BlocksTranslation {
+    lang: String!
+    blocks: JSON!
+  }
+
+  """
+  Word lists (e.g. keywords) stored per language, resolved like LocalizedString
+  """
+  type LocalizedStringList {
+    value(lang: String): [String!]
+    translations(langs: [String!]): [StringListTranslation!]!
+    availableLanguages: [String!]!
+  }
+
+  type StringListTranslation {
+    lang: String!
+    values: [String!]!
+  }
+
+  # ============================================
+  # Pagination
+  # ============================================
+
+  enum SortDirection {
+    ASC
+    DESC
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  """
+  Relay cursors (first/after or last/before), or a page number of \`first\` rows.
+  Cursors are only valid for the orderBy/orderDirection they were issued with
+  """
+  input PaginationInput {
+    first: Int
+    after: String
+    last: Int
+    before: String
+    page: Int
+    orderBy: String
+    orderDirection: SortDirection
+  }
+
   # ============================================
   # Base Query & Mutation Types
   # ============================================
@@ -45,8 +139,19 @@ export const typeDefs = [
   baseSchema,
   authSchema,
   newsSchema,
+  newsReviewSchema,
   merchSchema,
   contentSchema,
+  apiTokenSchema,
+  auditSchema,
+  webhookSchema,
+  seoSchema,
+  searchSchema,
+  tagSchema,
+  authorSchema,
+  redirectSchema,
+  previewSchema,
+  translationSchema,
   uploadTypeDefs,
 ];
 
@@ -12,9 +12,9 @@ export const merchSchema = gql`
   type MerchProduct {
     id: ID!
     sku: String
-    name: JSON!
-    description: JSON
-    shortDescription: JSON
+    name: LocalizedString!
+    description: LocalizedString
+    shortDescription: LocalizedString
     price: Float!
     compareAtPrice: Float
     costPrice: Float
@@ -34,9 +34,9 @@ export const merchSchema = gql`
     hasVariants: Boolean!
     options: JSON
     variants: [MerchVariant!]
-    metaTitle: JSON
-    metaDescription: JSON
-    searchKeywords: JSON
+    metaTitle: LocalizedString
+    metaDescription: LocalizedString
+    searchKeywords: LocalizedStringList
     status: String!
     isFeatured: Boolean!
     isDigital: Boolean
@@ -49,7 +49,7 @@ export const merchSchema = gql`
     id: ID!
     sku: String!
     barcode: String
-    title: JSON
+    title: LocalizedString
     optionValues: JSON!
     price: Float!
     compareAtPrice: Float
@@ -68,11 +68,18 @@ export const merchSchema = gql`
 
   type MerchCategory {
     id: ID!
-    name: JSON!
+    name: LocalizedString!
     slug: String!
-    description: JSON
+    description: LocalizedString
     color: String
     icon: String
+    parentId: ID
+    parent(language: String): MerchCategory
+    children(language: String): [MerchCategory!]!
+    # Breadcrumb from the root category down to the parent
+    ancestors(language: String): [MerchCategory!]!
+    # 0 for top-level categories
+    depth: Int!
     createdAt: DateTime!
     updatedAt: DateTime!
   }
@@ -114,6 +121,17 @@ export const merchSchema = gql`
     isAvailable: Boolean
   }
 
+  type MerchProductEdge {
+    cursor: String!
+    node: MerchProduct!
+  }
+
+  type MerchProductConnection {
+    edges: [MerchProductEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
   input CreateMerchProductInput {
     sku: String
     name: JSON!
@@ -182,12 +200,14 @@ export const merchSchema = gql`
     name: JSON!
     slug: String!
     description: JSON
+    parentId: ID
   }
 
   input UpdateMerchCategoryInput {
     name: JSON
     slug: String
     description: JSON
+    parentId: ID
   }
 
   # ============================================
@@ -197,17 +217,34 @@ export const merchSchema = gql`
   extend type Query {
     merchProducts(
       language: String
+      # Leave out items without a title in the language and return null for untranslated fields
+      strictLanguage: Boolean
       status: String
       categoryId: ID
+      # Also match products in subcategories of categoryId
+      includeDescendants: Boolean
       isFeatured: Boolean
-      tenantId: ID
-      tenantSlug: String
+      tenantId: ID @deprecated(reason: "Send the X-Tenant-ID header instead")
+      tenantSlug: String @deprecated(reason: "Send the X-Tenant-ID header instead")
       limit: Int
       offset: Int
     ): [MerchProduct!]!
-    merchProductById(id: ID!, language: String): MerchProduct
-    merchCategories(language: String): [MerchCategory!]!
-    merchCategoryById(id: ID!, language: String): MerchCategory
+    # orderBy: price, createdAt, updatedAt, publishedAt, inventory or slug
+    merchProductsConnection(
+      language: String
+      strictLanguage: Boolean
+      status: String
+      categoryId: ID
+      # Also match products in subcategories of categoryId
+      includeDescendants: Boolean
+      isFeatured: Boolean
+      pagination: PaginationInput
+    ): MerchProductConnection!
+    merchProductById(id: ID!, language: String, strictLanguage: Boolean): MerchProduct
+    merchCategories(language: String, strictLanguage: Boolean): [MerchCategory!]!
+    merchCategoryById(id: ID!, language: String, strictLanguage: Boolean): MerchCategory
+    # Top-level categories with their subcategories nested under children
+    merchCategoryTree(language: String, strictLanguage: Boolean): [MerchCategory!]!
   }
 
   # ============================================
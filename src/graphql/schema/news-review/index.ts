@@ -0,0 +1,84 @@
+import gql from 'graphql-tag';
+
+/**
+ * News Review Schema
+ * Editorial workflow for news articles: review states, reviewers and editor comments
+ */
+export const newsReviewSchema = gql`
+  # ============================================
+  # News Review Types
+  # ============================================
+
+  enum NewsReviewStatus {
+    IN_REVIEW
+    CHANGES_REQUESTED
+    APPROVED
+  }
+
+  extend type NewsArticle {
+    """
+    Null until the article is first submitted for review
+    """
+    reviewStatus: NewsReviewStatus
+    reviewerId: ID
+    reviewer: User
+    submittedForReviewAt: DateTime
+    reviewedAt: DateTime
+  }
+
+  """
+  Internal editor comment; never exposed to readers
+  """
+  type NewsArticleComment {
+    id: ID!
+    articleId: ID!
+    """
+    Block the comment is anchored to; null for the whole article
+    """
+    blockId: ID
+    body: String!
+    author: User
+    resolvedAt: DateTime
+    resolvedBy: User
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  input AddNewsArticleCommentInput {
+    articleId: ID!
+    blockId: ID
+    body: String!
+  }
+
+  # ============================================
+  # News Review Queries
+  # ============================================
+
+  extend type Query {
+    newsReviewQueue(
+      reviewStatus: NewsReviewStatus
+      reviewerId: ID
+      limit: Int
+      offset: Int
+    ): [NewsArticle!]!
+    newsArticleComments(
+      articleId: ID!
+      blockId: ID
+      includeResolved: Boolean
+    ): [NewsArticleComment!]!
+  }
+
+  # ============================================
+  # News Review Mutations
+  # ============================================
+
+  extend type Mutation {
+    submitForReview(articleId: ID!, reviewerId: ID, note: String): NewsArticle!
+    approveArticle(articleId: ID!, note: String): NewsArticle!
+    requestChanges(articleId: ID!, note: String!): NewsArticle!
+    assignNewsReviewer(articleId: ID!, reviewerId: ID): NewsArticle!
+    addNewsArticleComment(input: AddNewsArticleCommentInput!): NewsArticleComment!
+    resolveNewsArticleComment(id: ID!, resolved: Boolean): NewsArticleComment!
+    deleteNewsArticleComment(id: ID!): Boolean!
+  }
+`;
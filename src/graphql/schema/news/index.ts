@@ -12,42 +12,203 @@ export const newsSchema = gql`
   type NewsArticle {
     id: ID!
     slug: String!
-    title: JSON!
-    subtitle: JSON
-    excerpt: JSON
-    byline: JSON
-    blocks: JSON!
+    title: LocalizedString!
+    subtitle: LocalizedString
+    excerpt: LocalizedString
+    byline: LocalizedString
+    blocks: LocalizedBlocks!
+    """
+    Typed blocks of one language; defaults to the language the article was queried in
+    """
+    typedBlocks(language: String): [NewsBlock!]!
+    """
+    Sanitized HTML of the blocks; amp: true emits amp-img and amp-iframe components
+    language defaults to the language the article was queried in, like plainText and readingTimeMinutes
+    """
+    renderedHtml(language: String, amp: Boolean): String!
+    plainText(language: String): String!
+    readingTimeMinutes(language: String): Int!
     featuredImage: String
     socialImage: String
     categoryId: String
     category: NewsCategory
-    location: JSON
+    location: LocalizedString
     source: String
     priority: String!
     isBreaking: Boolean!
     isFeatured: Boolean!
-    metaTitle: JSON
-    metaDescription: JSON
-    keywords: JSON
+    metaTitle: LocalizedString
+    metaDescription: LocalizedString
+    keywords: LocalizedStringList
     status: String!
     publishedAt: DateTime
     scheduledAt: DateTime
-    author: User!
+    unpublishAt: DateTime
+    """
+    Staff account that created the article; null for readers without news:read, use contributors
+    """
+    author: User
     createdAt: DateTime!
     updatedAt: DateTime!
   }
 
+  # ============================================
+  # News Block Types
+  # ============================================
+
+  union NewsBlock =
+    | ParagraphBlock
+    | HeadingBlock
+    | ImageBlock
+    | QuoteBlock
+    | ListBlock
+    | EmbedBlock
+    | GalleryBlock
+    | CalloutBlock
+    | TableBlock
+    | DividerBlock
+
+  type ParagraphBlock {
+    id: ID!
+    text: String!
+  }
+
+  type HeadingBlock {
+    id: ID!
+    text: String!
+    level: Int!
+  }
+
+  type ImageBlock {
+    id: ID!
+    mediaId: ID
+    url: String
+    alt: String
+    caption: String
+    width: Int
+    height: Int
+  }
+
+  type QuoteBlock {
+    id: ID!
+    text: String!
+    citation: String
+  }
+
+  enum ListStyle {
+    ordered
+    unordered
+  }
+
+  type ListBlock {
+    id: ID!
+    style: ListStyle!
+    items: [String!]!
+  }
+
+  type EmbedBlock {
+    id: ID!
+    url: String!
+    provider: String
+    caption: String
+  }
+
+  type GalleryImage {
+    mediaId: ID
+    url: String
+    alt: String
+    caption: String
+    width: Int
+    height: Int
+  }
+
+  type GalleryBlock {
+    id: ID!
+    images: [GalleryImage!]!
+  }
+
+  enum CalloutVariant {
+    info
+    success
+    warning
+    error
+  }
+
+  type CalloutBlock {
+    id: ID!
+    text: String!
+    title: String
+    variant: CalloutVariant
+  }
+
+  type TableBlock {
+    id: ID!
+    rows: [[String!]!]!
+    withHeading: Boolean
+  }
+
+  type DividerBlock {
+    id: ID!
+  }
+
   type NewsCategory {
     id: ID!
-    name: JSON!
+    name: LocalizedString!
     slug: String!
-    description: JSON
+    description: LocalizedString
     color: String
     icon: String
+    parentId: ID
+    parent(language: String): NewsCategory
+    children(language: String): [NewsCategory!]!
+    # Breadcrumb from the root category down to the parent
+    ancestors(language: String): [NewsCategory!]!
+    # 0 for top-level categories
+    depth: Int!
     createdAt: DateTime!
     updatedAt: DateTime!
   }
 
+  """
+  Immutable snapshot of a news article stored on every save
+  """
+  type NewsArticleRevision {
+    id: ID!
+    articleId: ID!
+    version: Int!
+    snapshot: JSON!
+    restoredFromId: ID
+    createdBy: User
+    createdAt: DateTime!
+  }
+
+  """
+  Change of one field between two revisions; language is set for multilingual fields
+  """
+  type NewsArticleRevisionChange {
+    field: String!
+    language: String
+    from: JSON
+    to: JSON
+  }
+
+  type NewsArticleRevisionDiff {
+    from: NewsArticleRevision!
+    to: NewsArticleRevision!
+    changes: [NewsArticleRevisionChange!]!
+  }
+
+  type NewsArticleEdge {
+    cursor: String!
+    node: NewsArticle!
+  }
+
+  type NewsArticleConnection {
+    edges: [NewsArticleEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
   input CreateNewsArticleInput {
     slug: String!
     title: JSON!
@@ -58,6 +219,10 @@ export const newsSchema = gql`
     featuredImage: String
     socialImage: String
     categoryId: ID
+    # Replaces all tags of the article
+    tagIds: [ID!]
+    # Author profiles in byline order; defaults to the creator's own profile
+    contributorIds: [ID!]
     location: JSON
     source: String
     priority: String!
@@ -69,6 +234,7 @@ export const newsSchema = gql`
     status: String!
     publishedAt: DateTime
     scheduledAt: DateTime
+    unpublishAt: DateTime
   }
 
   input UpdateNewsArticleInput {
@@ -81,6 +247,10 @@ export const newsSchema = gql`
     featuredImage: String
     socialImage: String
     categoryId: ID
+    # Replaces all tags of the article
+    tagIds: [ID!]
+    # Replaces all contributors of the article, in byline order
+    contributorIds: [ID!]
     location: JSON
     source: String
     priority: String
@@ -92,6 +262,7 @@ export const newsSchema = gql`
     status: String
     publishedAt: DateTime
     scheduledAt: DateTime
+    unpublishAt: DateTime
   }
 
   input CreateNewsCategoryInput {
@@ -99,6 +270,7 @@ export const newsSchema = gql`
     slug: String!
     description: JSON
     color: String
+    parentId: ID
   }
 
   input UpdateNewsCategoryInput {
@@ -106,6 +278,7 @@ export const newsSchema = gql`
     slug: String
     description: JSON
     color: String
+    parentId: ID
   }
 
   # ============================================
@@ -115,15 +288,57 @@ export const newsSchema = gql`
   extend type Query {
     newsArticles(
       language: String
+      # Leave out items without a title in the language and return null for untranslated fields
+      strictLanguage: Boolean
       status: String
       priority: String
       categoryId: ID
+      # Also match articles in subcategories of categoryId
+      includeDescendants: Boolean
+      # Articles tagged with any of these tags
+      tagSlugs: [String!]
       limit: Int
       offset: Int
     ): [NewsArticle!]!
-    newsArticleById(id: ID!, language: String): NewsArticle
-    newsCategories(language: String): [NewsCategory!]!
-    newsCategoryById(id: ID!, language: String): NewsCategory
+    # orderBy: publishedAt, createdAt, updatedAt, priority or slug
+    newsArticlesConnection(
+      language: String
+      strictLanguage: Boolean
+      status: String
+      priority: String
+      categoryId: ID
+      # Also match articles in subcategories of categoryId
+      includeDescendants: Boolean
+      # Articles tagged with any of these tags
+      tagSlugs: [String!]
+      pagination: PaginationInput
+    ): NewsArticleConnection!
+    # Published articles an author contributed to, newest first
+    newsArticlesByAuthor(
+      authorSlug: String!
+      language: String
+      strictLanguage: Boolean
+      pagination: PaginationInput
+    ): NewsArticleConnection!
+    # Unpublished articles need news:read or a preview token from createPreviewLink
+    newsArticleById(
+      id: ID!
+      language: String
+      strictLanguage: Boolean
+      previewToken: String
+    ): NewsArticle
+    newsArticleBySlug(
+      slug: String!
+      language: String
+      strictLanguage: Boolean
+      previewToken: String
+    ): NewsArticle
+    newsCategories(language: String, strictLanguage: Boolean): [NewsCategory!]!
+    newsCategoryById(id: ID!, language: String, strictLanguage: Boolean): NewsCategory
+    # Top-level categories with their subcategories nested under children
+    newsCategoryTree(language: String, strictLanguage: Boolean): [NewsCategory!]!
+    newsArticleRevisions(articleId: ID!, limit: Int, offset: Int): [NewsArticleRevision!]!
+    newsArticleRevisionDiff(fromRevisionId: ID!, toRevisionId: ID!): NewsArticleRevisionDiff!
   }
 
   # ============================================
@@ -134,6 +349,7 @@ export const newsSchema = gql`
     createNewsArticle(input: CreateNewsArticleInput!): NewsArticle!
     updateNewsArticle(id: ID!, input: UpdateNewsArticleInput!): NewsArticle!
     deleteNewsArticle(id: ID!): Boolean!
+    restoreNewsArticleRevision(revisionId: ID!): NewsArticle!
     createNewsCategory(input: CreateNewsCategoryInput!): NewsCategory!
     updateNewsCategory(id: ID!, input: UpdateNewsCategoryInput!): NewsCategory!
     deleteNewsCategory(id: ID!): Boolean!
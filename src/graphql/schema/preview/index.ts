@@ -0,0 +1,55 @@
+import gql from 'graphql-tag';
+
+/**
+ * Preview Schema
+ * Revocable, expiring links to unpublished news articles and content
+ */
+export const previewSchema = gql`
+  # ============================================
+  # Preview Types
+  # ============================================
+
+  enum PreviewEntityType {
+    NEWS_ARTICLE
+    CONTENT
+  }
+
+  type PreviewLink {
+    id: ID!
+    entityType: PreviewEntityType!
+    entityId: ID!
+    expiresAt: DateTime!
+    revokedAt: DateTime
+    lastUsedAt: DateTime
+    useCount: Int!
+    createdBy: User!
+    createdAt: DateTime!
+  }
+
+  """
+  A new preview link; the token is only returned once, when the link is created
+  """
+  type CreatedPreviewLink {
+    token: String!
+    previewLink: PreviewLink!
+  }
+
+  # ============================================
+  # Preview Queries
+  # ============================================
+
+  extend type Query {
+    # Preview links of an article or content entry, newest first
+    previewLinks(entityType: PreviewEntityType!, id: ID!): [PreviewLink!]!
+  }
+
+  # ============================================
+  # Preview Mutations
+  # ============================================
+
+  extend type Mutation {
+    # expiresIn is in seconds: 7 days by default, at most 30 days
+    createPreviewLink(entityType: PreviewEntityType!, id: ID!, expiresIn: Int): CreatedPreviewLink!
+    revokePreviewLink(id: ID!): Boolean!
+  }
+`;
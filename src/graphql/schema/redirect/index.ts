@@ -0,0 +1,98 @@
+import gql from 'graphql-tag';
+
+/**
+ * Redirect Schema
+ * Slug history of renamed entities and tenant-managed redirects of public site paths
+ */
+export const redirectSchema = gql`
+  # ============================================
+  # Redirect Types
+  # ============================================
+
+  enum SlugEntityType {
+    NEWS_ARTICLE
+    CONTENT
+    MERCH_PRODUCT
+  }
+
+  """
+  What a public site path shows: an entity (statusCode 200) or a redirect
+  """
+  type SlugResolution {
+    statusCode: Int!
+    entityType: SlugEntityType
+    entityId: ID
+    language: String
+    """
+    Current slug of the entity
+    """
+    slug: String
+    """
+    Site path or absolute URL to redirect to
+    """
+    redirectTo: String
+  }
+
+  type Redirect {
+    id: ID!
+    """
+    Site path; a trailing /* matches every path below it
+    """
+    source: String!
+    """
+    Site path or absolute URL; a * is replaced by the part of the path matched by the source wildcard
+    """
+    target: String!
+    statusCode: Int!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  input CreateRedirectInput {
+    source: String!
+    target: String!
+    # 301 (default), 302, 307 or 308
+    statusCode: Int
+  }
+
+  input UpdateRedirectInput {
+    source: String
+    target: String
+    statusCode: Int
+  }
+
+  extend type NewsArticle {
+    """
+    Former slugs, newest first; their paths redirect to the current slug
+    """
+    previousSlugs: [String!]!
+  }
+
+  extend type Content {
+    previousSlugs: [String!]!
+  }
+
+  extend type MerchProduct {
+    previousSlugs: [String!]!
+  }
+
+  # ============================================
+  # Redirect Queries
+  # ============================================
+
+  extend type Query {
+    # Resolve a public site path such as /mn/news/some-slug; null when nothing is found
+    resolveSlug(path: String!): SlugResolution
+    redirects: [Redirect!]!
+  }
+
+  # ============================================
+  # Redirect Mutations
+  # ============================================
+
+  extend type Mutation {
+    createRedirect(input: CreateRedirectInput!): Redirect!
+    updateRedirect(id: ID!, input: UpdateRedirectInput!): Redirect!
+    deleteRedirect(id: ID!): Boolean!
+  }
+`;
@@ -0,0 +1,44 @@
+import gql from 'graphql-tag';
+
+/**
+ * Search Schema
+ * Full-text search over published news, content and active merch products
+ */
+export const searchSchema = gql`
+  # ============================================
+  # Search Types
+  # ============================================
+
+  enum SearchResultType {
+    NEWS
+    CONTENT
+    PRODUCT
+  }
+
+  type SearchResult {
+    type: SearchResultType!
+    id: ID!
+    slug: String!
+    title: String!
+    """
+    HTML-escaped excerpt with matched words wrapped in <mark>
+    """
+    snippet: String!
+    rank: Float!
+  }
+
+  # ============================================
+  # Search Queries
+  # ============================================
+
+  extend type Query {
+    # Ranked by relevance; matches words by prefix and tolerates typos in titles
+    search(
+      query: String!
+      # Defaults to the Accept-Language header or the tenant's default language
+      language: String
+      types: [SearchResultType!]
+      limit: Int = 20
+    ): [SearchResult!]!
+  }
+`;
@@ -0,0 +1,50 @@
+import gql from 'graphql-tag';
+
+/**
+ * SEO Schema
+ * Crawler rules served as robots.txt next to the tenant's sitemaps
+ */
+export const seoSchema = gql`
+  # ============================================
+  # SEO Types
+  # ============================================
+
+  type RobotsConfig {
+    """
+    When false robots.txt disallows every path
+    """
+    allowIndexing: Boolean!
+    allow: [String!]!
+    disallow: [String!]!
+    crawlDelay: Int
+    """
+    Raw lines appended after the generated rules
+    """
+    extra: String
+  }
+
+  input RobotsConfigInput {
+    allowIndexing: Boolean
+    allow: [String!]
+    disallow: [String!]
+    crawlDelay: Int
+    extra: String
+  }
+
+  # ============================================
+  # SEO Queries
+  # ============================================
+
+  extend type Query {
+    # Rules served at /sitemaps/:tenantSlug/robots.txt
+    robotsConfig: RobotsConfig!
+  }
+
+  # ============================================
+  # SEO Mutations
+  # ============================================
+
+  extend type Mutation {
+    updateRobotsConfig(input: RobotsConfigInput!): RobotsConfig!
+  }
+`;
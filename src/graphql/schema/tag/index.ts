@@ -0,0 +1,76 @@
+import gql from 'graphql-tag';
+
+/**
+ * Tag Schema
+ * One tag taxonomy shared by news articles and content
+ */
+export const tagSchema = gql`
+  # ============================================
+  # Tag Types
+  # ============================================
+
+  type Tag {
+    id: ID!
+    name: LocalizedString!
+    slug: String!
+    description: LocalizedString
+    color: String
+    """
+    Number of news articles tagged
+    """
+    newsCount: Int!
+    """
+    Number of content entries tagged
+    """
+    contentCount: Int!
+    usageCount: Int!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  input CreateTagInput {
+    name: JSON!
+    slug: String
+    description: JSON
+    color: String
+  }
+
+  input UpdateTagInput {
+    name: JSON
+    slug: String
+    description: JSON
+    color: String
+  }
+
+  extend type NewsArticle {
+    """
+    Names and descriptions are resolved to \`language\` when given
+    """
+    tags(language: String): [Tag!]!
+  }
+
+  extend type Content {
+    tags(language: String): [Tag!]!
+  }
+
+  # ============================================
+  # Tag Queries
+  # ============================================
+
+  extend type Query {
+    tags(language: String): [Tag!]!
+    tagBySlug(slug: String!, language: String): Tag
+  }
+
+  # ============================================
+  # Tag Mutations
+  # ============================================
+
+  extend type Mutation {
+    createTag(input: CreateTagInput!): Tag!
+    updateTag(id: ID!, input: UpdateTagInput!): Tag!
+    # Moves every news and content link of the source tags to the target and deletes the sources
+    mergeTags(sourceIds: [ID!]!, targetId: ID!): Tag!
+    deleteTag(id: ID!): Boolean!
+  }
+`;
@@ -0,0 +1,80 @@
+import gql from 'graphql-tag';
+
+/**
+ * Translation Schema
+ * Completeness of the multilingual fields of news, content, products and categories
+ */
+export const translationSchema = gql`
+  # ============================================
+  # Translation Types
+  # ============================================
+
+  enum TranslatableType {
+    NEWS_ARTICLE
+    CONTENT
+    MERCH_PRODUCT
+    NEWS_CATEGORY
+    MERCH_CATEGORY
+  }
+
+  """
+  Translation completeness of one record in one language
+  Optional fields left empty in every language are not counted
+  """
+  type TranslationStatus {
+    language: String!
+    complete: Boolean!
+    """
+    Share of the fields in use that are translated, from 0 to 1
+    """
+    completeness: Float!
+    translatedFields: [String!]!
+    missingFields: [String!]!
+  }
+
+  type UntranslatedItem {
+    entityType: TranslatableType!
+    entityId: ID!
+    slug: String
+    """
+    Title or name in all languages
+    """
+    title: LocalizedString
+    completeness: Float!
+    missingFields: [String!]!
+    updatedAt: DateTime!
+  }
+
+  extend type NewsArticle {
+    """
+    Completeness per language; defaults to the tenant's languages and any other language in use
+    """
+    translationStatus(languages: [String!]): [TranslationStatus!]!
+  }
+
+  extend type Content {
+    translationStatus(languages: [String!]): [TranslationStatus!]!
+  }
+
+  extend type MerchProduct {
+    translationStatus(languages: [String!]): [TranslationStatus!]!
+  }
+
+  extend type NewsCategory {
+    translationStatus(languages: [String!]): [TranslationStatus!]!
+  }
+
+  extend type MerchCategory {
+    translationStatus(languages: [String!]): [TranslationStatus!]!
+  }
+
+  # ============================================
+  # Translation Queries
+  # ============================================
+
+  extend type Query {
+    # Records with fields missing in a language, drafts included, most recently updated first.
+    # Without types, every type the caller can read is checked
+    untranslatedItems(language: String!, types: [TranslatableType!]): [UntranslatedItem!]!
+  }
+`;
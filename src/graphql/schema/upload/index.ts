@@ -9,6 +9,17 @@ export const uploadTypeDefs = gql`
     fileUrl: String!
   }
 
+  "An uploaded file."
+  type Media {
+    id: ID!
+    url: String!
+    mimeType: String!
+    width: Int
+    height: Int
+    "Alternative text per language."
+    alt: LocalizedString
+  }
+
   extend type Mutation {
     "Creates a pre-signed URL for a file upload."
     createPresignedUploadUrl(fileType: String!): PresignedUrl!
@@ -0,0 +1,101 @@
+import gql from 'graphql-tag';
+
+/**
+ * Webhook Schema
+ * Outgoing event notifications (e.g. on-demand revalidation of static sites)
+ */
+export const webhookSchema = gql`
+  # ============================================
+  # Webhook Types
+  # ============================================
+
+  enum WebhookDeliveryStatus {
+    PENDING
+    SUCCESS
+    FAILED
+    RETRYING
+  }
+
+  type Webhook {
+    id: ID!
+    name: String!
+    url: String!
+    events: [String!]!
+    isActive: Boolean!
+    """
+    { maxAttempts, initialDelayMs, backoffMultiplier, maxDelayMs }
+    """
+    retryPolicy: JSON!
+    metadata: JSON!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  """
+  Returned on creation; the signing secret cannot be retrieved again
+  """
+  type CreatedWebhook {
+    secret: String!
+    webhook: Webhook!
+  }
+
+  type WebhookDelivery {
+    id: ID!
+    event: String!
+    payload: JSON!
+    status: WebhookDeliveryStatus!
+    responseCode: Int
+    responseBody: String
+    error: String
+    attempts: Int!
+    nextAttemptAt: DateTime
+    deliveredAt: DateTime
+    createdAt: DateTime!
+    webhook: Webhook!
+  }
+
+  input CreateWebhookInput {
+    name: String!
+    url: String!
+    events: [String!]!
+    isActive: Boolean
+    retryPolicy: JSON
+    metadata: JSON
+  }
+
+  input UpdateWebhookInput {
+    name: String
+    url: String
+    events: [String!]
+    isActive: Boolean
+    retryPolicy: JSON
+    metadata: JSON
+  }
+
+  # ============================================
+  # Webhook Queries
+  # ============================================
+
+  extend type Query {
+    webhooks: [Webhook!]!
+    webhookById(id: ID!): Webhook
+    webhookEvents: [String!]!
+    webhookDeliveries(
+      webhookId: ID!
+      status: WebhookDeliveryStatus
+      limit: Int
+      offset: Int
+    ): [WebhookDelivery!]!
+  }
+
+  # ============================================
+  # Webhook Mutations
+  # ============================================
+
+  extend type Mutation {
+    createWebhook(input: CreateWebhookInput!): CreatedWebhook!
+    updateWebhook(id: ID!, input: UpdateWebhookInput!): Webhook!
+    deleteWebhook(id: ID!): Boolean!
+    redeliverWebhook(deliveryId: ID!): WebhookDelivery!
+  }
+`;
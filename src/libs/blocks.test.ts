@@ -0,0 +1,71 @@
+import { toTypedBlocks, validateBlocks } from './blocks';
+
+const paragraph = (id: string, text: string) => ({ id, type: 'paragraph', data: { text } });
+
+describe('validateBlocks', () => {
+  it('accepts valid blocks of several languages', () => {
+    expect(
+      validateBlocks({
+        en: [
+          paragraph('p1', 'Hello'),
+          { id: 'h1', type: 'heading', data: { text: 'Hi', level: 2 } },
+        ],
+        mn: [paragraph('p1', 'Сайн уу')],
+      })
+    ).toEqual([]);
+  });
+
+  it('reports every error with its path', () => {
+    expect(
+      validateBlocks({
+        EN: [],
+        en: [
+          paragraph('p1', ''),
+          paragraph('p1', 'Duplicate'),
+          { id: 'h1', type: 'heading', data: { text: 'Hi', level: 7 } },
+        ],
+      })
+    ).toEqual([
+      { path: 'blocks.EN', message: 'is not a valid language code' },
+      expect.objectContaining({ path: 'blocks.en[0].data.text' }),
+      { path: 'blocks.en[1].id', message: 'duplicates block id "p1"' },
+      expect.objectContaining({ path: 'blocks.en[2].data.level' }),
+    ]);
+  });
+
+  it('rejects unknown and inherited block types', () => {
+    const errors = validateBlocks({
+      en: [
+        { id: 'a', type: 'video', data: {} },
+        { id: 'b', type: 'toString', data: {} },
+        { id: 'c', type: '__proto__', data: {} },
+      ],
+    });
+
+    expect(errors.map(error => error.path)).toEqual([
+      'blocks.en[0].type',
+      'blocks.en[1].type',
+      'blocks.en[2].type',
+    ]);
+  });
+
+  it('rejects unsafe URLs', () => {
+    const errors = validateBlocks({
+      en: [{ id: 'e1', type: 'embed', data: { url: 'javascript:alert(1)' } }],
+    });
+
+    expect(errors).toEqual([expect.objectContaining({ path: 'blocks.en[0].data.url' })]);
+  });
+});
+
+describe('toTypedBlocks', () => {
+  it('flattens blocks and skips unknown or inherited types', () => {
+    expect(
+      toTypedBlocks([
+        paragraph('p1', 'Hello'),
+        { id: 'x', type: 'constructor', data: {} },
+        { id: 'y', type: 'video', data: {} },
+      ])
+    ).toEqual([{ id: 'p1', type: 'paragraph', text: 'Hello' }]);
+  });
+});
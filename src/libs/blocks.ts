@@ -0,0 +1,407 @@
+/**
+ * News Block Registry
+ * Block types accepted in `NewsArticle.blocks`, their validators and GraphQL type names
+ *
+ * Blocks are stored per language:
+ * { "en": [{ "id": "b1", "type": "paragraph", "data": { "text": "..." } }], "mn": [...] }
+ */
+
+import { AppError, ErrorType } from '@/types';
+import { LANGUAGE_PATTERN, getLocalizedContent } from '@/libs/localization';
+
+/**
+ * Field-level validation error; `path` points into the submitted blocks JSON
+ */
+export interface BlockValidationError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Stored block shape
+ */
+export interface NewsBlock {
+  id: string;
+  type: BlockType;
+  data: Record<string, any>;
+}
+
+interface BlockDefinition {
+  /** GraphQL object type in the `NewsBlock` union */
+  typename: string;
+  validate(data: Record<string, any>, check: DataChecker): void;
+}
+
+/**
+ * Maximum number of blocks per language
+ */
+const MAX_BLOCKS = 500;
+
+const LIST_STYLES = ['ordered', 'unordered'];
+const CALLOUT_VARIANTS = ['info', 'success', 'warning', 'error'];
+
+/**
+ * Collects errors for the `data` of one block
+ */
+class DataChecker {
+  constructor(
+    private readonly data: Record<string, any>,
+    private readonly path: string,
+    private readonly errors: BlockValidationError[]
+  ) {}
+
+  fail(field: string, message: string): void {
+    this.errors.push({ path: `${this.path}.${field}`, message });
+  }
+
+  string(field: string, options: { required?: boolean; max?: number } = {}): void {
+    const value = this.data[field];
+    if (value === undefined || value === null) {
+      if (options.required) this.fail(field, 'is required');
+      return;
+    }
+    if (typeof value !== 'string') {
+      this.fail(field, 'must be a string');
+    } else if (options.required && value.trim().length === 0) {
+      this.fail(field, 'must not be empty');
+    } else if (options.max && value.length > options.max) {
+      this.fail(field, `must be at most ${options.max} characters`);
+    }
+  }
+
+  url(field: string, options: { required?: boolean; absolute?: boolean } = {}): void {
+    const value = this.data[field];
+    if (value === undefined || value === null) {
+      if (options.required) this.fail(field, 'is required');
+      return;
+    }
+    if (typeof value !== 'string' || !isSafeUrl(value, options.absolute)) {
+      this.fail(
+        field,
+        options.absolute ? 'must be an http(s) URL' : 'must be an http(s) or relative URL'
+      );
+    }
+  }
+
+  integer(field: string, min: number, max: number, options: { required?: boolean } = {}): void {
+    const value = this.data[field];
+    if (value === undefined || value === null) {
+      if (options.required) this.fail(field, 'is required');
+      return;
+    }
+    if (!Number.isInteger(value) || value < min || value > max) {
+      this.fail(field, `must be an integer between ${min} and ${max}`);
+    }
+  }
+
+  boolean(field: string): void {
+    const value = this.data[field];
+    if (value !== undefined && value !== null && typeof value !== 'boolean') {
+      this.fail(field, 'must be a boolean');
+    }
+  }
+
+  oneOf(field: string, allowed: string[], options: { required?: boolean } = {}): void {
+    const value = this.data[field];
+    if (value === undefined || value === null) {
+      if (options.required) this.fail(field, 'is required');
+      return;
+    }
+    if (!allowed.includes(value)) {
+      this.fail(field, `must be one of: ${allowed.join(', ')}`);
+    }
+  }
+
+  /**
+   * Image source: an uploaded Media record or a URL
+   */
+  imageSource(): void {
+    if (!this.data.mediaId && !this.data.url) {
+      this.fail('url', 'either url or mediaId is required');
+    }
+    this.string('mediaId');
+    this.url('url');
+    this.string('alt', { max: 500 });
+    this.string('caption', { max: 1000 });
+    this.integer('width', 1, 20000);
+    this.integer('height', 1, 20000);
+  }
+
+  /**
+   * Validate each entry of an array field with a nested checker
+   */
+  array(
+    field: string,
+    options: { required?: boolean; max?: number },
+    each: (item: any, path: string) => void
+  ): void {
+    const value = this.data[field];
+    if (value === undefined || value === null) {
+      if (options.required) this.fail(field, 'is required');
+      return;
+    }
+    if (!Array.isArray(value)) {
+      this.fail(field, 'must be an array');
+      return;
+    }
+    if (options.required && value.length === 0) {
+      this.fail(field, 'must not be empty');
+    }
+    if (options.max && value.length > options.max) {
+      this.fail(field, `must have at most ${options.max} entries`);
+    }
+    value.forEach((item, index) => each(item, `${this.path}.${field}[${index}]`));
+  }
+
+  /**
+   * Checker for an object nested in this block's data
+   */
+  nested(item: any, path: string): DataChecker | null {
+    if (!isPlainObject(item)) {
+      this.errors.push({ path, message: 'must be an object' });
+      return null;
+    }
+    return new DataChecker(item, path, this.errors);
+  }
+
+  pushError(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Accept http(s) URLs and, unless absolute is required, site-relative paths
+ */
+export function isSafeUrl(value: string, absolute = false): boolean {
+  if (!absolute && value.startsWith('/') && !value.startsWith('//')) return true;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Registered block types
+ */
+export const BLOCK_REGISTRY = {
+  paragraph: {
+    typename: 'ParagraphBlock',
+    validate(_data, check) {
+      check.string('text', { required: true, max: 20000 });
+    },
+  },
+  heading: {
+    typename: 'HeadingBlock',
+    validate(_data, check) {
+      check.string('text', { required: true, max: 500 });
+      check.integer('level', 1, 6, { required: true });
+    },
+  },
+  image: {
+    typename: 'ImageBlock',
+    validate(_data, check) {
+      check.imageSource();
+    },
+  },
+  quote: {
+    typename: 'QuoteBlock',
+    validate(_data, check) {
+      check.string('text', { required: true, max: 5000 });
+      check.string('citation', { max: 500 });
+    },
+  },
+  list: {
+    typename: 'ListBlock',
+    validate(_data, check) {
+      check.oneOf('style', LIST_STYLES, { required: true });
+      check.array('items', { required: true, max: 200 }, (item, path) => {
+        if (typeof item !== 'string' || item.trim().length === 0) {
+          check.pushError(path, 'must be a non-empty string');
+        }
+      });
+    },
+  },
+  embed: {
+    typename: 'EmbedBlock',
+    validate(_data, check) {
+      check.url('url', { required: true, absolute: true });
+      check.string('provider', { max: 100 });
+      check.string('caption', { max: 1000 });
+    },
+  },
+  gallery: {
+    typename: 'GalleryBlock',
+    validate(_data, check) {
+      check.array('images', { required: true, max: 100 }, (item, path) => {
+        check.nested(item, path)?.imageSource();
+      });
+    },
+  },
+  callout: {
+    typename: 'CalloutBlock',
+    validate(_data, check) {
+      check.string('text', { required: true, max: 5000 });
+      check.string('title', { max: 500 });
+      check.oneOf('variant', CALLOUT_VARIANTS);
+    },
+  },
+  table: {
+    typename: 'TableBlock',
+    validate(data, check) {
+      check.boolean('withHeading');
+      check.array('rows', { required: true, max: 500 }, (row, path) => {
+        if (!Array.isArray(row) || row.some(cell => typeof cell !== 'string')) {
+          check.pushError(path, 'must be an array of strings');
+        } else if (Array.isArray(data.rows[0]) && row.length !== data.rows[0].length) {
+          check.pushError(path, 'must have the same number of cells as the first row');
+        }
+      });
+    },
+  },
+  divider: {
+    typename: 'DividerBlock',
+    validate() {
+      // No data
+    },
+  },
+} satisfies Record<string, BlockDefinition>;
+
+export type BlockType = keyof typeof BLOCK_REGISTRY;
+
+export const BLOCK_TYPES = Object.keys(BLOCK_REGISTRY) as BlockType[];
+
+/**
+ * Whether a stored type names a registered block; inherited keys such as `toString` do not
+ */
+export function isBlockType(type: unknown): type is BlockType {
+  return typeof type === 'string' && Object.hasOwn(BLOCK_REGISTRY, type);
+}
+
+/**
+ * Validate the per-language blocks of a news article, returning every error found
+ */
+export function validateBlocks(blocks: any): BlockValidationError[] {
+  const errors: BlockValidationError[] = [];
+
+  if (!isPlainObject(blocks)) {
+    return [{ path: 'blocks', message: 'must be an object of block arrays keyed by language' }];
+  }
+
+  for (const [language, languageBlocks] of Object.entries(blocks)) {
+    const languagePath = `blocks.${language}`;
+
+    if (!LANGUAGE_PATTERN.test(language)) {
+      errors.push({ path: languagePath, message: 'is not a valid language code' });
+      continue;
+    }
+    if (!Array.isArray(languageBlocks)) {
+      errors.push({ path: languagePath, message: 'must be an array of blocks' });
+      continue;
+    }
+    if (languageBlocks.length > MAX_BLOCKS) {
+      errors.push({ path: languagePath, message: `must have at most ${MAX_BLOCKS} blocks` });
+    }
+
+    const ids = new Set<string>();
+    languageBlocks.forEach((block, index) => {
+      const path = `${languagePath}[${index}]`;
+
+      if (!isPlainObject(block)) {
+        errors.push({ path, message: 'must be an object' });
+        return;
+      }
+
+      if (typeof block.id !== 'string' || block.id.trim().length === 0) {
+        errors.push({ path: `${path}.id`, message: 'is required' });
+      } else if (ids.has(block.id)) {
+        errors.push({ path: `${path}.id`, message: `duplicates block id "${block.id}"` });
+      } else {
+        ids.add(block.id);
+      }
+
+      if (!isBlockType(block.type)) {
+        errors.push({
+          path: `${path}.type`,
+          message: `must be one of: ${BLOCK_TYPES.join(', ')}`,
+        });
+        return;
+      }
+
+      const definition: BlockDefinition = BLOCK_REGISTRY[block.type];
+      const data = block.data ?? {};
+      if (!isPlainObject(data)) {
+        errors.push({ path: `${path}.data`, message: 'must be an object' });
+        return;
+      }
+
+      definition.validate(data, new DataChecker(data, `${path}.data`, errors));
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validate blocks and throw a validation error listing every invalid field
+ */
+export function assertValidBlocks(blocks: any): void {
+  const errors = validateBlocks(blocks);
+  if (errors.length > 0) {
+    throw new AppError(
+      `Invalid blocks: ${errors[0].path} ${errors[0].message}`,
+      ErrorType.VALIDATION_ERROR,
+      400,
+      true,
+      { errors }
+    );
+  }
+}
+
+/**
+ * Collect the ids of all blocks, whether stored as one array or per language
+ */
+export function collectBlockIds(blocks: any, ids: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(blocks)) {
+    for (const block of blocks) {
+      if (block && typeof block.id === 'string') ids.add(block.id);
+    }
+  } else if (isPlainObject(blocks)) {
+    for (const languageBlocks of Object.values(blocks)) {
+      collectBlockIds(languageBlocks, ids);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Blocks of one language; queries that localized the article already hold a plain array
+ */
+export function localizeBlocks(blocks: any, language: string | string[]): any[] {
+  const localized = Array.isArray(blocks) ? blocks : getLocalizedContent(blocks, language);
+  return Array.isArray(localized) ? localized : [];
+}
+
+/**
+ * Flatten stored blocks of one language for the GraphQL `NewsBlock` union
+ * Blocks of unknown types are skipped so legacy data cannot break queries
+ */
+export function toTypedBlocks(blocks: any): Record<string, any>[] {
+  if (!Array.isArray(blocks)) return [];
+
+  return blocks
+    .filter(block => isPlainObject(block) && isBlockType(block.type))
+    .map(block => ({ ...(block.data || {}), id: block.id, type: block.type }));
+}
+
+/**
+ * GraphQL type name of a flattened block
+ */
+export function blockTypename(block: { type: BlockType }): string {
+  return BLOCK_REGISTRY[block.type].typename;
+}
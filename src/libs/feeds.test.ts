@@ -0,0 +1,77 @@
+import { Feed, FeedItem, renderAtom, renderJsonFeed, renderRss } from './feeds';
+
+const item: FeedItem = {
+  id: 'article-1',
+  url: 'https://news.test/en/news/a?x=1&y=2',
+  title: 'Prices <rise> & "fall"',
+  summary: null,
+  contentHtml: '<p>Body</p>',
+  publishedAt: new Date('2024-01-02T03:04:05Z'),
+  updatedAt: new Date('2024-01-03T00:00:00Z'),
+  author: 'Bat',
+  categories: ['Economy'],
+  enclosure: { url: 'https://cdn.test/a.jpg', type: 'image/jpeg', length: 1200 },
+};
+
+const feed: Feed = {
+  title: 'News & more',
+  description: 'Latest news',
+  language: 'en',
+  siteUrl: 'https://news.test/en',
+  feedUrl: 'https://news.test/feeds/news.rss?language=en',
+  updatedAt: new Date('2024-01-03T00:00:00Z'),
+  items: [item],
+};
+
+describe('renderRss', () => {
+  it('escapes text, URLs and embedded HTML', () => {
+    const xml = renderRss(feed);
+
+    expect(xml).toContain('<title>Prices &lt;rise&gt; &amp; &quot;fall&quot;</title>');
+    expect(xml).toContain('<link>https://news.test/en/news/a?x=1&amp;y=2</link>');
+    expect(xml).toContain('<content:encoded>&lt;p&gt;Body&lt;/p&gt;</content:encoded>');
+    expect(xml).toContain('<pubDate>Tue, 02 Jan 2024 03:04:05 GMT</pubDate>');
+    expect(xml).toContain(
+      '<enclosure url="https://cdn.test/a.jpg" type="image/jpeg" length="1200"/>'
+    );
+  });
+
+  it('leaves out empty elements', () => {
+    expect(renderRss(feed)).not.toContain('<description></description>');
+  });
+});
+
+describe('renderAtom', () => {
+  it('links entries and the feed itself', () => {
+    const xml = renderAtom(feed);
+
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">');
+    expect(xml).toContain(
+      '<link href="https://news.test/feeds/news.rss?language=en" rel="self" type="application/atom+xml"/>'
+    );
+    expect(xml).toContain('<category term="Economy"/>');
+    expect(xml).toContain('<content type="html">&lt;p&gt;Body&lt;/p&gt;</content>');
+  });
+});
+
+describe('renderJsonFeed', () => {
+  it('maps items to JSON Feed 1.1 fields', () => {
+    const json = JSON.parse(renderJsonFeed(feed));
+
+    expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(json.items[0]).toEqual({
+      id: 'article-1',
+      url: item.url,
+      title: item.title,
+      content_html: '<p>Body</p>',
+      date_published: '2024-01-02T03:04:05.000Z',
+      date_modified: '2024-01-03T00:00:00.000Z',
+      authors: [{ name: 'Bat' }],
+      tags: ['Economy'],
+      image: 'https://cdn.test/a.jpg',
+      attachments: [
+        { url: 'https://cdn.test/a.jpg', mime_type: 'image/jpeg', size_in_bytes: 1200 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Syndication Feed Serializers
+ * Builds RSS 2.0, Atom 1.0 and JSON Feed 1.1 documents from a format-neutral feed
+ */
+
+import { escapeXml } from '@/utils';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+export interface FeedEnclosure {
+  url: string;
+  type: string;
+  length: number;
+}
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string | null;
+  contentHtml: string;
+  publishedAt: Date;
+  updatedAt: Date;
+  author: string | null;
+  categories: string[];
+  enclosure: FeedEnclosure | null;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  language: string;
+  /** Page the feed describes */
+  siteUrl: string;
+  /** Absolute URL of the feed document itself */
+  feedUrl: string;
+  updatedAt: Date;
+  items: FeedItem[];
+}
+
+function element(name: string, value: string | null | undefined, attrs = ''): string {
+  return value ? `<${name}${attrs}>${escapeXml(value)}</${name}>` : '';
+}
+
+/**
+ * Serialize a feed as RSS 2.0 with full content and media enclosures
+ */
+export function renderRss(feed: Feed): string {
+  const items = feed.items.map(item =>
+    [
+      '<item>',
+      element('title', item.title),
+      element('link', item.url),
+      element('guid', item.id, ' isPermaLink="false"'),
+      element('pubDate', item.publishedAt.toUTCString()),
+      element('dc:creator', item.author),
+      ...item.categories.map(category => element('category', category)),
+      element('description', item.summary),
+      element('content:encoded', item.contentHtml),
+      item.enclosure
+        ? `<enclosure url="${escapeXml(item.enclosure.url)}" type="${escapeXml(item.enclosure.type)}" length="${item.enclosure.length}"/>`
+        : '',
+      '</item>',
+    ].join('')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '<channel>',
+    element('title', feed.title),
+    element('link', feed.siteUrl),
+    element('description', feed.description),
+    element('language', feed.language),
+    element('lastBuildDate', feed.updatedAt.toUTCString()),
+    `<atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    '</channel>',
+    '</rss>',
+  ].join('\n');
+}
+
+/**
+ * Serialize a feed as Atom 1.0; enclosures become `rel="enclosure"` links
+ */
+export function renderAtom(feed: Feed): string {
+  const entries = feed.items.map(item =>
+    [
+      '<entry>',
+      element('id', item.id),
+      element('title', item.title),
+      `<link href="${escapeXml(item.url)}" rel="alternate" type="text/html"/>`,
+      element('published', item.publishedAt.toISOString()),
+      element('updated', item.updatedAt.toISOString()),
+      item.author ? `<author>${element('name', item.author)}</author>` : '',
+      ...item.categories.map(category => `<category term="${escapeXml(category)}"/>`),
+      element('summary', item.summary),
+      element('content', item.contentHtml, ' type="html"'),
+      item.enclosure
+        ? `<link href="${escapeXml(item.enclosure.url)}" rel="enclosure" type="${escapeXml(item.enclosure.type)}" length="${item.enclosure.length}"/>`
+        : '',
+      '</entry>',
+    ].join('')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(feed.language)}">`,
+    element('id', feed.feedUrl),
+    element('title', feed.title),
+    element('subtitle', feed.description),
+    element('updated', feed.updatedAt.toISOString()),
+    `<link href="${escapeXml(feed.siteUrl)}" rel="alternate" type="text/html"/>`,
+    `<link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/atom+xml"/>`,
+    ...entries,
+    '</feed>',
+  ].join('\n');
+}
+
+/**
+ * Serialize a feed as JSON Feed 1.1; enclosures become attachments
+ */
+export function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.siteUrl,
+    feed_url: feed.feedUrl,
+    description: feed.description,
+    language: feed.language,
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary ?? undefined,
+      content_html: item.contentHtml,
+      date_published: item.publishedAt.toISOString(),
+      date_modified: item.updatedAt.toISOString(),
+      authors: item.author ? [{ name: item.author }] : undefined,
+      tags: item.categories.length ? item.categories : undefined,
+      image: item.enclosure?.type.startsWith('image/') ? item.enclosure.url : undefined,
+      attachments: item.enclosure
+        ? [
+            {
+              url: item.enclosure.url,
+              mime_type: item.enclosure.type,
+              size_in_bytes: item.enclosure.length,
+            },
+          ]
+        : undefined,
+    })),
+  });
+}
+
+export const FEED_RENDERERS: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+};
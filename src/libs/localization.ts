@@ -3,19 +3,189 @@
  * Helper functions for handling multi-language content
  */
 
+/**
+ * Languages a tenant publishes in, stored under `locales` in the tenant config
+ */
+export interface LocaleSettings {
+  /** Last resort of every fallback chain; also used when no language is requested */
+  defaultLanguage: string;
+  supportedLanguages: string[];
+  /** Languages tried in order when a translation is missing, e.g. `{ "kk": ["mn"] }` */
+  fallbacks: Record<string, string[]>;
+}
+
+/**
+ * Locales of tenants that have not configured their own
+ */
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = {
+  defaultLanguage: 'en',
+  supportedLanguages: ['en', 'mn'],
+  fallbacks: {},
+};
+
+/**
+ * Language keys such as `en`, `mn` or `zh-Hant`
+ */
+export const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+/**
+ * Locale settings from a tenant config; missing or malformed settings give the defaults
+ */
+export function tenantLocaleSettings(config: any): LocaleSettings {
+  const locales = config && typeof config === 'object' ? config.locales : null;
+  if (
+    !locales ||
+    !Array.isArray(locales.supportedLanguages) ||
+    !locales.supportedLanguages.includes(locales.defaultLanguage)
+  ) {
+    return DEFAULT_LOCALE_SETTINGS;
+  }
+
+  return {
+    defaultLanguage: locales.defaultLanguage,
+    supportedLanguages: locales.supportedLanguages,
+    fallbacks: locales.fallbacks && typeof locales.fallbacks === 'object' ? locales.fallbacks : {},
+  };
+}
+
+/**
+ * Languages to try for a requested language: the language itself, its configured
+ * fallbacks, then the default language
+ */
+export function fallbackChain(settings: LocaleSettings, language: string): string[] {
+  return Array.from(
+    new Set([language, ...(settings.fallbacks[language] || []), settings.defaultLanguage])
+  );
+}
+
+/**
+ * Pick the supported language a client prefers from an Accept-Language header
+ * Tags match exactly or by their primary subtag (`kk-KZ` matches `kk`); null when none match
+ */
+export function negotiateLanguage(header: string | undefined, supported: string[]): string | null {
+  if (!header) return null;
+
+  const preferences = header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.map(param => param.trim().match(/^q=([0-9.]+)$/)).find(Boolean);
+      return { tag: tag.trim().toLowerCase(), q: quality ? Number(quality[1]) : 1, index };
+    })
+    .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { tag } of preferences) {
+    const primary = tag.split('-')[0];
+    const match =
+      supported.find(language => language.toLowerCase() === tag) ??
+      supported.find(language => language.toLowerCase() === primary);
+    if (match) return match;
+  }
+
+  return null;
+}
+
 /**
  * Get localized content from JSON field
  * @param content - The content object containing translations
- * @param language - The target language code
+ * @param language - The target language code, or a fallback chain starting with it
+ *   (see `resolveLanguages`); without a chain the first available translation is the fallback
+ * @param strict - Return null instead of falling back when the language is missing
  * @returns The localized content or fallback
  */
-export function getLocalizedContent(content: any, language: string): any {
+export function getLocalizedContent(
+  content: any,
+  language: string | string[],
+  strict = false
+): any {
   if (!content) return null;
 
+  const chain = Array.isArray(language) ? language : [language];
+
   if (typeof content === 'object') {
-    // Return specific language or fallback to English or first available
-    return content[language] || content.en || Object.values(content)[0];
+    if (strict) {
+      return hasTranslation(content, chain[0]) ? content[chain[0]] : null;
+    }
+
+    // Return the first language of the chain that is translated, or else the first available
+    const translated = chain.find(candidate => hasTranslation(content, candidate));
+    return translated ? content[translated] : Object.values(content)[0];
   }
 
-  return content;
+  return strict ? null : content;
+}
+
+/**
+ * Multilingual text with the languages and strictness of the query that loaded it,
+ * resolved by the `LocalizedString` GraphQL type
+ * Multilingual JSON that was not wrapped (e.g. returned by a mutation) is read in the
+ * language of the request instead
+ */
+export interface LocalizedText {
+  translations: any;
+  /** Language or fallback chain `value` uses when no language is passed to it */
+  languages: string | string[] | null;
+  strict: boolean;
+}
+
+/**
+ * Wrap a multilingual JSON field for the `LocalizedString` type; null stays null
+ */
+export function localizedText(
+  content: any,
+  languages?: string | string[] | null,
+  strict = false
+): LocalizedText | null {
+  if (content === null || content === undefined) return null;
+  return { translations: content, languages: languages ?? null, strict };
+}
+
+/**
+ * Wrap several multilingual fields of a record, e.g. `{ ...article, ...localizedFields(...) }`
+ */
+export function localizedFields(
+  record: Record<string, any>,
+  fields: string[],
+  languages?: string | string[] | null,
+  strict = false
+): Record<string, LocalizedText | null> {
+  return Object.fromEntries(
+    fields.map(field => [field, localizedText(record[field], languages, strict)])
+  );
+}
+
+/**
+ * Whether a value is wrapped text rather than multilingual JSON
+ * Language keys never match `translations`, so a JSON field cannot be mistaken for one
+ */
+export function isLocalizedText(value: any): value is LocalizedText {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    'translations' in value &&
+    'languages' in value &&
+    'strict' in value
+  );
+}
+
+/**
+ * Whether a multilingual JSON field has a non-empty value for a language
+ * Blank strings and empty arrays (e.g. blocks, keywords) count as missing
+ */
+export function hasTranslation(content: any, language: string): boolean {
+  if (!content || typeof content !== 'object' || Array.isArray(content)) return false;
+
+  const value = content[language];
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== null && value !== undefined;
+}
+
+/**
+ * Languages a multilingual JSON field has a non-empty value for
+ */
+export function translatedLanguages(content: any): string[] {
+  if (!content || typeof content !== 'object' || Array.isArray(content)) return [];
+  return Object.keys(content).filter(language => hasTranslation(content, language));
 }
@@ -0,0 +1,265 @@
+/**
+ * Cursor Pagination
+ * Relay connections over Prisma models using keyset cursors on the sort columns
+ */
+
+import { Prisma } from '@prisma/client';
+import { AppError, Connection, ErrorType, PaginationInput } from '@/types';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortField {
+  field: string;
+  direction: SortDirection;
+}
+
+export interface PaginateOptions<T, N> {
+  /** Prisma model name, e.g. `NewsArticle` */
+  model: string;
+  where: Record<string, any>;
+  /** Order used when the client sends no `orderBy` */
+  defaultSort: SortField[];
+  /** Fields clients may pass as `orderBy` */
+  sortableFields: string[];
+  include?: Record<string, any>;
+  /** Transform each record into its GraphQL node */
+  toNode: (record: T) => N;
+  defaultPageSize?: number;
+  maxPageSize?: number;
+}
+
+interface FieldMeta {
+  nullable: boolean;
+  /** Ordered values of enum and boolean fields, which Prisma cannot filter with gt/lt */
+  values: any[] | null;
+}
+
+interface DecodedCursor {
+  sort: string;
+  values: any[];
+}
+
+function cursorError(): AppError {
+  return new AppError('Invalid pagination cursor', ErrorType.VALIDATION_ERROR, 400);
+}
+
+/**
+ * Nullability and ordinal values of the scalar fields of a model
+ */
+function fieldMeta(model: string): Map<string, FieldMeta> {
+  const definition = Prisma.dmmf.datamodel.models.find(m => m.name === model);
+  if (!definition) throw new Error(`Unknown model: ${model}`);
+
+  return new Map(
+    definition.fields
+      .filter(field => field.kind !== 'object')
+      .map(field => {
+        let values: any[] | null = null;
+        if (field.kind === 'enum') {
+          values =
+            Prisma.dmmf.datamodel.enums
+              .find(e => e.name === field.type)
+              ?.values.map(value => value.name) ?? null;
+        } else if (field.type === 'Boolean') {
+          values = [false, true];
+        }
+        return [field.name, { nullable: !field.isRequired, values }];
+      })
+  );
+}
+
+/**
+ * Signature of a sort order; a cursor is only valid for the order it was created with
+ */
+function sortSignature(sort: SortField[]): string {
+  return sort.map(({ field, direction }) => `${field}:${direction}`).join(',');
+}
+
+export function encodeCursor(sort: SortField[], record: Record<string, any>): string {
+  const values = sort.map(({ field }) => {
+    const value = record[field];
+    return value instanceof Date ? { $date: value.toISOString() } : (value ?? null);
+  });
+  return Buffer.from(JSON.stringify({ sort: sortSignature(sort), values })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, sort: SortField[]): any[] {
+  let decoded: DecodedCursor;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw cursorError();
+  }
+
+  if (
+    !decoded ||
+    decoded.sort !== sortSignature(sort) ||
+    !Array.isArray(decoded.values) ||
+    decoded.values.length !== sort.length
+  ) {
+    throw new AppError(
+      'Pagination cursor does not match the sort order',
+      ErrorType.VALIDATION_ERROR,
+      400
+    );
+  }
+
+  return decoded.values.map(value =>
+    value && typeof value === 'object' && typeof value.$date === 'string'
+      ? new Date(value.$date)
+      : value
+  );
+}
+
+/**
+ * Rows strictly after `value` in one column
+ * PostgreSQL sorts NULLs last ascending and first descending; null means no row qualifies
+ */
+function afterValue(
+  { field, direction }: SortField,
+  value: any,
+  meta: FieldMeta
+): Record<string, any> | null {
+  if (value === null) {
+    return direction === 'desc' ? { [field]: { not: null } } : null;
+  }
+
+  let condition: Record<string, any> | null;
+  if (meta.values) {
+    const ordered = direction === 'asc' ? meta.values : [...meta.values].reverse();
+    const following = ordered.slice(ordered.indexOf(value) + 1);
+    condition = following.length ? { [field]: { in: following } } : null;
+  } else {
+    condition = { [field]: { [direction === 'asc' ? 'gt' : 'lt']: value } };
+  }
+
+  if (direction === 'asc' && meta.nullable) {
+    return condition ? { OR: [condition, { [field]: null }] } : { [field]: null };
+  }
+  return condition;
+}
+
+/**
+ * Keyset condition selecting the rows after a cursor:
+ * (a > x) OR (a = x AND b > y) OR (a = x AND b = y AND id > z)
+ */
+function keysetWhere(
+  sort: SortField[],
+  values: any[],
+  meta: Map<string, FieldMeta>
+): Record<string, any> {
+  const branches: Record<string, any>[] = [];
+
+  sort.forEach((sortField, index) => {
+    const after = afterValue(sortField, values[index], meta.get(sortField.field)!);
+    if (!after) return;
+
+    const equal = sort.slice(0, index).map(({ field }, i) => ({ [field]: values[i] }));
+    branches.push(equal.length ? { AND: [...equal, after] } : after);
+  });
+
+  return { OR: branches };
+}
+
+function reverse(sort: SortField[]): SortField[] {
+  return sort.map(({ field, direction }) => ({
+    field,
+    direction: direction === 'asc' ? 'desc' : 'asc',
+  }));
+}
+
+/**
+ * Resolve the requested sort order; `id` is always appended so cursors are unique
+ */
+function resolveSort(args: PaginationInput, options: PaginateOptions<any, any>): SortField[] {
+  let sort = options.defaultSort;
+
+  if (args.orderBy) {
+    if (!options.sortableFields.includes(args.orderBy)) {
+      throw new AppError(
+        `Cannot sort by "${args.orderBy}"`,
+        ErrorType.VALIDATION_ERROR,
+        400,
+        true,
+        { sortableFields: options.sortableFields }
+      );
+    }
+    sort = [{ field: args.orderBy, direction: args.orderDirection || 'asc' }];
+  }
+
+  const last = sort[sort.length - 1]?.direction || 'desc';
+  return sort.some(({ field }) => field === 'id')
+    ? sort
+    : [...sort, { field: 'id', direction: last }];
+}
+
+/**
+ * Load one page of a model as a Relay connection
+ * Forward pages use `first`/`after`, backward pages `last`/`before`; `page` jumps to
+ * an offset of `first` rows for numbered pagination. `totalCount` ignores the cursor
+ */
+export async function paginate<T extends Record<string, any>, N>(
+  delegate: any,
+  args: PaginationInput = {},
+  options: PaginateOptions<T, N>
+): Promise<Connection<N>> {
+  const { defaultPageSize = 20, maxPageSize = 100 } = options;
+
+  const backward = args.last !== undefined && args.last !== null;
+  const requested = backward ? args.last : args.first;
+  const size = Math.min(Math.max(requested ?? defaultPageSize, 1), maxPageSize);
+
+  if (args.page !== undefined && args.page !== null && (args.page < 1 || backward)) {
+    throw new AppError(
+      '`page` must be at least 1 and cannot be combined with `last`',
+      ErrorType.VALIDATION_ERROR,
+      400
+    );
+  }
+
+  const sort = resolveSort(args, options);
+  const querySort = backward ? reverse(sort) : sort;
+  const cursor = backward ? args.before : args.after;
+  const skip = args.page ? (args.page - 1) * size : 0;
+
+  const where =
+    cursor && !args.page
+      ? {
+          AND: [
+            options.where,
+            keysetWhere(querySort, decodeCursor(cursor, sort), fieldMeta(options.model)),
+          ],
+        }
+      : options.where;
+
+  const [records, totalCount]: [T[], number] = await Promise.all([
+    delegate.findMany({
+      where,
+      include: options.include,
+      orderBy: querySort.map(({ field, direction }) => ({ [field]: direction })),
+      skip,
+      take: size + 1,
+    }),
+    delegate.count({ where: options.where }),
+  ]);
+
+  const hasMore = records.length > size;
+  const page = records.slice(0, size);
+  if (backward) page.reverse();
+
+  const edges = page.map(record => ({
+    cursor: encodeCursor(sort, record),
+    node: options.toNode(record),
+  }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: backward ? !!cursor : hasMore,
+      hasPreviousPage: backward ? hasMore : !!cursor || skip > 0,
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+    },
+    totalCount,
+  };
+}
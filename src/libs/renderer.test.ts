@@ -0,0 +1,83 @@
+import { estimateReadingTime, renderBlocksToHtml, renderBlocksToText } from './renderer';
+
+const options = { languages: ['en'] };
+
+describe('renderBlocksToHtml', () => {
+  it('escapes markup in text blocks', () => {
+    const html = renderBlocksToHtml(
+      [
+        { type: 'paragraph', data: { text: '<script>alert(1)</script>' } },
+        { type: 'list', data: { items: ['<img src=x onerror=alert(1)>'] } },
+        { type: 'table', data: { rows: [['<b>cell</b>']] } },
+      ],
+      options
+    );
+
+    expect(html).not.toMatch(/<script|<img|<b>/);
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;&#x2F;script&gt;');
+  });
+
+  it('escapes quotes so values cannot break out of attributes', () => {
+    const html = renderBlocksToHtml(
+      [{ type: 'image', data: { url: 'https://cdn.test/a.jpg', alt: '" onerror="alert(1)' } }],
+      options
+    );
+
+    expect(html).toContain('alt="&quot; onerror=&quot;alert(1)"');
+    expect(html).not.toContain('" onerror="');
+  });
+
+  it('drops images and embeds with unsafe URLs', () => {
+    const html = renderBlocksToHtml(
+      [
+        { type: 'image', data: { url: 'javascript:alert(1)' } },
+        { type: 'embed', data: { url: 'javascript:alert(1)' } },
+        { type: 'gallery', data: { images: [{ url: 'data:text/html,<script>' }] } },
+      ],
+      options
+    );
+
+    expect(html).toBe('');
+  });
+
+  it('renders AMP components and keeps plain HTTP embeds as links', () => {
+    const html = renderBlocksToHtml(
+      [
+        { type: 'image', data: { url: 'https://cdn.test/a.jpg', alt: 'A' } },
+        { type: 'embed', data: { url: 'http://video.test/1', provider: 'Video' } },
+      ],
+      { ...options, amp: true }
+    );
+
+    expect(html).toContain('<amp-img');
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('<amp-iframe');
+    expect(html).toContain('>Video</a>');
+  });
+
+  it('skips unknown blocks and clamps heading levels', () => {
+    const html = renderBlocksToHtml(
+      [
+        { type: 'html', data: { html: '<script></script>' } },
+        { type: 'heading', data: { text: 'Title', level: 9 } },
+      ],
+      options
+    );
+
+    expect(html).toBe('<h6>Title</h6>');
+  });
+});
+
+describe('renderBlocksToText', () => {
+  it('extracts the readable text of each block', () => {
+    const text = renderBlocksToText([
+      { type: 'heading', data: { text: 'Title' } },
+      { type: 'quote', data: { text: 'Quoted', citation: 'Someone' } },
+      { type: 'list', data: { style: 'ordered', items: ['One', 'Two'] } },
+      { type: 'divider', data: {} },
+    ]);
+
+    expect(text).toBe('Title\n\n"Quoted" (Someone)\n\n1. One\n2. Two');
+    expect(estimateReadingTime(text)).toBe(1);
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * News Block Renderer
+ * Renders the blocks of one language to sanitized HTML, AMP markup or plain text
+ */
+
+import type { ExtendedPrismaClient } from '@/database/prisma';
+import { sanitizeHtml } from '@/utils';
+import { getLocalizedContent } from '@/libs/localization';
+import { isSafeUrl } from '@/libs/blocks';
+
+/**
+ * Average adult reading speed used for reading time estimates
+ */
+const WORDS_PER_MINUTE = 200;
+
+/**
+ * `sizes` attribute of responsive images; article bodies are at most 768px wide
+ */
+const IMAGE_SIZES = '(max-width: 768px) 100vw, 768px';
+
+/**
+ * Aspect ratio used for AMP elements whose dimensions are unknown
+ */
+const FALLBACK_DIMENSIONS = { width: 16, height: 9 };
+
+/**
+ * Media record fields needed to render image blocks
+ * Resized copies are read from `metadata.variants: [{ url, width }]`
+ */
+export interface RenderMedia {
+  url: string;
+  width: number | null;
+  height: number | null;
+  alt: any;
+  metadata: any;
+}
+
+export interface RenderOptions {
+  /** Fallback chain of the rendered language, used for media alt text */
+  languages: string[];
+  /** Emit AMP components (amp-img, amp-iframe) instead of plain HTML elements */
+  amp?: boolean;
+  /** Media records referenced by image and gallery blocks, keyed by id */
+  media?: Map<string, RenderMedia>;
+}
+
+interface ResolvedImage {
+  src: string;
+  srcset: string | null;
+  alt: string;
+  caption: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+/**
+ * Escape text content and attribute values
+ */
+function escape(value: any): string {
+  return sanitizeHtml(String(value ?? ''));
+}
+
+/**
+ * Escape text and keep its line breaks
+ */
+function escapeText(value: any): string {
+  return escape(value).replace(/\r?\n/g, '<br>');
+}
+
+function attributes(attrs: Record<string, string | number | boolean | null | undefined>): string {
+  return Object.entries(attrs)
+    .filter(([, value]) => value !== null && value !== undefined && value !== false)
+    .map(([name, value]) => (value === true ? ` ${name}` : ` ${name}="${escape(value)}"`))
+    .join('');
+}
+
+function caption(text: string | null | undefined): string {
+  return text ? `<figcaption>${escapeText(text)}</figcaption>` : '';
+}
+
+/**
+ * Resolve an image against its Media record, preferring values set on the block
+ * Images with neither a safe URL nor a known Media record are dropped
+ */
+function resolveImage(data: Record<string, any>, options: RenderOptions): ResolvedImage | null {
+  const media = data.mediaId ? options.media?.get(data.mediaId) : undefined;
+  const src = data.url || media?.url;
+  if (!src || !isSafeUrl(src)) return null;
+
+  const width = data.width ?? media?.width ?? null;
+  const variants: { url: string; width: number }[] = Array.isArray(media?.metadata?.variants)
+    ? media!.metadata.variants.filter(
+        (variant: any) =>
+          typeof variant?.url === 'string' &&
+          isSafeUrl(variant.url) &&
+          Number.isInteger(variant.width)
+      )
+    : [];
+
+  // The original is the largest candidate when its width is known
+  const candidates = [...variants, ...(width && src === media?.url ? [{ url: src, width }] : [])];
+  const srcset = candidates.length
+    ? candidates
+        .sort((a, b) => a.width - b.width)
+        .map(candidate => `${candidate.url} ${candidate.width}w`)
+        .join(', ')
+    : null;
+
+  return {
+    src,
+    srcset,
+    alt: data.alt || (media?.alt && getLocalizedContent(media.alt, options.languages)) || '',
+    caption: data.caption || null,
+    width,
+    height: data.height ?? media?.height ?? null,
+  };
+}
+
+function renderImage(image: ResolvedImage, options: RenderOptions): string {
+  if (options.amp) {
+    const known = image.width && image.height;
+    return `<amp-img${attributes({
+      src: image.src,
+      srcset: image.srcset,
+      sizes: image.srcset ? IMAGE_SIZES : null,
+      alt: image.alt,
+      width: known ? image.width : FALLBACK_DIMENSIONS.width,
+      height: known ? image.height : FALLBACK_DIMENSIONS.height,
+      layout: 'responsive',
+    })}></amp-img>`;
+  }
+
+  return `<img${attributes({
+    src: image.src,
+    srcset: image.srcset,
+    sizes: image.srcset ? IMAGE_SIZES : null,
+    alt: image.alt,
+    width: image.width,
+    height: image.height,
+    loading: 'lazy',
+    decoding: 'async',
+  })}>`;
+}
+
+function renderEmbed(data: Record<string, any>, options: RenderOptions): string {
+  if (!isSafeUrl(data.url, true)) return '';
+
+  const link = `<a${attributes({ href: data.url, rel: 'noopener noreferrer', target: '_blank' })}>${escape(data.provider || data.url)}</a>`;
+
+  let frame: string;
+  if (options.amp) {
+    // amp-iframe only accepts HTTPS sources
+    frame = data.url.startsWith('https:')
+      ? `<amp-iframe${attributes({
+          src: data.url,
+          width: FALLBACK_DIMENSIONS.width,
+          height: FALLBACK_DIMENSIONS.height,
+          layout: 'responsive',
+          sandbox: 'allow-scripts allow-same-origin allow-popups',
+          frameborder: 0,
+        })}><div placeholder>${link}</div></amp-iframe>`
+      : link;
+  } else {
+    frame = `<iframe${attributes({
+      src: data.url,
+      title: data.caption || data.provider || 'Embedded content',
+      loading: 'lazy',
+      sandbox: 'allow-scripts allow-same-origin allow-popups allow-presentation',
+      allowfullscreen: true,
+    })}></iframe>`;
+  }
+
+  return `<figure class="embed">${frame}${caption(data.caption)}</figure>`;
+}
+
+function renderTable(data: Record<string, any>): string {
+  const rows: string[][] = Array.isArray(data.rows) ? data.rows : [];
+  const renderRow = (row: string[], cell: 'td' | 'th') =>
+    `<tr>${row.map(value => `<${cell}>${escapeText(value)}</${cell}>`).join('')}</tr>`;
+
+  const head = data.withHeading && rows.length ? `<thead>${renderRow(rows[0], 'th')}</thead>` : '';
+  const body = (data.withHeading ? rows.slice(1) : rows).map(row => renderRow(row, 'td')).join('');
+
+  return `<table>${head}<tbody>${body}</tbody></table>`;
+}
+
+/**
+ * Render a single block; unknown or unrenderable blocks produce no markup
+ */
+function renderBlock(block: any, options: RenderOptions): string {
+  const data = block?.data || {};
+
+  switch (block?.type) {
+    case 'paragraph':
+      return `<p>${escapeText(data.text)}</p>`;
+
+    case 'heading': {
+      const level = Number.isInteger(data.level) ? Math.min(Math.max(data.level, 1), 6) : 2;
+      return `<h${level}>${escapeText(data.text)}</h${level}>`;
+    }
+
+    case 'image': {
+      const image = resolveImage(data, options);
+      return image
+        ? `<figure>${renderImage(image, options)}${caption(image.caption)}</figure>`
+        : '';
+    }
+
+    case 'quote':
+      return `<blockquote><p>${escapeText(data.text)}</p>${
+        data.citation ? `<cite>${escapeText(data.citation)}</cite>` : ''
+      }</blockquote>`;
+
+    case 'list': {
+      const tag = data.style === 'ordered' ? 'ol' : 'ul';
+      const items = (Array.isArray(data.items) ? data.items : [])
+        .map((item: any) => `<li>${escapeText(item)}</li>`)
+        .join('');
+      return `<${tag}>${items}</${tag}>`;
+    }
+
+    case 'embed':
+      return renderEmbed(data, options);
+
+    case 'gallery': {
+      const images = (Array.isArray(data.images) ? data.images : [])
+        .map((item: any) => resolveImage(item || {}, options))
+        .filter((image: ResolvedImage | null): image is ResolvedImage => !!image)
+        .map(
+          (image: ResolvedImage) =>
+            `<figure>${renderImage(image, options)}${caption(image.caption)}</figure>`
+        )
+        .join('');
+      return images ? `<div class="gallery">${images}</div>` : '';
+    }
+
+    case 'callout':
+      return `<aside${attributes({ class: `callout callout-${data.variant || 'info'}` })}>${
+        data.title ? `<strong>${escapeText(data.title)}</strong>` : ''
+      }<p>${escapeText(data.text)}</p></aside>`;
+
+    case 'table':
+      return renderTable(data);
+
+    case 'divider':
+      return '<hr>';
+
+    default:
+      return '';
+  }
+}
+
+/**
+ * Render blocks of one language to HTML
+ */
+export function renderBlocksToHtml(blocks: any[], options: RenderOptions): string {
+  return blocks
+    .map(block => renderBlock(block, options))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Extract readable text from blocks of one language, one paragraph per block
+ */
+export function renderBlocksToText(blocks: any[]): string {
+  const parts: string[] = [];
+
+  for (const block of blocks) {
+    const data = block?.data || {};
+    switch (block?.type) {
+      case 'paragraph':
+      case 'heading':
+        parts.push(data.text);
+        break;
+      case 'quote':
+        parts.push(data.citation ? `"${data.text}" (${data.citation})` : `"${data.text}"`);
+        break;
+      case 'list':
+        parts.push(
+          (data.items || [])
+            .map((item: string, index: number) =>
+              data.style === 'ordered' ? `${index + 1}. ${item}` : `- ${item}`
+            )
+            .join('\n')
+        );
+        break;
+      case 'callout':
+        parts.push(data.title ? `${data.title}: ${data.text}` : data.text);
+        break;
+      case 'table':
+        parts.push((data.rows || []).map((row: string[]) => row.join('\t')).join('\n'));
+        break;
+      case 'image':
+      case 'embed':
+        parts.push(data.caption);
+        break;
+      case 'gallery':
+        parts.push(...(data.images || []).map((image: any) => image?.caption));
+        break;
+    }
+  }
+
+  return parts.filter(part => typeof part === 'string' && part.trim().length > 0).join('\n\n');
+}
+
+/**
+ * Estimated reading time in whole minutes; any text takes at least a minute
+ */
+export function estimateReadingTime(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return words === 0 ? 0 : Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+}
+
+/**
+ * Load the Media records referenced by image and gallery blocks
+ */
+export async function loadBlockMedia(
+  prisma: ExtendedPrismaClient,
+  blocks: any[]
+): Promise<Map<string, RenderMedia>> {
+  const ids = new Set<string>();
+  for (const block of blocks) {
+    if (block?.type === 'image' && block.data?.mediaId) ids.add(block.data.mediaId);
+    if (block?.type === 'gallery' && Array.isArray(block.data?.images)) {
+      for (const image of block.data.images) {
+        if (image?.mediaId) ids.add(image.mediaId);
+      }
+    }
+  }
+
+  if (ids.size === 0) return new Map();
+
+  const media = await prisma.media.findMany({
+    where: { id: { in: Array.from(ids) }, deletedAt: null },
+    select: { id: true, url: true, width: true, height: true, alt: true, metadata: true },
+  });
+
+  return new Map(media.map(item => [item.id, item]));
+}
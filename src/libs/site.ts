@@ -0,0 +1,103 @@
+/**
+ * Public Site URLs
+ * Links into a tenant's public website, used by feeds, sitemaps and path resolution
+ */
+
+import { config } from '@/config';
+
+/**
+ * Tenant fields needed to build its site URL
+ */
+export interface SiteTenant {
+  slug: string;
+  domain: string | null;
+}
+
+/**
+ * Origin of a tenant's public site: its custom domain, its subdomain of
+ * TENANT_BASE_DOMAIN, or APP_URL when neither is configured
+ */
+export function tenantSiteUrl(tenant: SiteTenant): string {
+  if (tenant.domain) return `https://${tenant.domain}`;
+  if (config.tenant.baseDomain) return `https://${tenant.slug}.${config.tenant.baseDomain}`;
+  return new URL(config.mail.appUrl).origin;
+}
+
+/**
+ * Absolute URL of a path on a tenant's site
+ */
+export function siteUrl(tenant: SiteTenant, pathname: string): string {
+  return new URL(pathname, tenantSiteUrl(tenant)).toString();
+}
+
+/**
+ * Entities served at slug-based paths of a tenant site
+ */
+export type SiteEntityType = 'NEWS_ARTICLE' | 'CONTENT' | 'MERCH_PRODUCT';
+
+/**
+ * Path segment between the language and the slug of each entity type
+ */
+const ENTITY_PATH_SECTIONS: Record<SiteEntityType, string | null> = {
+  NEWS_ARTICLE: 'news',
+  CONTENT: null,
+  MERCH_PRODUCT: 'shop',
+};
+
+/**
+ * Site path of an entity in one language, e.g. `/mn/news/slug`
+ */
+export function entityPath(type: SiteEntityType, language: string, slug: string): string {
+  const section = ENTITY_PATH_SECTIONS[type];
+  return `/${language}/${section ? `${section}/` : ''}${encodeURIComponent(slug)}`;
+}
+
+/**
+ * Entity type, language and slug of a site path; null for paths that are not an entity page
+ * in one of the tenant's languages
+ */
+export function parseEntityPath(
+  pathname: string,
+  languages: string[]
+): { type: SiteEntityType; language: string; slug: string } | null {
+  const segments = pathname.split('/').filter(Boolean);
+  const [language] = segments;
+  if (!languages.includes(language)) return null;
+
+  let type: SiteEntityType | undefined;
+  if (segments.length === 2) {
+    type = 'CONTENT';
+  } else if (segments.length === 3) {
+    type = (Object.keys(ENTITY_PATH_SECTIONS) as SiteEntityType[]).find(
+      candidate => ENTITY_PATH_SECTIONS[candidate] === segments[1]
+    );
+  }
+  if (!type) return null;
+
+  try {
+    return { type, language, slug: decodeURIComponent(segments[segments.length - 1]) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Public URL of a news article in one language
+ */
+export function newsArticleUrl(tenant: SiteTenant, language: string, slug: string): string {
+  return siteUrl(tenant, entityPath('NEWS_ARTICLE', language, slug));
+}
+
+/**
+ * Public URL of a content page in one language
+ */
+export function contentPageUrl(tenant: SiteTenant, language: string, slug: string): string {
+  return siteUrl(tenant, entityPath('CONTENT', language, slug));
+}
+
+/**
+ * Public URL of a merch product in one language
+ */
+export function merchProductUrl(tenant: SiteTenant, language: string, slug: string): string {
+  return siteUrl(tenant, entityPath('MERCH_PRODUCT', language, slug));
+}
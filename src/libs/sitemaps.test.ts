@@ -0,0 +1,94 @@
+import {
+  DEFAULT_ROBOTS_CONFIG,
+  parseRobotsConfig,
+  renderRobotsTxt,
+  renderSitemapIndex,
+  renderUrlSet,
+} from './sitemaps';
+
+describe('renderUrlSet', () => {
+  it('lists every language version of a URL with escaped locations', () => {
+    const xml = renderUrlSet([
+      {
+        url: 'https://news.test/en/news/a?x=1&y=2',
+        updatedAt: new Date('2024-01-02T00:00:00Z'),
+        alternates: [
+          { hreflang: 'en', url: 'https://news.test/en/news/a?x=1&y=2' },
+          { hreflang: 'mn', url: 'https://news.test/mn/news/a' },
+          { hreflang: 'x-default', url: 'https://news.test/en/news/a?x=1&y=2' },
+        ],
+      },
+    ]);
+
+    expect(xml).toContain(
+      '<url><loc>https://news.test/en/news/a?x=1&amp;y=2</loc><lastmod>2024-01-02T00:00:00.000Z</lastmod>'
+    );
+    expect(xml).toContain(
+      '<xhtml:link rel="alternate" hreflang="mn" href="https://news.test/mn/news/a"/>'
+    );
+    expect(xml.match(/<xhtml:link /g)).toHaveLength(3);
+  });
+});
+
+describe('renderSitemapIndex', () => {
+  it('leaves out lastmod for sitemaps without a known update time', () => {
+    const xml = renderSitemapIndex([
+      { url: 'https://news.test/sitemaps/news-1.xml', updatedAt: new Date('2024-01-02T00:00:00Z') },
+      { url: 'https://news.test/sitemaps/pages-1.xml', updatedAt: null },
+    ]);
+
+    expect(xml).toContain('<lastmod>2024-01-02T00:00:00.000Z</lastmod>');
+    expect(xml).toContain('<sitemap><loc>https://news.test/sitemaps/pages-1.xml</loc></sitemap>');
+  });
+});
+
+describe('parseRobotsConfig', () => {
+  it('falls back to the defaults for missing or malformed values', () => {
+    expect(parseRobotsConfig(null)).toEqual(DEFAULT_ROBOTS_CONFIG);
+    expect(parseRobotsConfig(['/admin'])).toEqual(DEFAULT_ROBOTS_CONFIG);
+    expect(
+      parseRobotsConfig({ allow: 'all', disallow: ['/admin', 3], crawlDelay: '5', extra: ' ' })
+    ).toEqual({ ...DEFAULT_ROBOTS_CONFIG, disallow: ['/admin'] });
+  });
+});
+
+describe('renderRobotsTxt', () => {
+  const sitemapUrl = 'https://news.test/sitemaps/index.xml';
+
+  it('allows everything by default and points at the sitemap', () => {
+    expect(renderRobotsTxt(DEFAULT_ROBOTS_CONFIG, sitemapUrl)).toBe(
+      `User-agent: *\nDisallow:\n\nSitemap: ${sitemapUrl}\n`
+    );
+  });
+
+  it('writes the configured rules', () => {
+    const robots = parseRobotsConfig({
+      allow: ['/news'],
+      disallow: ['/preview'],
+      crawlDelay: 10,
+      extra: 'User-agent: GPTBot\nDisallow: /',
+    });
+
+    expect(renderRobotsTxt(robots, sitemapUrl)).toBe(
+      [
+        'User-agent: *',
+        'Allow: /news',
+        'Disallow: /preview',
+        'Crawl-delay: 10',
+        '',
+        'User-agent: GPTBot',
+        'Disallow: /',
+        '',
+        `Sitemap: ${sitemapUrl}`,
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('disallows every path when indexing is turned off', () => {
+    const robots = parseRobotsConfig({ allowIndexing: false, allow: ['/news'] });
+
+    expect(renderRobotsTxt(robots, sitemapUrl)).toContain('User-agent: *\nDisallow: /\n');
+    expect(renderRobotsTxt(robots, sitemapUrl)).not.toContain('Allow: /news');
+  });
+});
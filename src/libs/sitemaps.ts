@@ -0,0 +1,142 @@
+/**
+ * Sitemap and robots.txt Serializers
+ * Builds sitemaps.org documents with hreflang alternates and robots.txt from tenant rules
+ */
+
+import { escapeXml } from '@/utils';
+
+/**
+ * Protocol limit on URLs in one sitemap document
+ */
+export const MAX_SITEMAP_URLS = 50000;
+
+/**
+ * Tenant setting holding the robots.txt rules
+ */
+export const ROBOTS_SETTING = 'robots_txt';
+
+export interface SitemapAlternate {
+  /** Language code, or `x-default` */
+  hreflang: string;
+  url: string;
+}
+
+export interface SitemapUrl {
+  url: string;
+  updatedAt: Date;
+  alternates: SitemapAlternate[];
+}
+
+export interface SitemapReference {
+  url: string;
+  updatedAt: Date | null;
+}
+
+/**
+ * Crawler rules stored in the `robots_txt` setting
+ */
+export interface RobotsConfig {
+  /** When false every path is disallowed, e.g. while a site is being built */
+  allowIndexing: boolean;
+  allow: string[];
+  disallow: string[];
+  crawlDelay: number | null;
+  /** Raw lines appended after the generated rules */
+  extra: string | null;
+}
+
+export const DEFAULT_ROBOTS_CONFIG: RobotsConfig = {
+  allowIndexing: true,
+  allow: [],
+  disallow: [],
+  crawlDelay: null,
+  extra: null,
+};
+
+/**
+ * Read stored robots rules, falling back to the defaults for missing or malformed values
+ */
+export function parseRobotsConfig(value: any): RobotsConfig {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ...DEFAULT_ROBOTS_CONFIG };
+  }
+
+  const paths = (list: any) =>
+    Array.isArray(list) ? list.filter((path: any) => typeof path === 'string') : [];
+
+  return {
+    allowIndexing: value.allowIndexing !== false,
+    allow: paths(value.allow),
+    disallow: paths(value.disallow),
+    crawlDelay: Number.isInteger(value.crawlDelay) ? value.crawlDelay : null,
+    extra: typeof value.extra === 'string' && value.extra.trim() ? value.extra : null,
+  };
+}
+
+/**
+ * Serialize a `urlset`; every URL lists all of its language versions, itself included
+ */
+export function renderUrlSet(urls: SitemapUrl[]): string {
+  const entries = urls.map(entry =>
+    [
+      '<url>',
+      `<loc>${escapeXml(entry.url)}</loc>`,
+      `<lastmod>${entry.updatedAt.toISOString()}</lastmod>`,
+      ...entry.alternates.map(
+        alternate =>
+          `<xhtml:link rel="alternate" hreflang="${escapeXml(alternate.hreflang)}" href="${escapeXml(alternate.url)}"/>`
+      ),
+      '</url>',
+    ].join('')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...entries,
+    '</urlset>',
+  ].join('\n');
+}
+
+/**
+ * Serialize a `sitemapindex` pointing at child sitemaps
+ */
+export function renderSitemapIndex(sitemaps: SitemapReference[]): string {
+  const entries = sitemaps.map(sitemap =>
+    [
+      '<sitemap>',
+      `<loc>${escapeXml(sitemap.url)}</loc>`,
+      sitemap.updatedAt ? `<lastmod>${sitemap.updatedAt.toISOString()}</lastmod>` : '',
+      '</sitemap>',
+    ].join('')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries,
+    '</sitemapindex>',
+  ].join('\n');
+}
+
+/**
+ * Serialize robots.txt for all user agents, ending with the sitemap location
+ */
+export function renderRobotsTxt(robots: RobotsConfig, sitemapUrl: string): string {
+  const lines = ['User-agent: *'];
+
+  if (robots.allowIndexing) {
+    lines.push(...robots.allow.map(path => `Allow: ${path}`));
+    lines.push(...robots.disallow.map(path => `Disallow: ${path}`));
+    if (!robots.allow.length && !robots.disallow.length) lines.push('Disallow:');
+  } else {
+    lines.push('Disallow: /');
+  }
+
+  if (robots.crawlDelay !== null) lines.push(`Crawl-delay: ${robots.crawlDelay}`);
+  if (robots.extra) lines.push('', robots.extra.trim());
+
+  lines.push('', `Sitemap: ${sitemapUrl}`);
+
+  return `${lines.join('\n')}\n`;
+}
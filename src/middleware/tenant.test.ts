@@ -0,0 +1,63 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { TENANT_HEADER, TenantMiddleware } from './tenant';
+import { prisma } from '@/database/prisma';
+
+jest.mock('@/database/prisma', () => ({
+  prisma: { tenant: { findFirst: jest.fn() } },
+}));
+
+const findFirst = prisma.tenant.findFirst as jest.Mock;
+
+describe('TenantMiddleware', () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(done => {
+    const app = express();
+    app.use('/graphql', TenantMiddleware.resolve(), TenantMiddleware.handleErrors(), (req, res) => {
+      res.json({ tenant: req.tenant?.id ?? null });
+    });
+    server = app.listen(0, () => {
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  it('answers an unknown tenant header with a GraphQL error body', async () => {
+    findFirst.mockResolvedValue(null);
+
+    const response = await fetch(url, { headers: { [TENANT_HEADER]: 'missing' } });
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get('content-type')).toMatch(/application\/json/);
+    expect(await response.json()).toEqual({
+      errors: [{ message: 'Tenant not found', code: 'TENANT_ERROR' }],
+    });
+  });
+
+  it('answers a suspended tenant with a 403 GraphQL error body', async () => {
+    findFirst.mockResolvedValue({ id: 'tenant-1', status: 'SUSPENDED' });
+
+    const response = await fetch(url, { headers: { [TENANT_HEADER]: 'tenant-1' } });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      errors: [{ message: 'Tenant is suspended', code: 'TENANT_ERROR' }],
+    });
+  });
+
+  it('passes an active tenant through to the next handler', async () => {
+    findFirst.mockResolvedValue({ id: 'tenant-1', status: 'ACTIVE' });
+
+    const response = await fetch(url, { headers: { [TENANT_HEADER]: 'tenant-1' } });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ tenant: 'tenant-1' });
+  });
+});
@@ -0,0 +1,172 @@
+import { Request, Response, NextFunction } from 'express';
+import { Tenant as PrismaTenant } from '@prisma/client';
+import { config } from '@/config';
+import { prisma } from '@/database/prisma';
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('TENANT_MIDDLEWARE');
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      tenant?: PrismaTenant;
+      tenantSource?: TenantSource;
+    }
+  }
+}
+
+/**
+ * Where the request's tenant was resolved from
+ */
+export type TenantSource = 'header' | 'domain' | 'subdomain' | 'default';
+
+/**
+ * Tenant statuses that may not serve any request
+ */
+const BLOCKED_TENANT_STATUSES = ['SUSPENDED', 'ARCHIVED', 'INACTIVE'];
+
+/**
+ * Header carrying a tenant slug or ID (already allowed by CORS)
+ */
+export const TENANT_HEADER = 'x-tenant-id';
+
+/**
+ * Tenant resolution middleware
+ * Resolves the tenant from X-Tenant-ID, the custom domain, a subdomain slug or the default slug
+ */
+export class TenantMiddleware {
+  /**
+   * Strip port and `www.` from the Host header
+   */
+  private static normalizeHost(host?: string): string | null {
+    if (!host) return null;
+    return host
+      .split(':')[0]
+      .toLowerCase()
+      .replace(/^www\./, '');
+  }
+
+  /**
+   * Extract the tenant slug from `<slug>.<TENANT_BASE_DOMAIN>`
+   */
+  private static subdomainSlug(host: string): string | null {
+    const baseDomain = config.tenant.baseDomain;
+    if (!baseDomain || !host.endsWith(`.${baseDomain}`)) return null;
+
+    const subdomain = host.slice(0, -(baseDomain.length + 1));
+    // Only a single label counts as a tenant slug
+    return subdomain && !subdomain.includes('.') ? subdomain : null;
+  }
+
+  /**
+   * Resolve the tenant for a request without applying status checks
+   */
+  static async resolveTenant(
+    req: Request
+  ): Promise<{ tenant: PrismaTenant | null; source: TenantSource }> {
+    const headerValue = req.get(TENANT_HEADER)?.trim();
+    if (headerValue) {
+      const tenant = await prisma.tenant.findFirst({
+        where: {
+          OR: [{ slug: headerValue.toLowerCase() }, { id: headerValue }],
+          deletedAt: null,
+        },
+      });
+      return { tenant, source: 'header' };
+    }
+
+    const host = TenantMiddleware.normalizeHost(req.get('X-Forwarded-Host') || req.get('Host'));
+    if (host) {
+      const byDomain = await prisma.tenant.findFirst({
+        where: { domain: host, deletedAt: null },
+      });
+      if (byDomain) return { tenant: byDomain, source: 'domain' };
+
+      const slug = TenantMiddleware.subdomainSlug(host);
+      if (slug) {
+        const bySubdomain = await prisma.tenant.findFirst({
+          where: { slug, deletedAt: null },
+        });
+        if (bySubdomain) return { tenant: bySubdomain, source: 'subdomain' };
+      }
+    }
+
+    const fallback = await prisma.tenant.findFirst({
+      where: { slug: config.tenant.defaultSlug, deletedAt: null },
+    });
+    return { tenant: fallback, source: 'default' };
+  }
+
+  /**
+   * Express middleware that attaches `req.tenant`
+   * An explicitly requested but unknown tenant is a 404; blocked tenants are a 403
+   */
+  static resolve() {
+    return async (req: Request, _res: Response, next: NextFunction) => {
+      try {
+        const { tenant, source } = await TenantMiddleware.resolveTenant(req);
+
+        if (!tenant) {
+          if (source === 'header') {
+            throw new AppError('Tenant not found', ErrorType.TENANT_ERROR, 404);
+          }
+          // No default tenant configured - continue without tenant context
+          return next();
+        }
+
+        if (BLOCKED_TENANT_STATUSES.includes(tenant.status)) {
+          throw new AppError(
+            `Tenant is ${tenant.status.toLowerCase()}`,
+            ErrorType.TENANT_ERROR,
+            403
+          );
+        }
+
+        req.tenant = tenant;
+        req.tenantSource = source;
+        next();
+      } catch (error) {
+        if (!(error instanceof AppError)) {
+          logger.error('Tenant resolution failed', error as Error, { host: req.get('Host') });
+        }
+        next(error);
+      }
+    };
+  }
+
+  /**
+   * Express error middleware that answers tenant resolution failures in the GraphQL error shape
+   * Mounted after `resolve()` so clients parse `{ errors }` instead of a generic Express error page
+   */
+  static handleErrors() {
+    return (error: unknown, _req: Request, res: Response, next: NextFunction) => {
+      if (!(error instanceof AppError) || res.headersSent) {
+        return next(error);
+      }
+
+      res.status(error.statusCode).json({
+        errors: [
+          {
+            message: error.message,
+            code: error.type,
+            ...(error.details && { details: error.details }),
+          },
+        ],
+      });
+    };
+  }
+}
+
+/**
+ * Tenant ID that scopes public reads for the current GraphQL request
+ */
+export function requireTenantId(context: GraphQLContext): string {
+  if (!context.tenant?.id) {
+    throw new AppError('Tenant could not be resolved', ErrorType.TENANT_ERROR, 400);
+  }
+  return context.tenant.id;
+}
+
+export default TenantMiddleware;
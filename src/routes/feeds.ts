@@ -0,0 +1,180 @@
+import { createHash } from 'crypto';
+import { NextFunction, Request, Response, Router } from 'express';
+import { prisma, createTenantPrismaClient } from '@/database/prisma';
+import { AppError, ErrorType } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { fallbackChain, getLocalizedContent, tenantLocaleSettings } from '@/libs/localization';
+import { localizeBlocks } from '@/libs/blocks';
+import { loadBlockMedia, renderBlocksToHtml } from '@/libs/renderer';
+import { newsArticleUrl, siteUrl } from '@/libs/site';
+import { FEED_CONTENT_TYPES, FEED_RENDERERS, Feed, FeedFormat, FeedItem } from '@/libs/feeds';
+
+const logger = createLogger('FEEDS');
+
+/**
+ * Number of articles in a feed
+ */
+const FEED_SIZE = 50;
+
+/**
+ * Feeds may be cached by clients and proxies for this long
+ */
+const FEED_MAX_AGE_SECONDS = 300;
+
+/**
+ * Load an active tenant by slug; unknown and blocked tenants are a 404
+ */
+async function findFeedTenant(slug: string) {
+  const tenant = await prisma.tenant.findFirst({
+    where: { slug: slug.toLowerCase(), status: 'ACTIVE', deletedAt: null },
+  });
+
+  if (!tenant) {
+    throw new AppError('Tenant not found', ErrorType.NOT_FOUND_ERROR, 404);
+  }
+
+  return tenant;
+}
+
+/**
+ * Build the feed for a request and send it with ETag and Last-Modified headers
+ * Express answers 304 when the client's validators still match
+ */
+async function sendNewsFeed(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { tenantSlug, lang, categorySlug, tagSlug } = req.params;
+    const format = req.params.format as FeedFormat;
+
+    if (!FEED_RENDERERS[format]) {
+      throw new AppError('Feed not found', ErrorType.NOT_FOUND_ERROR, 404);
+    }
+
+    const tenant = await findFeedTenant(tenantSlug);
+    const locales = tenantLocaleSettings(tenant.config);
+    if (!locales.supportedLanguages.includes(lang)) {
+      throw new AppError('Feed not found', ErrorType.NOT_FOUND_ERROR, 404);
+    }
+    // Names and bylines missing in the feed language follow the tenant's fallback chain
+    const languages = fallbackChain(locales, lang);
+    const db = createTenantPrismaClient(tenant.id);
+
+    const where: any = {
+      status: 'PUBLISHED',
+      publishedAt: { lte: new Date() },
+      deletedAt: null,
+    };
+    let title = tenant.name;
+
+    if (categorySlug) {
+      const category = await db.newsCategory.findFirst({
+        where: { slug: categorySlug, deletedAt: null },
+      });
+      if (!category) {
+        throw new AppError('News category not found', ErrorType.NOT_FOUND_ERROR, 404);
+      }
+      where.categoryId = category.id;
+      title = `${tenant.name}: ${getLocalizedContent(category.name, languages)}`;
+    }
+
+    if (tagSlug) {
+      const tag = await db.tag.findFirst({
+        where: { slug: tagSlug, deletedAt: null },
+      });
+      if (!tag) {
+        throw new AppError('Tag not found', ErrorType.NOT_FOUND_ERROR, 404);
+      }
+      where.tags = { some: { tagId: tag.id } };
+      title = `${tenant.name}: ${getLocalizedContent(tag.name, languages)}`;
+    }
+
+    const articles = await db.newsArticle.findMany({
+      where,
+      include: {
+        category: true,
+        tags: { include: { tag: true } },
+        featuredImage: true,
+        createdBy: { select: { firstName: true, lastName: true } },
+      },
+      orderBy: { publishedAt: 'desc' },
+      take: FEED_SIZE,
+    });
+
+    // Articles never written in the feed language are left out instead of falling back
+    const localized = articles.filter(article => (article.title as any)?.[lang]);
+
+    const blocksById = new Map(
+      localized.map(article => [article.id, localizeBlocks(article.blocks, lang)])
+    );
+    const media = await loadBlockMedia(db, Array.from(blocksById.values()).flat());
+
+    const items: FeedItem[] = localized.map(article => ({
+      id: `urn:mongolec:news:${article.id}`,
+      url: newsArticleUrl(tenant, lang, article.slug),
+      title: getLocalizedContent(article.title, languages),
+      summary: article.excerpt ? getLocalizedContent(article.excerpt, languages) : null,
+      contentHtml: renderBlocksToHtml(blocksById.get(article.id) || [], { languages, media }),
+      publishedAt: article.publishedAt || article.createdAt,
+      updatedAt: article.updatedAt,
+      author:
+        (article.byline && getLocalizedContent(article.byline, languages)) ||
+        `${article.createdBy.firstName} ${article.createdBy.lastName}`.trim() ||
+        null,
+      categories: [
+        ...(article.category ? [getLocalizedContent(article.category.name, languages)] : []),
+        ...article.tags.map(({ tag }) => getLocalizedContent(tag.name, languages)),
+      ],
+      enclosure:
+        article.featuredImage && !article.featuredImage.deletedAt
+          ? {
+              url: article.featuredImage.url,
+              type: article.featuredImage.mimeType,
+              length: article.featuredImage.size,
+            }
+          : null,
+    }));
+
+    const updatedAt = items.reduce(
+      (latest, item) => (item.updatedAt > latest ? item.updatedAt : latest),
+      items.length ? items[0].updatedAt : tenant.updatedAt
+    );
+
+    const feed: Feed = {
+      title,
+      description: `${title} news`,
+      language: lang,
+      siteUrl: siteUrl(tenant, `/${lang}/news`),
+      feedUrl: `${req.protocol}://${req.get('host')}${req.baseUrl}${req.path}`,
+      updatedAt,
+      items,
+    };
+
+    const body = FEED_RENDERERS[format](feed);
+
+    res.set({
+      'Content-Type': FEED_CONTENT_TYPES[format],
+      'Cache-Control': `public, max-age=${FEED_MAX_AGE_SECONDS}`,
+      'Last-Modified': updatedAt.toUTCString(),
+      ETag: `"${createHash('sha1').update(body).digest('hex')}"`,
+    });
+    res.send(body);
+  } catch (error) {
+    if (!(error instanceof AppError)) {
+      logger.error('Failed to build news feed', error as Error, { path: req.originalUrl });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Syndication routes, mounted at `/feeds`
+ * e.g. `/feeds/:tenantSlug/:lang/news.rss`, `/feeds/:tenantSlug/:lang/categories/:categorySlug/news.atom`
+ */
+export function createFeedRouter(): Router {
+  const router = Router();
+
+  router.get('/:tenantSlug/:lang/news.:format', sendNewsFeed);
+  router.get('/:tenantSlug/:lang/categories/:categorySlug/news.:format', sendNewsFeed);
+  router.get('/:tenantSlug/:lang/tags/:tagSlug/news.:format', sendNewsFeed);
+
+  return router;
+}
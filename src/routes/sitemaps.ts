@@ -0,0 +1,309 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { prisma, createTenantPrismaClient, ExtendedPrismaClient } from '@/database/prisma';
+import { AppError, ErrorType } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { SiteTenant, contentPageUrl, merchProductUrl, newsArticleUrl } from '@/libs/site';
+import { LocaleSettings, tenantLocaleSettings } from '@/libs/localization';
+import {
+  MAX_SITEMAP_URLS,
+  ROBOTS_SETTING,
+  SitemapReference,
+  SitemapUrl,
+  parseRobotsConfig,
+  renderRobotsTxt,
+  renderSitemapIndex,
+  renderUrlSet,
+} from '@/libs/sitemaps';
+
+const logger = createLogger('SITEMAPS');
+
+/**
+ * Records per child sitemap; each record yields one URL per language of the tenant
+ */
+function sitemapPageSize(locales: LocaleSettings): number {
+  return Math.floor(MAX_SITEMAP_URLS / locales.supportedLanguages.length);
+}
+
+/**
+ * Sitemaps and robots.txt may be cached by clients and proxies for this long
+ */
+const SITEMAP_MAX_AGE_SECONDS = 3600;
+
+type SitemapSection = 'news' | 'pages' | 'products';
+
+interface SitemapRecord {
+  slug: string;
+  /** Localized title or name; languages without one are left out */
+  title: any;
+  updatedAt: Date;
+}
+
+interface SectionSource {
+  count: (db: ExtendedPrismaClient) => Promise<number>;
+  lastModified: (db: ExtendedPrismaClient) => Promise<Date | null>;
+  load: (db: ExtendedPrismaClient, skip: number, take: number) => Promise<SitemapRecord[]>;
+  url: (tenant: SiteTenant, language: string, slug: string) => string;
+}
+
+const publishedNews = () => ({
+  status: 'PUBLISHED' as const,
+  publishedAt: { lte: new Date() },
+  deletedAt: null,
+});
+
+const publishedPages = () => ({
+  type: 'PAGE' as const,
+  status: 'PUBLISHED' as const,
+  deletedAt: null,
+});
+
+const activeProducts = () => ({
+  status: 'ACTIVE' as const,
+  deletedAt: null,
+});
+
+/**
+ * Published news, published content pages and active merch products
+ * Records are paged in id order so pages stay stable while content is edited
+ */
+const SECTIONS: Record<SitemapSection, SectionSource> = {
+  news: {
+    count: db => db.newsArticle.count({ where: publishedNews() }),
+    lastModified: async db =>
+      (await db.newsArticle.aggregate({ where: publishedNews(), _max: { updatedAt: true } }))._max
+        .updatedAt,
+    load: (db, skip, take) =>
+      db.newsArticle.findMany({
+        where: publishedNews(),
+        select: { slug: true, title: true, updatedAt: true },
+        orderBy: { id: 'asc' },
+        skip,
+        take,
+      }),
+    url: newsArticleUrl,
+  },
+  pages: {
+    count: db => db.content.count({ where: publishedPages() }),
+    lastModified: async db =>
+      (await db.content.aggregate({ where: publishedPages(), _max: { updatedAt: true } }))._max
+        .updatedAt,
+    load: (db, skip, take) =>
+      db.content.findMany({
+        where: publishedPages(),
+        select: { slug: true, title: true, updatedAt: true },
+        orderBy: { id: 'asc' },
+        skip,
+        take,
+      }),
+    url: contentPageUrl,
+  },
+  products: {
+    count: db => db.merchProduct.count({ where: activeProducts() }),
+    lastModified: async db =>
+      (await db.merchProduct.aggregate({ where: activeProducts(), _max: { updatedAt: true } }))._max
+        .updatedAt,
+    load: async (db, skip, take) =>
+      (
+        await db.merchProduct.findMany({
+          where: activeProducts(),
+          select: { slug: true, name: true, updatedAt: true },
+          orderBy: { id: 'asc' },
+          skip,
+          take,
+        })
+      ).map(({ name, ...product }) => ({ ...product, title: name })),
+    url: merchProductUrl,
+  },
+};
+
+const SECTION_NAMES = Object.keys(SECTIONS) as SitemapSection[];
+
+/**
+ * Load an active tenant by slug; unknown and blocked tenants are a 404
+ */
+async function findSitemapTenant(slug: string) {
+  const tenant = await prisma.tenant.findFirst({
+    where: { slug: slug.toLowerCase(), status: 'ACTIVE', deletedAt: null },
+  });
+
+  if (!tenant) {
+    throw new AppError('Tenant not found', ErrorType.NOT_FOUND_ERROR, 404);
+  }
+
+  return tenant;
+}
+
+/**
+ * One sitemap URL per tenant language a record is written in, each listing every
+ * language version plus `x-default` (the default language when the record has it)
+ */
+function toSitemapUrls(
+  tenant: SiteTenant,
+  locales: LocaleSettings,
+  section: SectionSource,
+  records: SitemapRecord[]
+) {
+  return records.flatMap(record => {
+    const languages = locales.supportedLanguages.filter(language => record.title?.[language]);
+    if (!languages.length) return [];
+
+    const xDefault = languages.includes(locales.defaultLanguage)
+      ? locales.defaultLanguage
+      : languages[0];
+    const alternates = [
+      ...languages.map(language => ({
+        hreflang: language,
+        url: section.url(tenant, language, record.slug),
+      })),
+      { hreflang: 'x-default', url: section.url(tenant, xDefault, record.slug) },
+    ];
+
+    return languages.map(
+      (language): SitemapUrl => ({
+        url: section.url(tenant, language, record.slug),
+        updatedAt: record.updatedAt,
+        alternates,
+      })
+    );
+  });
+}
+
+/**
+ * Absolute URL of a document under this router
+ */
+function routerUrl(req: Request, pathname: string): string {
+  return `${req.protocol}://${req.get('host')}${req.baseUrl}${pathname}`;
+}
+
+function sendXml(res: Response, body: string) {
+  res.set({
+    'Content-Type': 'application/xml; charset=utf-8',
+    'Cache-Control': `public, max-age=${SITEMAP_MAX_AGE_SECONDS}`,
+  });
+  res.send(body);
+}
+
+/**
+ * Root sitemap: a single `urlset` for small sites, otherwise an index of paged
+ * per-section sitemaps
+ */
+async function sendSitemap(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tenant = await findSitemapTenant(req.params.tenantSlug);
+    const db = createTenantPrismaClient(tenant.id);
+    const locales = tenantLocaleSettings(tenant.config);
+    const pageSize = sitemapPageSize(locales);
+
+    const counts = await Promise.all(SECTION_NAMES.map(name => SECTIONS[name].count(db)));
+    const total = counts.reduce((sum, count) => sum + count, 0);
+
+    if (total <= pageSize) {
+      const urls: SitemapUrl[] = [];
+      for (const name of SECTION_NAMES) {
+        const records = await SECTIONS[name].load(db, 0, pageSize);
+        urls.push(...toSitemapUrls(tenant, locales, SECTIONS[name], records));
+      }
+      return sendXml(res, renderUrlSet(urls));
+    }
+
+    const sitemaps: SitemapReference[] = [];
+    for (const [index, name] of SECTION_NAMES.entries()) {
+      if (!counts[index]) continue;
+
+      const updatedAt = await SECTIONS[name].lastModified(db);
+      const pages = Math.ceil(counts[index] / pageSize);
+      for (let page = 1; page <= pages; page++) {
+        sitemaps.push({
+          url: routerUrl(req, `/${tenant.slug}/sitemap-${name}-${page}.xml`),
+          updatedAt,
+        });
+      }
+    }
+
+    sendXml(res, renderSitemapIndex(sitemaps));
+  } catch (error) {
+    if (!(error instanceof AppError)) {
+      logger.error('Failed to build sitemap', error as Error, { path: req.originalUrl });
+    }
+    next(error);
+  }
+}
+
+/**
+ * One page of a section, referenced from the sitemap index
+ */
+async function sendSectionSitemap(req: Request, res: Response, next: NextFunction) {
+  try {
+    const section = SECTIONS[req.params.section as SitemapSection];
+    const page = Number(req.params.page);
+
+    if (
+      !SECTION_NAMES.includes(req.params.section as SitemapSection) ||
+      !Number.isInteger(page) ||
+      page < 1
+    ) {
+      throw new AppError('Sitemap not found', ErrorType.NOT_FOUND_ERROR, 404);
+    }
+
+    const tenant = await findSitemapTenant(req.params.tenantSlug);
+    const db = createTenantPrismaClient(tenant.id);
+    const locales = tenantLocaleSettings(tenant.config);
+    const pageSize = sitemapPageSize(locales);
+
+    const records = await section.load(db, (page - 1) * pageSize, pageSize);
+    if (!records.length && page > 1) {
+      throw new AppError('Sitemap not found', ErrorType.NOT_FOUND_ERROR, 404);
+    }
+
+    sendXml(res, renderUrlSet(toSitemapUrls(tenant, locales, section, records)));
+  } catch (error) {
+    if (!(error instanceof AppError)) {
+      logger.error('Failed to build sitemap', error as Error, { path: req.originalUrl });
+    }
+    next(error);
+  }
+}
+
+/**
+ * robots.txt built from the tenant's `robots_txt` setting
+ */
+async function sendRobotsTxt(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tenant = await findSitemapTenant(req.params.tenantSlug);
+
+    const setting = await prisma.setting.findUnique({
+      where: { key_tenantId: { key: ROBOTS_SETTING, tenantId: tenant.id } },
+    });
+
+    const body = renderRobotsTxt(
+      parseRobotsConfig(setting?.value),
+      routerUrl(req, `/${tenant.slug}/sitemap.xml`)
+    );
+
+    res.set({
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': `public, max-age=${SITEMAP_MAX_AGE_SECONDS}`,
+    });
+    res.send(body);
+  } catch (error) {
+    if (!(error instanceof AppError)) {
+      logger.error('Failed to build robots.txt', error as Error, { path: req.originalUrl });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Crawler routes, mounted at `/sitemaps`
+ * e.g. `/sitemaps/:tenantSlug/sitemap.xml`, `/sitemaps/:tenantSlug/sitemap-news-2.xml`,
+ * `/sitemaps/:tenantSlug/robots.txt`
+ */
+export function createSitemapRouter(): Router {
+  const router = Router();
+
+  router.get('/:tenantSlug/sitemap.xml', sendSitemap);
+  router.get('/:tenantSlug/sitemap-:section-:page.xml', sendSectionSitemap);
+  router.get('/:tenantSlug/robots.txt', sendRobotsTxt);
+
+  return router;
+}
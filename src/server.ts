@@ -1,6 +1,7 @@
 import express from 'express';
 import { ApolloServer } from '@apollo/server';
 import { expressMiddleware } from '@as-integrations/express4';
+import { unwrapResolverError } from '@apollo/server/errors';
 import { ApolloServerPluginDrainHttpServer } from '@apollo/server/plugin/drainHttpServer';
 import { ApolloServerPluginLandingPageLocalDefault } from '@apollo/server/plugin/landingPage/default';
 import http from 'http';
@@ -12,9 +13,23 @@ import { config } from '@/config';
 import { typeDefs } from '@/graphql/schema';
 import { resolvers } from '@/graphql/resolvers';
 import { GraphQLContext } from '@/types';
-import { prisma, databaseClient } from '@/database/prisma';
+import { prisma, databaseClient, createTenantPrismaClient } from '@/database/prisma';
 import { redisClient } from '@/database/redis';
-// Middleware temporarily disabled for troubleshooting
+import { loadUserAccess } from '@/auth/permissions';
+import {
+  ACCESS_TOKEN_COOKIE,
+  clearAuthCookies,
+  isTenantActive,
+  revokeSession,
+  verifyAccessToken,
+} from '@/auth/sessions';
+import { authenticateApiToken } from '@/auth/api-tokens';
+import { GraphQLError } from 'graphql';
+import { TenantMiddleware } from '@/middleware/tenant';
+import { webhookDispatcher } from '@/services/webhooks';
+import { publishingScheduler } from '@/services/scheduler';
+import { createFeedRouter } from '@/routes/feeds';
+import { createSitemapRouter } from '@/routes/sitemaps';
 import { createLogger, logRequest } from '@/utils/logger';
 import { AppError, ErrorType } from '@/types';
 
@@ -79,6 +94,9 @@ export class GraphQLServer {
       
       // Error formatting
       formatError: (formattedError, error) => {
+        // Resolver errors arrive wrapped in a GraphQLError
+        const originalError = unwrapResolverError(error);
+
         // Log error details
         logger.error('GraphQL error occurred', error as Error, {
           formattedError,
@@ -87,7 +105,7 @@ export class GraphQLServer {
         });
 
         // Don't expose internal errors in production
-        if (config.isProduction && !(error instanceof AppError)) {
+        if (config.isProduction && !(originalError instanceof AppError)) {
           return {
             message: 'Internal server error',
             code: 'INTERNAL_ERROR',
@@ -98,7 +116,13 @@ export class GraphQLServer {
 
         return {
           message: formattedError.message,
-          code: (error as any)?.code || 'UNKNOWN_ERROR',
+          code:
+            originalError instanceof AppError
+              ? originalError.type
+              : (error as any)?.code || 'UNKNOWN_ERROR',
+          // Field-level validation errors and similar structured details
+          ...(originalError instanceof AppError &&
+            originalError.details && { details: originalError.details }),
           path: formattedError.path,
           locations: formattedError.locations,
           ...(config.isDevelopment && { stack: (formattedError as any).stack }),
@@ -201,33 +225,72 @@ export class GraphQLServer {
       });
     }
 
+    // RSS, Atom and JSON feeds of published news per tenant and language
+    this.app.use('/feeds', createFeedRouter());
+
+    // XML sitemaps with hreflang alternates and robots.txt per tenant
+    this.app.use('/sitemaps', createSitemapRouter());
+
     // GraphQL endpoint with context creation (Apollo's default landing page auto-serves)
+    // Tenant is resolved from X-Tenant-ID, custom domain or subdomain before the context is built
     this.app.use('/graphql',
+      TenantMiddleware.resolve(),
+      TenantMiddleware.handleErrors(),
       expressMiddleware(this.apolloServer, {
         context: async ({ req, res }): Promise<GraphQLContext> => {
-          // Extract token from cookies instead of Authorization header
-          const token = req.cookies['auth-token'];
+          // Extract token from cookies; machine clients send an API token as Bearer instead
+          const token = req.cookies[ACCESS_TOKEN_COOKIE];
+          const authorization = req.headers.authorization;
 
           let user = null;
-          let tenant = null;
+          // Anonymous requests use the resolved tenant; authenticated ones are pinned to their own
+          let tenant: any = req.tenant ?? null;
+          let sessionId: string | undefined;
+          let apiTokenId: string | undefined;
+
+          if (authorization?.startsWith('Bearer ')) {
+            const auth = await authenticateApiToken(prisma, authorization.slice(7).trim());
+            if (!auth) {
+              throw new GraphQLError('Invalid or expired API token', {
+                extensions: { code: 'UNAUTHENTICATED', http: { status: 401 } },
+              });
+            }
 
-          if (token) {
+            user = auth.user;
+            tenant = auth.tenant;
+            apiTokenId = auth.apiTokenId;
+          } else if (token) {
             try {
-              const jwt = await import('jsonwebtoken');
-              const payload = jwt.verify(token, process.env.JWT_SECRET!) as any;
+              // Rejects expired tokens and tokens whose session was revoked
+              const payload = await verifyAccessToken(token);
+              if (!payload) {
+                throw new Error('Invalid or revoked access token');
+              }
 
               // Get user from database
-              user = await prisma.user.findUnique({
+              const dbUser = await prisma.user.findUnique({
                 where: { id: payload.id },
                 include: { tenant: true }
               });
 
-              if (user) {
-                tenant = user.tenant;
+              if (dbUser && dbUser.isActive && !dbUser.deletedAt && isTenantActive(dbUser.tenant)) {
+                // Load roles and effective permissions for authorization checks
+                user = {
+                  id: dbUser.id,
+                  email: dbUser.email,
+                  tenantId: dbUser.tenantId,
+                  ...(await loadUserAccess(prisma, dbUser.id)),
+                };
+                tenant = dbUser.tenant;
+                sessionId = payload.sid;
+              } else if (dbUser && !isTenantActive(dbUser.tenant)) {
+                // Suspended or deleted tenant - end the session family so it cannot be refreshed
+                await revokeSession(payload.sid);
+                clearAuthCookies(res);
               }
             } catch (error) {
-              // Invalid token - clear the cookie
-              res.clearCookie('auth-token', {
+              // Invalid token - clear the cookie; the refresh token cookie is kept for refreshSession
+              res.clearCookie(ACCESS_TOKEN_COOKIE, {
                 httpOnly: true,
                 secure: process.env.NODE_ENV === 'production',
                 sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
@@ -239,10 +302,13 @@ export class GraphQLServer {
           return {
             req,
             res,
-            prisma,
+            // Queries on tenant models are confined to the request tenant
+            prisma: tenant ? createTenantPrismaClient(tenant.id) : prisma,
             redis: redisClient.isHealthy() ? redisClient.getClient() : null as any,
             user,
             tenant,
+            sessionId,
+            apiTokenId,
             dataSources: {
               userService: null,
               tenantService: null,
@@ -317,6 +383,10 @@ export class GraphQLServer {
       // Set up Express middleware
       this.setupMiddleware();
 
+      // Start background webhook retries and scheduled publishing
+      webhookDispatcher.start();
+      publishingScheduler.start();
+
       // Start HTTP server
       await new Promise<void>((resolve) => {
         this.httpServer.listen(config.port, config.host, () => {
@@ -344,6 +414,10 @@ export class GraphQLServer {
     try {
       logger.info('Shutting down GraphQL server...');
 
+      // Stop background workers
+      webhookDispatcher.stop();
+      publishingScheduler.stop();
+
       // Stop Apollo Server
       await this.apolloServer.stop();
       logger.info('Apollo Server stopped');
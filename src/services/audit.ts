@@ -0,0 +1,128 @@
+import { AuditAction, Prisma } from '@prisma/client';
+import { prisma, ExtendedPrismaClient } from '@/database/prisma';
+import { GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('AUDIT');
+
+/**
+ * Fields never written to the audit trail
+ */
+const IGNORED_FIELDS = new Set(['password', 'updatedAt']);
+
+/**
+ * Audit log entry for a single action
+ */
+export interface AuditEntry {
+  /** Prisma model name, e.g. `NewsArticle` */
+  entity: string;
+  entityId: string;
+  action: AuditAction;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  metadata?: Record<string, any>;
+  /** Defaults to the request tenant */
+  tenantId?: string;
+  /** Defaults to the authenticated user */
+  userId?: string;
+}
+
+/**
+ * Field-level change recorded in `AuditLog.changes`
+ */
+export interface FieldChange {
+  from: any;
+  to: any;
+}
+
+/**
+ * Scalar field names of a model; relations loaded via `include` are not audited
+ */
+function scalarFields(entity: string): Set<string> | null {
+  const model = Prisma.dmmf.datamodel.models.find(m => m.name === entity);
+  if (!model) return null;
+  return new Set(model.fields.filter(field => field.kind !== 'object').map(field => field.name));
+}
+
+/**
+ * Convert a value into its JSON representation (Dates become ISO strings)
+ */
+function toJson(value: any): any {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Compute a before/after diff of two records
+ * Creates diff against nothing and deletes diff to nothing
+ */
+export function diffRecords(
+  entity: string,
+  before?: Record<string, any> | null,
+  after?: Record<string, any> | null
+): Record<string, FieldChange> {
+  const fields = scalarFields(entity);
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: Record<string, FieldChange> = {};
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key) || (fields && !fields.has(key))) continue;
+
+    const from = toJson(before?.[key]);
+    const to = toJson(after?.[key]);
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Write an audit log entry for the current request
+ * Background jobs pass a null context and an explicit tenantId; passing a transaction
+ * client writes the entry only if that transaction commits
+ * Failures are logged and never fail the audited operation
+ */
+export async function recordAudit(
+  context: GraphQLContext | null,
+  entry: AuditEntry,
+  client: Pick<ExtendedPrismaClient, 'auditLog'> = prisma
+): Promise<void> {
+  const tenantId = entry.tenantId || context?.tenant?.id || context?.user?.tenantId;
+  if (!tenantId) {
+    logger.warn('Audit entry without tenant skipped', {
+      entity: entry.entity,
+      entityId: entry.entityId,
+      action: entry.action,
+    });
+    return;
+  }
+
+  try {
+    // Unscoped client: platform-admin actions are logged in the affected tenant
+    await client.auditLog.create({
+      data: {
+        entity: entry.entity,
+        entityId: entry.entityId,
+        action: entry.action,
+        changes: diffRecords(entry.entity, entry.before, entry.after),
+        metadata: {
+          ...(context?.apiTokenId && { apiTokenId: context.apiTokenId }),
+          ...(context?.sessionId && { sessionId: context.sessionId }),
+          ...entry.metadata,
+        },
+        ipAddress: context?.req?.ip,
+        userAgent: context?.req?.get('User-Agent'),
+        tenantId,
+        userId: entry.userId || context?.user?.id,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to write audit log', error as Error, {
+      entity: entry.entity,
+      entityId: entry.entityId,
+      action: entry.action,
+    });
+  }
+}
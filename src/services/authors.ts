@@ -0,0 +1,76 @@
+import { AppError, ErrorType } from '@/types';
+import type { ExtendedPrismaClient } from '@/database/prisma';
+import { localizedText } from '@/libs/localization';
+
+type AuthorClient = Pick<ExtendedPrismaClient, 'authorProfile'>;
+
+/**
+ * Check that author profile ids exist in the tenant and are not deleted
+ * Returns the ids without duplicates, in byline order
+ */
+export async function resolveAuthorIds(
+  client: AuthorClient,
+  authorIds: string[]
+): Promise<string[]> {
+  const ids = Array.from(new Set(authorIds));
+  if (ids.length === 0) return [];
+
+  const authors = await client.authorProfile.findMany({
+    where: { id: { in: ids }, deletedAt: null },
+    select: { id: true },
+  });
+
+  const found = new Set(authors.map(author => author.id));
+  const missing = ids.filter(id => !found.has(id));
+  if (missing.length > 0) {
+    throw new AppError('Unknown author profiles', ErrorType.VALIDATION_ERROR, 400, true, {
+      contributorIds: missing,
+    });
+  }
+
+  return ids;
+}
+
+/**
+ * Contributors of a new article when none are given: the creator's own profile, if any
+ */
+export async function defaultContributorIds(
+  client: AuthorClient,
+  userId: string
+): Promise<string[]> {
+  const profile = await client.authorProfile.findFirst({
+    where: { userId, deletedAt: null },
+    select: { id: true },
+  });
+  return profile ? [profile.id] : [];
+}
+
+/**
+ * Nested write that replaces the contributors of a news article, keeping the given order
+ * Link rows are hard-deleted like tag links
+ */
+export function replaceContributorLinks(authorIds: string[]) {
+  return {
+    deleteMany: {},
+    create: contributorLinks(authorIds),
+  };
+}
+
+export function contributorLinks(authorIds: string[]) {
+  return authorIds.map((authorId, position) => ({ authorId, position }));
+}
+
+/**
+ * Read the biography of an author profile in a language; without a language the
+ * request language is used
+ */
+export function localizeAuthorProfile<T extends { bio: any }>(
+  profile: T,
+  language?: string | string[]
+) {
+  if (!language) return profile;
+  return {
+    ...profile,
+    bio: localizedText(profile.bio, language),
+  };
+}
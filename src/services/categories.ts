@@ -0,0 +1,172 @@
+import { AppError, ErrorType } from '@/types';
+import type { ExtendedPrismaClient } from '@/database/prisma';
+import { localizedFields } from '@/libs/localization';
+
+/**
+ * Category models with a `parentId` hierarchy
+ */
+export type CategoryModel = 'newsCategory' | 'merchCategory';
+
+type CategoryClient = Pick<ExtendedPrismaClient, CategoryModel>;
+
+export interface CategoryRecord {
+  id: string;
+  parentId: string | null;
+  name: any;
+  description: any;
+  [key: string]: any;
+}
+
+/**
+ * Load every live category of a tenant; hierarchies are small enough to walk in memory
+ */
+export async function loadCategories(
+  client: CategoryClient,
+  model: CategoryModel,
+  tenantId: string
+): Promise<CategoryRecord[]> {
+  const args = { where: { tenantId, deletedAt: null }, orderBy: { name: 'asc' as const } };
+  return model === 'newsCategory'
+    ? client.newsCategory.findMany(args)
+    : client.merchCategory.findMany(args);
+}
+
+/**
+ * Ancestors of a category from the root down, excluding the category itself
+ * A parent that is deleted or missing ends the chain
+ */
+export function categoryAncestors(categories: CategoryRecord[], id: string): CategoryRecord[] {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const ancestors: CategoryRecord[] = [];
+  const seen = new Set([id]);
+
+  let parentId = byId.get(id)?.parentId;
+  while (parentId && !seen.has(parentId) && byId.has(parentId)) {
+    const parent = byId.get(parentId)!;
+    ancestors.unshift(parent);
+    seen.add(parentId);
+    parentId = parent.parentId;
+  }
+
+  return ancestors;
+}
+
+/**
+ * Ids of every category below a category, at any depth
+ */
+export function categoryDescendantIds(categories: CategoryRecord[], id: string): string[] {
+  const descendants: string[] = [];
+  const seen = new Set([id]);
+  const queue = [id];
+
+  while (queue.length) {
+    const current = queue.shift();
+    for (const category of categories) {
+      if (category.parentId === current && !seen.has(category.id)) {
+        seen.add(category.id);
+        descendants.push(category.id);
+        queue.push(category.id);
+      }
+    }
+  }
+
+  return descendants;
+}
+
+/**
+ * Category filter for news or products: the category alone, or together with its
+ * descendants so that a parent category lists everything filed below it
+ */
+export async function categoryFilter(
+  client: CategoryClient,
+  model: CategoryModel,
+  tenantId: string,
+  categoryId: string,
+  includeDescendants?: boolean
+): Promise<string | { in: string[] }> {
+  if (!includeDescendants) return categoryId;
+
+  const categories = await loadCategories(client, model, tenantId);
+  return { in: [categoryId, ...categoryDescendantIds(categories, categoryId)] };
+}
+
+/**
+ * Check that `parentId` may become the parent of a category: it must be a live
+ * category of the tenant and neither the category itself nor one of its descendants.
+ * `id` is omitted for new categories
+ */
+export async function assertValidCategoryParent(
+  client: CategoryClient,
+  model: CategoryModel,
+  tenantId: string,
+  parentId: string | null | undefined,
+  id?: string
+): Promise<void> {
+  if (!parentId) return;
+
+  if (parentId === id) {
+    throw new AppError('A category cannot be its own parent', ErrorType.VALIDATION_ERROR, 400);
+  }
+
+  const categories = await loadCategories(client, model, tenantId);
+  if (!categories.some(category => category.id === parentId)) {
+    throw new AppError('Parent category not found', ErrorType.VALIDATION_ERROR, 400, true, {
+      parentId,
+    });
+  }
+
+  if (id && categoryDescendantIds(categories, id).includes(parentId)) {
+    throw new AppError(
+      'A category cannot be moved below one of its own subcategories',
+      ErrorType.VALIDATION_ERROR,
+      400,
+      true,
+      { parentId }
+    );
+  }
+}
+
+/**
+ * Read the name and description of a category in a language (or the first translated
+ * language of a fallback chain); without a language the request language is used
+ * With `strict`, untranslated fields are null instead of falling back to another language
+ */
+export function localizeCategory<T extends { name: any; description: any }>(
+  category: T,
+  language?: string | string[],
+  strict = false
+) {
+  if (!language) return category;
+  return {
+    ...category,
+    ...localizedFields(category, ['name', 'description'], language, strict),
+  };
+}
+
+/**
+ * Nest categories under their parents with `children` and `depth` filled in
+ * Categories whose parent is deleted are listed as roots
+ */
+export function buildCategoryTree(
+  categories: CategoryRecord[],
+  language?: string | string[],
+  strict = false
+) {
+  const ids = new Set(categories.map(category => category.id));
+
+  const nest = (parentId: string | null, depth: number, seen: Set<string>): any[] =>
+    categories
+      .filter(category =>
+        parentId
+          ? category.parentId === parentId
+          : !category.parentId || !ids.has(category.parentId)
+      )
+      .filter(category => !seen.has(category.id))
+      .map(category => ({
+        ...localizeCategory(category, language, strict),
+        depth,
+        children: nest(category.id, depth + 1, new Set(seen).add(category.id)),
+      }));
+
+  return nest(null, 0, new Set());
+}
@@ -0,0 +1,105 @@
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import {
+  LANGUAGE_PATTERN,
+  LocaleSettings,
+  fallbackChain,
+  negotiateLanguage,
+  tenantLocaleSettings,
+} from '@/libs/localization';
+
+/**
+ * Locale settings of the request tenant
+ */
+export function requestLocaleSettings(context: GraphQLContext): LocaleSettings {
+  return tenantLocaleSettings(context.tenant?.config);
+}
+
+/**
+ * Check that a language is supported by the request tenant
+ */
+export function assertSupportedLanguage(context: GraphQLContext, language: string): void {
+  const { supportedLanguages } = requestLocaleSettings(context);
+  if (!supportedLanguages.includes(language)) {
+    throw new AppError(`Unsupported language: ${language}`, ErrorType.VALIDATION_ERROR, 400, true, {
+      language,
+      supportedLanguages,
+    });
+  }
+}
+
+/**
+ * Fallback chain for a query's `language` argument; the first entry is the language asked for
+ * Without an argument the language is negotiated from Accept-Language, or else the
+ * tenant default is used
+ */
+export function resolveLanguages(context: GraphQLContext, language?: string | null): string[] {
+  const settings = requestLocaleSettings(context);
+
+  if (language) {
+    assertSupportedLanguage(context, language);
+    return fallbackChain(settings, language);
+  }
+
+  const negotiated = negotiateLanguage(
+    context.req?.get('Accept-Language'),
+    settings.supportedLanguages
+  );
+  return fallbackChain(settings, negotiated ?? settings.defaultLanguage);
+}
+
+/**
+ * Fallback chain for queries that return every translation when no language is given
+ */
+export function resolveOptionalLanguages(
+  context: GraphQLContext,
+  language?: string | null
+): string[] | undefined {
+  return language ? resolveLanguages(context, language) : undefined;
+}
+
+function localeError(message: string, details?: Record<string, any>): AppError {
+  return new AppError(message, ErrorType.VALIDATION_ERROR, 400, true, details);
+}
+
+/**
+ * Validate locale settings sent for a tenant
+ * Fallbacks are given as a list of `{ language, fallbacks }` and may only name supported
+ * languages; a language cannot fall back to itself
+ */
+export function parseLocaleSettings(input: {
+  defaultLanguage: string;
+  supportedLanguages: string[];
+  fallbacks?: { language: string; fallbacks: string[] }[] | null;
+}): LocaleSettings {
+  const supportedLanguages = Array.from(new Set(input.supportedLanguages.map(l => l.trim())));
+
+  const invalid = supportedLanguages.filter(language => !LANGUAGE_PATTERN.test(language));
+  if (supportedLanguages.length === 0 || invalid.length > 0) {
+    throw localeError('Supported languages must be language codes such as en, mn or zh-Hant', {
+      invalid,
+    });
+  }
+
+  if (!supportedLanguages.includes(input.defaultLanguage)) {
+    throw localeError('The default language must be one of the supported languages', {
+      defaultLanguage: input.defaultLanguage,
+    });
+  }
+
+  const fallbacks: Record<string, string[]> = {};
+  for (const entry of input.fallbacks || []) {
+    const chain = Array.from(new Set(entry.fallbacks));
+    const unsupported = [entry.language, ...chain].filter(
+      language => !supportedLanguages.includes(language)
+    );
+    if (unsupported.length > 0) {
+      throw localeError('Fallbacks may only use supported languages', { unsupported });
+    }
+    if (chain.includes(entry.language)) {
+      throw localeError('A language cannot fall back to itself', { language: entry.language });
+    }
+    fallbacks[entry.language] = chain;
+  }
+
+  return { defaultLanguage: input.defaultLanguage, supportedLanguages, fallbacks };
+}
@@ -0,0 +1,211 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import nodemailer from 'nodemailer';
+import { config } from '@/config';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('MAIL');
+
+/**
+ * Outgoing email message
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  from?: string;
+}
+
+/**
+ * Mail transport interface
+ * Implementations deliver a message or throw on failure
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * SMTP transport for production delivery
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: config.mail.smtp.host,
+      port: config.mail.smtp.port,
+      secure: config.mail.smtp.port === 465,
+      auth: config.mail.smtp.user
+        ? { user: config.mail.smtp.user, pass: config.mail.smtp.password }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: message.from || config.mail.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+
+/**
+ * File transport for development - writes each message as JSON to MAIL_FILE_PATH
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string = config.mail.filePath) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const filename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+    const filePath = path.join(this.directory, filename);
+
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ from: config.mail.from, ...message, sentAt: new Date() }, null, 2)
+    );
+
+    logger.info(`Mail written to ${filePath}`, { to: message.to, subject: message.subject });
+  }
+}
+
+/**
+ * In-memory transport for tests - keeps sent messages in `outbox`
+ */
+export class InMemoryMailTransport implements MailTransport {
+  readonly name = 'memory';
+  readonly outbox: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.outbox.push({ from: config.mail.from, ...message });
+  }
+
+  clear(): void {
+    this.outbox.length = 0;
+  }
+}
+
+/**
+ * Create the transport selected by MAIL_TRANSPORT
+ */
+export function createMailTransport(): MailTransport {
+  switch (config.mail.transport) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'memory':
+      return new InMemoryMailTransport();
+    case 'file':
+    default:
+      return new FileMailTransport();
+  }
+}
+
+/**
+ * Mail service wrapping the configured transport
+ */
+class MailService {
+  private transport: MailTransport;
+
+  constructor(transport: MailTransport) {
+    this.transport = transport;
+  }
+
+  /**
+   * Replace the transport (e.g. with an InMemoryMailTransport in tests)
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  getTransport(): MailTransport {
+    return this.transport;
+  }
+
+  /**
+   * Send a message, logging and re-throwing delivery failures
+   */
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send(message);
+      logger.debug('Mail sent', { transport: this.transport.name, to: message.to });
+    } catch (error) {
+      logger.error('Mail delivery failed', error as Error, {
+        transport: this.transport.name,
+        to: message.to,
+        subject: message.subject,
+      });
+      throw error;
+    }
+  }
+}
+
+// Create and export singleton instance
+export const mailService = new MailService(createMailTransport());
+
+/**
+ * Build an absolute link into the admin app
+ */
+function appLink(pathname: string, token: string): string {
+  const url = new URL(pathname, config.mail.appUrl);
+  url.searchParams.set('token', token);
+  return url.toString();
+}
+
+/**
+ * Password reset email
+ */
+export function passwordResetMail(
+  to: string,
+  token: string,
+  expiresInMinutes: number
+): MailMessage {
+  const link = appLink('/reset-password', token);
+
+  return {
+    to,
+    subject: 'Reset your password',
+    text: [
+      'We received a request to reset your password.',
+      `Open the link below to choose a new one (valid for ${expiresInMinutes} minutes):`,
+      link,
+      '',
+      'If you did not request this, you can ignore this email.',
+    ].join('\n'),
+    html: `<p>We received a request to reset your password.</p>
+<p><a href="${link}">Choose a new password</a> (valid for ${expiresInMinutes} minutes).</p>
+<p>If you did not request this, you can ignore this email.</p>`,
+  };
+}
+
+/**
+ * Email address verification email
+ */
+export function emailVerificationMail(
+  to: string,
+  token: string,
+  expiresInHours: number
+): MailMessage {
+  const link = appLink('/verify-email', token);
+
+  return {
+    to,
+    subject: 'Verify your email address',
+    text: [
+      'Please confirm your email address by opening the link below',
+      `(valid for ${expiresInHours} hours):`,
+      link,
+    ].join('\n'),
+    html: `<p>Please confirm your email address.</p>
+<p><a href="${link}">Verify email</a> (valid for ${expiresInHours} hours).</p>`,
+  };
+}
@@ -0,0 +1,142 @@
+import jwt from 'jsonwebtoken';
+import type { PreviewEntityType, PreviewLink } from '@prisma/client';
+import { config } from '@/config';
+import type { ExtendedPrismaClient } from '@/database/prisma';
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { hasPermission } from '@/auth/permissions';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('PREVIEWS');
+
+/**
+ * Audience of preview tokens, so they are never accepted as access tokens or vice versa
+ */
+const PREVIEW_TOKEN_AUDIENCE = 'preview';
+
+/**
+ * Lifetime of a preview link when none is given, and the longest allowed (seconds)
+ */
+export const DEFAULT_PREVIEW_TTL_SECONDS = 7 * 24 * 60 * 60;
+export const MAX_PREVIEW_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Permission needed to create preview links for, and read unpublished versions of, each type
+ */
+export const PREVIEW_PERMISSIONS: Record<PreviewEntityType, { read: string; update: string }> = {
+  NEWS_ARTICLE: { read: 'news:read', update: 'news:update' },
+  CONTENT: { read: 'content:read', update: 'content:update' },
+};
+
+/**
+ * Live article or content entry a preview link can point to
+ */
+export function findPreviewEntity(
+  client: Pick<ExtendedPrismaClient, 'newsArticle' | 'content'>,
+  tenantId: string,
+  type: PreviewEntityType,
+  id: string
+): Promise<{ id: string; tenantId: string; [key: string]: any } | null> {
+  const where = { id, tenantId, deletedAt: null };
+  return type === 'NEWS_ARTICLE'
+    ? client.newsArticle.findFirst({ where })
+    : client.content.findFirst({ where });
+}
+
+interface PreviewTokenPayload {
+  pid: string;
+}
+
+/**
+ * Sign the token of a preview link; it expires with the link
+ */
+export function signPreviewToken(link: Pick<PreviewLink, 'id' | 'expiresAt'>): string {
+  return jwt.sign(
+    { pid: link.id, exp: Math.floor(link.expiresAt.getTime() / 1000) },
+    config.jwt.secret,
+    { audience: PREVIEW_TOKEN_AUDIENCE }
+  );
+}
+
+function invalidPreviewError(): AppError {
+  return new AppError('Invalid or expired preview token', ErrorType.AUTHENTICATION_ERROR, 401);
+}
+
+/**
+ * Check a preview token against one entity and log the use
+ * The signature and expiry are checked first; the link must also be unrevoked and
+ * belong to the entity and tenant being read
+ */
+export async function usePreviewToken(
+  context: GraphQLContext,
+  token: string,
+  entity: { type: PreviewEntityType; id: string; tenantId: string }
+): Promise<PreviewLink> {
+  let payload: PreviewTokenPayload;
+  try {
+    payload = jwt.verify(token, config.jwt.secret, {
+      audience: PREVIEW_TOKEN_AUDIENCE,
+    }) as PreviewTokenPayload;
+  } catch {
+    throw invalidPreviewError();
+  }
+
+  const link = await context.prisma.previewLink.findFirst({
+    where: { id: payload.pid, tenantId: entity.tenantId },
+  });
+
+  if (
+    !link ||
+    link.revokedAt ||
+    link.expiresAt <= new Date() ||
+    link.entityType !== entity.type ||
+    link.entityId !== entity.id
+  ) {
+    throw invalidPreviewError();
+  }
+
+  await context.prisma.previewLink.update({
+    where: { id: link.id },
+    data: {
+      lastUsedAt: new Date(),
+      useCount: { increment: 1 },
+      uses: {
+        create: {
+          ipAddress: context.req?.ip,
+          userAgent: context.req?.get('User-Agent'),
+        },
+      },
+    },
+  });
+
+  logger.info(`Preview link used: ${link.id}`, {
+    entityType: link.entityType,
+    entityId: link.entityId,
+    ipAddress: context.req?.ip,
+  });
+
+  return link;
+}
+
+/**
+ * Whether a record may be returned to the caller of a public query
+ * Published records are public; unpublished ones need read access or a preview token
+ */
+export async function canViewEntity(
+  context: GraphQLContext,
+  type: PreviewEntityType,
+  record: { id: string; tenantId: string; [key: string]: any },
+  isPublished: boolean,
+  previewToken?: string | null
+): Promise<boolean> {
+  // Every presented token is checked and logged, even for published records
+  if (previewToken) {
+    await usePreviewToken(context, previewToken, {
+      type,
+      id: record.id,
+      tenantId: record.tenantId,
+    });
+    return true;
+  }
+
+  return isPublished || hasPermission(context.user, PREVIEW_PERMISSIONS[type].read, record);
+}
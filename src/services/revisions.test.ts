@@ -0,0 +1,75 @@
+import { diffRevisionSnapshots, recordNewsRevision, restoreLinksFromSnapshot } from './revisions';
+import { MemoryStore, createMemoryPrismaClient } from '../../tests/helpers/memory-prisma';
+
+describe('news revision links', () => {
+  let store: MemoryStore;
+  let db: any;
+
+  beforeEach(() => {
+    store = {
+      NewsArticle: [{ id: 'article-1', tenantId: 'A', title: { en: 'Article' }, deletedAt: null }],
+      NewsArticleRevision: [],
+      NewsArticleTag: [
+        { id: 'link-1', articleId: 'article-1', tagId: 'tag-1' },
+        { id: 'link-2', articleId: 'article-1', tagId: 'tag-2' },
+        { id: 'link-3', articleId: 'other', tagId: 'tag-3' },
+      ],
+      NewsArticleContributor: [
+        { id: 'byline-1', articleId: 'article-1', authorId: 'author-2', position: 0 },
+        { id: 'byline-2', articleId: 'article-1', authorId: 'author-1', position: 1 },
+      ],
+      Tag: [
+        { id: 'tag-1', tenantId: 'A', deletedAt: null },
+        { id: 'tag-2', tenantId: 'A', deletedAt: new Date() },
+      ],
+      AuthorProfile: [
+        { id: 'author-1', tenantId: 'A', deletedAt: null },
+        { id: 'author-2', tenantId: 'A', deletedAt: null },
+      ],
+    };
+    db = createMemoryPrismaClient(store, 'A');
+  });
+
+  it('stores the tag and contributor ids of the article in the snapshot', async () => {
+    await recordNewsRevision(db, store.NewsArticle[0]);
+
+    expect(store.NewsArticleRevision[0].snapshot).toMatchObject({
+      title: { en: 'Article' },
+      tagIds: ['tag-1', 'tag-2'],
+      contributorIds: ['author-2', 'author-1'],
+    });
+  });
+
+  it('restores the links of a snapshot, leaving out deleted tags', async () => {
+    const data = await restoreLinksFromSnapshot(db, {
+      tagIds: ['tag-2', 'tag-1'],
+      contributorIds: ['author-1', 'author-2'],
+    });
+
+    expect(data).toEqual({
+      tags: { deleteMany: {}, create: [{ tagId: 'tag-1' }] },
+      contributors: {
+        deleteMany: {},
+        create: [
+          { authorId: 'author-1', position: 0 },
+          { authorId: 'author-2', position: 1 },
+        ],
+      },
+    });
+  });
+
+  it('leaves the links alone for snapshots taken before links were versioned', async () => {
+    expect(await restoreLinksFromSnapshot(db, { title: { en: 'Article' } })).toEqual({});
+  });
+
+  it('reports link changes in revision diffs', () => {
+    const changes = diffRevisionSnapshots(
+      { tagIds: ['tag-1'], contributorIds: ['author-1'] },
+      { tagIds: ['tag-1', 'tag-2'], contributorIds: ['author-1'] }
+    );
+
+    expect(changes).toEqual([
+      { field: 'tagIds', language: null, from: ['tag-1'], to: ['tag-1', 'tag-2'] },
+    ]);
+  });
+});
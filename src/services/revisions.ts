@@ -0,0 +1,333 @@
+import { Prisma, TenantPlan } from '@prisma/client';
+import { prisma, ExtendedPrismaClient } from '@/database/prisma';
+import { createLogger } from '@/utils/logger';
+import { replaceTagLinks } from '@/services/tags';
+import { replaceContributorLinks } from '@/services/authors';
+
+const logger = createLogger('REVISIONS');
+
+/**
+ * Revisions kept per news article for each tenant plan (null keeps every revision)
+ */
+export const REVISION_RETENTION: Record<TenantPlan, number | null> = {
+  FREE: 10,
+  BASIC: 50,
+  PRO: 200,
+  ENTERPRISE: null,
+};
+
+/**
+ * Article fields captured in a revision snapshot
+ */
+export const NEWS_REVISION_FIELDS = [
+  'title',
+  'slug',
+  'excerpt',
+  'subtitle',
+  'byline',
+  'blocks',
+  'featuredImageId',
+  'categoryId',
+  'location',
+  'source',
+  'priority',
+  'isBreaking',
+  'isFeatured',
+  'metaTitle',
+  'metaDescription',
+  'socialImage',
+  'keywords',
+  'status',
+  'publishedAt',
+  'scheduledAt',
+  'unpublishAt',
+] as const;
+
+/**
+ * Link fields captured in a revision snapshot: tag ids, and contributor ids in byline order
+ */
+export const NEWS_REVISION_LINK_FIELDS = ['tagIds', 'contributorIds'] as const;
+
+/**
+ * Publishing fields are kept in snapshots but never restored;
+ * a restore changes the copy, not whether or when the article is live
+ */
+const NON_RESTORABLE_FIELDS = new Set(['status', 'publishedAt', 'scheduledAt', 'unpublishAt']);
+
+export type NewsRevisionSnapshot = Record<(typeof NEWS_REVISION_FIELDS)[number], any> &
+  Record<(typeof NEWS_REVISION_LINK_FIELDS)[number], string[]>;
+
+/**
+ * Single change between two revisions; `language` is set for changes inside a
+ * multilingual field such as `{"en": ..., "mn": ...}`
+ */
+export interface RevisionChange {
+  field: string;
+  language: string | null;
+  from: any;
+  to: any;
+}
+
+type RevisionClient = Pick<
+  ExtendedPrismaClient,
+  'newsArticleRevision' | 'newsArticleTag' | 'newsArticleContributor' | '$queryRaw'
+>;
+
+type RestoreClient = Pick<ExtendedPrismaClient, 'tag' | 'authorProfile'>;
+
+/**
+ * Tag and contributor ids of a news article
+ */
+export interface NewsArticleLinks {
+  tagIds: string[];
+  contributorIds: string[];
+}
+
+/**
+ * Convert a value into its JSON representation (Dates become ISO strings)
+ */
+function toJson(value: any): any {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Nullable Json columns of NewsArticle; null must be written as `Prisma.DbNull`
+ */
+function nullableJsonFields(): Set<string> {
+  const model = Prisma.dmmf.datamodel.models.find(m => m.name === 'NewsArticle');
+  return new Set(
+    (model?.fields || [])
+      .filter(field => field.type === 'Json' && !field.isRequired)
+      .map(field => field.name)
+  );
+}
+
+/**
+ * Capture the revisioned fields and links of a news article
+ */
+export function snapshotNewsArticle(
+  article: Record<string, any>,
+  links: NewsArticleLinks
+): NewsRevisionSnapshot {
+  const snapshot = { ...links } as NewsRevisionSnapshot;
+  for (const field of NEWS_REVISION_FIELDS) {
+    snapshot[field] = toJson(article[field]);
+  }
+  return snapshot;
+}
+
+/**
+ * Read the current tag and contributor links of a news article
+ */
+async function loadNewsArticleLinks(
+  client: RevisionClient,
+  articleId: string
+): Promise<NewsArticleLinks> {
+  const tags = await client.newsArticleTag.findMany({
+    where: { articleId },
+    select: { tagId: true },
+  });
+  const contributors = await client.newsArticleContributor.findMany({
+    where: { articleId },
+    orderBy: { position: 'asc' },
+    select: { authorId: true },
+  });
+
+  return {
+    tagIds: tags.map(link => link.tagId),
+    contributorIds: contributors.map(link => link.authorId),
+  };
+}
+
+/**
+ * Lock the article row until the surrounding transaction ends
+ */
+async function lockNewsArticle(client: RevisionClient, articleId: string): Promise<void> {
+  await client.$queryRaw`SELECT id FROM news_articles WHERE id = ${articleId} FOR UPDATE`;
+}
+
+/**
+ * Store an immutable revision holding the current state of a news article
+ * Must run inside the transaction that saves the article: the article row is
+ * locked so concurrent saves take version numbers one after another
+ */
+export async function recordNewsRevision(
+  client: RevisionClient,
+  article: Record<string, any>,
+  options: { userId?: string | null; restoredFromId?: string; createdAt?: Date } = {}
+) {
+  await lockNewsArticle(client, article.id);
+
+  // Pruned revisions still hold their version number
+  const { _max } = await client.newsArticleRevision.aggregate({
+    where: { articleId: article.id },
+    _max: { version: true },
+  });
+
+  return client.newsArticleRevision.create({
+    data: {
+      version: (_max.version || 0) + 1,
+      snapshot: snapshotNewsArticle(article, await loadNewsArticleLinks(client, article.id)),
+      restoredFromId: options.restoredFromId,
+      articleId: article.id,
+      createdById: options.userId || null,
+      tenantId: article.tenantId,
+      ...(options.createdAt && { createdAt: options.createdAt }),
+    },
+  });
+}
+
+/**
+ * Record the pre-update state of an article saved before revisions existed,
+ * so its first tracked update can still be rolled back
+ */
+export async function ensureNewsRevisionBaseline(
+  client: RevisionClient,
+  article: Record<string, any>
+): Promise<void> {
+  await lockNewsArticle(client, article.id);
+
+  const existing = await client.newsArticleRevision.count({
+    where: { articleId: article.id },
+  });
+  if (existing > 0) return;
+
+  await recordNewsRevision(client, article, {
+    userId: article.updatedById || article.createdById,
+    createdAt: article.updatedAt,
+  });
+}
+
+/**
+ * Soft delete revisions beyond the retention limit of the tenant plan
+ * The newest revisions are kept; failures are logged and never fail the save
+ */
+export async function pruneNewsRevisions(
+  client: RevisionClient,
+  article: { id: string; tenantId: string }
+): Promise<number> {
+  try {
+    // Tenants are not tenant-scoped; read the plan with the root client
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: article.tenantId },
+      select: { plan: true },
+    });
+    const limit = REVISION_RETENTION[tenant?.plan || 'FREE'];
+    if (limit === null) return 0;
+
+    const expired = await client.newsArticleRevision.findMany({
+      where: { articleId: article.id, deletedAt: null },
+      orderBy: { version: 'desc' },
+      skip: limit,
+      select: { id: true },
+    });
+    if (expired.length === 0) return 0;
+
+    const { count } = await client.newsArticleRevision.deleteMany({
+      where: { id: { in: expired.map(revision => revision.id) } },
+    });
+
+    logger.info(`Pruned ${count} revisions of news article ${article.id}`, {
+      tenantId: article.tenantId,
+      limit,
+    });
+    return count;
+  } catch (error) {
+    logger.error('Failed to prune news article revisions', error as Error, {
+      articleId: article.id,
+    });
+    return 0;
+  }
+}
+
+/**
+ * Diff two revision snapshots field by field
+ * Multilingual fields (JSON objects keyed by language) are diffed per language
+ */
+export function diffRevisionSnapshots(
+  from: Record<string, any>,
+  to: Record<string, any>
+): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+
+  for (const field of [...NEWS_REVISION_FIELDS, ...NEWS_REVISION_LINK_FIELDS]) {
+    const before = from?.[field] ?? null;
+    const after = to?.[field] ?? null;
+    if (isEqual(before, after)) continue;
+
+    if ((before === null || isPlainObject(before)) && (after === null || isPlainObject(after))) {
+      const languages = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+      for (const language of languages) {
+        const fromValue = before?.[language] ?? null;
+        const toValue = after?.[language] ?? null;
+        if (!isEqual(fromValue, toValue)) {
+          changes.push({ field, language, from: fromValue, to: toValue });
+        }
+      }
+      continue;
+    }
+
+    changes.push({ field, language: null, from: before, to: after });
+  }
+
+  return changes;
+}
+
+/**
+ * Build the article update that brings its copy back to a snapshot
+ */
+export function restoreDataFromSnapshot(snapshot: Record<string, any>): Record<string, any> {
+  const jsonFields = nullableJsonFields();
+  const data: Record<string, any> = {};
+
+  for (const field of NEWS_REVISION_FIELDS) {
+    if (NON_RESTORABLE_FIELDS.has(field) || !(field in snapshot)) continue;
+
+    const value = snapshot[field];
+    data[field] = value === null && jsonFields.has(field) ? Prisma.DbNull : value;
+  }
+
+  return data;
+}
+
+/**
+ * Build the nested writes that bring the tag and contributor links back to a snapshot
+ * Tags and profiles deleted since are left out; snapshots taken before links were
+ * versioned carry no link fields and leave the links untouched
+ */
+export async function restoreLinksFromSnapshot(
+  client: RestoreClient,
+  snapshot: Record<string, any>
+): Promise<Record<string, any>> {
+  const data: Record<string, any> = {};
+
+  if (Array.isArray(snapshot.tagIds)) {
+    const tags = await client.tag.findMany({
+      where: { id: { in: snapshot.tagIds }, deletedAt: null },
+      select: { id: true },
+    });
+    const found = new Set(tags.map(tag => tag.id));
+    data.tags = replaceTagLinks(snapshot.tagIds.filter((id: string) => found.has(id)));
+  }
+
+  if (Array.isArray(snapshot.contributorIds)) {
+    const authors = await client.authorProfile.findMany({
+      where: { id: { in: snapshot.contributorIds }, deletedAt: null },
+      select: { id: true },
+    });
+    const found = new Set(authors.map(author => author.id));
+    data.contributors = replaceContributorLinks(
+      snapshot.contributorIds.filter((id: string) => found.has(id))
+    );
+  }
+
+  return data;
+}
@@ -0,0 +1,92 @@
+import { publishingScheduler } from './scheduler';
+import { webhookDispatcher } from '@/services/webhooks';
+import { MemoryStore, createMemoryPrismaClient } from '../../tests/helpers/memory-prisma';
+
+// The scheduler runs on the root client; point it at an in-memory store
+const mockDatabase: { prisma?: unknown } = {};
+jest.mock('@/database/prisma', () => ({
+  ...jest.requireActual('@/database/prisma'),
+  get prisma() {
+    return mockDatabase.prisma;
+  },
+}));
+
+const now = new Date('2024-06-01T12:00:00Z');
+const scheduledAt = new Date('2024-06-01T09:00:00Z');
+
+function scheduledArticle(publishedAt: Date | null) {
+  return {
+    id: 'article-1',
+    tenantId: 'A',
+    slug: 'article-1',
+    title: { en: 'Article' },
+    blocks: { en: [] },
+    status: 'SCHEDULED',
+    publishedAt,
+    scheduledAt,
+    unpublishAt: null,
+    deletedAt: null,
+  };
+}
+
+describe('publishingScheduler.runDue', () => {
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = {
+      Tenant: [{ id: 'A', plan: 'ENTERPRISE', deletedAt: null }],
+      NewsArticle: [],
+      NewsArticleRevision: [],
+      Content: [],
+      AuditLog: [],
+    };
+    mockDatabase.prisma = createMemoryPrismaClient(store);
+    jest.spyOn(webhookDispatcher, 'emit').mockResolvedValue();
+  });
+
+  it('publishes at the scheduled time even when the article was published before', async () => {
+    store.NewsArticle.push(scheduledArticle(new Date('2023-01-01T00:00:00Z')));
+
+    const result = await publishingScheduler.runDue(now);
+
+    expect(result.newsPublished).toBe(1);
+    expect(store.NewsArticle[0]).toMatchObject({ status: 'PUBLISHED', publishedAt: scheduledAt });
+  });
+
+  it('records the audit entry and a revision with the status change', async () => {
+    store.NewsArticle.push(scheduledArticle(null));
+
+    await publishingScheduler.runDue(now);
+
+    expect(store.AuditLog).toHaveLength(1);
+    expect(store.AuditLog[0]).toMatchObject({
+      entity: 'NewsArticle',
+      entityId: 'article-1',
+      changes: { status: { from: 'SCHEDULED', to: 'PUBLISHED' } },
+    });
+    // Baseline of the scheduled article, then the published state
+    expect(store.NewsArticleRevision.map(revision => revision.snapshot.status)).toEqual([
+      'SCHEDULED',
+      'PUBLISHED',
+    ]);
+    expect(webhookDispatcher.emit).toHaveBeenCalledWith(
+      'A',
+      'news.published',
+      expect.objectContaining({ id: 'article-1', status: 'PUBLISHED' })
+    );
+  });
+
+  it('records nothing for a worker that loses the conditional update', async () => {
+    store.NewsArticle.push(scheduledArticle(null));
+
+    const results = await Promise.all([
+      publishingScheduler.runDue(now),
+      publishingScheduler.runDue(now),
+    ]);
+
+    expect(results.map(result => result.newsPublished).sort()).toEqual([0, 1]);
+    expect(store.AuditLog).toHaveLength(1);
+    expect(store.NewsArticleRevision).toHaveLength(2);
+    expect(webhookDispatcher.emit).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,275 @@
+import { randomUUID } from 'crypto';
+import { config } from '@/config';
+import { prisma } from '@/database/prisma';
+import { redisClient } from '@/database/redis';
+import { AppError, ErrorType } from '@/types';
+import { createLogger } from '@/utils/logger';
+import { recordAudit } from '@/services/audit';
+import {
+  ensureNewsRevisionBaseline,
+  pruneNewsRevisions,
+  recordNewsRevision,
+} from '@/services/revisions';
+import { WebhookEvent, webhookDispatcher } from '@/services/webhooks';
+
+const logger = createLogger('SCHEDULER');
+
+/**
+ * Redis lock electing the instance that runs a scheduler tick
+ */
+const LOCK_KEY = 'scheduler:publishing:lock';
+
+/**
+ * Maximum number of items of each kind handled per tick
+ */
+const BATCH_SIZE = 100;
+
+/**
+ * Status given to items whose unpublish time has passed
+ */
+const EXPIRED_STATUS = 'ARCHIVED';
+
+/**
+ * Result of a single scheduler tick
+ */
+export interface SchedulerRunResult {
+  newsPublished: number;
+  newsUnpublished: number;
+  contentPublished: number;
+  contentUnpublished: number;
+}
+
+type SchedulableModel = 'newsArticle' | 'content';
+
+interface Transition {
+  model: SchedulableModel;
+  entity: 'NewsArticle' | 'Content';
+  event: WebhookEvent;
+  from: 'SCHEDULED' | 'PUBLISHED';
+  to: 'PUBLISHED' | typeof EXPIRED_STATUS;
+  dueField: 'scheduledAt' | 'unpublishAt';
+}
+
+const TRANSITIONS: Record<keyof SchedulerRunResult, Transition> = {
+  newsPublished: {
+    model: 'newsArticle',
+    entity: 'NewsArticle',
+    event: 'news.published',
+    from: 'SCHEDULED',
+    to: 'PUBLISHED',
+    dueField: 'scheduledAt',
+  },
+  newsUnpublished: {
+    model: 'newsArticle',
+    entity: 'NewsArticle',
+    event: 'news.unpublished',
+    from: 'PUBLISHED',
+    to: EXPIRED_STATUS,
+    dueField: 'unpublishAt',
+  },
+  contentPublished: {
+    model: 'content',
+    entity: 'Content',
+    event: 'content.published',
+    from: 'SCHEDULED',
+    to: 'PUBLISHED',
+    dueField: 'scheduledAt',
+  },
+  contentUnpublished: {
+    model: 'content',
+    entity: 'Content',
+    event: 'content.unpublished',
+    from: 'PUBLISHED',
+    to: EXPIRED_STATUS,
+    dueField: 'unpublishAt',
+  },
+};
+
+/**
+ * Publishing scheduler
+ * Periodically publishes SCHEDULED news and content whose `scheduledAt` has passed and
+ * archives published items whose `unpublishAt` has passed. A Redis lock elects one
+ * instance per tick; each row is additionally flipped with a conditional update so an
+ * item is never published twice even without Redis.
+ */
+class PublishingScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Start the periodic scheduler
+   */
+  start(): void {
+    if (this.timer || !config.scheduler.enabled) return;
+
+    const intervalMs = config.scheduler.intervalSeconds * 1000;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Scheduler tick failed', error as Error));
+    }, intervalMs);
+    this.timer.unref();
+
+    logger.info('Publishing scheduler started', {
+      intervalSeconds: config.scheduler.intervalSeconds,
+    });
+  }
+
+  /**
+   * Stop the periodic scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Publishing scheduler stopped');
+    }
+  }
+
+  /**
+   * Run one tick if this instance wins the lock
+   */
+  async tick(): Promise<SchedulerRunResult | null> {
+    if (this.running) return null;
+    this.running = true;
+
+    const token = randomUUID();
+    // The lock outlives a tick comfortably but expires if this instance dies mid-run
+    const lockTtlMs = config.scheduler.intervalSeconds * 2 * 1000;
+    const locked = await redisClient.acquireLock(LOCK_KEY, token, lockTtlMs);
+
+    if (!locked && redisClient.isHealthy()) {
+      // Another instance is running this tick
+      this.running = false;
+      return null;
+    }
+
+    try {
+      return await this.runDue();
+    } finally {
+      if (locked) {
+        await redisClient.releaseLock(LOCK_KEY, token);
+      }
+      this.running = false;
+    }
+  }
+
+  /**
+   * Apply every due transition
+   */
+  async runDue(now: Date = new Date()): Promise<SchedulerRunResult> {
+    const result: SchedulerRunResult = {
+      newsPublished: 0,
+      newsUnpublished: 0,
+      contentPublished: 0,
+      contentUnpublished: 0,
+    };
+
+    for (const key of Object.keys(TRANSITIONS) as (keyof SchedulerRunResult)[]) {
+      result[key] = await this.apply(TRANSITIONS[key], now);
+    }
+
+    if (Object.values(result).some(count => count > 0)) {
+      logger.info('Scheduled publishing run completed', result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Flip due items of one transition, returning how many were changed
+   */
+  private async apply(transition: Transition, now: Date): Promise<number> {
+    const due = await (prisma[transition.model] as any).findMany({
+      where: {
+        status: transition.from,
+        [transition.dueField]: { lte: now },
+        deletedAt: null,
+      },
+      orderBy: { [transition.dueField]: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    let changed = 0;
+
+    for (const item of due) {
+      const data: Record<string, any> = { status: transition.to };
+      if (transition.to === 'PUBLISHED') {
+        // A scheduled item goes live at the time it was scheduled for, even if it was published before
+        data.publishedAt = item.scheduledAt || now;
+      }
+
+      // The audit entry and revision are written with the flip, so only the winner records them
+      const updated = await prisma.$transaction(async tx => {
+        const client = tx[transition.model] as any;
+
+        // Conditional update: only the worker that still sees the old status wins
+        const { count } = await client.updateMany({
+          where: { id: item.id, status: transition.from },
+          data,
+        });
+        if (count === 0) return null;
+
+        const after = { ...item, ...data };
+        if (transition.model === 'newsArticle') {
+          await ensureNewsRevisionBaseline(tx, item);
+          await recordNewsRevision(tx, after);
+        }
+        await recordAudit(
+          null,
+          {
+            entity: transition.entity,
+            entityId: item.id,
+            action: 'UPDATE',
+            before: item,
+            after,
+            tenantId: item.tenantId,
+            metadata: { source: 'scheduler', trigger: transition.dueField },
+          },
+          tx
+        );
+        return after;
+      });
+      if (!updated) continue;
+
+      changed++;
+      if (transition.model === 'newsArticle') {
+        await pruneNewsRevisions(prisma, updated);
+      }
+      await webhookDispatcher.emit(item.tenantId, transition.event, updated);
+
+      logger.info(`Scheduler set ${transition.entity} ${item.id} to ${transition.to}`, {
+        tenantId: item.tenantId,
+      });
+    }
+
+    return changed;
+  }
+}
+
+// Create and export singleton instance
+export const publishingScheduler = new PublishingScheduler();
+
+/**
+ * Validate scheduling fields of a news article or content item
+ * SCHEDULED items need a publish time, and an unpublish time must come after it
+ */
+export function assertValidSchedule(item: {
+  status?: string | null;
+  scheduledAt?: Date | string | null;
+  unpublishAt?: Date | string | null;
+}): void {
+  if (item.status === 'SCHEDULED' && !item.scheduledAt) {
+    throw new AppError(
+      'scheduledAt is required for SCHEDULED items',
+      ErrorType.VALIDATION_ERROR,
+      400
+    );
+  }
+
+  if (
+    item.scheduledAt &&
+    item.unpublishAt &&
+    new Date(item.unpublishAt) <= new Date(item.scheduledAt)
+  ) {
+    throw new AppError('unpublishAt must be after scheduledAt', ErrorType.VALIDATION_ERROR, 400);
+  }
+}
@@ -0,0 +1,82 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import { searchTenant, toPrefixTsQuery } from './search';
+
+/**
+ * Client that records the raw queries of a search and answers them with `rows`
+ */
+function recordingClient(rows: any[]) {
+  const queries: Prisma.Sql[] = [];
+  const client = {
+    $queryRaw: (strings: TemplateStringsArray, ...values: any[]) => {
+      const query = Prisma.sql(strings, ...values);
+      queries.push(query);
+      return query;
+    },
+    $transaction: async (batch: unknown[]) => batch.map((_, index) => (index === 0 ? [] : rows)),
+  };
+  return { client: client as any, queries };
+}
+
+const options = { query: 'Mongolia news', language: 'mn', types: ['NEWS' as const], limit: 10 };
+
+describe('toPrefixTsQuery', () => {
+  it('matches every word by prefix', () => {
+    expect(toPrefixTsQuery('Хүүхэд, Mongolia!')).toBe('хүүхэд:* & mongolia:*');
+    expect(toPrefixTsQuery(' !? ')).toBeNull();
+  });
+});
+
+describe('searchTenant', () => {
+  it('searches the published rows of the requested types in the tenant', async () => {
+    const { client, queries } = recordingClient([]);
+    await searchTenant(client, 'A', options);
+
+    const [threshold, search] = queries;
+    expect(threshold.values).toEqual(['0.4']);
+    expect(search.sql).toContain('FROM news_articles n');
+    expect(search.sql).toContain("n.status = 'PUBLISHED'");
+    expect(search.sql).not.toContain('FROM content c');
+    expect(search.values).toEqual(
+      expect.arrayContaining(['mongolia:* & news:*', 'Mongolia news', 'A', 'mn', 10])
+    );
+  });
+
+  it('filters candidates with the expressions the migration indexes', async () => {
+    const { client, queries } = recordingClient([]);
+    await searchTenant(client, 'A', { ...options, types: ['NEWS', 'CONTENT', 'PRODUCT'] });
+
+    const migration = readFileSync(
+      path.join(__dirname, '../../migrations/add-search-indexes.sql'),
+      'utf8'
+    );
+    const expressions = queries[1].sql.match(
+      /search_text\([^)]*\)( \|\| ' ' \|\| search_text\([^)]*\))*/g
+    );
+
+    expect(expressions).toHaveLength(6);
+    for (const expression of expressions!) {
+      expect(migration).toContain(expression.replace(/\b[ncp]\./g, ''));
+    }
+  });
+
+  it('escapes snippets and marks the matches', async () => {
+    const { client } = recordingClient([
+      { type: 'NEWS', id: '1', slug: 'a', title: 'A', rank: '0.5', snippet: '⟦News⟧ <b>x</b>' },
+    ]);
+
+    const [result] = await searchTenant(client, 'A', options);
+
+    expect(result.rank).toBe(0.5);
+    expect(result.snippet).toBe('<mark>News</mark> &lt;b&gt;x&lt;&#x2F;b&gt;');
+  });
+
+  it('does not query without words or types', async () => {
+    const { client, queries } = recordingClient([]);
+
+    expect(await searchTenant(client, 'A', { ...options, query: '…' })).toEqual([]);
+    expect(await searchTenant(client, 'A', { ...options, types: [] })).toEqual([]);
+    expect(queries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,234 @@
+import { Prisma } from '@prisma/client';
+import type { ExtendedPrismaClient } from '@/database/prisma';
+import { sanitizeHtml } from '@/utils';
+
+/**
+ * Searchable record types
+ */
+export const SEARCH_TYPES = ['NEWS', 'CONTENT', 'PRODUCT'] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+/**
+ * Minimum pg_trgm word similarity for a title or keyword match without any
+ * full-text hit (catches typos such as "mongolai" for "mongolia")
+ */
+const TRIGRAM_THRESHOLD = 0.4;
+
+/**
+ * Weight of the trigram similarity relative to the full-text rank
+ */
+const TRIGRAM_WEIGHT = 0.3;
+
+/**
+ * Highlight markers emitted by ts_headline; they are swapped for `<mark>` after escaping
+ */
+const HIGHLIGHT_START = '⟦';
+const HIGHLIGHT_END = '⟧';
+
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+/**
+ * JSON paths of readable text inside the blocks of one language
+ */
+const BLOCK_TEXT_PATHS = [
+  '$[*].data.text',
+  '$[*].data.title',
+  '$[*].data.citation',
+  '$[*].data.caption',
+  '$[*].data.items[*]',
+  '$[*].data.rows[*][*]',
+  '$[*].data.images[*].caption',
+];
+
+export interface SearchOptions {
+  query: string;
+  language: string;
+  types: SearchType[];
+  limit: number;
+}
+
+export interface SearchResult {
+  type: SearchType;
+  id: string;
+  slug: string;
+  title: string;
+  /** HTML-escaped excerpt with matches wrapped in `<mark>` */
+  snippet: string;
+  rank: number;
+}
+
+/**
+ * Split a query into words and build a prefix tsquery (`word:* & word:*`)
+ * Prefix matching lets "хүүхэд" find the suffixed forms Mongolian builds on it,
+ * which the `simple` configuration does not stem
+ */
+export function toPrefixTsQuery(query: string): string | null {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  return words?.length ? words.map(word => `${word}:*`).join(' & ') : null;
+}
+
+/**
+ * Text of one language of a `{ lang: string }` field
+ */
+function localizedText(column: Prisma.Sql, language: string): Prisma.Sql {
+  return Prisma.sql`coalesce(${column} ->> ${language}::text, '')`;
+}
+
+/**
+ * Words of one language of a `{ lang: string[] }` keyword field
+ */
+function localizedKeywords(column: Prisma.Sql, language: string): Prisma.Sql {
+  return Prisma.sql`coalesce((
+    SELECT string_agg(keyword, ' ')
+    FROM jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(${column} -> ${language}::text) = 'array' THEN ${column} -> ${language}::text ELSE '[]'::jsonb END
+    ) AS keyword
+  ), '')`;
+}
+
+/**
+ * Readable text of the blocks of one language
+ */
+function blocksText(column: Prisma.Sql, language: string): Prisma.Sql {
+  const parts = BLOCK_TEXT_PATHS.map(
+    path =>
+      Prisma.sql`SELECT jsonb_path_query(${column} -> ${language}::text, ${path}::jsonpath) AS part`
+  );
+  return Prisma.sql`coalesce((
+    SELECT string_agg(part #>> '{}', ' ')
+    FROM (${Prisma.join(parts, ' UNION ALL ')}) AS parts
+    WHERE jsonb_typeof(part) = 'string'
+  ), '')`;
+}
+
+/**
+ * Language-independent candidate filter of each table, served by the GIN expression indexes
+ * of migrations/add-search-indexes.sql; the expressions must stay identical to the indexed ones.
+ * `search_text` folds every string of a JSON value (all languages) into one accent-free text,
+ * so the filter keeps every row the per-language ranking below could match
+ */
+function candidateFilter(document: string, titles: string): Prisma.Sql {
+  return Prisma.sql`(
+    to_tsvector('simple', ${Prisma.raw(document)}) @@ (SELECT tsquery FROM search)
+    OR (SELECT plain FROM search) <% (${Prisma.raw(titles)})
+  )`;
+}
+
+const NEWS_CANDIDATES = candidateFilter(
+  `search_text(n.title) || ' ' || search_text(n.keywords) || ' ' || search_text(n.excerpt) || ' ' || search_text(n.blocks)`,
+  `search_text(n.title) || ' ' || search_text(n.keywords)`
+);
+
+const CONTENT_CANDIDATES = candidateFilter(
+  `search_text(c.title) || ' ' || search_text(c.excerpt) || ' ' || search_text(c.content)`,
+  `search_text(c.title)`
+);
+
+const PRODUCT_CANDIDATES = candidateFilter(
+  `search_text(p.name) || ' ' || search_text(p."searchKeywords") || ' ' || search_text(p."shortDescription") || ' ' || search_text(p.description)`,
+  `search_text(p.name) || ' ' || search_text(p."searchKeywords")`
+);
+
+/**
+ * Published or active records of each type as (title, keywords, excerpt, body) documents
+ */
+function documentQueries(tenantId: string, language: string): Record<SearchType, Prisma.Sql> {
+  return {
+    NEWS: Prisma.sql`
+      SELECT 'NEWS' AS type, n.id, n.slug,
+        ${localizedText(Prisma.sql`n.title`, language)} AS title,
+        ${localizedKeywords(Prisma.sql`n.keywords`, language)} AS keywords,
+        ${localizedText(Prisma.sql`n.excerpt`, language)} AS excerpt,
+        ${blocksText(Prisma.sql`n.blocks`, language)} AS body
+      FROM news_articles n
+      WHERE n."tenantId" = ${tenantId} AND n."deletedAt" IS NULL
+        AND n.status = 'PUBLISHED' AND n."publishedAt" <= now()
+        AND ${NEWS_CANDIDATES}`,
+    CONTENT: Prisma.sql`
+      SELECT 'CONTENT' AS type, c.id, c.slug,
+        ${localizedText(Prisma.sql`c.title`, language)} AS title,
+        '' AS keywords,
+        ${localizedText(Prisma.sql`c.excerpt`, language)} AS excerpt,
+        ${localizedText(Prisma.sql`c.content`, language)} AS body
+      FROM content c
+      WHERE c."tenantId" = ${tenantId} AND c."deletedAt" IS NULL AND c.status = 'PUBLISHED'
+        AND ${CONTENT_CANDIDATES}`,
+    PRODUCT: Prisma.sql`
+      SELECT 'PRODUCT' AS type, p.id, p.slug,
+        ${localizedText(Prisma.sql`p.name`, language)} AS title,
+        ${localizedKeywords(Prisma.sql`p."searchKeywords"`, language)} AS keywords,
+        ${localizedText(Prisma.sql`p."shortDescription"`, language)} AS excerpt,
+        ${localizedText(Prisma.sql`p.description`, language)} AS body
+      FROM merch_products p
+      WHERE p."tenantId" = ${tenantId} AND p."deletedAt" IS NULL AND p.status = 'ACTIVE'
+        AND ${PRODUCT_CANDIDATES}`,
+  };
+}
+
+/**
+ * Swap the ts_headline markers for `<mark>` once the text is escaped
+ */
+function highlight(snippet: string): string {
+  return sanitizeHtml(snippet)
+    .split(HIGHLIGHT_START)
+    .join('<mark>')
+    .split(HIGHLIGHT_END)
+    .join('</mark>');
+}
+
+/**
+ * Ranked full-text search over one tenant's published news, content and active products
+ * Titles weigh most, then keywords, excerpts and body text. Words are accent-folded with
+ * `unaccent` and matched by prefix; a trigram match on the title or keywords stands in
+ * when no word matches (e.g. typos)
+ */
+export async function searchTenant(
+  prisma: ExtendedPrismaClient,
+  tenantId: string,
+  options: SearchOptions
+): Promise<SearchResult[]> {
+  const tsquery = toPrefixTsQuery(options.query);
+  if (!tsquery || options.types.length === 0) return [];
+
+  const queries = documentQueries(tenantId, options.language);
+  const documents = Prisma.join(
+    options.types.map(type => queries[type]),
+    ' UNION ALL '
+  );
+
+  // The trigram candidate filter (`<%`) uses the session threshold, so set it for this transaction
+  const [, rows] = await prisma.$transaction([
+    prisma.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(TRIGRAM_THRESHOLD)}, true)`,
+    prisma.$queryRaw<
+      { type: SearchType; id: string; slug: string; title: string; snippet: string; rank: number }[]
+    >`
+    WITH search AS (
+      SELECT to_tsquery('simple', unaccent(${tsquery}::text)) AS tsquery,
+        unaccent(lower(${options.query}::text)) AS plain
+    ),
+    documents AS (${documents}),
+    scored AS (
+      SELECT d.*,
+        setweight(to_tsvector('simple', unaccent(d.title)), 'A') ||
+        setweight(to_tsvector('simple', unaccent(d.keywords)), 'B') ||
+        setweight(to_tsvector('simple', unaccent(d.excerpt)), 'C') ||
+        setweight(to_tsvector('simple', unaccent(d.body)), 'D') AS vector,
+        word_similarity(s.plain, unaccent(lower(d.title || ' ' || d.keywords))) AS similarity
+      FROM documents d, search s
+    ),
+    ranked AS (
+      SELECT sc.*, ts_rank_cd(sc.vector, s.tsquery) + sc.similarity * ${TRIGRAM_WEIGHT} AS rank
+      FROM scored sc, search s
+      WHERE sc.vector @@ s.tsquery OR sc.similarity >= ${TRIGRAM_THRESHOLD}
+      ORDER BY rank DESC, sc.id
+      LIMIT ${options.limit}
+    )
+    SELECT r.type, r.id, r.slug, r.title, r.rank::float8 AS rank,
+      ts_headline('simple', concat_ws(' ', nullif(r.excerpt, ''), nullif(r.body, '')), s.tsquery, ${HEADLINE_OPTIONS}) AS snippet
+    FROM ranked r, search s
+    ORDER BY r.rank DESC, r.id
+  `,
+  ]);
+
+  return rows.map(row => ({ ...row, rank: Number(row.rank), snippet: highlight(row.snippet) }));
+}
@@ -0,0 +1,120 @@
+import { matchRedirect, normalizePath, recordSlugChange, resolveSitePath } from './slugs';
+import { MemoryStore, createMemoryPrismaClient } from '../../tests/helpers/memory-prisma';
+
+const languages = ['en', 'mn'];
+
+function redirect(source: string, target: string, statusCode = 301) {
+  return { id: source, tenantId: 'A', source, target, statusCode, deletedAt: null };
+}
+
+describe('normalizePath', () => {
+  it('drops the query, hash and trailing slashes', () => {
+    expect(normalizePath('en/news/a/?utm=1#top')).toBe('/en/news/a');
+    expect(normalizePath('/')).toBe('/');
+  });
+});
+
+describe('matchRedirect', () => {
+  const redirects = [
+    redirect('/old', '/new'),
+    redirect('/blog/*', '/en/news/*', 308),
+    redirect('/blog/archive/*', '/archive'),
+  ];
+
+  it('prefers an exact source, then the longest wildcard prefix', () => {
+    expect(matchRedirect(redirects, '/old')).toEqual({ target: '/new', statusCode: 301 });
+    expect(matchRedirect(redirects, '/blog/post')).toEqual({
+      target: '/en/news/post',
+      statusCode: 308,
+    });
+    expect(matchRedirect(redirects, '/blog/archive/2020')).toEqual({
+      target: '/archive',
+      statusCode: 301,
+    });
+    expect(matchRedirect(redirects, '/blog')).toEqual({ target: '/en/news/', statusCode: 308 });
+  });
+
+  it('ignores wildcards when asked for exact matches only', () => {
+    expect(matchRedirect(redirects, '/blog/post', false)).toBeNull();
+  });
+});
+
+describe('resolveSitePath', () => {
+  let store: MemoryStore;
+  let db: any;
+
+  beforeEach(() => {
+    store = {
+      Redirect: [redirect('/en/news/pinned', '/en/about', 302), redirect('/en/news/*', '/en')],
+      NewsArticle: [
+        {
+          id: 'article-1',
+          tenantId: 'A',
+          slug: 'renamed',
+          status: 'PUBLISHED',
+          publishedAt: new Date('2024-01-01T00:00:00Z'),
+          deletedAt: null,
+        },
+        {
+          id: 'draft',
+          tenantId: 'A',
+          slug: 'draft',
+          status: 'DRAFT',
+          publishedAt: null,
+          deletedAt: null,
+        },
+      ],
+      Content: [],
+      MerchProduct: [],
+      SlugHistory: [],
+    };
+    db = createMemoryPrismaClient(store, 'A');
+  });
+
+  it('shows a published entity under its current slug', async () => {
+    expect(await resolveSitePath(db, 'A', '/mn/news/renamed', languages)).toEqual({
+      statusCode: 200,
+      entityType: 'NEWS_ARTICLE',
+      entityId: 'article-1',
+      language: 'mn',
+      slug: 'renamed',
+      redirectTo: null,
+    });
+  });
+
+  it('redirects a former slug to the current path', async () => {
+    await recordSlugChange(
+      db,
+      { tenantId: 'A', type: 'NEWS_ARTICLE', id: 'article-1' },
+      'original',
+      'renamed'
+    );
+
+    expect(await resolveSitePath(db, 'A', '/en/news/original/', languages)).toMatchObject({
+      statusCode: 301,
+      entityId: 'article-1',
+      redirectTo: '/en/news/renamed',
+    });
+  });
+
+  it('lets exact redirects win and wildcard redirects catch the rest', async () => {
+    expect(await resolveSitePath(db, 'A', '/en/news/pinned', languages)).toMatchObject({
+      statusCode: 302,
+      redirectTo: '/en/about',
+    });
+    // Current slugs win over wildcard redirects
+    expect(await resolveSitePath(db, 'A', '/en/news/renamed', languages)).toMatchObject({
+      statusCode: 200,
+    });
+    // Unpublished articles fall through to the wildcard
+    expect(await resolveSitePath(db, 'A', '/en/news/draft', languages)).toMatchObject({
+      statusCode: 301,
+      redirectTo: '/en',
+    });
+  });
+
+  it('returns null for unknown paths and unsupported languages', async () => {
+    expect(await resolveSitePath(db, 'A', '/de/news/renamed', languages)).toBeNull();
+    expect(await resolveSitePath(db, 'A', '/en/shop/missing', languages)).toBeNull();
+  });
+});
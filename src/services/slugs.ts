@@ -0,0 +1,197 @@
+import type { Redirect } from '@prisma/client';
+import type { ExtendedPrismaClient } from '@/database/prisma';
+import { SiteEntityType, entityPath, parseEntityPath } from '@/libs/site';
+
+type SlugClient = Pick<
+  ExtendedPrismaClient,
+  'slugHistory' | 'redirect' | 'newsArticle' | 'content' | 'merchProduct'
+>;
+
+/**
+ * Status codes a tenant redirect may use
+ */
+export const REDIRECT_STATUS_CODES = [301, 302, 307, 308];
+
+/**
+ * Suffix of a redirect source that matches every path below it
+ */
+export const REDIRECT_WILDCARD = '/*';
+
+export interface SlugResolution {
+  /** 200 when the path shows an entity, otherwise the redirect status */
+  statusCode: number;
+  entityType: SiteEntityType | null;
+  entityId: string | null;
+  language: string | null;
+  slug: string | null;
+  /** Site path or absolute URL to redirect to */
+  redirectTo: string | null;
+}
+
+/**
+ * Remember the slug an entity gave up so its old path keeps working
+ */
+export async function recordSlugChange(
+  client: Pick<ExtendedPrismaClient, 'slugHistory'>,
+  entity: { tenantId: string; type: SiteEntityType; id: string },
+  previousSlug: string,
+  slug: string
+): Promise<void> {
+  if (previousSlug === slug) return;
+
+  await client.slugHistory.upsert({
+    where: {
+      entityType_slug_tenantId: {
+        entityType: entity.type,
+        slug: previousSlug,
+        tenantId: entity.tenantId,
+      },
+    },
+    update: { entityId: entity.id },
+    create: {
+      entityType: entity.type,
+      entityId: entity.id,
+      slug: previousSlug,
+      tenantId: entity.tenantId,
+    },
+  });
+}
+
+/**
+ * Normalize a site path for matching: no query, hash or trailing slash
+ */
+export function normalizePath(path: string): string {
+  const pathname = path.split(/[?#]/)[0].trim();
+  const withSlash = pathname.startsWith('/') ? pathname : `/${pathname}`;
+  return withSlash.replace(/\/+$/, '') || '/';
+}
+
+/**
+ * Target of the redirect matching a path: an exact source, or else the wildcard source
+ * with the longest prefix. A `*` in the target is replaced by the rest of the path
+ */
+export function matchRedirect(
+  redirects: Pick<Redirect, 'source' | 'target' | 'statusCode'>[],
+  pathname: string,
+  wildcards = true
+): { target: string; statusCode: number } | null {
+  const exact = redirects.find(redirect => redirect.source === pathname);
+  if (exact) return { target: exact.target, statusCode: exact.statusCode };
+  if (!wildcards) return null;
+
+  const match = redirects
+    .filter(redirect => redirect.source.endsWith(REDIRECT_WILDCARD))
+    .map(redirect => ({ redirect, prefix: redirect.source.slice(0, -1) }))
+    .filter(({ prefix }) => pathname.startsWith(prefix) || `${pathname}/` === prefix)
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+  if (!match) return null;
+
+  const rest = pathname.slice(match.prefix.length);
+  return {
+    target: match.redirect.target.replace('*', rest),
+    statusCode: match.redirect.statusCode,
+  };
+}
+
+/**
+ * Live, publicly visible entity of a type with a slug
+ */
+function findPublicEntity(
+  client: SlugClient,
+  tenantId: string,
+  type: SiteEntityType,
+  where: { slug: string } | { id: string }
+): Promise<{ id: string; slug: string } | null> {
+  const select = { id: true, slug: true };
+  switch (type) {
+    case 'NEWS_ARTICLE':
+      return client.newsArticle.findFirst({
+        where: {
+          ...where,
+          tenantId,
+          status: 'PUBLISHED',
+          publishedAt: { lte: new Date() },
+          deletedAt: null,
+        },
+        select,
+      });
+    case 'CONTENT':
+      return client.content.findFirst({
+        where: { ...where, tenantId, status: 'PUBLISHED', deletedAt: null },
+        select,
+      });
+    case 'MERCH_PRODUCT':
+      return client.merchProduct.findFirst({
+        where: { ...where, tenantId, status: 'ACTIVE', deletedAt: null },
+        select,
+      });
+  }
+}
+
+function redirectResolution(statusCode: number, redirectTo: string): SlugResolution {
+  return {
+    statusCode,
+    entityType: null,
+    entityId: null,
+    language: null,
+    slug: null,
+    redirectTo,
+  };
+}
+
+/**
+ * Resolve a public site path to the entity it shows or to a redirect
+ * Exact tenant redirects win; then current slugs, then former slugs (301 to the current
+ * path), then wildcard redirects. Null means the path is not found
+ */
+export async function resolveSitePath(
+  client: SlugClient,
+  tenantId: string,
+  path: string,
+  languages: string[]
+): Promise<SlugResolution | null> {
+  const pathname = normalizePath(path);
+  const redirects = await client.redirect.findMany({
+    where: { tenantId, deletedAt: null },
+    select: { source: true, target: true, statusCode: true },
+  });
+
+  const exact = matchRedirect(redirects, pathname, false);
+  if (exact) return redirectResolution(exact.statusCode, exact.target);
+
+  const parsed = parseEntityPath(pathname, languages);
+  if (parsed) {
+    const current = await findPublicEntity(client, tenantId, parsed.type, { slug: parsed.slug });
+    if (current) {
+      return {
+        statusCode: 200,
+        entityType: parsed.type,
+        entityId: current.id,
+        language: parsed.language,
+        slug: current.slug,
+        redirectTo: null,
+      };
+    }
+
+    const former = await client.slugHistory.findUnique({
+      where: {
+        entityType_slug_tenantId: { entityType: parsed.type, slug: parsed.slug, tenantId },
+      },
+    });
+    const renamed =
+      former && (await findPublicEntity(client, tenantId, parsed.type, { id: former.entityId }));
+    if (renamed) {
+      return {
+        statusCode: 301,
+        entityType: parsed.type,
+        entityId: renamed.id,
+        language: parsed.language,
+        slug: renamed.slug,
+        redirectTo: entityPath(parsed.type, parsed.language, renamed.slug),
+      };
+    }
+  }
+
+  const wildcard = matchRedirect(redirects, pathname);
+  return wildcard ? redirectResolution(wildcard.statusCode, wildcard.target) : null;
+}
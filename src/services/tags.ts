@@ -0,0 +1,66 @@
+import { AppError, ErrorType } from '@/types';
+import type { ExtendedPrismaClient } from '@/database/prisma';
+import { localizedFields } from '@/libs/localization';
+
+type TagClient = Pick<ExtendedPrismaClient, 'tag'>;
+
+/**
+ * Relation counts loaded with tags; links to deleted news and content are not counted
+ */
+export const TAG_USAGE_COUNT = {
+  _count: {
+    select: {
+      newsArticles: { where: { article: { deletedAt: null } } },
+      content: { where: { content: { deletedAt: null } } },
+    },
+  },
+};
+
+/**
+ * Check that tag ids exist in the tenant and are not deleted
+ * Returns the ids without duplicates, in the order given
+ */
+export async function resolveTagIds(client: TagClient, tagIds: string[]): Promise<string[]> {
+  const ids = Array.from(new Set(tagIds));
+  if (ids.length === 0) return [];
+
+  const tags = await client.tag.findMany({
+    where: { id: { in: ids }, deletedAt: null },
+    select: { id: true },
+  });
+
+  const found = new Set(tags.map(tag => tag.id));
+  const missing = ids.filter(id => !found.has(id));
+  if (missing.length > 0) {
+    throw new AppError('Unknown tags', ErrorType.VALIDATION_ERROR, 400, true, { tagIds: missing });
+  }
+
+  return ids;
+}
+
+/**
+ * Nested write that replaces the tag links of a news article or content entry
+ * Link rows are hard-deleted: they carry no deletedAt column, and nested writes
+ * bypass the soft-delete extension
+ */
+export function replaceTagLinks(tagIds: string[]) {
+  return {
+    deleteMany: {},
+    create: tagIds.map(tagId => ({ tagId })),
+  };
+}
+
+/**
+ * Read the name and description of a tag in a language; without a language the
+ * request language is used
+ */
+export function localizeTag<T extends { name: any; description: any }>(
+  tag: T,
+  language?: string | string[]
+) {
+  if (!language) return tag;
+  return {
+    ...tag,
+    ...localizedFields(tag, ['name', 'description'], language),
+  };
+}
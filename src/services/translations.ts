@@ -0,0 +1,230 @@
+import type { ExtendedPrismaClient } from '@/database/prisma';
+import {
+  DEFAULT_LOCALE_SETTINGS,
+  hasTranslation,
+  isLocalizedText,
+  translatedLanguages,
+} from '@/libs/localization';
+
+type TranslationClient = Pick<
+  ExtendedPrismaClient,
+  'newsArticle' | 'content' | 'merchProduct' | 'newsCategory' | 'merchCategory'
+>;
+
+export type TranslatableType =
+  | 'NEWS_ARTICLE'
+  | 'CONTENT'
+  | 'MERCH_PRODUCT'
+  | 'NEWS_CATEGORY'
+  | 'MERCH_CATEGORY';
+
+/**
+ * Multilingual JSON fields of each translatable model; the first one is its title
+ */
+export const TRANSLATABLE_FIELDS: Record<TranslatableType, string[]> = {
+  NEWS_ARTICLE: [
+    'title',
+    'subtitle',
+    'excerpt',
+    'byline',
+    'blocks',
+    'location',
+    'metaTitle',
+    'metaDescription',
+    'keywords',
+  ],
+  CONTENT: ['title', 'content', 'excerpt'],
+  MERCH_PRODUCT: [
+    'name',
+    'description',
+    'shortDescription',
+    'metaTitle',
+    'metaDescription',
+    'searchKeywords',
+  ],
+  NEWS_CATEGORY: ['name', 'description'],
+  MERCH_CATEGORY: ['name', 'description'],
+};
+
+/**
+ * Permission needed to see translation reports of each type
+ */
+export const TRANSLATION_READ_PERMISSIONS: Record<TranslatableType, string> = {
+  NEWS_ARTICLE: 'news:read',
+  CONTENT: 'content:read',
+  MERCH_PRODUCT: 'merch:read',
+  NEWS_CATEGORY: 'category:update',
+  MERCH_CATEGORY: 'category:update',
+};
+
+export interface TranslationStatus {
+  language: string;
+  /** Every field in use has a translation */
+  complete: boolean;
+  /** Share of the fields in use that are translated, from 0 to 1 */
+  completeness: number;
+  translatedFields: string[];
+  missingFields: string[];
+}
+
+export interface UntranslatedItem {
+  entityType: TranslatableType;
+  entityId: string;
+  slug: string | null;
+  title: any;
+  completeness: number;
+  missingFields: string[];
+  updatedAt: Date;
+}
+
+/**
+ * Per-language completeness of a record's multilingual fields
+ * Optional fields left empty in every language are not counted. Languages default to
+ * the tenant's supported languages plus any other language the record has text in
+ */
+export function translationStatus(
+  record: Record<string, any>,
+  type: TranslatableType,
+  languages?: string[],
+  supportedLanguages = DEFAULT_LOCALE_SETTINGS.supportedLanguages
+): TranslationStatus[] {
+  const fields = TRANSLATABLE_FIELDS[type].filter(
+    field => translatedLanguages(record[field]).length > 0
+  );
+  const checked =
+    languages ??
+    Array.from(
+      new Set([
+        ...supportedLanguages,
+        ...fields.flatMap(field => translatedLanguages(record[field])),
+      ])
+    );
+
+  return checked.map(language => {
+    const translatedFields = fields.filter(field => hasTranslation(record[field], language));
+    const missingFields = fields.filter(field => !translatedFields.includes(field));
+    return {
+      language,
+      complete: missingFields.length === 0,
+      completeness: fields.length ? translatedFields.length / fields.length : 1,
+      translatedFields,
+      missingFields,
+    };
+  });
+}
+
+/**
+ * Whether a record's title (or name) has text in a language
+ * With `strictLanguage`, queries leave out records for which this is false
+ */
+export function isTranslated(
+  record: Record<string, any>,
+  type: TranslatableType,
+  language: string
+): boolean {
+  return hasTranslation(record[TRANSLATABLE_FIELDS[type][0]], language);
+}
+
+/**
+ * Where condition matching the records `isTranslated` accepts, for paginated lists
+ * The value is compared as text, so missing and JSON null translations never match
+ */
+export function translatedWhere(type: TranslatableType, language: string) {
+  return { [TRANSLATABLE_FIELDS[type][0]]: { path: [language], string_contains: '' } };
+}
+
+/**
+ * Whether a record still holds its multilingual JSON rather than fields already
+ * localized or wrapped by a query
+ */
+function hasRawTranslations(record: Record<string, any>, type: TranslatableType): boolean {
+  return TRANSLATABLE_FIELDS[type].every(field => {
+    const value = record[field];
+    return (
+      value === null ||
+      (typeof value === 'object' && !Array.isArray(value) && !isLocalizedText(value))
+    );
+  });
+}
+
+/**
+ * Load the multilingual fields of records of one type, optionally limited to some ids
+ * Deleted records are skipped
+ */
+function loadTranslations(
+  client: TranslationClient,
+  tenantId: string,
+  type: TranslatableType,
+  ids?: string[]
+): Promise<Record<string, any>[]> {
+  const where = { tenantId, deletedAt: null, ...(ids && { id: { in: ids } }) };
+  const select = Object.fromEntries(
+    ['id', 'slug', 'updatedAt', ...TRANSLATABLE_FIELDS[type]].map(field => [field, true])
+  );
+  const args = { where, select, orderBy: { updatedAt: 'desc' as const } };
+
+  switch (type) {
+    case 'NEWS_ARTICLE':
+      return client.newsArticle.findMany(args);
+    case 'CONTENT':
+      return client.content.findMany(args);
+    case 'MERCH_PRODUCT':
+      return client.merchProduct.findMany(args);
+    case 'NEWS_CATEGORY':
+      return client.newsCategory.findMany(args);
+    case 'MERCH_CATEGORY':
+      return client.merchCategory.findMany(args);
+  }
+}
+
+/**
+ * Translation status of a record returned by a query
+ * Records localized to one language are reloaded to see all their translations
+ */
+export async function recordTranslationStatus(
+  client: TranslationClient,
+  record: Record<string, any>,
+  type: TranslatableType,
+  languages?: string[],
+  supportedLanguages?: string[]
+): Promise<TranslationStatus[]> {
+  if (hasRawTranslations(record, type)) {
+    return translationStatus(record, type, languages, supportedLanguages);
+  }
+
+  const [raw] = await loadTranslations(client, record.tenantId, type, [record.id]);
+  return raw ? translationStatus(raw, type, languages, supportedLanguages) : [];
+}
+
+/**
+ * Records of a tenant with fields missing in a language, most recently updated first
+ * Drafts are included so they can be translated before they are published
+ */
+export async function findUntranslatedItems(
+  client: TranslationClient,
+  tenantId: string,
+  language: string,
+  types: TranslatableType[]
+): Promise<UntranslatedItem[]> {
+  const items: UntranslatedItem[] = [];
+
+  for (const type of types) {
+    const records = await loadTranslations(client, tenantId, type);
+    for (const record of records) {
+      const [status] = translationStatus(record, type, [language]);
+      if (status.complete) continue;
+
+      items.push({
+        entityType: type,
+        entityId: record.id,
+        slug: record.slug ?? null,
+        title: record[TRANSLATABLE_FIELDS[type][0]],
+        completeness: status.completeness,
+        missingFields: status.missingFields,
+        updatedAt: record.updatedAt,
+      });
+    }
+  }
+
+  return items.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
@@ -0,0 +1,73 @@
+import { lookup } from 'dns/promises';
+import { assertSafeWebhookUrl, isBlockedAddress } from './webhooks';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const resolve = (...addresses: string[]) =>
+  (lookup as unknown as jest.Mock).mockResolvedValue(
+    addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 }))
+  );
+
+describe('isBlockedAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fe80::1',
+    'fd00:ec2::254',
+    '::ffff:127.0.0.1',
+    '::ffff:a00:1',
+  ])('blocks %s', address => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '::ffff:5db8:d822', '2606:2800:220:1:248:1893:25c8:1946'])(
+    'allows %s',
+    address => {
+      expect(isBlockedAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe('assertSafeWebhookUrl', () => {
+  it('accepts a host that resolves to public addresses', async () => {
+    resolve('93.184.216.34');
+    await expect(assertSafeWebhookUrl('https://hooks.example.com/in')).resolves.toBeUndefined();
+  });
+
+  it('rejects schemes other than HTTP(S)', async () => {
+    await expect(assertSafeWebhookUrl('file:///etc/passwd')).rejects.toThrow(
+      'Webhook URL must use'
+    );
+  });
+
+  it.each([
+    'http://localhost:3000/hook',
+    'http://127.0.0.1/hook',
+    'http://[::1]/hook',
+    'http://[::ffff:127.0.0.1]/hook',
+    'http://169.254.169.254/latest/meta-data',
+  ])('rejects %s', async url => {
+    await expect(assertSafeWebhookUrl(url)).rejects.toThrow('must not point to');
+  });
+
+  it('rejects a host when any resolved address is private', async () => {
+    resolve('93.184.216.34', '10.0.0.5');
+    await expect(assertSafeWebhookUrl('https://hooks.example.com/in')).rejects.toThrow(
+      'Webhook URL must not point to a private or local address'
+    );
+  });
+
+  it('rejects a host that does not resolve', async () => {
+    (lookup as unknown as jest.Mock).mockRejectedValue(new Error('ENOTFOUND'));
+    await expect(assertSafeWebhookUrl('https://missing.example.com')).rejects.toThrow(
+      'Webhook URL host could not be resolved'
+    );
+  });
+});
@@ -0,0 +1,480 @@
+import crypto from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Webhook, WebhookDelivery } from '@prisma/client';
+import { config } from '@/config';
+import { prisma } from '@/database/prisma';
+import { AppError, ErrorType, GraphQLContext } from '@/types';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('WEBHOOKS');
+
+/**
+ * Events that webhooks can subscribe to (`*` subscribes to all)
+ */
+export const WEBHOOK_EVENTS = [
+  'news.created',
+  'news.updated',
+  'news.published',
+  'news.unpublished',
+  'news.deleted',
+  'news.review.submitted',
+  'news.review.approved',
+  'news.review.changes_requested',
+  'news.category.created',
+  'news.category.updated',
+  'news.category.deleted',
+  'merch.product.created',
+  'merch.product.updated',
+  'merch.product.deleted',
+  'merch.category.created',
+  'merch.category.updated',
+  'merch.category.deleted',
+  'content.created',
+  'content.updated',
+  'content.published',
+  'content.unpublished',
+  'content.deleted',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WILDCARD_EVENT = '*';
+
+/**
+ * Retry behaviour stored in `Webhook.retryPolicy`
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  backoffMultiplier: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  initialDelayMs: 30 * 1000, // 30 seconds
+  backoffMultiplier: 2,
+  maxDelayMs: 60 * 60 * 1000, // 1 hour
+};
+
+/**
+ * Request timeout for a single delivery attempt
+ */
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * How long a claimed delivery is hidden from other workers while it is being sent
+ */
+const DELIVERY_LEASE_MS = 60 * 1000;
+
+/**
+ * Interval at which due retries are picked up
+ */
+const POLL_INTERVAL_MS = 5 * 1000;
+
+/**
+ * Stored response bodies are truncated to this length
+ */
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+/**
+ * Addresses webhooks may never reach: loopback, private, link-local (including the
+ * cloud metadata service at 169.254.169.254), carrier-grade NAT, multicast and reserved ranges
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  // NAT64 addresses could reach any of the IPv4 ranges above
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+/**
+ * Generate a webhook signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * HMAC-SHA256 signature over `<timestamp>.<body>`
+ * Receivers recompute it with the shared secret and reject stale timestamps
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not public
+ */
+export function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses (`::ffff:127.0.0.1`, `::ffff:7f00:1`) are checked as IPv4
+  const mapped = /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i.exec(address);
+  if (mapped) {
+    const [high, low] = [parseInt(mapped[2], 16), parseInt(mapped[3], 16)];
+    const ipv4 = mapped[1] || [high >> 8, high & 255, low >> 8, low & 255].join('.');
+    return BLOCKED_ADDRESSES.check(ipv4, 'ipv4');
+  }
+
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check that a webhook URL uses HTTP(S) and that every address its host resolves to is public
+ * Runs when a webhook is saved and again before each delivery, as DNS may change in between
+ */
+export async function assertSafeWebhookUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new AppError('Invalid webhook URL', ErrorType.VALIDATION_ERROR, 400);
+  }
+
+  const allowed = config.isProduction ? ['https:'] : ['https:', 'http:'];
+  if (!allowed.includes(parsed.protocol)) {
+    throw new AppError(
+      `Webhook URL must use ${allowed.join(' or ').replace(/:/g, '')}`,
+      ErrorType.VALIDATION_ERROR,
+      400
+    );
+  }
+
+  // IPv6 literals keep their brackets in `hostname`
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    throw new AppError(
+      'Webhook URL must not point to a local address',
+      ErrorType.VALIDATION_ERROR,
+      400
+    );
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+  } catch {
+    throw new AppError('Webhook URL host could not be resolved', ErrorType.VALIDATION_ERROR, 400);
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new AppError(
+      'Webhook URL must not point to a private or local address',
+      ErrorType.VALIDATION_ERROR,
+      400
+    );
+  }
+}
+
+/**
+ * Merge a stored retry policy with the defaults
+ */
+export function resolveRetryPolicy(retryPolicy: unknown): RetryPolicy {
+  const policy = (retryPolicy && typeof retryPolicy === 'object' ? retryPolicy : {}) as Partial<
+    Record<keyof RetryPolicy, unknown>
+  >;
+  const pick = (key: keyof RetryPolicy, min: number) =>
+    typeof policy[key] === 'number' && (policy[key] as number) >= min
+      ? (policy[key] as number)
+      : DEFAULT_RETRY_POLICY[key];
+
+  return {
+    maxAttempts: pick('maxAttempts', 1),
+    initialDelayMs: pick('initialDelayMs', 0),
+    backoffMultiplier: pick('backoffMultiplier', 1),
+    maxDelayMs: pick('maxDelayMs', 0),
+  };
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ */
+export function retryDelay(policy: RetryPolicy, attempts: number): number {
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempts - 1);
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+function subscribes(webhook: Webhook, event: string): boolean {
+  const events = Array.isArray(webhook.events) ? (webhook.events as string[]) : [];
+  return events.includes(event) || events.includes(WILDCARD_EVENT);
+}
+
+/**
+ * Webhook dispatcher
+ * Persists one delivery per subscribed webhook and sends it in the background.
+ * Failed attempts are retried with exponential backoff by a polling loop, so
+ * pending deliveries survive restarts and are shared safely between instances.
+ */
+class WebhookDispatcher {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  /**
+   * Start polling for due retries
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => logger.error('Webhook retry poll failed', error as Error));
+    }, POLL_INTERVAL_MS);
+    this.timer.unref();
+    logger.info('Webhook dispatcher started');
+  }
+
+  /**
+   * Stop polling (in-flight deliveries finish or are retried after their lease expires)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Webhook dispatcher stopped');
+    }
+  }
+
+  /**
+   * Record an event for every active webhook of the tenant subscribed to it
+   * Never throws: webhook problems must not fail the mutation that caused the event
+   */
+  async emit(tenantId: string, event: WebhookEvent, data: Record<string, any>): Promise<void> {
+    try {
+      const webhooks = await prisma.webhook.findMany({
+        where: { tenantId, isActive: true, deletedAt: null },
+      });
+
+      const occurredAt = new Date().toISOString();
+
+      for (const webhook of webhooks.filter(hook => subscribes(hook, event))) {
+        const delivery = await prisma.webhookDelivery.create({
+          data: {
+            webhookId: webhook.id,
+            event,
+            payload: JSON.parse(JSON.stringify({ event, tenantId, occurredAt, data })),
+            status: 'PENDING',
+            nextAttemptAt: new Date(),
+          },
+        });
+
+        this.dispatch(delivery.id);
+      }
+    } catch (error) {
+      logger.error('Failed to emit webhook event', error as Error, { tenantId, event });
+    }
+  }
+
+  /**
+   * Queue an existing delivery again with a fresh retry budget
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        error: null,
+      },
+    });
+
+    this.dispatch(delivery.id);
+    return delivery;
+  }
+
+  /**
+   * Attempt a delivery right away without waiting for the poller
+   */
+  private dispatch(deliveryId: string): void {
+    setImmediate(() => {
+      this.attempt(deliveryId).catch(error =>
+        logger.error('Webhook delivery failed', error as Error, { deliveryId })
+      );
+    });
+  }
+
+  /**
+   * Send all deliveries whose next attempt is due
+   */
+  private async processDue(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const due = await prisma.webhookDelivery.findMany({
+        where: {
+          status: { in: ['PENDING', 'RETRYING'] },
+          nextAttemptAt: { lte: new Date() },
+        },
+        select: { id: true },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: 50,
+      });
+
+      for (const { id } of due) {
+        await this.attempt(id);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Claim a due delivery so no other worker sends it concurrently
+   */
+  private async claim(deliveryId: string): Promise<boolean> {
+    const now = new Date();
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: {
+        id: deliveryId,
+        status: { in: ['PENDING', 'RETRYING'] },
+        nextAttemptAt: { lte: now },
+      },
+      data: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) },
+    });
+    return count === 1;
+  }
+
+  /**
+   * Perform one signed delivery attempt and record the outcome
+   */
+  private async attempt(deliveryId: string): Promise<void> {
+    if (!(await this.claim(deliveryId))) return;
+
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: true },
+    });
+    if (!delivery) return;
+
+    const { webhook } = delivery;
+    const attempts = delivery.attempts + 1;
+
+    if (!webhook.isActive || webhook.deletedAt) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'FAILED', error: 'Webhook is disabled', nextAttemptAt: null },
+      });
+      return;
+    }
+
+    const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as object) });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Mongolec-Webhooks/1.0',
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Delivery': delivery.id,
+      [TIMESTAMP_HEADER]: String(timestamp),
+    };
+    if (webhook.secret) {
+      headers[SIGNATURE_HEADER] = signWebhookPayload(webhook.secret, timestamp, body);
+    }
+
+    let responseCode: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      await assertSafeWebhookUrl(webhook.url);
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        redirect: 'manual',
+      });
+      responseCode = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+      if (!response.ok) {
+        error = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      error = (requestError as Error).message;
+    }
+
+    if (!error) {
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: 'SUCCESS',
+          attempts,
+          responseCode,
+          responseBody,
+          error: null,
+          deliveredAt: new Date(),
+          nextAttemptAt: null,
+        },
+      });
+      logger.debug('Webhook delivered', { deliveryId: delivery.id, event: delivery.event });
+      return;
+    }
+
+    const policy = resolveRetryPolicy(webhook.retryPolicy);
+    const exhausted = attempts >= policy.maxAttempts;
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: exhausted ? 'FAILED' : 'RETRYING',
+        attempts,
+        responseCode,
+        responseBody,
+        error,
+        nextAttemptAt: exhausted ? null : new Date(Date.now() + retryDelay(policy, attempts)),
+      },
+    });
+
+    logger.warn('Webhook delivery attempt failed', {
+      deliveryId: delivery.id,
+      webhookId: webhook.id,
+      attempts,
+      exhausted,
+      error,
+    });
+  }
+}
+
+// Create and export singleton instance
+export const webhookDispatcher = new WebhookDispatcher();
+
+/**
+ * Emit a webhook event for the request's tenant
+ */
+export async function emitWebhookEvent(
+  context: GraphQLContext,
+  event: WebhookEvent,
+  data: Record<string, any>
+): Promise<void> {
+  const tenantId = context.tenant?.id || context.user?.tenantId;
+  if (!tenantId) return;
+
+  await webhookDispatcher.emit(tenantId, event, data);
+}
@@ -14,6 +14,8 @@ export interface GraphQLContext {
   redis: Redis;
   user?: AuthenticatedUser;
   tenant?: Tenant;
+  sessionId?: string;
+  apiTokenId?: string;
   dataSources: {
     userService: any; // Will be defined with actual service classes
     tenantService: any;
@@ -31,6 +33,16 @@ export interface AuthenticatedUser {
   tenantId: string;
   roles: string[];
   permissions: string[];
+  grants: PermissionGrant[];
+}
+
+/**
+ * Effective permission grant resolved from a user's roles
+ */
+export interface PermissionGrant {
+  resource: string;
+  action: string;
+  conditions: Record<string, any>;
 }
 
 /**
@@ -44,6 +56,8 @@ export interface Tenant {
   status: TenantStatus;
   plan: TenantPlan;
   settings: TenantSettings;
+  /** Free-form tenant configuration, e.g. `locales` */
+  config?: Record<string, any>;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -129,14 +143,37 @@ export interface APIResponse<T = any> {
 
 /**
  * Pagination input interface
+ * Relay cursors (`first`/`after` or `last`/`before`), or a `page` number of `first` rows
  */
 export interface PaginationInput {
+  first?: number;
+  after?: string;
+  last?: number;
+  before?: string;
   page?: number;
-  limit?: number;
   orderBy?: string;
   orderDirection?: 'asc' | 'desc';
 }
 
+/**
+ * Relay connection page info
+ */
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+/**
+ * Relay connection of nodes with opaque cursors
+ */
+export interface Connection<T> {
+  edges: { cursor: string; node: T }[];
+  pageInfo: PageInfo;
+  totalCount: number;
+}
+
 /**
  * Filter and search input
  */
@@ -1,3 +1,5 @@
+import crypto from 'crypto';
+
 /**
  * Utility functions for the application
  */
@@ -14,6 +16,20 @@ export function generateRandomString(length: number): string {
   return result;
 }
 
+/**
+ * Generate a cryptographically secure random token (URL-safe)
+ */
+export function generateSecureToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Hash a token for storage so plaintext secrets never reach the database or cache
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 /**
  * Generate a slug from a string
  */
@@ -125,6 +141,18 @@ export function sanitizeHtml(input: string): string {
     .replace(/\//g, '&#x2F;');
 }
 
+/**
+ * Escape text for XML element content and attribute values
+ */
+export function escapeXml(input: string): string {
+  return input
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
 /**
  * Generate a unique filename
  */
@@ -215,6 +243,29 @@ export async function retry<T>(
   throw lastError!;
 }
 
+/**
+ * Parse a duration like `15m`, `7d` or `3600` (seconds) into milliseconds
+ */
+export function parseDuration(duration: string | number): number {
+  if (typeof duration === 'number') return duration * 1000;
+
+  const match = /^(\d+)\s*(ms|s|m|h|d|w)?$/.exec(duration.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${duration}`);
+  }
+
+  const units: Record<string, number> = {
+    ms: 1,
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+  };
+
+  return parseInt(match[1], 10) * units[match[2] || 's'];
+}
+
 /**
  * Parse JSON safely
  */
@@ -0,0 +1,158 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { createExtendedPrismaClient } from '@/database/prisma';
+
+type Row = Record<string, any>;
+
+/**
+ * Rows per model name, e.g. `{ NewsArticle: [...] }`
+ */
+export type MemoryStore = Record<string, Row[]>;
+
+function matchesValue(value: any, expected: any): boolean {
+  // Prisma ignores undefined filters
+  if (expected === undefined) return true;
+  if (expected === null) return value === null || value === undefined;
+  if (expected instanceof Date)
+    return value instanceof Date && value.getTime() === expected.getTime();
+  if (typeof expected === 'object') {
+    if ('in' in expected) return expected.in.includes(value);
+    if ('not' in expected) return !matchesValue(value, expected.not);
+    if ('lte' in expected) return value !== null && value !== undefined && value <= expected.lte;
+    throw new Error(`Unsupported filter in memory store: ${JSON.stringify(expected)}`);
+  }
+  return value === expected;
+}
+
+function matches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([field, expected]) =>
+    // Compound unique keys such as `entityType_slug_tenantId` hold fields of the row
+    field.includes('_') && !(field in row) && typeof expected === 'object'
+      ? matches(row, expected)
+      : matchesValue(row[field], expected)
+  );
+}
+
+/**
+ * Column values of write data; nested writes on relation fields are ignored, except
+ * connects and disconnects, which set the foreign key columns
+ * A connect must match a row, as in the database, unless the store leaves its model out
+ */
+function scalarData(store: MemoryStore, model: string, data: Row): Row {
+  const relations =
+    Prisma.dmmf.datamodel.models
+      .find(m => m.name === model)
+      ?.fields.filter(field => field.kind === 'object') || [];
+  const row = Object.fromEntries(
+    Object.entries(data).filter(([field]) => !relations.some(relation => relation.name === field))
+  );
+
+  for (const relation of relations) {
+    const keys = relation.relationFromFields || [];
+    const write = data[relation.name];
+    if (!keys.length || !write) continue;
+
+    if (write.disconnect === true) {
+      keys.forEach(key => (row[key] = null));
+    } else if (write.connect) {
+      if (
+        store[relation.type] &&
+        !store[relation.type].some(target => matches(target, write.connect))
+      ) {
+        throw Object.assign(new Error(`No ${relation.type} found to connect`), { code: 'P2025' });
+      }
+      keys.forEach((key, index) => (row[key] = write.connect[relation.relationToFields![index]]));
+    }
+  }
+  return row;
+}
+
+/**
+ * Answer queries from an in-memory store instead of the database
+ * Applied after the application's extension, so it sees the arguments that extension
+ * produced (tenant scoping, soft deletes) exactly as the database would
+ * Results are copies, so records read before a write keep their old values
+ */
+function memoryExtension(store: MemoryStore) {
+  return {
+    client: {
+      // Interactive transactions run their callback on the same client; batches run in order
+      async $transaction(this: any, arg: any) {
+        const client = Prisma.getExtensionContext(this);
+        if (typeof arg === 'function') return arg(client);
+        const results = [];
+        for (const query of arg) results.push(await query);
+        return results;
+      },
+    },
+    query: {
+      $allOperations: async ({ model, operation, args }: any) => {
+        // Raw SQL (row locks, search) has no effect on the store
+        if (!model) return operation === '$executeRaw' ? 0 : [];
+
+        const rows = (store[model] = store[model] || []);
+        const found = rows.filter(row => matches(row, args.where));
+
+        switch (operation) {
+          case 'findUnique':
+          case 'findFirst':
+            return found[0] ? { ...found[0] } : null;
+          case 'findMany':
+            return found.map(row => ({ ...row }));
+          case 'count':
+            return found.length;
+          case 'create': {
+            const row = {
+              id: `${model}-${rows.length + 1}`,
+              ...scalarData(store, model, args.data),
+            };
+            rows.push(row);
+            return { ...row };
+          }
+          case 'createMany':
+            for (const data of [args.data].flat()) {
+              rows.push({ id: `${model}-${rows.length + 1}`, ...scalarData(store, model, data) });
+            }
+            return { count: [args.data].flat().length };
+          case 'update': {
+            if (!found[0]) throw Object.assign(new Error('Record not found'), { code: 'P2025' });
+            return { ...Object.assign(found[0], scalarData(store, model, args.data)) };
+          }
+          case 'updateMany':
+            found.forEach(row => Object.assign(row, scalarData(store, model, args.data)));
+            return { count: found.length };
+          case 'upsert': {
+            if (found[0])
+              return { ...Object.assign(found[0], scalarData(store, model, args.update)) };
+            const row = {
+              id: `${model}-${rows.length + 1}`,
+              ...scalarData(store, model, args.create),
+            };
+            rows.push(row);
+            return { ...row };
+          }
+          case 'aggregate': {
+            const max = Object.fromEntries(
+              Object.keys(args._max || {}).map(field => {
+                const values = found.map(row => row[field]).filter(value => value != null);
+                return [field, values.length ? values.reduce((a, b) => (a > b ? a : b)) : null];
+              })
+            );
+            return { _max: max };
+          }
+          default:
+            throw new Error(`Unsupported operation in memory store: ${operation}`);
+        }
+      },
+    },
+  };
+}
+
+/**
+ * Client with the application's extension (tenant scoping and soft delete) over an
+ * in-memory store; the database is never contacted
+ */
+export function createMemoryPrismaClient(store: MemoryStore, tenantId?: string): any {
+  const base = new PrismaClient({ datasources: { db: { url: process.env.DATABASE_URL } } });
+  const references = base.$extends(memoryExtension(store)) as unknown as PrismaClient;
+  return createExtendedPrismaClient(base, tenantId, references).$extends(memoryExtension(store));
+}
@@ -0,0 +1,32 @@
+/**
+ * Test environment
+ * Config is validated on import, so the required variables are set before any test loads it
+ */
+process.env.NODE_ENV = 'test';
+process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgresql://test@localhost:5432/test';
+process.env.JWT_SECRET = 'test-jwt-secret-that-is-at-least-32-characters';
+process.env.ENCRYPTION_KEY = '12345678901234567890123456789012';
+process.env.MAIL_TRANSPORT = 'memory';
+process.env.SCHEDULER_ENABLED = 'false';
+process.env.B2_ENDPOINT = 'https://s3.test';
+process.env.B2_REGION = 'test';
+process.env.B2_ACCESS_KEY_ID = 'test';
+process.env.B2_SECRET_ACCESS_KEY = 'test';
+process.env.B2_BUCKET_NAME = 'test';
+process.env.B2_PUBLIC_URL = 'https://cdn.test';
+
+/**
+ * Tests never reach the database, but every client starts loading the query engine when it
+ * is constructed; a failed load (e.g. no engine built for this machine) is only reported
+ * once a query runs, instead of as an unhandled rejection that ends the test run
+ */
+jest.mock('@prisma/client', () => {
+  const actual = jest.requireActual('@prisma/client');
+  class PrismaClient extends actual.PrismaClient {
+    constructor(...args: any[]) {
+      super(...args);
+      (this as any)._engine?.libraryInstantiationPromise?.catch(() => undefined);
+    }
+  }
+  return { ...actual, PrismaClient };
+});